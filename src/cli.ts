@@ -5,37 +5,69 @@ import chalk from 'chalk';
 import { SnapshotAgent } from './snapshot-agent.js';
 import { ConfigManager } from './config.js';
 import { SchemaManager } from './schema-manager.js';
+import { Reporter } from './reporter.js';
+import type { ApiSnapshot, SnapshotComparison } from './types.js';
+import type { ApprovalDecision } from './services/baseline-service.js';
+
+// Approval decisions are stored with the space's baseline history so the web UI shows the same record, decisions on
+// endpoints that only exist in the config file go to the change log file
+async function recordApproval(
+  comparison: SnapshotComparison,
+  decision: ApprovalDecision,
+  reason: string,
+  options: { space: string; approver?: string },
+  newBaseline?: ApiSnapshot
+) {
+  const { DatabaseService } = await import('./database/database-service.js');
+  const { recordApproval: record } = await import('./services/change-log.js');
+  const dbService = new DatabaseService();
 
-// Change logging function
-async function logChange(comparison: any, status: 'approved' | 'rejected' | 'pending', reason: string, fs: any) {
-  const changeLogPath = './api-snapshot-changes.log.json';
-  
-  const changeEntry = {
-    timestamp: new Date().toISOString(),
-    endpoint: comparison.endpoint,
-    status,
-    reason,
-    changesCount: comparison.differences.length,
-    breakingChanges: comparison.differences.filter((d: any) => d.severity === 'breaking').length,
-    nonBreakingChanges: comparison.differences.filter((d: any) => d.severity === 'non-breaking').length,
-    differences: comparison.differences.map((d: any) => ({
-      path: d.path,
-      type: d.type,
-      severity: d.severity
-    }))
-  };
-  
-  let changeLog = [];
   try {
-    if (await fs.default.pathExists(changeLogPath)) {
-      changeLog = await fs.default.readJson(changeLogPath);
-    }
+    await record(dbService, comparison, decision, {
+      space: options.space,
+      approvedBy: options.approver || process.env.USER || process.env.USERNAME || 'cli',
+      reason,
+      newBaseline
+    });
   } catch (error) {
-    // Start with empty log if file doesn't exist or is corrupted
+    console.warn(chalk.yellow(`   ⚠️  Could not record decision: ${error instanceof Error ? error.message : error}`));
+  } finally {
+    dbService.close();
   }
-  
-  changeLog.push(changeEntry);
-  await fs.default.writeJson(changeLogPath, changeLog, { spaces: 2 });
+}
+
+// Every directory writing snapshot files, grouped by blob store: the config file, the config file spaces and the
+// spaces of the web server. `extraDirs` hold more files of the web server's store.
+async function loadSnapshotLayouts(configPath: string, extraDirs: string[] = []) {
+  const { existsSync } = await import('fs');
+  const { defaultBlobDir, groupLayoutsByStore, snapshotLayoutFor } = await import('./services/blob-store.js');
+  const { getSpaceSnapshotDirs } = await import('./services/baseline-service.js');
+  const configManager = new ConfigManager();
+
+  const webRoot = getSpaceSnapshotDirs('default');
+  const layouts = [{ blobDir: defaultBlobDir(), roots: [webRoot.snapshotDir, ...extraDirs], baselineRoots: [webRoot.baselineDir] }];
+
+  if (existsSync(configPath)) {
+    layouts.push(snapshotLayoutFor(configManager.loadConfig(configPath)));
+  }
+  for (const space of configManager.listSpaces()) {
+    layouts.push(snapshotLayoutFor(configManager.loadConfig(undefined, space)));
+  }
+
+  if (existsSync('./snapshots.db')) {
+    const { DatabaseService } = await import('./database/database-service.js');
+    const dbService = new DatabaseService();
+    try {
+      for (const space of dbService.listSpaces()) {
+        const { snapshotDir, baselineDir } = getSpaceSnapshotDirs(space.name);
+        layouts.push({ blobDir: defaultBlobDir(), roots: [snapshotDir], baselineRoots: [baselineDir] });
+      }
+    } finally {
+      dbService.close();
+    }
+  }
+
+  return groupLayoutsByStore(layouts);
 }
 
 const program = new Command();
@@ -109,21 +141,26 @@ program
   .description('Compare current API responses with baseline snapshots')
   .option('-c, --config <path>', 'Path to configuration file', './api-snapshot.config.json')
   .option('-e, --endpoint <name>', 'Compare only specific endpoint')
-  .option('--format <type>', 'Output format: table, json, text', 'table')
+  .option('--format <type>', 'Output format: table, json, text, junit, sarif', 'table')
+  .option('-o, --output <path>', 'Write the junit or sarif report to a file instead of stdout')
   .option('--details', 'Show detailed diff with old/new values')
   .option('--save-diff <path>', 'Save detailed diff to .diff.json file')
   .option('--only-breaking', 'Show only breaking changes')
   .option('--summary', 'Show summary only (no detailed differences)')
   .option('--interactive', 'Interactive approval workflow for changes')
   .option('--auto-approve', 'Automatically approve non-breaking changes')
+  .option('--space <name>', 'Space to record approval decisions in', 'default')
+  .option('--approver <name>', 'Name recorded with approval decisions (defaults to $USER)')
+  .option('--shape-only', 'Compare inferred response schemas instead of response values')
   .action(async (options) => {
     try {
       const agent = new SnapshotAgent(options.config);
       await agent.initialize();
       
+      const diffOptions = { shapeOnly: options.shapeOnly };
       const comparisons = options.endpoint
-        ? [await agent.compareEndpoint(options.endpoint)]
-        : await agent.compareAll();
+        ? [await agent.compareEndpoint(options.endpoint, diffOptions)]
+        : await agent.compareAll(diffOptions);
       
       // Save diff file if requested
       if (options.saveDiff) {
@@ -145,6 +182,33 @@ program
         console.log(JSON.stringify(comparisons, null, 2));
         return;
       }
+
+      // CI reports; the exit code still reflects breaking changes
+      if (options.format === 'junit' || options.format === 'sarif') {
+        const path = await import('path');
+        const formatter = options.format === 'junit'
+          ? new (await import('./plugins/formatters/junit-formatter.js')).JUnitFormatter()
+          : new (await import('./plugins/formatters/sarif-formatter.js')).SarifFormatter();
+        const report = formatter.format(comparisons.filter((c): c is SnapshotComparison => c !== null), {
+          details: options.details,
+          onlyBreaking: options.onlyBreaking,
+          summary: options.summary,
+          artifactUri: path.relative(process.cwd(), path.resolve(options.config)).split(path.sep).join('/')
+        });
+
+        if (options.output) {
+          const fs = await import('fs-extra');
+          await fs.default.writeFile(options.output, report, 'utf-8');
+          console.log(chalk.blue(`💾 ${options.format === 'junit' ? 'JUnit' : 'SARIF'} report saved to ${options.output}`));
+        } else {
+          console.log(report);
+        }
+
+        if (comparisons.some(c => c && c.differences.some(d => d.severity === 'breaking'))) {
+          process.exit(1);
+        }
+        return;
+      }
       
       let hasBreakingChanges = false;
       let hasAnyChanges = false;
@@ -213,7 +277,6 @@ program
       // Interactive approval workflow
       if (options.interactive && hasAnyChanges) {
         const inquirer = (await import('inquirer')).default;
-        const fs = await import('fs-extra');
         
         console.log(chalk.bold('\n🔍 Change Approval Workflow'));
         
@@ -230,7 +293,7 @@ program
           // Auto-approve non-breaking if requested
           if (breaking.length === 0 && options.autoApprove) {
             console.log(chalk.green('   ✅ Auto-approved (no breaking changes)'));
-            await logChange(comparison, 'approved', 'auto-approved (no breaking changes)', fs);
+            await recordApproval(comparison, 'approved', 'auto-approved (no breaking changes)', options);
             continue;
           }
           
@@ -251,19 +314,21 @@ program
           
           if (answer.action === 'approve' || answer.action === 'approve-and-update-baseline') {
             console.log(chalk.green(`   ✅ Approved by user`));
-            await logChange(comparison, 'approved', 'manually approved by user', fs);
             
             if (answer.action === 'approve-and-update-baseline') {
               console.log(chalk.blue(`   📌 Updating baseline...`));
-              await agent.captureEndpoint(comparison.endpoint, true);
+              const [result] = await agent.captureEndpoint(comparison.endpoint, true);
+              await recordApproval(comparison, 'approved', 'approved and baseline updated by user', options, result.snapshot);
+            } else {
+              await recordApproval(comparison, 'approved', 'manually approved by user', options);
             }
           } else if (answer.action === 'reject') {
             console.log(chalk.red(`   ❌ Rejected by user`));
-            await logChange(comparison, 'rejected', 'manually rejected by user', fs);
+            await recordApproval(comparison, 'rejected', 'manually rejected by user', options);
             hasBreakingChanges = true; // Treat rejected changes as breaking
           } else {
             console.log(chalk.yellow(`   ⏭️  Skipped`));
-            await logChange(comparison, 'pending', 'skipped during review', fs);
+            await recordApproval(comparison, 'pending', 'skipped during review', options);
           }
         }
       }
@@ -545,29 +610,51 @@ program
   .option('-e, --endpoint <name>', 'Show history for specific endpoint')
   .option('--days <number>', 'Show changes from last N days', '30')
   .option('--status <status>', 'Filter by status: approved, rejected, pending')
+  .option('--space <name>', 'Space whose approval history to show', 'default')
   .option('--summary', 'Show summary only')
   .action(async (options) => {
     try {
-      const fs = await import('fs-extra');
-      const changeLogPath = './api-snapshot-changes.log.json';
-      
-      if (!await fs.default.pathExists(changeLogPath)) {
-        console.log(chalk.yellow('📋 No change history found'));
-        return;
-      }
-      
-      const changeLog = await fs.default.readJson(changeLogPath);
+      const { DatabaseService } = await import('./database/database-service.js');
+      const { readChangeLog } = await import('./services/change-log.js');
+      const dbService = new DatabaseService();
       const daysAgo = new Date();
       daysAgo.setDate(daysAgo.getDate() - parseInt(options.days));
       
-      // Filter changes
-      let filteredChanges = changeLog.filter((entry: any) => {
-        const entryDate = new Date(entry.timestamp);
-        const matchesDate = entryDate >= daysAgo;
-        const matchesEndpoint = !options.endpoint || entry.endpoint === options.endpoint;
-        const matchesStatus = !options.status || entry.status === options.status;
-        return matchesDate && matchesEndpoint && matchesStatus;
-      });
+      // Decisions on endpoints of the config file are kept in the change log file
+      const loggedChanges = (await readChangeLog()).filter(change =>
+        new Date(change.timestamp) >= daysAgo &&
+        (!options.endpoint || change.endpoint === options.endpoint) &&
+        (!options.status || change.status === options.status)
+      );
+      
+      let filteredChanges: any[] = loggedChanges;
+      try {
+        const spaceRecord = dbService.getSpaceByName(options.space);
+        if (spaceRecord) {
+          const approvals = dbService.getBaselineApprovals(spaceRecord.id, {
+            endpoint_name: options.endpoint,
+            decision: options.status,
+            since: daysAgo
+          }).map(approval => ({
+            // SQLite timestamps are UTC without a zone designator
+            timestamp: `${approval.created_at.replace(' ', 'T')}Z`,
+            endpoint: approval.endpoint_name,
+            status: approval.decision,
+            reason: approval.reason || '',
+            approvedBy: approval.approved_by,
+            changesCount: approval.changes_count,
+            breakingChanges: approval.breaking_changes,
+            differences: approval.differences ? JSON.parse(approval.differences) : []
+          }));
+          filteredChanges = [...approvals, ...loggedChanges];
+        } else if (loggedChanges.length === 0) {
+          console.log(chalk.yellow(`📋 No change history found (space '${options.space}' does not exist)`));
+          return;
+        }
+      } finally {
+        dbService.close();
+      }
+      filteredChanges.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
       
       if (filteredChanges.length === 0) {
         console.log(chalk.yellow('📋 No changes found matching the criteria'));
@@ -624,7 +711,7 @@ program
               const time = new Date(change.timestamp).toLocaleTimeString();
               console.log(`   ${statusIcon} ${time} - ${change.endpoint}`);
               console.log(chalk.gray(`      ${change.changesCount} changes (${change.breakingChanges} breaking)`));
-              console.log(chalk.gray(`      ${change.reason}`));
+              console.log(chalk.gray(`      ${change.reason}${change.approvedBy ? ` (by ${change.approvedBy})` : ''}`));
               
               if (change.differences.length > 0) {
                 const breakingDiffs = change.differences.filter((d: any) => d.severity === 'breaking');
@@ -750,6 +837,338 @@ program
     }
   });
 
+program
+  .command('import-har <file>')
+  .description('Import endpoints recorded in browser devtools (HAR) into a space')
+  .option('--space <name>', 'Space to import into', 'default')
+  .option('--base-url <url>', 'Only import requests below this URL')
+  .option('--include-static', 'Also import documents, scripts, stylesheets, images and fonts')
+  .option('--min-occurrences <count>', 'Endpoints that must share a value before it becomes a space parameter', '2')
+  .option('--overwrite', 'Replace existing endpoints and parameters with the same name')
+  .option('--seed-baselines', 'Use the recorded responses as baselines instead of capturing')
+  .option('--approver <name>', 'Name recorded with seeded baselines (defaults to $USER)')
+  .action(async (file, options) => {
+    const { DatabaseService } = await import('./database/database-service.js');
+    const { HarImportService } = await import('./services/har-import-service.js');
+    const dbService = new DatabaseService();
+
+    try {
+      const fs = await import('fs-extra');
+      if (!await fs.default.pathExists(file)) {
+        console.log(chalk.red(`❌ HAR file not found: ${file}`));
+        process.exit(1);
+      }
+
+      console.log(chalk.blue(`📼 Importing HAR recording ${file} into space '${options.space}'...`));
+
+      const summary = await new HarImportService(dbService).import({
+        space: options.space,
+        har: await fs.default.readJson(file),
+        baseUrl: options.baseUrl,
+        includeStatic: options.includeStatic,
+        minOccurrences: parseInt(options.minOccurrences),
+        overwriteExisting: options.overwrite,
+        seedBaselines: options.seedBaselines,
+        approvedBy: options.approver || process.env.USER || process.env.USERNAME || 'cli',
+        source: 'cli'
+      });
+
+      console.log(chalk.green(`✅ ${summary.imported.length} imported, ${summary.overwritten.length} overwritten, ${summary.skipped.length} skipped`));
+      console.log(chalk.gray(`   ${summary.duplicates} duplicate request(s) merged, ${summary.ignored} request(s) ignored`));
+
+      console.log(chalk.bold('\n📊 Endpoints:'));
+      summary.endpoints.forEach(endpoint => {
+        const status = summary.skipped.includes(endpoint.name) ? chalk.yellow(' (exists, skipped)') : '';
+        console.log(`  ${endpoint.method} ${endpoint.name}${status}`);
+        console.log(chalk.gray(`    ${endpoint.url}`));
+      });
+
+      const { created, updated } = summary.parameters;
+      if (created.length + updated.length > 0) {
+        console.log(chalk.bold('\n🌍 Space parameters:'));
+        created.forEach(name => console.log(`  + ${name}`));
+        updated.forEach(name => console.log(`  ~ ${name}`));
+      }
+
+      if (options.seedBaselines) {
+        console.log(chalk.green(`\n📌 Seeded ${summary.baselines.length} baseline(s) from recorded responses`));
+      }
+      summary.errors.forEach(({ endpoint, error }) => {
+        console.warn(chalk.yellow(`   ⚠️  ${endpoint}: ${error}`));
+      });
+
+    } catch (error) {
+      console.error(chalk.red('❌ HAR import failed:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    } finally {
+      dbService.close();
+    }
+  });
+
+program
+  .command('export')
+  .description('Export a space as a Postman collection, OpenAPI document or curl script')
+  .option('--space <name>', 'Space to export', 'default')
+  .option('--format <type>', 'Output format: postman, openapi, curl', 'postman')
+  .option('-o, --output <path>', 'Output file path (defaults to a name derived from the space and format)')
+  .action(async (options) => {
+    const { DatabaseConfigManager } = await import('./database/database-config-manager.js');
+    const { SpaceExportService } = await import('./services/space-export-service.js');
+    const { EXPORT_FORMATS } = await import('./utils/space-exporter.js');
+    const configManager = new DatabaseConfigManager();
+
+    try {
+      if (!EXPORT_FORMATS.includes(options.format)) {
+        console.log(chalk.red(`❌ Unknown format "${options.format}". Available formats: ${EXPORT_FORMATS.join(', ')}`));
+        process.exit(1);
+      }
+
+      const file = await new SpaceExportService(configManager).export(options.space, options.format);
+      const output = options.output || file.filename;
+
+      const fs = await import('fs-extra');
+      await fs.default.writeFile(output, file.content, options.format === 'curl' ? { mode: 0o755 } : undefined);
+      console.log(chalk.green(`✅ Exported space '${options.space}' as ${options.format} to ${output}`));
+
+    } catch (error) {
+      console.error(chalk.red('❌ Export failed:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    } finally {
+      configManager.close();
+    }
+  });
+
+program
+  .command('mock')
+  .description('Serve stored snapshots of a space as a local mock API')
+  .option('--space <name>', 'Space whose snapshots to serve', 'default')
+  .option('--source <type>', 'Responses to serve: baseline (falls back to latest), latest', 'baseline')
+  .option('--run <id>', 'Serve the snapshots of one capture run')
+  .option('-p, --port <number>', 'Port to listen on', '3400')
+  .option('--host <host>', 'Host to bind to', '127.0.0.1')
+  .option('--latency', 'Delay responses by their recorded duration')
+  .action(async (options) => {
+    try {
+      if (!['baseline', 'latest'].includes(options.source)) {
+        console.log(chalk.red(`❌ Unknown source "${options.source}". Use baseline or latest.`));
+        process.exit(1);
+      }
+
+      const { createMockServer, loadMockRoutes } = await import('./services/mock-server.js');
+      const loadOptions = { source: options.source, runId: options.run };
+
+      // Fail early on an unknown space or run and show what will be served
+      const routes = await loadMockRoutes(options.space, loadOptions);
+      if (routes.length === 0) {
+        console.log(chalk.yellow(`⚠️  No stored snapshots in space '${options.space}'${options.run ? ` for run ${options.run}` : ''}`));
+      }
+
+      const server = createMockServer(() => loadMockRoutes(options.space, loadOptions), {
+        replayLatency: options.latency,
+        onRequest: (method, url, match) => {
+          const target = match ? chalk.green(`→ ${match.route.endpoint} (${match.route.source})`) : chalk.red('→ no snapshot');
+          console.log(`${method} ${url} ${target}`);
+        }
+      });
+
+      const address = await server.listen({ port: parseInt(options.port), host: options.host });
+      console.log(chalk.blue(`🎭 Mock server for space '${options.space}' listening on ${address}`));
+      routes.forEach(route => {
+        console.log(chalk.gray(`  ${route.method} ${route.basePath}${route.path} → ${route.endpoint} (${route.source}, ${route.snapshot.timestamp})`));
+      });
+
+      const shutdown = async () => {
+        await server.close();
+        process.exit(0);
+      };
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+
+    } catch (error) {
+      console.error(chalk.red('❌ Mock server failed:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('compare-env')
+  .description('Capture the endpoints of a space against two environments and compare the responses')
+  .option('--space <name>', 'Space whose endpoints are compared', 'default')
+  .option('--pair <name>', 'Stored environment pair of the space (environments and ignore rules)')
+  .option('--left <target>', 'Reference environment: a space name or a base URL')
+  .option('--right <target>', 'Compared environment: a space name or a base URL')
+  .option('--ignore <paths...>', 'Additional paths to ignore, e.g. response.data.region')
+  .option('-e, --endpoint <names...>', 'Compare only these endpoints')
+  .option('--format <type>', 'Output format: table, json', 'table')
+  .option('--details', 'Show detailed diff with left/right values')
+  .option('--only-breaking', 'Show only breaking changes')
+  .option('--shape-only', 'Compare inferred response schemas instead of response values')
+  .option('--save-diff <path>', 'Save the comparison to a JSON file')
+  .action(async (options) => {
+    try {
+      const { Application } = await import('./core/application.js');
+      const { LogLevel } = await import('./core/logger.js');
+      const { EnvironmentComparisonService, loadEnvironmentPair } = await import('./services/environment-comparison-service.js');
+      const { parseEnvironmentTarget, validateEnvironmentPair } = await import('./utils/environmentComparison.js');
+
+      const stored = options.pair ? loadEnvironmentPair(options.space, options.pair) : undefined;
+      const pair = {
+        name: options.pair || 'cli',
+        left: options.left ? parseEnvironmentTarget(options.left) : stored?.left,
+        right: options.right ? parseEnvironmentTarget(options.right) : stored?.right,
+        rules: [
+          ...(stored?.rules || []),
+          ...((options.ignore || []) as string[]).map(path => ({ path, ignore: true }))
+        ]
+      };
+
+      const validationError = validateEnvironmentPair(pair);
+      if (validationError) {
+        console.log(chalk.red(`❌ ${validationError}. Use --pair or --left and --right.`));
+        process.exit(1);
+      }
+
+      // Endpoints and settings come from the database, the application only provides the plugins
+      const app = new Application({
+        config: { endpoints: [], snapshotDir: './snapshots', baselineDir: './baselines' },
+        logLevel: options.format === 'json' ? LogLevel.ERROR : LogLevel.WARN
+      });
+      await app.initialize();
+
+      const result = await new EnvironmentComparisonService(app, app.getLogger()).compare({
+        space: options.space,
+        left: pair.left!,
+        right: pair.right!,
+        rules: pair.rules,
+        endpoints: options.endpoint,
+        shapeOnly: options.shapeOnly
+      });
+
+      if (options.saveDiff) {
+        const fs = await import('fs-extra');
+        await fs.default.writeJson(options.saveDiff, { timestamp: new Date().toISOString(), ...result }, { spaces: 2 });
+        console.log(chalk.blue(`💾 Comparison saved to ${options.saveDiff}`));
+      }
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify(result, null, 2));
+        process.exit(result.summary.breaking > 0 || result.summary.failed > 0 ? 1 : 0);
+      }
+
+      console.log(chalk.bold(`🌍 ${result.left} ↔ ${result.right} (space '${result.space}')`));
+      const severityColors = { 'breaking': chalk.red, 'non-breaking': chalk.yellow, 'informational': chalk.blue };
+
+      for (const endpointResult of result.results) {
+        console.log(chalk.bold(`\n🔍 ${endpointResult.endpoint}`));
+
+        if (!endpointResult.success) {
+          console.log(chalk.red(`  ❌ ${endpointResult.error}`));
+          continue;
+        }
+        if (!endpointResult.comparison!.hasChanges) {
+          console.log(chalk.green('  ✅ Identical in both environments'));
+          continue;
+        }
+
+        const { breaking, nonBreaking, informational } = endpointResult.summary!;
+        console.log(`  ${chalk.red(`${breaking} breaking`)}, ${chalk.yellow(`${nonBreaking} non-breaking`)}, ${chalk.blue(`${informational} informational`)}`);
+
+        endpointResult.comparison!.differences
+          .filter(diff => !options.onlyBreaking || diff.severity === 'breaking')
+          .filter(diff => options.details || diff.severity === 'breaking')
+          .forEach(diff => {
+            const color = severityColors[diff.severity];
+            console.log(color(`    • ${diff.path}: ${diff.type}`));
+            if (options.details && diff.oldValue !== undefined && diff.newValue !== undefined) {
+              console.log(color(`      ${result.left}: ${JSON.stringify(diff.oldValue)}`));
+              console.log(color(`      ${result.right}: ${JSON.stringify(diff.newValue)}`));
+            }
+          });
+      }
+
+      const { summary } = result;
+      console.log(chalk.bold('\n📊 Summary:'));
+      console.log(`   Endpoints compared: ${summary.compared}${summary.failed > 0 ? chalk.red(` (${summary.failed} failed to capture)`) : ''}`);
+      console.log(`   Endpoints that differ: ${summary.changedEndpoints}`);
+      console.log(`   Breaking differences: ${summary.breaking}`);
+
+      process.exit(summary.breaking > 0 || summary.failed > 0 ? 1 : 0);
+
+    } catch (error) {
+      console.error(chalk.red('❌ Environment comparison failed:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('migrate-storage')
+  .description('Move response bodies of existing snapshot files into the content-addressed blob store')
+  .option('-c, --config <path>', 'Path to configuration file', './api-snapshot.config.json')
+  .option('--dir <paths...>', 'More directories holding snapshot files of the web server', [])
+  .option('--dry-run', 'Report what would be migrated without rewriting files')
+  .action(async (options) => {
+    try {
+      const { BlobStore, formatBytes, migrateSnapshotFiles } = await import('./services/blob-store.js');
+
+      for (const layout of await loadSnapshotLayouts(options.config, options.dir)) {
+        const report = await migrateSnapshotFiles(layout.roots, {
+          dryRun: options.dryRun,
+          store: BlobStore.at(layout.blobDir),
+          baselineRoots: layout.baselineRoots
+        });
+
+        console.log(chalk.blue(`📦 Snapshot files scanned: ${report.filesScanned} (blob store: ${layout.blobDir})`));
+        console.log(`  ${options.dryRun ? 'To migrate' : 'Migrated'}: ${report.migrated}`);
+        console.log(`  Already migrated: ${report.alreadyMigrated}`);
+        if (report.inlined > 0) {
+          console.log(`  Baselines ${options.dryRun ? 'to restore' : 'restored'} to inline bodies: ${report.inlined}`);
+        }
+        if (!options.dryRun && report.migrated > 0) {
+          const saved = report.bytesBefore - report.bytesAfter;
+          console.log(chalk.green(`  ${formatBytes(report.bytesBefore)} → ${formatBytes(report.bytesAfter)} (${formatBytes(saved)} saved)`));
+        }
+        if (report.skipped.length > 0) {
+          console.log(chalk.yellow(`  Skipped ${report.skipped.length} file(s) that are not snapshots:`));
+          report.skipped.forEach(file => console.log(chalk.gray(`    ${file}`)));
+        }
+      }
+
+    } catch (error) {
+      console.error(chalk.red('❌ Storage migration failed:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('gc-storage')
+  .description('Recount blob references and delete response bodies no snapshot uses anymore')
+  .option('-c, --config <path>', 'Path to configuration file', './api-snapshot.config.json')
+  .option('--dir <paths...>', 'More directories holding snapshot files of the web server', [])
+  .option('--dry-run', 'Report what would be deleted without deleting')
+  .action(async (options) => {
+    try {
+      const { BlobStore, collectGarbage, formatBytes } = await import('./services/blob-store.js');
+
+      // A store is only collected with every directory writing into it, anything less deletes bodies still in use
+      for (const layout of await loadSnapshotLayouts(options.config, options.dir)) {
+        const report = await collectGarbage([...layout.roots, ...layout.baselineRoots], {
+          dryRun: options.dryRun,
+          store: BlobStore.at(layout.blobDir)
+        });
+
+        console.log(chalk.blue(`🗑️  Blob store ${layout.blobDir}: ${report.blobs} blob(s), referenced: ${report.referenced}`));
+        if (report.repaired > 0) {
+          console.log(chalk.yellow(`  ${options.dryRun ? 'Would repair' : 'Repaired'} ${report.repaired} reference count(s)`));
+        }
+        console.log(chalk.green(`  ${options.dryRun ? 'Would remove' : 'Removed'} ${report.removed} unreferenced blob(s), ${formatBytes(report.bytesFreed)}`));
+      }
+
+    } catch (error) {
+      console.error(chalk.red('❌ Storage garbage collection failed:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
 program
   .command('validate-schema')
   .description('Validate current snapshots against their schemas')
@@ -889,6 +1308,63 @@ program
     }
   });
 
+program
+  .command('compare-schema <old> <new>')
+  .description('Detect breaking changes between two OpenAPI documents or GraphQL schemas')
+  .option('--type <type>', 'Schema type: openapi, graphql (introspection result files or endpoint URLs)', 'openapi')
+  .option('--format <type>', 'Output format: table, json, text, markdown', 'table')
+  .option('--details', 'Show old/new values for each change')
+  .option('--only-breaking', 'Show only operations with breaking changes')
+  .option('--all', 'Include unchanged operations in the report')
+  .option('-o, --output <path>', 'Write the report to a file instead of stdout')
+  .action(async (oldSpec, newSpec, options) => {
+    try {
+      const fs = await import('fs-extra');
+
+      if (!['openapi', 'graphql'].includes(options.type)) {
+        console.log(chalk.red(`❌ Unknown schema type: ${options.type}. Use openapi or graphql`));
+        process.exit(1);
+      }
+
+      for (const specPath of [oldSpec, newSpec]) {
+        const isUrl = options.type === 'graphql' && /^https?:\/\//i.test(specPath);
+        if (!isUrl && !await fs.default.pathExists(specPath)) {
+          console.log(chalk.red(`❌ Schema file not found: ${specPath}`));
+          process.exit(1);
+        }
+      }
+
+      const schemaManager = new SchemaManager();
+      const comparisons = options.type === 'graphql'
+        ? await schemaManager.compareGraphQLSchemas(oldSpec, newSpec)
+        : await schemaManager.compareOpenApiSpecs(oldSpec, newSpec);
+      const reported = options.all ? comparisons : comparisons.filter(c => c.hasChanges);
+
+      const report = new Reporter().generateReport(reported, {
+        format: options.format,
+        includeDetails: options.details,
+        onlyBreaking: options.onlyBreaking
+      });
+
+      if (options.output) {
+        await fs.default.writeFile(options.output, report, 'utf-8');
+        console.log(chalk.blue(`💾 Report saved to ${options.output}`));
+      } else {
+        console.log(report);
+      }
+
+      const hasBreakingChanges = comparisons.some(c => c.differences.some(d => d.severity === 'breaking'));
+      if (hasBreakingChanges) {
+        console.error(chalk.red(`🚨 Breaking changes detected between ${options.type === 'graphql' ? 'GraphQL schemas' : 'OpenAPI documents'}!`));
+        process.exit(1);
+      }
+
+    } catch (error) {
+      console.error(chalk.red('❌ Schema comparison failed:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
 // Handle unhandled promise rejections
 process.on('unhandledRejection', (reason, promise) => {
   console.error(chalk.red('Unhandled Rejection at:'), promise, chalk.red('reason:'), reason);
@@ -22,7 +22,7 @@ export class CompareCommand extends BaseCommand {
   options: CommandOption[] = [
     { flags: '-c, --config <path>', description: 'Path to configuration file', defaultValue: './api-snapshot.config.json' },
     { flags: '-e, --endpoint <name>', description: 'Compare only specific endpoint' },
-    { flags: '--format <type>', description: 'Output format: table, json, markdown', defaultValue: 'table' },
+    { flags: '--format <type>', description: 'Output format: table, json, markdown, junit, sarif', defaultValue: 'table' },
     { flags: '--details', description: 'Show detailed diff with old/new values' },
     { flags: '--only-breaking', description: 'Show only breaking changes' },
     { flags: '--summary', description: 'Show summary only (no detailed differences)' },
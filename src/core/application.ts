@@ -30,11 +30,14 @@ import { DefaultSnapshotService } from '../services/snapshot-service.js';
 import { TableFormatter } from '../plugins/formatters/table-formatter.js';
 import { JsonFormatter } from '../plugins/formatters/json-formatter.js';
 import { MarkdownFormatter } from '../plugins/formatters/markdown-formatter.js';
+import { JUnitFormatter } from '../plugins/formatters/junit-formatter.js';
+import { SarifFormatter } from '../plugins/formatters/sarif-formatter.js';
 
 // Built-in auth providers
 import { BearerAuthProvider } from '../plugins/auth/bearer-auth-provider.js';
 import { ApiKeyAuthProvider } from '../plugins/auth/api-key-auth-provider.js';
 import { BasicAuthProvider } from '../plugins/auth/basic-auth-provider.js';
+import { OAuth2AuthProvider } from '../plugins/auth/oauth2-auth-provider.js';
 
 // Built-in commands
 import { InitCommand } from '../commands/init-command.js';
@@ -162,7 +165,7 @@ export class Application {
       )
     );
 
-    this.container.registerSingleton(ServiceKeys.DIFF_ENGINE, () => new JsonDiffProvider());
+    this.container.registerSingleton(ServiceKeys.DIFF_ENGINE, () => new JsonDiffProvider(this.appConfig.config.arrayKeys));
     this.container.registerSingleton(ServiceKeys.SCHEMA_MANAGER, () => new SchemaManager());
 
     // Register snapshot service
@@ -179,7 +182,8 @@ export class Application {
         schemaManager,
         this.appConfig.config.endpoints,
         this.logger,
-        this.appConfig.config.space || this.appConfig.config.environment || 'default'
+        this.appConfig.config.space || this.appConfig.config.environment || 'default',
+        this.appConfig.config.capture
       );
     });
 
@@ -199,16 +203,19 @@ export class Application {
     authRegistry.register('bearer', new BearerAuthProvider());
     authRegistry.register('apikey', new ApiKeyAuthProvider());
     authRegistry.register('basic', new BasicAuthProvider());
+    authRegistry.register('oauth2', new OAuth2AuthProvider());
 
     // Register formatters
     const formatterRegistry = await this.container.resolve<GenericRegistry<OutputFormatter>>(ServiceKeys.FORMATTER_REGISTRY);
     formatterRegistry.register('table', new TableFormatter());
     formatterRegistry.register('json', new JsonFormatter());
     formatterRegistry.register('markdown', new MarkdownFormatter());
+    formatterRegistry.register('junit', new JUnitFormatter());
+    formatterRegistry.register('sarif', new SarifFormatter());
 
     // Register diff providers
     const diffRegistry = await this.container.resolve<GenericRegistry<DiffProvider>>(ServiceKeys.DIFF_REGISTRY);
-    diffRegistry.register('json', new JsonDiffProvider());
+    diffRegistry.register('json', new JsonDiffProvider(this.appConfig.config.arrayKeys));
 
     // Register storage providers
     const storageRegistry = await this.container.resolve<GenericRegistry<StorageProvider>>(ServiceKeys.STORAGE_REGISTRY);
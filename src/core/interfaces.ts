@@ -1,4 +1,4 @@
-import { ApiEndpoint, ApiSnapshot, SnapshotComparison, SnapshotDiff, Config, ValidationResult, ApiSchema } from '../types.js';
+import { ApiEndpoint, ApiSnapshot, SnapshotComparison, SnapshotDiff, Config, ValidationResult, ApiSchema, DiffOptions, ValueNormalizer, BodyHandlerName } from '../types.js';
 
 // HTTP Client Interface
 export interface HttpClient {
@@ -18,6 +18,7 @@ export interface HttpResponse {
   headers: Record<string, string>;
   data: any;
   duration: number;
+  bodyHandler?: BodyHandlerName;
 }
 
 // Storage Provider Interface
@@ -32,7 +33,7 @@ export interface StorageProvider {
 // Diff Engine Interface
 export interface DiffProvider {
   name: string;
-  compare(baseline: ApiSnapshot, current: ApiSnapshot, rules?: DiffRule[]): SnapshotComparison;
+  compare(baseline: ApiSnapshot, current: ApiSnapshot, rules?: DiffRule[], options?: DiffOptions): SnapshotComparison;
   generateTextDiff?(baseline: ApiSnapshot, current: ApiSnapshot): string;
 }
 
@@ -40,6 +41,8 @@ export interface DiffRule {
   path: string;
   ignore?: boolean;
   severity?: 'breaking' | 'non-breaking' | 'informational';
+  arrayKey?: string;
+  normalize?: ValueNormalizer;
 }
 
 // Auth Provider Interface
@@ -49,6 +52,8 @@ export interface AuthProvider {
   configure(config: any): Promise<void>;
   authenticate(request: RequestConfig): Promise<RequestConfig>;
   validateConfig(config: any): boolean;
+  // Called when an authenticated request got a 401; returning true makes the caller authenticate and send it once more
+  handleUnauthorized?(request: RequestConfig, response: HttpResponse): Promise<boolean>;
 }
 
 // Output Formatter Interface
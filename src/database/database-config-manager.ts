@@ -1,5 +1,5 @@
 import { DatabaseService } from './database-service.js';
-import type { Config, ApiEndpoint } from '../types.js';
+import type { Config, ApiEndpoint, CaptureSettings, LatencySettings } from '../types.js';
 
 export class DatabaseConfigManager {
   private db: DatabaseService;
@@ -99,10 +99,64 @@ export class DatabaseConfigManager {
       environment: space.environment || space.name,
       space: space.name, // Add the actual space name
       plugins: this.getDefaultPlugins(),
-      rules: this.getDefaultRules()
+      rules: this.getDefaultRules(),
+      normalizationPresets: this.getNormalizationPresets(space.name),
+      capture: this.getCaptureSettings(space.name),
+      latency: this.getLatencySettings(space.name)
     };
   }
 
+  // Value normalization presets selected for a space
+  getNormalizationPresets(spaceName: string): string[] {
+    const space = this.db.getSpaceByName(spaceName);
+    if (!space) {
+      throw new Error(`Space '${spaceName}' does not exist`);
+    }
+    return this.db.getConfigSetting<string[]>(space.id, 'rules', 'normalizationPresets') || [];
+  }
+
+  setNormalizationPresets(spaceName: string, presets: string[]): void {
+    const space = this.db.getSpaceByName(spaceName);
+    if (!space) {
+      throw new Error(`Space '${spaceName}' does not exist`);
+    }
+    this.db.setConfigSetting(space.id, 'rules', 'normalizationPresets', presets);
+  }
+
+  // Concurrency, per-host rate limits and retry policy used when capturing a space
+  getCaptureSettings(spaceName: string): CaptureSettings {
+    const space = this.db.getSpaceByName(spaceName);
+    if (!space) {
+      throw new Error(`Space '${spaceName}' does not exist`);
+    }
+    return this.db.getConfigSetting<CaptureSettings>(space.id, 'capture', 'settings') || {};
+  }
+
+  setCaptureSettings(spaceName: string, settings: CaptureSettings): void {
+    const space = this.db.getSpaceByName(spaceName);
+    if (!space) {
+      throw new Error(`Space '${spaceName}' does not exist`);
+    }
+    this.db.setConfigSetting(space.id, 'capture', 'settings', settings);
+  }
+
+  // Response time regression threshold of a space
+  getLatencySettings(spaceName: string): LatencySettings {
+    const space = this.db.getSpaceByName(spaceName);
+    if (!space) {
+      throw new Error(`Space '${spaceName}' does not exist`);
+    }
+    return this.db.getConfigSetting<LatencySettings>(space.id, 'latency', 'settings') || {};
+  }
+
+  setLatencySettings(spaceName: string, settings: LatencySettings): void {
+    const space = this.db.getSpaceByName(spaceName);
+    if (!space) {
+      throw new Error(`Space '${spaceName}' does not exist`);
+    }
+    this.db.setConfigSetting(space.id, 'latency', 'settings', settings);
+  }
+
   // Endpoint management
   addEndpoint(endpoint: ApiEndpoint, spaceName?: string): void {
     const space = spaceName ? this.db.getSpaceByName(spaceName) : this.getDefaultSpace();
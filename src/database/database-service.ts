@@ -3,7 +3,8 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { readFileSync } from 'fs';
 import { fileURLToPath } from 'url';
-import type { ApiEndpoint, Config } from '../types.js';
+import type { ApiEndpoint, Config, EnvironmentPair, WebhookTarget } from '../types.js';
+import { decryptSecret, encryptSecret } from '../utils/secrets.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -26,6 +27,7 @@ export interface SpaceParameter {
   value: string;
   pattern?: string;
   description?: string;
+  is_secret?: number; // Value encrypted at rest and masked in API responses
   created_at: string;
   updated_at: string;
 }
@@ -41,6 +43,9 @@ export interface EndpointRecord {
   auth?: string; // JSON string
   schema?: string; // JSON string
   timeout: number;
+  extract?: string; // JSON array of ParameterExtraction
+  depends_on?: string; // JSON array of endpoint names
+  graphql?: string; // JSON GraphQLOperation
   created_at: string;
   updated_at: string;
 }
@@ -55,6 +60,120 @@ export interface SnapshotRecord {
   error?: string;
   duration?: number;
   file_size?: number;
+  run_id?: string;
+  created_at: string;
+}
+
+export interface CaptureRunRecord {
+  id: number;
+  run_id: string;
+  space_id: number;
+  total_endpoints: number;
+  successful: number;
+  failed: number;
+  status: string; // 'running', 'completed', 'failed'
+  trigger: string; // 'manual', 'schedule'
+  schedule_id?: number;
+  comparison_summary?: string; // JSON string
+  started_at: string;
+  completed_at?: string;
+}
+
+export interface CaptureScheduleRecord {
+  id: number;
+  space_id: number;
+  name: string;
+  cron: string;
+  endpoints?: string; // JSON array of endpoint names, all endpoints when empty
+  compare_to_baseline: number;
+  enabled: number;
+  last_run_id?: string;
+  last_run_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BaselineRecord {
+  id: number;
+  space_id: number;
+  endpoint_id: number;
+  snapshot_id?: number;
+  filepath: string;
+  status: string; // 'active', 'superseded'
+  approved_by?: string;
+  reason?: string;
+  reverted_from?: number; // Baseline this one restores, set by reverts
+  created_at: string;
+  superseded_at?: string;
+}
+
+export interface BaselineApprovalRecord {
+  id: number;
+  space_id: number;
+  endpoint_id?: number;
+  endpoint_name: string;
+  decision: string; // 'approved', 'rejected', 'pending'
+  approved_by?: string;
+  reason?: string;
+  baseline_id?: number;
+  snapshot_id?: number;
+  changes_count: number;
+  breaking_changes: number;
+  non_breaking_changes: number;
+  differences?: string; // JSON array of { path, type, severity }
+  source: string; // 'cli', 'web'
+  created_at: string;
+}
+
+export interface AuthProfileRecord {
+  id: number;
+  space_id: number;
+  name: string;
+  type: string; // Auth provider type: 'bearer', 'apikey', 'basic', 'oauth2'
+  config?: string; // JSON provider configuration
+  description?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EnvironmentPairRecord {
+  id: number;
+  space_id: number;
+  name: string;
+  left_target: string; // JSON EnvironmentTarget
+  right_target: string; // JSON EnvironmentTarget
+  rules?: string; // JSON array of DiffRule
+  description?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookRecord {
+  id: number;
+  space_id: number;
+  name: string;
+  url: string;
+  format: string; // 'generic', 'slack', 'teams'
+  min_severity: string; // 'breaking', 'non-breaking', 'informational'
+  headers?: string; // JSON object of header values
+  retry?: string; // JSON RetryPolicy
+  enabled: number;
+  description?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookDeliveryRecord {
+  id: number;
+  webhook_id: number;
+  event: string; // 'comparison.changes', 'webhook.test'
+  run_id?: string;
+  status: string; // 'delivered', 'failed'
+  attempts: number;
+  response_status?: number;
+  error?: string;
+  duration?: number;
+  payload?: string; // JSON body that was posted
   created_at: string;
 }
 
@@ -115,6 +234,15 @@ export class DatabaseService {
         // Existing database - check for missing tables/columns
         this.ensureTablesExist();
       }
+      
+      this.ensureCaptureTables();
+      this.ensureBaselineTables();
+      this.ensureEndpointChainingColumns();
+      this.ensureEndpointGraphQLColumn();
+      this.ensureAuthProfileTables();
+      this.ensureSecretColumns();
+      this.ensureEnvironmentPairTables();
+      this.ensureWebhookTables();
     } catch (error) {
       console.error('Error initializing database schema:', error);
       throw error;
@@ -138,6 +266,214 @@ export class DatabaseService {
     }
   }
 
+  // Capture runs and schedules are created here rather than in schema.sql so existing
+  // databases pick them up without running the migration scripts
+  private ensureCaptureTables(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS capture_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id TEXT UNIQUE NOT NULL,
+        space_id INTEGER NOT NULL,
+        total_endpoints INTEGER DEFAULT 0,
+        successful INTEGER DEFAULT 0,
+        failed INTEGER DEFAULT 0,
+        status TEXT NOT NULL DEFAULT 'pending',
+        started_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        completed_at DATETIME,
+        FOREIGN KEY (space_id) REFERENCES spaces(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS capture_schedules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        space_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        cron TEXT NOT NULL,
+        endpoints JSON,
+        compare_to_baseline INTEGER DEFAULT 1,
+        enabled INTEGER DEFAULT 1,
+        last_run_id TEXT,
+        last_run_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (space_id) REFERENCES spaces(id) ON DELETE CASCADE,
+        UNIQUE(space_id, name)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_capture_runs_run_id ON capture_runs(run_id);
+      CREATE INDEX IF NOT EXISTS idx_capture_runs_space_id ON capture_runs(space_id);
+      CREATE INDEX IF NOT EXISTS idx_capture_schedules_space_id ON capture_schedules(space_id);
+    `);
+
+    const runColumns = (this.db.prepare('PRAGMA table_info(capture_runs)').all() as any[]).map(col => col.name);
+    if (!runColumns.includes('trigger')) {
+      this.db.exec("ALTER TABLE capture_runs ADD COLUMN trigger TEXT DEFAULT 'manual'");
+    }
+    if (!runColumns.includes('schedule_id')) {
+      this.db.exec('ALTER TABLE capture_runs ADD COLUMN schedule_id INTEGER');
+    }
+    if (!runColumns.includes('comparison_summary')) {
+      this.db.exec('ALTER TABLE capture_runs ADD COLUMN comparison_summary JSON');
+    }
+
+    const snapshotColumns = (this.db.prepare('PRAGMA table_info(snapshots)').all() as any[]).map(col => col.name);
+    if (!snapshotColumns.includes('run_id')) {
+      this.db.exec('ALTER TABLE snapshots ADD COLUMN run_id TEXT');
+      this.db.exec('CREATE INDEX IF NOT EXISTS idx_snapshots_run_id ON snapshots(run_id)');
+    }
+  }
+
+  // Request chaining settings of endpoints
+  private ensureEndpointChainingColumns(): void {
+    const endpointColumns = (this.db.prepare('PRAGMA table_info(endpoints)').all() as any[]).map(col => col.name);
+    if (!endpointColumns.includes('extract')) {
+      this.db.exec('ALTER TABLE endpoints ADD COLUMN extract JSON');
+    }
+    if (!endpointColumns.includes('depends_on')) {
+      this.db.exec('ALTER TABLE endpoints ADD COLUMN depends_on JSON');
+    }
+  }
+
+  // GraphQL operation (query, variables, operation name) of endpoints that capture one
+  private ensureEndpointGraphQLColumn(): void {
+    const endpointColumns = (this.db.prepare('PRAGMA table_info(endpoints)').all() as any[]).map(col => col.name);
+    if (!endpointColumns.includes('graphql')) {
+      this.db.exec('ALTER TABLE endpoints ADD COLUMN graphql JSON');
+    }
+  }
+
+  // Named provider configurations that endpoints of the same space reference with `auth.profile`
+  private ensureAuthProfileTables(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS auth_profiles (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        space_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL,
+        config JSON,
+        description TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (space_id) REFERENCES spaces(id) ON DELETE CASCADE,
+        UNIQUE(space_id, name)
+      );
+    `);
+  }
+
+  // Parameters flagged as secret; their values (like saved server auth settings and auth profile
+  // configurations) are stored encrypted, see utils/secrets.ts
+  private ensureSecretColumns(): void {
+    const parameterColumns = (this.db.prepare('PRAGMA table_info(space_parameters)').all() as any[]).map(col => col.name);
+    if (!parameterColumns.includes('is_secret')) {
+      this.db.exec('ALTER TABLE space_parameters ADD COLUMN is_secret INTEGER DEFAULT 0');
+    }
+  }
+
+  // Environments of a space compared with each other, with the ignore rules for that pair
+  private ensureEnvironmentPairTables(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS environment_pairs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        space_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        left_target JSON NOT NULL,
+        right_target JSON NOT NULL,
+        rules JSON,
+        description TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (space_id) REFERENCES spaces(id) ON DELETE CASCADE,
+        UNIQUE(space_id, name)
+      );
+    `);
+  }
+
+  // Notification targets of a space and the log of every message posted to them
+  private ensureWebhookTables(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS webhooks (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        space_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        url TEXT NOT NULL,
+        format TEXT NOT NULL DEFAULT 'generic',
+        min_severity TEXT NOT NULL DEFAULT 'breaking',
+        headers TEXT,
+        retry JSON,
+        enabled INTEGER DEFAULT 1,
+        description TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (space_id) REFERENCES spaces(id) ON DELETE CASCADE,
+        UNIQUE(space_id, name)
+      );
+
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        webhook_id INTEGER NOT NULL,
+        event TEXT NOT NULL,
+        run_id TEXT,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL,
+        response_status INTEGER,
+        error TEXT,
+        duration INTEGER,
+        payload JSON,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (webhook_id) REFERENCES webhooks(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at);
+    `);
+  }
+
+  // Baselines are versioned: promoting or reverting adds a row and supersedes the active one,
+  // so the table doubles as the baseline history. Approval decisions are kept separately because
+  // rejected or skipped changes never become a baseline.
+  private ensureBaselineTables(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS baselines (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        space_id INTEGER NOT NULL,
+        endpoint_id INTEGER NOT NULL,
+        snapshot_id INTEGER,
+        filepath TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'active',
+        approved_by TEXT,
+        reason TEXT,
+        reverted_from INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        superseded_at DATETIME,
+        FOREIGN KEY (space_id) REFERENCES spaces(id) ON DELETE CASCADE,
+        FOREIGN KEY (endpoint_id) REFERENCES endpoints(id) ON DELETE CASCADE,
+        FOREIGN KEY (snapshot_id) REFERENCES snapshots(id) ON DELETE SET NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS baseline_approvals (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        space_id INTEGER NOT NULL,
+        endpoint_id INTEGER,
+        endpoint_name TEXT NOT NULL,
+        decision TEXT NOT NULL,
+        approved_by TEXT,
+        reason TEXT,
+        baseline_id INTEGER,
+        snapshot_id INTEGER,
+        changes_count INTEGER DEFAULT 0,
+        breaking_changes INTEGER DEFAULT 0,
+        non_breaking_changes INTEGER DEFAULT 0,
+        differences JSON,
+        source TEXT NOT NULL DEFAULT 'web',
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (space_id) REFERENCES spaces(id) ON DELETE CASCADE,
+        FOREIGN KEY (endpoint_id) REFERENCES endpoints(id) ON DELETE SET NULL,
+        FOREIGN KEY (baseline_id) REFERENCES baselines(id) ON DELETE SET NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_baselines_endpoint_id ON baselines(endpoint_id, status);
+      CREATE INDEX IF NOT EXISTS idx_baseline_approvals_space_id ON baseline_approvals(space_id, created_at);
+    `);
+  }
+
   // Space operations
   createSpace(space: Partial<Space>): Space {
     const stmt = this.db.prepare(`
@@ -199,8 +535,8 @@ export class DatabaseService {
   // Endpoint operations
   createEndpoint(spaceId: number, endpoint: ApiEndpoint): EndpointRecord {
     const stmt = this.db.prepare(`
-      INSERT INTO endpoints (space_id, name, url, method, headers, body, auth, schema, timeout)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO endpoints (space_id, name, url, method, headers, body, auth, schema, timeout, extract, depends_on, graphql)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     
     const info = stmt.run(
@@ -212,7 +548,10 @@ export class DatabaseService {
       endpoint.body || null,
       endpoint.auth ? JSON.stringify(endpoint.auth) : null,
       endpoint.schema ? JSON.stringify(endpoint.schema) : null,
-      endpoint.timeout || 5000
+      endpoint.timeout || 5000,
+      endpoint.extract && endpoint.extract.length > 0 ? JSON.stringify(endpoint.extract) : null,
+      endpoint.dependsOn && endpoint.dependsOn.length > 0 ? JSON.stringify(endpoint.dependsOn) : null,
+      endpoint.graphql ? JSON.stringify(endpoint.graphql) : null
     );
     
     return this.getEndpointById(info.lastInsertRowid as number)!;
@@ -247,6 +586,9 @@ export class DatabaseService {
     if (endpoint.auth !== undefined) updates.auth = JSON.stringify(endpoint.auth);
     if (endpoint.schema !== undefined) updates.schema = JSON.stringify(endpoint.schema);
     if (endpoint.timeout !== undefined) updates.timeout = endpoint.timeout;
+    if (endpoint.extract !== undefined) updates.extract = endpoint.extract.length > 0 ? JSON.stringify(endpoint.extract) : null;
+    if (endpoint.dependsOn !== undefined) updates.depends_on = endpoint.dependsOn.length > 0 ? JSON.stringify(endpoint.dependsOn) : null;
+    if (endpoint.graphql !== undefined) updates.graphql = endpoint.graphql ? JSON.stringify(endpoint.graphql) : null;
 
     const fields = Object.keys(updates);
     if (fields.length === 0) return false;
@@ -273,19 +615,25 @@ export class DatabaseService {
   }
 
   // Space parameter operations
-  createSpaceParameter(spaceId: number, name: string, value: string, pattern?: string, description?: string): SpaceParameter {
+  // Replacing a parameter keeps its secret flag unless `secret` is given
+  createSpaceParameter(spaceId: number, name: string, value: string, pattern?: string, description?: string, secret?: boolean): SpaceParameter {
+    const existing = this.db.prepare('SELECT is_secret FROM space_parameters WHERE space_id = ? AND name = ?')
+      .get(spaceId, name) as { is_secret: number } | undefined;
+    const isSecret = secret ?? existing?.is_secret === 1;
+
     const stmt = this.db.prepare(`
-      INSERT OR REPLACE INTO space_parameters (space_id, name, value, pattern, description)
-      VALUES (?, ?, ?, ?, ?)
+      INSERT OR REPLACE INTO space_parameters (space_id, name, value, pattern, description, is_secret)
+      VALUES (?, ?, ?, ?, ?, ?)
     `);
     
-    const info = stmt.run(spaceId, name, value, pattern, description);
+    const info = stmt.run(spaceId, name, isSecret ? encryptSecret(value) : value, pattern, description, isSecret ? 1 : 0);
     return this.getSpaceParameterById(info.lastInsertRowid as number)!;
   }
 
   getSpaceParameterById(id: number): SpaceParameter | null {
     const stmt = this.db.prepare('SELECT * FROM space_parameters WHERE id = ?');
-    return stmt.get(id) as SpaceParameter | null;
+    const record = stmt.get(id) as SpaceParameter | null;
+    return record ? { ...record, value: decryptSecret(record.value) } : null;
   }
 
   getSpaceParameters(spaceId: number): Record<string, string> {
@@ -294,11 +642,30 @@ export class DatabaseService {
     
     const result: Record<string, string> = {};
     for (const row of rows) {
-      result[row.name] = row.value;
+      result[row.name] = decryptSecret(row.value);
     }
     return result;
   }
 
+  getSecretParameterNames(spaceId: number): string[] {
+    const stmt = this.db.prepare('SELECT name FROM space_parameters WHERE space_id = ? AND is_secret = 1 ORDER BY name');
+    return (stmt.all(spaceId) as { name: string }[]).map(row => row.name);
+  }
+
+  // Flags or unflags a parameter as secret, re-encoding its stored value
+  setSpaceParameterSecret(spaceId: number, name: string, secret: boolean): boolean {
+    const row = this.db.prepare('SELECT value FROM space_parameters WHERE space_id = ? AND name = ?')
+      .get(spaceId, name) as { value: string } | undefined;
+    if (!row) return false;
+
+    const value = decryptSecret(row.value);
+    this.db.prepare(`
+      UPDATE space_parameters SET value = ?, is_secret = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE space_id = ? AND name = ?
+    `).run(secret ? encryptSecret(value) : value, secret ? 1 : 0, spaceId, name);
+    return true;
+  }
+
   getSpaceParametersByName(spaceName: string): Record<string, string> {
     const space = this.getSpaceByName(spaceName);
     if (!space) return {};
@@ -306,11 +673,15 @@ export class DatabaseService {
   }
 
   updateSpaceParameter(spaceId: number, name: string, value: string): boolean {
+    const existing = this.db.prepare('SELECT is_secret FROM space_parameters WHERE space_id = ? AND name = ?')
+      .get(spaceId, name) as { is_secret: number } | undefined;
+    if (!existing) return false;
+
     const stmt = this.db.prepare(`
       UPDATE space_parameters SET value = ?, updated_at = CURRENT_TIMESTAMP 
       WHERE space_id = ? AND name = ?
     `);
-    const info = stmt.run(value, spaceId, name);
+    const info = stmt.run(existing.is_secret === 1 ? encryptSecret(value) : value, spaceId, name);
     return info.changes > 0;
   }
 
@@ -320,16 +691,33 @@ export class DatabaseService {
     return info.changes > 0;
   }
 
+  // Config settings operations
+  getConfigSetting<T = any>(spaceId: number, category: string, key: string): T | undefined {
+    const stmt = this.db.prepare('SELECT value FROM config_settings WHERE space_id = ? AND category = ? AND key = ?');
+    const row = stmt.get(spaceId, category, key) as { value: string } | undefined;
+    return row ? JSON.parse(row.value) : undefined;
+  }
+
+  setConfigSetting(spaceId: number, category: string, key: string, value: any): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO config_settings (space_id, category, key, value)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(space_id, category, key) DO UPDATE SET value = excluded.value
+    `);
+    stmt.run(spaceId, category, key, JSON.stringify(value));
+  }
+
   // Snapshot operations
   createSnapshot(spaceId: number, endpointId: number, filename: string, status: string, metadata?: {
     response_status?: number;
     error?: string;
     duration?: number;
     file_size?: number;
+    run_id?: string;
   }): SnapshotRecord {
     const stmt = this.db.prepare(`
-      INSERT INTO snapshots (space_id, endpoint_id, filename, status, response_status, error, duration, file_size)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO snapshots (space_id, endpoint_id, filename, status, response_status, error, duration, file_size, run_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     
     const info = stmt.run(
@@ -340,7 +728,8 @@ export class DatabaseService {
       metadata?.response_status,
       metadata?.error,
       metadata?.duration,
-      metadata?.file_size
+      metadata?.file_size,
+      metadata?.run_id ?? null
     );
     
     return this.getSnapshotById(info.lastInsertRowid as number)!;
@@ -361,6 +750,591 @@ export class DatabaseService {
     return stmt.all(spaceId, limit) as SnapshotRecord[];
   }
 
+  getLatestSnapshotByEndpointId(endpointId: number, status: string = 'success'): SnapshotRecord | null {
+    const stmt = this.db.prepare(`
+      SELECT * FROM snapshots
+      WHERE endpoint_id = ? AND status = ?
+      ORDER BY created_at DESC, id DESC
+      LIMIT 1
+    `);
+    return stmt.get(endpointId, status) as SnapshotRecord | null;
+  }
+
+  // Durations of successful captures of an endpoint, newest first; `beforeId` leaves out that snapshot and later ones
+  getSnapshotDurations(endpointId: number, limit: number, beforeId?: number): Array<{ id: number; duration: number; created_at: string; run_id?: string }> {
+    const stmt = this.db.prepare(`
+      SELECT id, duration, created_at, run_id FROM snapshots
+      WHERE endpoint_id = ? AND status = 'success' AND duration IS NOT NULL AND id < ?
+      ORDER BY created_at DESC, id DESC
+      LIMIT ?
+    `);
+    return stmt.all(endpointId, beforeId ?? Number.MAX_SAFE_INTEGER, limit) as Array<{ id: number; duration: number; created_at: string; run_id?: string }>;
+  }
+
+  // Capture run operations
+  createCaptureRun(run: {
+    run_id: string;
+    space_id: number;
+    total_endpoints: number;
+    trigger?: string;
+    schedule_id?: number;
+  }): CaptureRunRecord {
+    const stmt = this.db.prepare(`
+      INSERT INTO capture_runs (run_id, space_id, total_endpoints, status, trigger, schedule_id)
+      VALUES (?, ?, ?, 'running', ?, ?)
+    `);
+    
+    stmt.run(run.run_id, run.space_id, run.total_endpoints, run.trigger || 'manual', run.schedule_id ?? null);
+    
+    return this.getCaptureRun(run.run_id)!;
+  }
+
+  completeCaptureRun(runId: string, result: {
+    successful: number;
+    failed: number;
+    status: string;
+    comparison_summary?: any;
+  }): boolean {
+    const stmt = this.db.prepare(`
+      UPDATE capture_runs
+      SET successful = ?, failed = ?, status = ?, comparison_summary = ?, completed_at = CURRENT_TIMESTAMP
+      WHERE run_id = ?
+    `);
+    
+    const info = stmt.run(
+      result.successful,
+      result.failed,
+      result.status,
+      result.comparison_summary !== undefined ? JSON.stringify(result.comparison_summary) : null,
+      runId
+    );
+    
+    return info.changes > 0;
+  }
+
+  getCaptureRun(runId: string): CaptureRunRecord | null {
+    const stmt = this.db.prepare('SELECT * FROM capture_runs WHERE run_id = ?');
+    return stmt.get(runId) as CaptureRunRecord | null;
+  }
+
+  getCaptureRunsBySpaceId(spaceId: number, limit: number = 50): CaptureRunRecord[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM capture_runs 
+      WHERE space_id = ? 
+      ORDER BY started_at DESC, id DESC 
+      LIMIT ?
+    `);
+    return stmt.all(spaceId, limit) as CaptureRunRecord[];
+  }
+
+  getSnapshotsByRunId(runId: string): SnapshotRecord[] {
+    const stmt = this.db.prepare('SELECT * FROM snapshots WHERE run_id = ? ORDER BY id');
+    return stmt.all(runId) as SnapshotRecord[];
+  }
+
+  // Capture schedule operations
+  createCaptureSchedule(spaceId: number, schedule: {
+    name: string;
+    cron: string;
+    endpoints?: string[];
+    compare_to_baseline?: boolean;
+    enabled?: boolean;
+  }): CaptureScheduleRecord {
+    const stmt = this.db.prepare(`
+      INSERT INTO capture_schedules (space_id, name, cron, endpoints, compare_to_baseline, enabled)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    
+    const info = stmt.run(
+      spaceId,
+      schedule.name,
+      schedule.cron,
+      schedule.endpoints && schedule.endpoints.length > 0 ? JSON.stringify(schedule.endpoints) : null,
+      schedule.compare_to_baseline === false ? 0 : 1,
+      schedule.enabled === false ? 0 : 1
+    );
+    
+    return this.getCaptureScheduleById(info.lastInsertRowid as number)!;
+  }
+
+  getCaptureScheduleById(id: number): CaptureScheduleRecord | null {
+    const stmt = this.db.prepare('SELECT * FROM capture_schedules WHERE id = ?');
+    return stmt.get(id) as CaptureScheduleRecord | null;
+  }
+
+  getCaptureSchedulesBySpaceId(spaceId: number): CaptureScheduleRecord[] {
+    const stmt = this.db.prepare('SELECT * FROM capture_schedules WHERE space_id = ? ORDER BY name');
+    return stmt.all(spaceId) as CaptureScheduleRecord[];
+  }
+
+  getEnabledCaptureSchedules(): Array<CaptureScheduleRecord & { space_name: string }> {
+    const stmt = this.db.prepare(`
+      SELECT cs.*, s.name as space_name
+      FROM capture_schedules cs
+      JOIN spaces s ON cs.space_id = s.id
+      WHERE cs.enabled = 1
+      ORDER BY cs.id
+    `);
+    return stmt.all() as Array<CaptureScheduleRecord & { space_name: string }>;
+  }
+
+  updateCaptureSchedule(id: number, updates: Partial<{
+    name: string;
+    cron: string;
+    endpoints: string[];
+    compare_to_baseline: boolean;
+    enabled: boolean;
+  }>): boolean {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    if (updates.name !== undefined) {
+      fields.push('name = ?');
+      values.push(updates.name);
+    }
+    if (updates.cron !== undefined) {
+      fields.push('cron = ?');
+      values.push(updates.cron);
+    }
+    if (updates.endpoints !== undefined) {
+      fields.push('endpoints = ?');
+      values.push(updates.endpoints.length > 0 ? JSON.stringify(updates.endpoints) : null);
+    }
+    if (updates.compare_to_baseline !== undefined) {
+      fields.push('compare_to_baseline = ?');
+      values.push(updates.compare_to_baseline ? 1 : 0);
+    }
+    if (updates.enabled !== undefined) {
+      fields.push('enabled = ?');
+      values.push(updates.enabled ? 1 : 0);
+    }
+
+    if (fields.length === 0) return false;
+
+    const stmt = this.db.prepare(`UPDATE capture_schedules SET ${fields.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`);
+    const info = stmt.run(...values, id);
+    
+    return info.changes > 0;
+  }
+
+  recordScheduleRun(id: number, runId: string): void {
+    this.db.prepare('UPDATE capture_schedules SET last_run_id = ?, last_run_at = CURRENT_TIMESTAMP WHERE id = ?').run(runId, id);
+  }
+
+  deleteCaptureSchedule(id: number): boolean {
+    const stmt = this.db.prepare('DELETE FROM capture_schedules WHERE id = ?');
+    const info = stmt.run(id);
+    return info.changes > 0;
+  }
+
+  // Auth profile operations
+  createAuthProfile(spaceId: number, profile: {
+    name: string;
+    type: string;
+    config?: Record<string, any>;
+    description?: string;
+  }): AuthProfileRecord {
+    const stmt = this.db.prepare(`
+      INSERT INTO auth_profiles (space_id, name, type, config, description)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+    const info = stmt.run(
+      spaceId,
+      profile.name,
+      profile.type,
+      encryptSecret(JSON.stringify(profile.config || {})),
+      profile.description ?? null
+    );
+
+    return this.getAuthProfileById(info.lastInsertRowid as number)!;
+  }
+
+  getAuthProfileById(id: number): AuthProfileRecord | null {
+    const stmt = this.db.prepare('SELECT * FROM auth_profiles WHERE id = ?');
+    return this.decryptAuthProfile(stmt.get(id) as AuthProfileRecord | null);
+  }
+
+  getAuthProfile(spaceId: number, name: string): AuthProfileRecord | null {
+    const stmt = this.db.prepare('SELECT * FROM auth_profiles WHERE space_id = ? AND name = ?');
+    return this.decryptAuthProfile(stmt.get(spaceId, name) as AuthProfileRecord | null);
+  }
+
+  getAuthProfilesBySpaceId(spaceId: number): AuthProfileRecord[] {
+    const stmt = this.db.prepare('SELECT * FROM auth_profiles WHERE space_id = ? ORDER BY name');
+    return (stmt.all(spaceId) as AuthProfileRecord[]).map(record => this.decryptAuthProfile(record)!);
+  }
+
+  private decryptAuthProfile(record: AuthProfileRecord | null): AuthProfileRecord | null {
+    return record && record.config ? { ...record, config: decryptSecret(record.config) } : record;
+  }
+
+  updateAuthProfile(id: number, updates: Partial<{
+    name: string;
+    type: string;
+    config: Record<string, any>;
+    description: string;
+  }>): boolean {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    if (updates.name !== undefined) {
+      fields.push('name = ?');
+      values.push(updates.name);
+    }
+    if (updates.type !== undefined) {
+      fields.push('type = ?');
+      values.push(updates.type);
+    }
+    if (updates.config !== undefined) {
+      fields.push('config = ?');
+      values.push(encryptSecret(JSON.stringify(updates.config)));
+    }
+    if (updates.description !== undefined) {
+      fields.push('description = ?');
+      values.push(updates.description);
+    }
+
+    if (fields.length === 0) return false;
+
+    const stmt = this.db.prepare(`UPDATE auth_profiles SET ${fields.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`);
+    const info = stmt.run(...values, id);
+
+    return info.changes > 0;
+  }
+
+  deleteAuthProfile(id: number): boolean {
+    const stmt = this.db.prepare('DELETE FROM auth_profiles WHERE id = ?');
+    const info = stmt.run(id);
+    return info.changes > 0;
+  }
+
+  // Environment pair operations
+  createEnvironmentPair(spaceId: number, pair: EnvironmentPair): EnvironmentPairRecord {
+    const stmt = this.db.prepare(`
+      INSERT INTO environment_pairs (space_id, name, left_target, right_target, rules, description)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    const info = stmt.run(
+      spaceId,
+      pair.name,
+      JSON.stringify(pair.left),
+      JSON.stringify(pair.right),
+      JSON.stringify(pair.rules || []),
+      pair.description ?? null
+    );
+
+    return this.getEnvironmentPairById(info.lastInsertRowid as number)!;
+  }
+
+  getEnvironmentPairById(id: number): EnvironmentPairRecord | null {
+    const stmt = this.db.prepare('SELECT * FROM environment_pairs WHERE id = ?');
+    return (stmt.get(id) as EnvironmentPairRecord) || null;
+  }
+
+  getEnvironmentPair(spaceId: number, name: string): EnvironmentPairRecord | null {
+    const stmt = this.db.prepare('SELECT * FROM environment_pairs WHERE space_id = ? AND name = ?');
+    return (stmt.get(spaceId, name) as EnvironmentPairRecord) || null;
+  }
+
+  getEnvironmentPairsBySpaceId(spaceId: number): EnvironmentPairRecord[] {
+    const stmt = this.db.prepare('SELECT * FROM environment_pairs WHERE space_id = ? ORDER BY name');
+    return stmt.all(spaceId) as EnvironmentPairRecord[];
+  }
+
+  updateEnvironmentPair(id: number, updates: Partial<Omit<EnvironmentPair, 'name'>>): boolean {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    if (updates.left !== undefined) {
+      fields.push('left_target = ?');
+      values.push(JSON.stringify(updates.left));
+    }
+    if (updates.right !== undefined) {
+      fields.push('right_target = ?');
+      values.push(JSON.stringify(updates.right));
+    }
+    if (updates.rules !== undefined) {
+      fields.push('rules = ?');
+      values.push(JSON.stringify(updates.rules));
+    }
+    if (updates.description !== undefined) {
+      fields.push('description = ?');
+      values.push(updates.description);
+    }
+
+    if (fields.length === 0) return false;
+
+    const stmt = this.db.prepare(`UPDATE environment_pairs SET ${fields.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`);
+    const info = stmt.run(...values, id);
+
+    return info.changes > 0;
+  }
+
+  deleteEnvironmentPair(id: number): boolean {
+    const stmt = this.db.prepare('DELETE FROM environment_pairs WHERE id = ?');
+    const info = stmt.run(id);
+    return info.changes > 0;
+  }
+
+  // Webhook operations (URL and headers are stored encrypted, they usually carry credentials)
+  createWebhook(spaceId: number, webhook: WebhookTarget): WebhookRecord {
+    const stmt = this.db.prepare(`
+      INSERT INTO webhooks (space_id, name, url, format, min_severity, headers, retry, enabled, description)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const info = stmt.run(
+      spaceId,
+      webhook.name,
+      encryptSecret(webhook.url),
+      webhook.format || 'generic',
+      webhook.minSeverity || 'breaking',
+      encryptSecret(JSON.stringify(webhook.headers || {})),
+      webhook.retry ? JSON.stringify(webhook.retry) : null,
+      webhook.enabled === false ? 0 : 1,
+      webhook.description ?? null
+    );
+
+    return this.getWebhookById(info.lastInsertRowid as number)!;
+  }
+
+  getWebhookById(id: number): WebhookRecord | null {
+    const stmt = this.db.prepare('SELECT * FROM webhooks WHERE id = ?');
+    return this.decryptWebhook(stmt.get(id) as WebhookRecord | null);
+  }
+
+  getWebhook(spaceId: number, name: string): WebhookRecord | null {
+    const stmt = this.db.prepare('SELECT * FROM webhooks WHERE space_id = ? AND name = ?');
+    return this.decryptWebhook(stmt.get(spaceId, name) as WebhookRecord | null);
+  }
+
+  getWebhooksBySpaceId(spaceId: number): WebhookRecord[] {
+    const stmt = this.db.prepare('SELECT * FROM webhooks WHERE space_id = ? ORDER BY name');
+    return (stmt.all(spaceId) as WebhookRecord[]).map(record => this.decryptWebhook(record)!);
+  }
+
+  private decryptWebhook(record: WebhookRecord | null): WebhookRecord | null {
+    if (!record) {
+      return null;
+    }
+    return {
+      ...record,
+      url: decryptSecret(record.url),
+      ...(record.headers ? { headers: decryptSecret(record.headers) } : {})
+    };
+  }
+
+  updateWebhook(id: number, updates: Partial<Omit<WebhookTarget, 'name'>>): boolean {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    if (updates.url !== undefined) {
+      fields.push('url = ?');
+      values.push(encryptSecret(updates.url));
+    }
+    if (updates.format !== undefined) {
+      fields.push('format = ?');
+      values.push(updates.format);
+    }
+    if (updates.minSeverity !== undefined) {
+      fields.push('min_severity = ?');
+      values.push(updates.minSeverity);
+    }
+    if (updates.headers !== undefined) {
+      fields.push('headers = ?');
+      values.push(encryptSecret(JSON.stringify(updates.headers)));
+    }
+    if (updates.retry !== undefined) {
+      fields.push('retry = ?');
+      values.push(JSON.stringify(updates.retry));
+    }
+    if (updates.enabled !== undefined) {
+      fields.push('enabled = ?');
+      values.push(updates.enabled ? 1 : 0);
+    }
+    if (updates.description !== undefined) {
+      fields.push('description = ?');
+      values.push(updates.description);
+    }
+
+    if (fields.length === 0) return false;
+
+    const stmt = this.db.prepare(`UPDATE webhooks SET ${fields.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`);
+    const info = stmt.run(...values, id);
+
+    return info.changes > 0;
+  }
+
+  deleteWebhook(id: number): boolean {
+    const stmt = this.db.prepare('DELETE FROM webhooks WHERE id = ?');
+    const info = stmt.run(id);
+    return info.changes > 0;
+  }
+
+  createWebhookDelivery(webhookId: number, delivery: {
+    event: string;
+    run_id?: string;
+    status: string;
+    attempts: number;
+    response_status?: number;
+    error?: string;
+    duration?: number;
+    payload?: any;
+  }): WebhookDeliveryRecord {
+    const stmt = this.db.prepare(`
+      INSERT INTO webhook_deliveries (webhook_id, event, run_id, status, attempts, response_status, error, duration, payload)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const info = stmt.run(
+      webhookId,
+      delivery.event,
+      delivery.run_id ?? null,
+      delivery.status,
+      delivery.attempts,
+      delivery.response_status ?? null,
+      delivery.error ?? null,
+      delivery.duration ?? null,
+      delivery.payload !== undefined ? JSON.stringify(delivery.payload) : null
+    );
+
+    const select = this.db.prepare('SELECT * FROM webhook_deliveries WHERE id = ?');
+    return select.get(info.lastInsertRowid) as WebhookDeliveryRecord;
+  }
+
+  // Newest first
+  getWebhookDeliveries(webhookId: number, limit: number = 50): WebhookDeliveryRecord[] {
+    const stmt = this.db.prepare('SELECT * FROM webhook_deliveries WHERE webhook_id = ? ORDER BY created_at DESC, id DESC LIMIT ?');
+    return stmt.all(webhookId, limit) as WebhookDeliveryRecord[];
+  }
+
+  // Baseline operations
+  createBaseline(spaceId: number, endpointId: number, baseline: {
+    filepath: string;
+    snapshot_id?: number;
+    approved_by?: string;
+    reason?: string;
+    reverted_from?: number;
+  }): BaselineRecord {
+    return this.transaction(() => {
+      this.db.prepare(`
+        UPDATE baselines SET status = 'superseded', superseded_at = CURRENT_TIMESTAMP
+        WHERE endpoint_id = ? AND status = 'active'
+      `).run(endpointId);
+
+      const info = this.db.prepare(`
+        INSERT INTO baselines (space_id, endpoint_id, snapshot_id, filepath, status, approved_by, reason, reverted_from)
+        VALUES (?, ?, ?, ?, 'active', ?, ?, ?)
+      `).run(
+        spaceId,
+        endpointId,
+        baseline.snapshot_id ?? null,
+        baseline.filepath,
+        baseline.approved_by ?? null,
+        baseline.reason ?? null,
+        baseline.reverted_from ?? null
+      );
+
+      return this.getBaselineById(info.lastInsertRowid as number)!;
+    });
+  }
+
+  getBaselineById(id: number): BaselineRecord | null {
+    const stmt = this.db.prepare('SELECT * FROM baselines WHERE id = ?');
+    return stmt.get(id) as BaselineRecord | null;
+  }
+
+  getActiveBaseline(endpointId: number): BaselineRecord | null {
+    const stmt = this.db.prepare("SELECT * FROM baselines WHERE endpoint_id = ? AND status = 'active'");
+    return stmt.get(endpointId) as BaselineRecord | null;
+  }
+
+  getBaselinesByEndpointId(endpointId: number, limit: number = 50): BaselineRecord[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM baselines 
+      WHERE endpoint_id = ? 
+      ORDER BY created_at DESC, id DESC 
+      LIMIT ?
+    `);
+    return stmt.all(endpointId, limit) as BaselineRecord[];
+  }
+
+  createBaselineApproval(spaceId: number, approval: {
+    endpoint_id?: number;
+    endpoint_name: string;
+    decision: string;
+    approved_by?: string;
+    reason?: string;
+    baseline_id?: number;
+    snapshot_id?: number;
+    changes_count?: number;
+    breaking_changes?: number;
+    non_breaking_changes?: number;
+    differences?: Array<{ path: string; type: string; severity: string }>;
+    source?: string;
+  }): BaselineApprovalRecord {
+    const stmt = this.db.prepare(`
+      INSERT INTO baseline_approvals (
+        space_id, endpoint_id, endpoint_name, decision, approved_by, reason, baseline_id, snapshot_id,
+        changes_count, breaking_changes, non_breaking_changes, differences, source
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const info = stmt.run(
+      spaceId,
+      approval.endpoint_id ?? null,
+      approval.endpoint_name,
+      approval.decision,
+      approval.approved_by ?? null,
+      approval.reason ?? null,
+      approval.baseline_id ?? null,
+      approval.snapshot_id ?? null,
+      approval.changes_count ?? 0,
+      approval.breaking_changes ?? 0,
+      approval.non_breaking_changes ?? 0,
+      approval.differences ? JSON.stringify(approval.differences) : null,
+      approval.source ?? 'web'
+    );
+
+    const created = this.db.prepare('SELECT * FROM baseline_approvals WHERE id = ?').get(info.lastInsertRowid);
+    return created as BaselineApprovalRecord;
+  }
+
+  getBaselineApprovals(spaceId: number, filters: {
+    endpoint_name?: string;
+    decision?: string;
+    since?: Date;
+    limit?: number;
+  } = {}): BaselineApprovalRecord[] {
+    const conditions = ['space_id = ?'];
+    const values: any[] = [spaceId];
+
+    if (filters.endpoint_name) {
+      conditions.push('endpoint_name = ?');
+      values.push(filters.endpoint_name);
+    }
+    if (filters.decision) {
+      conditions.push('decision = ?');
+      values.push(filters.decision);
+    }
+    if (filters.since) {
+      // CURRENT_TIMESTAMP is stored as 'YYYY-MM-DD HH:MM:SS' in UTC
+      conditions.push('created_at >= ?');
+      values.push(filters.since.toISOString().replace('T', ' ').slice(0, 19));
+    }
+
+    const stmt = this.db.prepare(`
+      SELECT * FROM baseline_approvals 
+      WHERE ${conditions.join(' AND ')} 
+      ORDER BY created_at DESC, id DESC 
+      LIMIT ?
+    `);
+    return stmt.all(...values, filters.limit ?? 500) as BaselineApprovalRecord[];
+  }
+
   // Utility methods
   private endpointRecordToApiEndpoint(record: EndpointRecord): ApiEndpoint {
     return {
@@ -372,7 +1346,10 @@ export class DatabaseService {
       auth: record.auth ? JSON.parse(record.auth) : undefined,
       schema: record.schema ? JSON.parse(record.schema) : undefined,
       timeout: record.timeout,
-      parameters: {} // Will be populated separately
+      parameters: {}, // Will be populated separately
+      extract: record.extract ? JSON.parse(record.extract) : undefined,
+      dependsOn: record.depends_on ? JSON.parse(record.depends_on) : undefined,
+      graphql: record.graphql ? JSON.parse(record.graphql) : undefined
     };
   }
 
@@ -389,17 +1366,22 @@ export class DatabaseService {
   // Saved servers operations
   getSavedServers(): any[] {
     const stmt = this.db.prepare('SELECT * FROM saved_servers ORDER BY is_default DESC, name ASC');
-    return stmt.all();
+    return stmt.all().map(server => this.decryptSavedServer(server));
   }
 
   getSavedServerById(id: number): any | null {
     const stmt = this.db.prepare('SELECT * FROM saved_servers WHERE id = ?');
-    return stmt.get(id);
+    return this.decryptSavedServer(stmt.get(id));
   }
 
   getSavedServerByUrl(url: string): any | null {
     const stmt = this.db.prepare('SELECT * FROM saved_servers WHERE url = ?');
-    return stmt.get(url);
+    return this.decryptSavedServer(stmt.get(url));
+  }
+
+  // auth_config is stored encrypted, callers get the JSON string as before
+  private decryptSavedServer(server: any): any {
+    return server && server.auth_config ? { ...server, auth_config: decryptSecret(server.auth_config) } : server;
   }
 
   createSavedServer(server: {
@@ -424,7 +1406,7 @@ export class DatabaseService {
       server.is_default ? 1 : 0,
       server.is_locked ? 1 : 0,
       server.environment || null,
-      server.auth_config ? JSON.stringify(server.auth_config) : null,
+      server.auth_config ? encryptSecret(JSON.stringify(server.auth_config)) : null,
       server.server_info ? JSON.stringify(server.server_info) : null
     );
     
@@ -447,7 +1429,9 @@ export class DatabaseService {
     Object.entries(updates).forEach(([key, value]) => {
       if (value !== undefined) {
         fields.push(`${key} = ?`);
-        if (key === 'auth_config' || key === 'server_info') {
+        if (key === 'auth_config') {
+          values.push(encryptSecret(JSON.stringify(value)));
+        } else if (key === 'server_info') {
           values.push(JSON.stringify(value));
         } else if (key === 'is_default' || key === 'is_locked') {
           values.push(value ? 1 : 0);
@@ -1,12 +1,25 @@
 import { diffJson } from 'diff';
-import { ApiSnapshot, SnapshotComparison, SnapshotDiff, DiffRule, ValidationResult } from './types.js';
+import { ApiSnapshot, SnapshotComparison, SnapshotDiff, DiffRule, DiffOptions, ValidationResult } from './types.js';
+import { DEFAULT_ARRAY_KEYS, findArrayIdentityKey, matchArrayElements } from './utils/arrayMatcher.js';
+import { diffResponseBodies } from './utils/bodyHandlers.js';
+import { diffGraphQLResponses } from './utils/graphql.js';
+import { findMatchingRule } from './utils/pathMatcher.js';
+import { compareSnapshotShapes } from './utils/schemaInference.js';
+import { normalizeSnapshot } from './utils/valueNormalizer.js';
 
 export class DiffEngine {
-  constructor(private readonly rules: DiffRule[] = []) {}
+  constructor(
+    private readonly rules: DiffRule[] = [],
+    private readonly arrayKeys: string[] = DEFAULT_ARRAY_KEYS
+  ) {}
 
-  compareSnapshots(baseline: ApiSnapshot, current: ApiSnapshot): SnapshotComparison {
+  compareSnapshots(baseline: ApiSnapshot, current: ApiSnapshot, options: DiffOptions = {}): SnapshotComparison {
     const differences: SnapshotDiff[] = [];
     
+    // Mask dynamic values (timestamps, ids, cursors) so they do not flood the diff
+    const normalizedBaseline = normalizeSnapshot(baseline, this.rules);
+    const normalizedCurrent = normalizeSnapshot(current, this.rules);
+    
     // Compare status codes
     if (baseline.response.status !== current.response.status) {
       differences.push({
@@ -18,13 +31,17 @@ export class DiffEngine {
       });
     }
 
-    // Compare response data
-    const dataDiffs = this.compareData(baseline.response.data, current.response.data, 'response.data');
+    // Compare response data, or only its inferred shape for APIs with volatile values
+    const dataDiffs = options.shapeOnly
+      ? compareSnapshotShapes(normalizedBaseline, normalizedCurrent)
+      : this.compareResponseBodies(normalizedBaseline, normalizedCurrent);
     differences.push(...dataDiffs);
 
     // Compare headers (excluding sensitive ones)
-    const headerDiffs = this.compareHeaders(baseline.response.headers, current.response.headers);
-    differences.push(...headerDiffs);
+    if (!options.shapeOnly) {
+      const headerDiffs = this.compareHeaders(normalizedBaseline.response.headers, normalizedCurrent.response.headers);
+      differences.push(...headerDiffs);
+    }
 
     // Compare schema validation results
     const schemaDiffs = this.compareSchemaValidation(baseline, current);
@@ -42,6 +59,14 @@ export class DiffEngine {
     };
   }
 
+  // GraphQL responses are compared per envelope member (data, errors), other bodies with their content-type's handler
+  private compareResponseBodies(baseline: ApiSnapshot, current: ApiSnapshot): SnapshotDiff[] {
+    const compare = (oldData: any, newData: any, path: string) => this.compareData(oldData, newData, path);
+    return baseline.endpoint.graphql || current.endpoint.graphql
+      ? diffGraphQLResponses(baseline.response.data, current.response.data, compare)
+      : diffResponseBodies(baseline, current, compare);
+  }
+
   private compareData(oldData: any, newData: any, basePath: string): SnapshotDiff[] {
     const differences: SnapshotDiff[] = [];
     
@@ -134,6 +159,13 @@ export class DiffEngine {
       });
     }
 
+    // Match elements by identity when the arrays carry one, so inserts and reorders stay local
+    const identityKey = findArrayIdentityKey(oldArray, newArray, this.getArrayKeyCandidates(basePath));
+    if (identityKey) {
+      differences.push(...this.compareArraysByKey(oldArray, newArray, basePath, identityKey));
+      return differences;
+    }
+
     // Compare elements (up to the shorter array length)
     const minLength = Math.min(oldArray.length, newArray.length);
     for (let i = 0; i < minLength; i++) {
@@ -144,6 +176,51 @@ export class DiffEngine {
     return differences;
   }
 
+  private compareArraysByKey(oldArray: any[], newArray: any[], basePath: string, key: string): SnapshotDiff[] {
+    const differences: SnapshotDiff[] = [];
+    const match = matchArrayElements(oldArray, newArray, key);
+
+    for (const oldIndex of match.removed) {
+      differences.push({
+        path: `${basePath}[${oldIndex}]`,
+        type: 'removed',
+        oldValue: oldArray[oldIndex],
+        severity: 'breaking'
+      });
+    }
+
+    for (const newIndex of match.added) {
+      differences.push({
+        path: `${basePath}[${newIndex}]`,
+        type: 'added',
+        newValue: newArray[newIndex],
+        severity: 'non-breaking'
+      });
+    }
+
+    for (const moved of match.moved) {
+      differences.push({
+        path: `${basePath}[${moved.newIndex}]`,
+        type: 'moved',
+        oldValue: moved.oldIndex,
+        newValue: moved.newIndex,
+        severity: 'informational'
+      });
+    }
+
+    for (const { oldIndex, newIndex } of match.matched) {
+      differences.push(...this.compareData(oldArray[oldIndex], newArray[newIndex], `${basePath}[${newIndex}]`));
+    }
+
+    return differences;
+  }
+
+  private getArrayKeyCandidates(basePath: string): string[] {
+    const rule = findMatchingRule(this.rules, basePath, r => !!r.arrayKey, { exact: true, skipIndexes: true });
+
+    return rule?.arrayKey ? [rule.arrayKey] : this.arrayKeys;
+  }
+
   private compareHeaders(oldHeaders: Record<string, string>, newHeaders: Record<string, string>): SnapshotDiff[] {
     const differences: SnapshotDiff[] = [];
     const importantHeaders = ['content-type', 'content-length', 'cache-control'];
@@ -193,7 +270,7 @@ export class DiffEngine {
 
   private applyRules(differences: SnapshotDiff[]): SnapshotDiff[] {
     return differences.filter(diff => {
-      const rule = this.rules.find(r => diff.path.startsWith(r.path));
+      const rule = findMatchingRule(this.rules, diff.path, r => !!(r.ignore || r.severity));
       
       if (rule) {
         if (rule.ignore) {
@@ -202,6 +279,7 @@ export class DiffEngine {
         if (rule.severity) {
           diff.severity = rule.severity;
         }
+        diff.rule = rule.path;
       }
       
       return true;
@@ -11,11 +11,12 @@ export class ApiKeyAuthProvider implements AuthProvider {
   type = 'apikey';
   private config: ApiKeyAuthConfig = { headerName: 'X-API-Key' };
 
-  async configure(config: ApiKeyAuthConfig): Promise<void> {
-    if (!config.headerName) {
+  async configure(config: Partial<ApiKeyAuthConfig>): Promise<void> {
+    const headerName = config.headerName ?? 'X-API-Key';
+    if (!headerName) {
       throw new Error('headerName is required for API key authentication');
     }
-    this.config = { keyEnvVar: 'API_KEY', ...config };
+    this.config = { keyEnvVar: 'API_KEY', ...config, headerName };
   }
 
   async authenticate(request: RequestConfig): Promise<RequestConfig> {
@@ -0,0 +1,280 @@
+import { AuthProvider, HttpClient, HttpResponse, RequestConfig } from '../../core/interfaces.js';
+import { AxiosHttpClient } from '../../services/http-client.js';
+
+export type OAuth2GrantType = 'client_credentials' | 'password' | 'refresh_token';
+
+// Every secret can be given directly, as the name of a space parameter (`...Param`) or of an environment
+// variable (`...EnvVar`), in that order of precedence
+export interface OAuth2AuthConfig {
+  tokenUrl?: string;
+  tokenUrlEnvVar?: string;
+  grantType?: OAuth2GrantType;
+  clientId?: string;
+  clientIdParam?: string;
+  clientIdEnvVar?: string;
+  clientSecret?: string;
+  clientSecretParam?: string;
+  clientSecretEnvVar?: string;
+  username?: string;
+  usernameParam?: string;
+  usernameEnvVar?: string;
+  password?: string;
+  passwordParam?: string;
+  passwordEnvVar?: string;
+  refreshToken?: string;
+  refreshTokenParam?: string;
+  refreshTokenEnvVar?: string;
+  scope?: string;
+  audience?: string;
+  clientAuthentication?: 'basic' | 'body'; // How client credentials are sent (default: basic)
+  space?: string; // Space whose parameters hold the secrets (default: 'default')
+  expiryMarginSeconds?: number; // Tokens are renewed this long before they expire (default: 30)
+}
+
+type SecretField = 'clientId' | 'clientSecret' | 'username' | 'password' | 'refreshToken';
+
+interface CachedToken {
+  accessToken: string;
+  tokenType: string;
+  expiresAt?: number;
+  refreshToken?: string;
+}
+
+const GRANT_TYPES: OAuth2GrantType[] = ['client_credentials', 'password', 'refresh_token'];
+
+const DEFAULT_ENV_VARS: Record<SecretField, string> = {
+  clientId: 'OAUTH_CLIENT_ID',
+  clientSecret: 'OAUTH_CLIENT_SECRET',
+  username: 'OAUTH_USERNAME',
+  password: 'OAUTH_PASSWORD',
+  refreshToken: 'OAUTH_REFRESH_TOKEN'
+};
+
+// Fields each grant cannot do without
+const REQUIRED_FIELDS: Record<OAuth2GrantType, SecretField[]> = {
+  client_credentials: ['clientId', 'clientSecret'],
+  password: ['clientId', 'username', 'password'],
+  refresh_token: ['clientId', 'refreshToken']
+};
+
+export type SpaceParameterLoader = (space: string) => Promise<Record<string, string>>;
+
+async function loadParametersFromDatabase(space: string): Promise<Record<string, string>> {
+  const { loadSpaceParameters } = await import('../../utils/databaseSpaceParameterResolver.js');
+  return loadSpaceParameters(space);
+}
+
+export class OAuth2AuthProvider implements AuthProvider {
+  name = 'oauth2';
+  type = 'oauth2';
+  private config: OAuth2AuthConfig = {};
+  // Tokens are shared by every configuration that requests the same client, grant and scope
+  private tokens = new Map<string, CachedToken>();
+  private pending = new Map<string, Promise<CachedToken>>();
+
+  constructor(
+    private httpClient: HttpClient = new AxiosHttpClient(),
+    private loadParameters: SpaceParameterLoader = loadParametersFromDatabase,
+    private now: () => number = Date.now
+  ) {}
+
+  async configure(config: OAuth2AuthConfig): Promise<void> {
+    if (config.grantType && !GRANT_TYPES.includes(config.grantType)) {
+      throw new Error(`Unsupported OAuth2 grant type '${config.grantType}'`);
+    }
+    this.config = { ...config };
+  }
+
+  async authenticate(request: RequestConfig): Promise<RequestConfig> {
+    const token = await this.getToken();
+
+    return {
+      ...request,
+      headers: {
+        ...request.headers,
+        'Authorization': `${token.tokenType} ${token.accessToken}`
+      }
+    };
+  }
+
+  // A 401 means the cached token was revoked or expired early: drop it so the next request fetches a new one
+  async handleUnauthorized(request: RequestConfig, response: HttpResponse): Promise<boolean> {
+    const cacheKey = await this.getCacheKey();
+    const cached = this.tokens.get(cacheKey);
+    const sent = request.headers?.['Authorization'];
+
+    if (response.status !== 401 || !cached || sent !== `${cached.tokenType} ${cached.accessToken}`) {
+      return false;
+    }
+
+    this.tokens.set(cacheKey, { ...cached, expiresAt: 0 });
+    return true;
+  }
+
+  validateConfig(config: any): boolean {
+    if (typeof config !== 'object' || config === null) {
+      return false;
+    }
+    if (typeof config.tokenUrl !== 'string' && typeof config.tokenUrlEnvVar !== 'string') {
+      return false;
+    }
+    return config.grantType === undefined || GRANT_TYPES.includes(config.grantType);
+  }
+
+  private async getToken(): Promise<CachedToken> {
+    const cacheKey = await this.getCacheKey();
+    const cached = this.tokens.get(cacheKey);
+    const margin = (this.config.expiryMarginSeconds ?? 30) * 1000;
+
+    if (cached && (cached.expiresAt === undefined || cached.expiresAt - margin > this.now())) {
+      return cached;
+    }
+
+    // Concurrent captures wait for the same token request
+    let request = this.pending.get(cacheKey);
+    if (!request) {
+      request = this.fetchToken(cached?.refreshToken)
+        .then(token => {
+          this.tokens.set(cacheKey, token);
+          return token;
+        })
+        .finally(() => this.pending.delete(cacheKey));
+      this.pending.set(cacheKey, request);
+    }
+    return request;
+  }
+
+  // Uses the refresh token of the previous response when there is one, falling back to the configured grant
+  private async fetchToken(previousRefreshToken?: string): Promise<CachedToken> {
+    if (previousRefreshToken) {
+      try {
+        return await this.requestToken('refresh_token', { refresh_token: previousRefreshToken });
+      } catch (error) {
+        if (this.grantType === 'refresh_token') {
+          throw error;
+        }
+      }
+    }
+
+    switch (this.grantType) {
+      case 'password':
+        return this.requestToken('password', {
+          username: await this.requireSecret('username'),
+          password: await this.requireSecret('password')
+        });
+      case 'refresh_token':
+        return this.requestToken('refresh_token', { refresh_token: await this.requireSecret('refreshToken') });
+      default:
+        return this.requestToken('client_credentials', {});
+    }
+  }
+
+  private async requestToken(grantType: OAuth2GrantType, grantParams: Record<string, string>): Promise<CachedToken> {
+    const tokenUrl = this.getTokenUrl();
+    const clientId = await this.requireSecret('clientId');
+    const clientSecret = await this.resolveSecret('clientSecret');
+    if (grantType === 'client_credentials' && !clientSecret) {
+      throw new Error(this.missingSecretMessage('clientSecret'));
+    }
+
+    const params = new URLSearchParams({ grant_type: grantType, ...grantParams });
+    if (this.config.scope) {
+      params.set('scope', this.config.scope);
+    }
+    if (this.config.audience) {
+      params.set('audience', this.config.audience);
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json'
+    };
+    if (this.config.clientAuthentication === 'body') {
+      params.set('client_id', clientId);
+      if (clientSecret) {
+        params.set('client_secret', clientSecret);
+      }
+    } else {
+      const credentials = `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret || '')}`;
+      headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    const response = await this.httpClient.request({ method: 'POST', url: tokenUrl, headers, data: params.toString() });
+    const body = typeof response.data === 'string' ? this.parseJson(response.data) : response.data;
+
+    if (response.status < 200 || response.status >= 300 || !body?.access_token) {
+      const reason = body?.error_description || body?.error || (response.status < 300 ? 'no access_token in response' : undefined);
+      throw new Error(`OAuth2 token request to ${tokenUrl} failed with HTTP ${response.status}${reason ? `: ${reason}` : ''}`);
+    }
+
+    const expiresIn = Number(body.expires_in);
+    return {
+      accessToken: String(body.access_token),
+      // Servers disagree on the case of the token type, `Bearer` is what resource servers expect
+      tokenType: !body.token_type || /^bearer$/i.test(body.token_type) ? 'Bearer' : String(body.token_type),
+      expiresAt: Number.isFinite(expiresIn) && expiresIn > 0 ? this.now() + expiresIn * 1000 : undefined,
+      refreshToken: body.refresh_token || (grantType === 'refresh_token' ? grantParams.refresh_token : undefined)
+    };
+  }
+
+  private get grantType(): OAuth2GrantType {
+    return this.config.grantType || 'client_credentials';
+  }
+
+  private getTokenUrl(): string {
+    const tokenUrl = this.config.tokenUrl || process.env[this.config.tokenUrlEnvVar || 'OAUTH_TOKEN_URL'];
+    if (!tokenUrl) {
+      throw new Error('No OAuth2 token URL available. Set OAUTH_TOKEN_URL environment variable or configure tokenUrl directly.');
+    }
+    return tokenUrl;
+  }
+
+  private async getCacheKey(): Promise<string> {
+    const clientId = await this.resolveSecret('clientId');
+    const user = this.grantType === 'password' ? await this.resolveSecret('username') : '';
+    return [this.config.tokenUrl || this.config.tokenUrlEnvVar, clientId, this.grantType, user, this.config.scope, this.config.audience].join('|');
+  }
+
+  private async resolveSecret(field: SecretField): Promise<string | undefined> {
+    const config = this.config as Record<string, any>;
+    if (config[field]) {
+      return config[field];
+    }
+
+    const parameterName = config[`${field}Param`];
+    if (parameterName) {
+      const parameters = await this.loadParameters(this.config.space || 'default');
+      if (parameters[parameterName]) {
+        return parameters[parameterName];
+      }
+    }
+
+    return process.env[config[`${field}EnvVar`] || DEFAULT_ENV_VARS[field]];
+  }
+
+  private async requireSecret(field: SecretField): Promise<string> {
+    const value = await this.resolveSecret(field);
+    if (!value) {
+      throw new Error(this.missingSecretMessage(field));
+    }
+    return value;
+  }
+
+  private missingSecretMessage(field: SecretField): string {
+    const config = this.config as Record<string, any>;
+    const sources = [
+      config[`${field}Param`] ? `space parameter '${config[`${field}Param`]}'` : undefined,
+      `${config[`${field}EnvVar`] || DEFAULT_ENV_VARS[field]} environment variable`
+    ].filter(Boolean);
+    const purpose = REQUIRED_FIELDS[this.grantType].includes(field) ? ` (required for the ${this.grantType} grant)` : '';
+    return `No OAuth2 ${field} available${purpose}. Set ${sources.join(' or ')} or configure ${field} directly.`;
+  }
+
+  private parseJson(text: string): any {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { OutputFormatter, FormatOptions } from '../../core/interfaces.js';
+import { SnapshotComparison, SnapshotDiff } from '../../types.js';
+
+// JUnit XML for CI test reports: every endpoint is a test case that fails when it has breaking changes.
+// Non-breaking and informational changes are listed in the test case's output without failing it.
+export class JUnitFormatter implements OutputFormatter {
+  name = 'junit';
+
+  format(comparisons: SnapshotComparison[], options: FormatOptions = {}): string {
+    const filteredComparisons = comparisons.filter(c => c !== null);
+    const failures = filteredComparisons.filter(c => this.breaking(c).length > 0).length;
+    const time = filteredComparisons.reduce((acc, c) => acc + this.seconds(c), 0);
+    const timestamp = new Date().toISOString();
+    const counts = `tests="${filteredComparisons.length}" failures="${failures}" errors="0" skipped="0" time="${time.toFixed(3)}"`;
+
+    const output: string[] = [];
+    output.push('<?xml version="1.0" encoding="UTF-8"?>');
+    output.push(`<testsuites name="API Snapshot Comparison" ${counts}>`);
+    output.push(`  <testsuite name="api-snapshot" ${counts} timestamp="${timestamp}">`);
+
+    for (const comparison of filteredComparisons) {
+      output.push(...this.testCase(comparison, options));
+    }
+
+    output.push('  </testsuite>');
+    output.push('</testsuites>');
+    return output.join('\n');
+  }
+
+  supportsOptions(options: string[]): boolean {
+    const supportedOptions = ['details', 'onlyBreaking', 'summary'];
+    return options.every(option => supportedOptions.includes(option));
+  }
+
+  private testCase(comparison: SnapshotComparison, options: FormatOptions): string[] {
+    const breaking = this.breaking(comparison);
+    const other = comparison.differences.filter(d => d.severity !== 'breaking');
+    const attributes = `name="${escapeXml(comparison.endpoint)}" classname="api-snapshot" time="${this.seconds(comparison).toFixed(3)}"`;
+
+    const body: string[] = [];
+    if (breaking.length > 0) {
+      const message = `${breaking.length} breaking change(s): ${breaking.map(d => d.path).join(', ')}`;
+      body.push(`      <failure message="${escapeXml(message)}" type="BreakingChange">`);
+      if (!options.summary) {
+        body.push(escapeXml(breaking.map(d => this.describe(d, options)).join('\n')));
+      }
+      body.push('      </failure>');
+    }
+    if (other.length > 0 && !options.onlyBreaking && !options.summary) {
+      body.push('      <system-out>');
+      body.push(escapeXml(other.map(d => this.describe(d, options)).join('\n')));
+      body.push('      </system-out>');
+    }
+
+    return body.length > 0
+      ? [`    <testcase ${attributes}>`, ...body, '    </testcase>']
+      : [`    <testcase ${attributes}/>`];
+  }
+
+  private breaking(comparison: SnapshotComparison): SnapshotDiff[] {
+    return comparison.differences.filter(d => d.severity === 'breaking');
+  }
+
+  // Response time of the current capture
+  private seconds(comparison: SnapshotComparison): number {
+    return (comparison.current?.response?.duration || 0) / 1000;
+  }
+
+  private describe(diff: SnapshotDiff, options: FormatOptions): string {
+    const line = `${diff.path}: ${diff.type} (${diff.severity})${diff.rule ? ` [rule: ${diff.rule}]` : ''}`;
+    if (!options.details || (diff.oldValue === undefined && diff.newValue === undefined)) {
+      return line;
+    }
+    return `${line}\n  - Old: ${JSON.stringify(diff.oldValue)}\n  + New: ${JSON.stringify(diff.newValue)}`;
+  }
+}
+
+// Escapes markup and drops control characters XML 1.0 does not allow
+function escapeXml(value: string): string {
+  return value
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
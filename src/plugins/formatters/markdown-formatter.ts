@@ -1,5 +1,5 @@
 import { OutputFormatter, FormatOptions } from '../../core/interfaces.js';
-import { SnapshotComparison } from '../../types.js';
+import { SnapshotComparison, SnapshotDiff } from '../../types.js';
 
 export class MarkdownFormatter implements OutputFormatter {
   name = 'markdown';
@@ -60,7 +60,7 @@ export class MarkdownFormatter implements OutputFormatter {
         output.push('');
         if (!options.summary) {
           breaking.forEach(diff => {
-            output.push(`- **${diff.path}**: \`${diff.type}\``);
+            output.push(`- **${diff.path}**: \`${diff.type}\`${this.describeRule(diff)}`);
             if (options.details && diff.oldValue !== undefined && diff.newValue !== undefined) {
               output.push(`  - **Old:** \`${JSON.stringify(diff.oldValue)}\``);
               output.push(`  - **New:** \`${JSON.stringify(diff.newValue)}\``);
@@ -76,7 +76,7 @@ export class MarkdownFormatter implements OutputFormatter {
           output.push('');
           if (!options.summary && options.details) {
             nonBreaking.forEach(diff => {
-              output.push(`- **${diff.path}**: \`${diff.type}\``);
+              output.push(`- **${diff.path}**: \`${diff.type}\`${this.describeRule(diff)}`);
               if (diff.oldValue !== undefined && diff.newValue !== undefined) {
                 output.push(`  - **Old:** \`${JSON.stringify(diff.oldValue)}\``);
                 output.push(`  - **New:** \`${JSON.stringify(diff.newValue)}\``);
@@ -91,7 +91,7 @@ export class MarkdownFormatter implements OutputFormatter {
           output.push('');
           if (!options.summary && options.details) {
             informational.forEach(diff => {
-              output.push(`- **${diff.path}**: \`${diff.type}\``);
+              output.push(`- **${diff.path}**: \`${diff.type}\`${this.describeRule(diff)}`);
               if (diff.oldValue !== undefined && diff.newValue !== undefined) {
                 output.push(`  - **Old:** \`${JSON.stringify(diff.oldValue)}\``);
                 output.push(`  - **New:** \`${JSON.stringify(diff.newValue)}\``);
@@ -113,4 +113,8 @@ export class MarkdownFormatter implements OutputFormatter {
     const supportedOptions = ['details', 'onlyBreaking', 'summary'];
     return options.every(option => supportedOptions.includes(option));
   }
-}
\ No newline at end of file
+
+  private describeRule(diff: SnapshotDiff): string {
+    return diff.rule ? ` _(rule: \`${diff.rule}\`)_` : '';
+  }
+}
@@ -0,0 +1,81 @@
+import { OutputFormatter, FormatOptions } from '../../core/interfaces.js';
+import { SnapshotComparison, SnapshotDiff } from '../../types.js';
+
+// SARIF 2.1.0 for code scanning: every breaking change is an error-level result, with one rule per kind of
+// change. Results point at the file that defines the endpoints (`options.artifactUri`, e.g. the config file)
+// and carry the endpoint and JSON path as logical location.
+const RULES: Record<SnapshotDiff['type'], { name: string; description: string }> = {
+  removed: { name: 'ResponseValueRemoved', description: 'A value of the baseline response is missing from the current response' },
+  changed: { name: 'ResponseValueChanged', description: 'A value of the response changed in a breaking way' },
+  added: { name: 'ResponseValueAdded', description: 'The response has a value the baseline did not have' },
+  moved: { name: 'ResponseValueMoved', description: 'A value moved to another position in the response' }
+};
+
+const RULE_PREFIX = 'api-snapshot/breaking-';
+
+export class SarifFormatter implements OutputFormatter {
+  name = 'sarif';
+
+  format(comparisons: SnapshotComparison[], options: FormatOptions = {}): string {
+    const filteredComparisons = comparisons.filter(c => c !== null);
+    const artifactUri = options.artifactUri || 'api-snapshot.config.json';
+
+    const results = filteredComparisons.flatMap(comparison =>
+      comparison.differences
+        .filter(d => d.severity === 'breaking')
+        .map(diff => this.result(comparison, diff, artifactUri, options))
+    );
+
+    const sarif = {
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [{
+        tool: {
+          driver: {
+            name: 'api-snapshot-verifier',
+            rules: Object.entries(RULES).map(([type, rule]) => ({
+              id: RULE_PREFIX + type,
+              name: rule.name,
+              shortDescription: { text: rule.description },
+              defaultConfiguration: { level: 'error' }
+            }))
+          }
+        },
+        results
+      }]
+    };
+
+    return JSON.stringify(sarif, null, 2);
+  }
+
+  supportsOptions(options: string[]): boolean {
+    const supportedOptions = ['details', 'artifactUri'];
+    return options.every(option => supportedOptions.includes(option));
+  }
+
+  private result(comparison: SnapshotComparison, diff: SnapshotDiff, artifactUri: string, options: FormatOptions) {
+    const values = options.details && (diff.oldValue !== undefined || diff.newValue !== undefined)
+      ? ` (old: ${JSON.stringify(diff.oldValue)}, new: ${JSON.stringify(diff.newValue)})`
+      : '';
+
+    return {
+      ruleId: RULE_PREFIX + diff.type,
+      ruleIndex: Object.keys(RULES).indexOf(diff.type),
+      level: 'error',
+      message: { text: `Breaking change in endpoint '${comparison.endpoint}': ${diff.path} ${diff.type}${values}` },
+      locations: [{
+        physicalLocation: { artifactLocation: { uri: artifactUri } },
+        logicalLocations: [{ name: diff.path, fullyQualifiedName: `${comparison.endpoint}/${diff.path}`, kind: 'member' }]
+      }],
+      // Keeps the alert for the same endpoint and path stable across runs
+      partialFingerprints: { endpointPath: `${comparison.endpoint}:${diff.path}:${diff.type}` },
+      properties: {
+        endpoint: comparison.endpoint,
+        path: diff.path,
+        type: diff.type,
+        ...(diff.rule ? { rule: diff.rule } : {}),
+        ...(options.details ? { oldValue: diff.oldValue, newValue: diff.newValue } : {})
+      }
+    };
+  }
+}
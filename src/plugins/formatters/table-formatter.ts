@@ -1,6 +1,6 @@
 import chalk from 'chalk';
 import { OutputFormatter, FormatOptions } from '../../core/interfaces.js';
-import { SnapshotComparison } from '../../types.js';
+import { SnapshotComparison, SnapshotDiff } from '../../types.js';
 
 export class TableFormatter implements OutputFormatter {
   name = 'table';
@@ -32,7 +32,7 @@ export class TableFormatter implements OutputFormatter {
         output.push(chalk.red(`  🚨 ${breaking.length} breaking change(s)`));
         if (!options.summary) {
           breaking.forEach(diff => {
-            output.push(chalk.red(`    • ${diff.path}: ${diff.type}`));
+            output.push(chalk.red(`    • ${diff.path}: ${diff.type}${this.describeRule(diff)}`));
             if (options.details && diff.oldValue !== undefined && diff.newValue !== undefined) {
               output.push(chalk.red(`      - Old: ${JSON.stringify(diff.oldValue)}`));
               output.push(chalk.red(`      + New: ${JSON.stringify(diff.newValue)}`));
@@ -46,7 +46,7 @@ export class TableFormatter implements OutputFormatter {
           output.push(chalk.yellow(`  ⚠️  ${nonBreaking.length} non-breaking change(s)`));
           if (!options.summary && options.details) {
             nonBreaking.forEach(diff => {
-              output.push(chalk.yellow(`    • ${diff.path}: ${diff.type}`));
+              output.push(chalk.yellow(`    • ${diff.path}: ${diff.type}${this.describeRule(diff)}`));
               if (diff.oldValue !== undefined && diff.newValue !== undefined) {
                 output.push(chalk.yellow(`      - Old: ${JSON.stringify(diff.oldValue)}`));
                 output.push(chalk.yellow(`      + New: ${JSON.stringify(diff.newValue)}`));
@@ -59,7 +59,7 @@ export class TableFormatter implements OutputFormatter {
           output.push(chalk.blue(`  ℹ️  ${informational.length} informational change(s)`));
           if (!options.summary && options.details) {
             informational.forEach(diff => {
-              output.push(chalk.blue(`    • ${diff.path}: ${diff.type}`));
+              output.push(chalk.blue(`    • ${diff.path}: ${diff.type}${this.describeRule(diff)}`));
               if (diff.oldValue !== undefined && diff.newValue !== undefined) {
                 output.push(chalk.blue(`      - Old: ${JSON.stringify(diff.oldValue)}`));
                 output.push(chalk.blue(`      + New: ${JSON.stringify(diff.newValue)}`));
@@ -90,4 +90,8 @@ export class TableFormatter implements OutputFormatter {
     const supportedOptions = ['details', 'onlyBreaking', 'summary'];
     return options.every(option => supportedOptions.includes(option));
   }
-}
\ No newline at end of file
+
+  private describeRule(diff: SnapshotDiff): string {
+    return diff.rule ? ` (rule: ${diff.rule})` : '';
+  }
+}
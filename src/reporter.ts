@@ -69,7 +69,7 @@ export class Reporter {
       if (breaking.length > 0) {
         report += `🚨 **${breaking.length} breaking change(s):**\n\n`;
         breaking.forEach(diff => {
-          report += `- \`${diff.path}\`: ${diff.type}\n`;
+          report += `- \`${diff.path}\`: ${diff.type}${this.describeRule(diff)}\n`;
           if (includeDetails && diff.oldValue !== undefined) {
             report += `  - Old: \`${JSON.stringify(diff.oldValue)}\`\n`;
           }
@@ -83,7 +83,7 @@ export class Reporter {
       if (nonBreaking.length > 0) {
         report += `⚠️ **${nonBreaking.length} non-breaking change(s):**\n\n`;
         nonBreaking.forEach(diff => {
-          report += `- \`${diff.path}\`: ${diff.type}\n`;
+          report += `- \`${diff.path}\`: ${diff.type}${this.describeRule(diff)}\n`;
         });
         report += '\n';
       }
@@ -91,7 +91,7 @@ export class Reporter {
       if (informational.length > 0) {
         report += `ℹ️ **${informational.length} informational change(s):**\n\n`;
         informational.forEach(diff => {
-          report += `- \`${diff.path}\`: ${diff.type}\n`;
+          report += `- \`${diff.path}\`: ${diff.type}${this.describeRule(diff)}\n`;
         });
         report += '\n';
       }
@@ -139,7 +139,7 @@ export class Reporter {
       if (breaking.length > 0) {
         report += `  🚨 ${breaking.length} breaking change(s):\n`;
         breaking.forEach(diff => {
-          report += `    • ${diff.path}: ${diff.type}\n`;
+          report += `    • ${diff.path}: ${diff.type}${this.describeRule(diff)}\n`;
           if (includeDetails) {
             if (diff.oldValue !== undefined) {
               report += `      Old: ${JSON.stringify(diff.oldValue)}\n`;
@@ -154,14 +154,14 @@ export class Reporter {
       if (nonBreaking.length > 0) {
         report += `  ⚠️  ${nonBreaking.length} non-breaking change(s):\n`;
         nonBreaking.forEach(diff => {
-          report += `    • ${diff.path}: ${diff.type}\n`;
+          report += `    • ${diff.path}: ${diff.type}${this.describeRule(diff)}\n`;
         });
       }
 
       if (informational.length > 0) {
         report += `  ℹ️  ${informational.length} informational change(s):\n`;
         informational.forEach(diff => {
-          report += `    • ${diff.path}: ${diff.type}\n`;
+          report += `    • ${diff.path}: ${diff.type}${this.describeRule(diff)}\n`;
         });
       }
 
@@ -205,7 +205,7 @@ export class Reporter {
       if (breaking.length > 0) {
         report += chalk.red(`  🚨 ${breaking.length} breaking change(s):\n`);
         breaking.forEach(diff => {
-          report += chalk.red(`    • ${diff.path}: ${diff.type}\n`);
+          report += chalk.red(`    • ${diff.path}: ${diff.type}${this.describeRule(diff)}\n`);
           if (includeDetails) {
             if (diff.oldValue !== undefined) {
               report += chalk.gray(`      Old: ${JSON.stringify(diff.oldValue)}\n`);
@@ -220,14 +220,14 @@ export class Reporter {
       if (nonBreaking.length > 0) {
         report += chalk.yellow(`  ⚠️  ${nonBreaking.length} non-breaking change(s):\n`);
         nonBreaking.forEach(diff => {
-          report += chalk.yellow(`    • ${diff.path}: ${diff.type}\n`);
+          report += chalk.yellow(`    • ${diff.path}: ${diff.type}${this.describeRule(diff)}\n`);
         });
       }
 
       if (informational.length > 0) {
         report += chalk.blue(`  ℹ️  ${informational.length} informational change(s):\n`);
         informational.forEach(diff => {
-          report += chalk.blue(`    • ${diff.path}: ${diff.type}\n`);
+          report += chalk.blue(`    • ${diff.path}: ${diff.type}${this.describeRule(diff)}\n`);
         });
       }
 
@@ -272,6 +272,11 @@ export class Reporter {
     };
   }
 
+  // Show which configured rule re-graded a difference
+  private describeRule(diff: SnapshotDiff): string {
+    return diff.rule ? ` (rule: ${diff.rule})` : '';
+  }
+
   async saveReport(report: string, filePath: string): Promise<void> {
     const fs = await import('fs-extra');
     await fs.ensureDir(require('path').dirname(filePath));
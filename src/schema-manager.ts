@@ -1,7 +1,16 @@
-import { ApiSchema, ValidationResult, ValidationError, ApiEndpoint } from './types.js';
+import Ajv2020 from 'ajv/dist/2020.js';
+import type { ErrorObject, ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import { ApiSchema, ValidationResult, ValidationError, ApiEndpoint, ApiSnapshot, SnapshotComparison } from './types.js';
+import { diffOpenApiDocuments } from './utils/openApiDiff.js';
+import { diffGraphQLSchemas, INTROSPECTION_QUERY, parseIntrospection, type GraphQLIntrospection } from './utils/graphql.js';
 
 export class SchemaManager {
   private schemaCache = new Map<string, any>();
+  private validatorCache = new Map<string, ValidateFunction>();
+  private jsonSchemaValidators = new WeakMap<object, ValidateFunction>();
+  private openApiIds = new Map<string, string>();
+  private ajv = this.createAjv();
 
   async loadSchema(schema: ApiSchema): Promise<any> {
     const cacheKey = `${schema.type}:${schema.source}`;
@@ -15,11 +24,15 @@ export class SchemaManager {
     try {
       switch (schema.type) {
         case 'openapi':
-          parsedSchema = await this.loadOpenApiSchema(schema.source);
+          parsedSchema = normalizeOpenApiSchema(await this.loadOpenApiSchema(schema.source));
+          this.registerOpenApiDocument(schema.source, parsedSchema);
           break;
         case 'json-schema':
           parsedSchema = await this.loadJsonSchema(schema.source);
           break;
+        case 'graphql':
+          parsedSchema = await this.loadGraphQLSchema(schema.source);
+          break;
         default:
           throw new Error(`Unsupported schema type: ${schema.type}`);
       }
@@ -105,6 +118,77 @@ export class SchemaManager {
     return endpoints;
   }
 
+  // Compare two OpenAPI documents operation by operation, reporting changes as snapshot comparisons
+  async compareOpenApiSpecs(oldSource: string, newSource: string): Promise<SnapshotComparison[]> {
+    const [oldDoc, newDoc] = await Promise.all([
+      this.loadOpenApiSchema(oldSource),
+      this.loadOpenApiSchema(newSource)
+    ]);
+    const timestamp = new Date().toISOString();
+
+    return diffOpenApiDocuments(oldDoc, newDoc).map(operationDiff => {
+      const toSnapshot = (operation: any, document: any, source: string): ApiSnapshot => ({
+        endpoint: {
+          name: `${operationDiff.method} ${operationDiff.path}`,
+          url: operationDiff.path,
+          method: operationDiff.method as ApiEndpoint['method']
+        },
+        timestamp,
+        response: { status: 0, headers: {}, data: operation ?? null, duration: 0 },
+        metadata: { version: document.info?.version || 'unknown', environment: source }
+      });
+
+      return {
+        endpoint: `${operationDiff.method} ${operationDiff.path}`,
+        baseline: toSnapshot(operationDiff.oldOperation, oldDoc, oldSource),
+        current: toSnapshot(operationDiff.newOperation, newDoc, newSource),
+        differences: operationDiff.differences,
+        hasChanges: operationDiff.differences.length > 0
+      };
+    });
+  }
+
+  // Compare two GraphQL schemas type by type; sources are introspection result files or endpoint URLs
+  async compareGraphQLSchemas(oldSource: string, newSource: string): Promise<SnapshotComparison[]> {
+    const [oldSchema, newSchema] = await Promise.all([
+      this.loadGraphQLSchema(oldSource),
+      this.loadGraphQLSchema(newSource)
+    ]);
+    const timestamp = new Date().toISOString();
+
+    return diffGraphQLSchemas(oldSchema, newSchema).map(typeDiff => {
+      const toSnapshot = (type: any, source: string): ApiSnapshot => ({
+        endpoint: { name: typeDiff.name, url: typeDiff.name, method: 'POST' },
+        timestamp,
+        response: { status: 0, headers: {}, data: type ?? null, duration: 0 },
+        metadata: { version: 'unknown', environment: source }
+      });
+
+      return {
+        endpoint: typeDiff.name,
+        baseline: toSnapshot(typeDiff.oldType, oldSource),
+        current: toSnapshot(typeDiff.newType, newSource),
+        differences: typeDiff.differences,
+        hasChanges: typeDiff.differences.length > 0
+      };
+    });
+  }
+
+  // A saved introspection result, or the result of running the introspection query against a GraphQL endpoint
+  private async loadGraphQLSchema(source: string): Promise<GraphQLIntrospection> {
+    if (/^https?:\/\//i.test(source)) {
+      const { default: axios } = await import('axios');
+      const response = await axios.post(source, { query: INTROSPECTION_QUERY, operationName: 'IntrospectionQuery' }, {
+        headers: { 'Content-Type': 'application/json' },
+        timeout: 30000
+      });
+      return parseIntrospection(response.data);
+    }
+
+    const fs = await import('fs/promises');
+    return parseIntrospection(JSON.parse(await fs.readFile(source, 'utf-8')));
+  }
+
   private async loadOpenApiSchema(source: string): Promise<any> {
     const fs = await import('fs/promises');
     const path = await import('path');
@@ -136,7 +220,7 @@ export class SchemaManager {
     const warnings: ValidationError[] = [];
 
     if (apiSchema.type === 'openapi') {
-      const validationResult = this.validateAgainstOpenApi(data, schema, type, apiSchema.operationId, statusCode);
+      const validationResult = this.validateAgainstOpenApi(data, schema, type, apiSchema.operationId, statusCode, apiSchema.source);
       errors.push(...validationResult.errors);
       warnings.push(...validationResult.warnings);
     } else if (apiSchema.type === 'json-schema') {
@@ -157,7 +241,8 @@ export class SchemaManager {
     openApiSchema: any,
     type: 'request' | 'response',
     operationId?: string,
-    statusCode?: number
+    statusCode?: number,
+    source?: string
   ): ValidationResult {
     const errors: ValidationError[] = [];
     const warnings: ValidationError[] = [];
@@ -172,8 +257,8 @@ export class SchemaManager {
         return { isValid: true, errors, warnings };
       }
 
-      const operation = this.findOperationById(openApiSchema, operationId);
-      if (!operation) {
+      const location = this.findOperationById(openApiSchema, operationId);
+      if (!location) {
         errors.push({
           path: 'root',
           message: `Operation ${operationId} not found in OpenAPI schema`,
@@ -182,17 +267,40 @@ export class SchemaManager {
         return { isValid: false, errors, warnings };
       }
 
+      const { operation, pointer } = location;
+      let schemaPointer: string | undefined;
+
       if (type === 'response' && statusCode) {
-        const responseSchema = operation.responses?.[statusCode.toString()] || operation.responses?.default;
-        if (responseSchema?.content?.['application/json']?.schema) {
-          const schemaValidation = this.validateAgainstJsonSchema(data, responseSchema.content['application/json'].schema);
-          errors.push(...schemaValidation.errors);
-          warnings.push(...schemaValidation.warnings);
+        const responseKey = this.findResponseKey(operation.responses, statusCode);
+        if (!responseKey) {
+          warnings.push({
+            path: 'root',
+            message: `Status code ${statusCode} is not documented for operation ${operationId}`,
+            severity: 'warning'
+          });
+        } else {
+          const response = resolveLocalRef(openApiSchema, `${pointer}/responses/${escapePointer(responseKey)}`);
+          const mediaType = this.findJsonMediaType(response.node?.content);
+          if (mediaType) {
+            schemaPointer = `${response.pointer}/content/${escapePointer(mediaType)}/schema`;
+          }
+        }
+      } else if (type === 'request' && operation.requestBody) {
+        const requestBody = resolveLocalRef(openApiSchema, `${pointer}/requestBody`);
+        const mediaType = this.findJsonMediaType(requestBody.node?.content);
+        if (mediaType) {
+          schemaPointer = `${requestBody.pointer}/content/${escapePointer(mediaType)}/schema`;
         }
-      } else if (type === 'request' && operation.requestBody?.content?.['application/json']?.schema) {
-        const schemaValidation = this.validateAgainstJsonSchema(data, operation.requestBody.content['application/json'].schema);
-        errors.push(...schemaValidation.errors);
-        warnings.push(...schemaValidation.warnings);
+      }
+
+      if (schemaPointer) {
+        // Validate through the registered document so `$ref`s into `components` resolve
+        const documentId = source ? this.openApiIds.get(source) : undefined;
+        const validate = documentId
+          ? this.getValidator(`${documentId}#${schemaPointer}`, { $ref: `${documentId}#${schemaPointer}` })
+          : this.getJsonSchemaValidator(resolvePointer(openApiSchema, schemaPointer));
+
+        errors.push(...this.runValidator(validate, data));
       }
 
     } catch (error) {
@@ -215,9 +323,7 @@ export class SchemaManager {
     const warnings: ValidationError[] = [];
 
     try {
-      const result = this.basicSchemaValidation(data, schema, '');
-      errors.push(...result.errors);
-      warnings.push(...result.warnings);
+      errors.push(...this.runValidator(this.getJsonSchemaValidator(schema), data));
     } catch (error) {
       errors.push({
         path: 'root',
@@ -233,62 +339,248 @@ export class SchemaManager {
     };
   }
 
-  private basicSchemaValidation(data: any, schema: any, path: string): ValidationResult {
-    const errors: ValidationError[] = [];
-    const warnings: ValidationError[] = [];
+  private createAjv(): Ajv2020 {
+    const ajv = new Ajv2020({
+      allErrors: true,
+      verbose: true,
+      strict: false,
+      validateSchema: false,
+      logger: false
+    });
+
+    addFormats(ajv);
+
+    // OpenAPI data type formats that JSON Schema does not define
+    ajv.addFormat('int32', { type: 'number', validate: (value: number) => Number.isInteger(value) && value >= -2147483648 && value <= 2147483647 });
+    ajv.addFormat('int64', { type: 'number', validate: (value: number) => Number.isInteger(value) });
+    ajv.addFormat('float', { type: 'number', validate: () => true });
+    ajv.addFormat('double', { type: 'number', validate: () => true });
+    ajv.addFormat('byte', /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/);
+    ajv.addFormat('binary', true);
+    ajv.addFormat('password', true);
+
+    return ajv;
+  }
 
-    if (schema.type) {
-      const actualType = Array.isArray(data) ? 'array' : typeof data;
-      if (schema.type !== actualType && !(data === null && schema.nullable)) {
-        errors.push({
-          path: path || 'root',
-          message: `Expected type ${schema.type}, got ${actualType}`,
-          expected: schema.type,
-          actual: actualType,
-          severity: 'error'
-        });
-      }
+  private registerOpenApiDocument(source: string, document: any): void {
+    if (this.openApiIds.has(source)) {
+      return;
     }
 
-    if (schema.required && typeof data === 'object' && data !== null) {
-      for (const requiredField of schema.required) {
-        if (!(requiredField in data)) {
-          errors.push({
-            path: `${path}.${requiredField}`,
-            message: `Required property '${requiredField}' is missing`,
-            expected: 'required property',
-            actual: 'undefined',
-            severity: 'error'
-          });
-        }
-      }
+    const documentId = `openapi-${this.openApiIds.size + 1}.json`;
+    this.ajv.addSchema(document, documentId);
+    this.openApiIds.set(source, documentId);
+  }
+
+  private getValidator(key: string, schema: any): ValidateFunction {
+    let validate = this.validatorCache.get(key);
+    if (!validate) {
+      validate = this.ajv.compile(schema);
+      this.validatorCache.set(key, validate);
     }
+    return validate;
+  }
 
-    if (schema.properties && typeof data === 'object' && data !== null) {
-      for (const [propName, propSchema] of Object.entries(schema.properties)) {
-        if (propName in data) {
-          const nestedResult = this.basicSchemaValidation(
-            data[propName], 
-            propSchema, 
-            path ? `${path}.${propName}` : propName
-          );
-          errors.push(...nestedResult.errors);
-          warnings.push(...nestedResult.warnings);
-        }
-      }
+  private getJsonSchemaValidator(schema: any): ValidateFunction {
+    if (typeof schema !== 'object' || schema === null) {
+      return this.ajv.compile(schema ?? true);
+    }
+
+    let validate = this.jsonSchemaValidators.get(schema);
+    if (!validate) {
+      // A schema read again (e.g. from another snapshot) is a new object, and Ajv refuses a second schema with its `$id`
+      validate = (typeof schema.$id === 'string' && this.ajv.getSchema(schema.$id)) || this.ajv.compile(schema);
+      this.jsonSchemaValidators.set(schema, validate);
+    }
+    return validate;
+  }
+
+  private runValidator(validate: ValidateFunction, data: any): ValidationError[] {
+    if (validate(data)) {
+      return [];
+    }
+    return (validate.errors || []).map(error => toValidationError(error));
+  }
+
+  // Exact status code first, then range keys like `2XX`, then `default`
+  private findResponseKey(responses: Record<string, any> | undefined, statusCode: number): string | undefined {
+    if (!responses) {
+      return undefined;
     }
 
-    return { isValid: errors.length === 0, errors, warnings };
+    const candidates = [statusCode.toString(), `${Math.floor(statusCode / 100)}XX`, `${Math.floor(statusCode / 100)}xx`, 'default'];
+    return candidates.find(key => responses[key]);
   }
 
-  private findOperationById(openApiSchema: any, operationId: string): any {
-    for (const pathItem of Object.values(openApiSchema.paths || {})) {
-      for (const operation of Object.values(pathItem as any)) {
+  private findJsonMediaType(content: Record<string, any> | undefined): string | undefined {
+    if (!content) {
+      return undefined;
+    }
+
+    if (content['application/json']?.schema) {
+      return 'application/json';
+    }
+    return Object.keys(content).find(mediaType => /[/+]json\b/i.test(mediaType) && content[mediaType]?.schema);
+  }
+
+  private findOperationById(openApiSchema: any, operationId: string): { operation: any; pointer: string } | null {
+    for (const [path, pathItem] of Object.entries(openApiSchema.paths || {})) {
+      for (const [method, operation] of Object.entries(pathItem as any)) {
         if (typeof operation === 'object' && operation && (operation as any).operationId === operationId) {
-          return operation;
+          return { operation, pointer: `/paths/${escapePointer(path)}/${escapePointer(method)}` };
         }
       }
     }
     return null;
   }
-}
\ No newline at end of file
+}
+
+// JSON Pointer segment, URI-encoded so it can be used as a `$ref` fragment
+function escapePointer(segment: string): string {
+  return encodeURIComponent(segment.replace(/~/g, '~0').replace(/\//g, '~1'));
+}
+
+function resolvePointer(document: any, pointer: string): any {
+  return pointer.split('/').slice(1).reduce((node, segment) => {
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+    return node?.[key];
+  }, document);
+}
+
+// Follow a `$ref` to a reusable component (e.g. `#/components/responses/NotFound`)
+function resolveLocalRef(document: any, pointer: string): { node: any; pointer: string } {
+  let node = resolvePointer(document, pointer);
+  const visited = new Set<string>();
+
+  while (typeof node?.$ref === 'string' && node.$ref.startsWith('#/') && !visited.has(node.$ref)) {
+    visited.add(node.$ref);
+    pointer = node.$ref.slice(1);
+    node = resolvePointer(document, pointer);
+  }
+
+  return { node, pointer };
+}
+
+// Turn an Ajv instance path like `/items/0/name` into `items[0].name`
+function toDataPath(instancePath: string, property?: string): string {
+  const segments = instancePath.split('/').slice(1).map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+  if (property !== undefined) {
+    segments.push(property);
+  }
+
+  return segments.reduce((path, segment) => {
+    if (/^\d+$/.test(segment)) {
+      return `${path}[${segment}]`;
+    }
+    return path ? `${path}.${segment}` : segment;
+  }, '');
+}
+
+function describeType(value: any): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number' && Number.isInteger(value)) {
+    return 'integer';
+  }
+  return typeof value;
+}
+
+function toValidationError(error: ErrorObject): ValidationError {
+  const params = error.params as Record<string, any>;
+
+  switch (error.keyword) {
+    case 'type': {
+      const expected = Array.isArray(params.type) ? params.type.join(' | ') : params.type;
+      return {
+        path: toDataPath(error.instancePath) || 'root',
+        message: `Expected type ${expected}, got ${describeType(error.data)}`,
+        expected,
+        actual: describeType(error.data),
+        severity: 'error'
+      };
+    }
+    case 'required':
+      return {
+        path: toDataPath(error.instancePath, params.missingProperty),
+        message: `Required property '${params.missingProperty}' is missing`,
+        expected: 'required property',
+        actual: 'undefined',
+        severity: 'error'
+      };
+    case 'additionalProperties':
+    case 'unevaluatedProperties': {
+      const property = params.additionalProperty ?? params.unevaluatedProperty;
+      return {
+        path: toDataPath(error.instancePath, property),
+        message: `Additional property '${property}' is not allowed`,
+        expected: 'no additional properties',
+        actual: property,
+        severity: 'error'
+      };
+    }
+    case 'enum':
+      return {
+        path: toDataPath(error.instancePath) || 'root',
+        message: `Value must be one of: ${params.allowedValues.map((value: any) => JSON.stringify(value)).join(', ')}`,
+        expected: params.allowedValues,
+        actual: error.data,
+        severity: 'error'
+      };
+    default:
+      return {
+        path: toDataPath(error.instancePath) || 'root',
+        message: `Value ${error.message}`,
+        expected: error.schema,
+        actual: error.data,
+        severity: 'error'
+      };
+  }
+}
+
+// OpenAPI 3.0 uses `nullable` and boolean exclusive bounds, rewrite them as JSON Schema 2020-12
+export function normalizeOpenApiSchema(node: any): any {
+  if (Array.isArray(node)) {
+    return node.map(normalizeOpenApiSchema);
+  }
+  if (typeof node !== 'object' || node === null) {
+    return node;
+  }
+
+  const schema: Record<string, any> = {};
+  for (const [key, value] of Object.entries(node)) {
+    schema[key] = normalizeOpenApiSchema(value);
+  }
+
+  for (const [exclusiveKey, limitKey] of [['exclusiveMinimum', 'minimum'], ['exclusiveMaximum', 'maximum']]) {
+    if (typeof schema[exclusiveKey] === 'boolean') {
+      if (schema[exclusiveKey] && typeof schema[limitKey] === 'number') {
+        schema[exclusiveKey] = schema[limitKey];
+        delete schema[limitKey];
+      } else {
+        delete schema[exclusiveKey];
+      }
+    }
+  }
+
+  if (typeof schema.nullable === 'boolean') {
+    const { nullable, ...rest } = schema;
+
+    if (schema.type !== undefined) {
+      // Ajv handles `nullable` next to `type`, but `enum` still has to list null explicitly
+      if (nullable && Array.isArray(schema.enum) && !schema.enum.includes(null)) {
+        schema.enum = [...schema.enum, null];
+      }
+      return schema;
+    }
+
+    // Without `type` (e.g. next to `$ref` or `allOf`) Ajv rejects `nullable`
+    const constrained = ['$ref', 'allOf', 'anyOf', 'oneOf', 'enum'].some(key => key in rest);
+    return nullable && constrained ? { anyOf: [rest, { type: 'null' }] } : rest;
+  }
+
+  return schema;
+}
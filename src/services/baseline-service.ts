@@ -0,0 +1,247 @@
+import { existsSync } from 'fs';
+import { join } from 'path';
+import {
+  DatabaseService,
+  type BaselineApprovalRecord,
+  type BaselineRecord,
+  type EndpointRecord,
+  type Space
+} from '../database/database-service.js';
+import type { ApiSnapshot, SnapshotComparison } from '../types.js';
+import { readSnapshotFile } from './blob-store.js';
+import { FileSystemStorageProvider } from './storage-provider.js';
+
+// Baseline Management
+// The active baseline of an endpoint lives in the `baselines` table and points at a copy of the promoted
+// snapshot in the space's baseline directory. Every promotion or revert is recorded together with who
+// approved it and why, so the CLI approval workflow and the web UI share one history.
+
+export type ApprovalDecision = 'approved' | 'rejected' | 'pending';
+
+export interface BaselineApproval {
+  approvedBy?: string;
+  reason?: string;
+  source?: 'cli' | 'web';
+}
+
+export interface PromoteBaselineOptions extends BaselineApproval {
+  space: string;
+  endpoint: string;
+  // Either a recorded snapshot or a snapshot that has just been captured
+  snapshotId?: number;
+  snapshot?: ApiSnapshot;
+  // Differences that were reviewed before promoting, kept with the approval
+  comparison?: SnapshotComparison;
+}
+
+export interface RevertBaselineOptions extends BaselineApproval {
+  space: string;
+  endpoint: string;
+  // Defaults to the baseline that was active before the current one
+  baselineId?: number;
+}
+
+export interface RecordDecisionOptions extends BaselineApproval {
+  space: string;
+  endpoint: string;
+  decision: ApprovalDecision;
+  comparison?: SnapshotComparison;
+  snapshotId?: number;
+  baselineId?: number;
+}
+
+export function getSpaceSnapshotDirs(space: string): { snapshotDir: string; baselineDir: string } {
+  // Sanitize space name to prevent path traversal
+  const sanitizedSpace = space.replace(/[^a-zA-Z0-9_-]/g, '_');
+  const snapshotDir = sanitizedSpace !== 'default' ? `./snapshots/${sanitizedSpace}` : './snapshots';
+  return { snapshotDir, baselineDir: `${snapshotDir}/baseline` };
+}
+
+// Locate a snapshot file on disk, covering both the per-space and the ep-XXX/run-* layouts
+export function locateSnapshotFile(record: { filename: string; endpoint_id: number; space_name: string; filepath?: string }): string | null {
+  const sanitizedSpace = record.space_name.replace(/[^a-zA-Z0-9_-]/g, '_');
+  const endpointFolder = `ep-${record.endpoint_id.toString().padStart(3, '0')}`;
+
+  const candidatePaths = [
+    record.filepath,
+    join('./snapshots', sanitizedSpace, record.filename),
+    join('./snapshots', record.space_name, record.filename),
+    join('./snapshots', record.filename),
+    join('./snapshots', endpointFolder, record.filename)
+  ].filter((candidate): candidate is string => Boolean(candidate));
+
+  return candidatePaths.find(candidate => existsSync(candidate)) ?? null;
+}
+
+function summarizeComparison(comparison?: SnapshotComparison) {
+  const differences = comparison?.differences || [];
+  return {
+    changes_count: differences.length,
+    breaking_changes: differences.filter(d => d.severity === 'breaking').length,
+    non_breaking_changes: differences.filter(d => d.severity === 'non-breaking').length,
+    differences: differences.map(d => ({ path: d.path, type: d.type, severity: d.severity }))
+  };
+}
+
+export class BaselineService {
+  constructor(private dbService: DatabaseService) {}
+
+  getActiveBaseline(space: string, endpoint: string): BaselineRecord | null {
+    const { endpointRecord } = this.resolveEndpoint(space, endpoint);
+    return this.dbService.getActiveBaseline(endpointRecord.id);
+  }
+
+  getHistory(space: string, endpoint: string, limit: number = 50): { baselines: BaselineRecord[]; approvals: BaselineApprovalRecord[] } {
+    const { spaceRecord, endpointRecord } = this.resolveEndpoint(space, endpoint);
+    return {
+      baselines: this.dbService.getBaselinesByEndpointId(endpointRecord.id, limit),
+      approvals: this.dbService.getBaselineApprovals(spaceRecord.id, { endpoint_name: endpointRecord.name, limit })
+    };
+  }
+
+  async loadBaseline(baseline: BaselineRecord): Promise<ApiSnapshot> {
+    try {
+      return await readSnapshotFile(baseline.filepath);
+    } catch (error) {
+      throw new Error(`Failed to load baseline ${baseline.id} from ${baseline.filepath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  async promote(options: PromoteBaselineOptions): Promise<BaselineRecord> {
+    const { spaceRecord, endpointRecord } = this.resolveEndpoint(options.space, options.endpoint);
+
+    let snapshot = options.snapshot;
+    if (!snapshot) {
+      if (options.snapshotId === undefined) {
+        throw new Error('A snapshot or snapshot ID is required to promote a baseline');
+      }
+      snapshot = await this.loadSnapshotRecord(spaceRecord, endpointRecord, options.snapshotId);
+    }
+
+    // Copy the snapshot so cleaning up old captures never removes a baseline
+    const { snapshotDir, baselineDir } = getSpaceSnapshotDirs(spaceRecord.name);
+    const filepath = await new FileSystemStorageProvider(snapshotDir, baselineDir).saveSnapshot(snapshot, true);
+
+    return this.dbService.transaction(() => {
+      const baseline = this.dbService.createBaseline(spaceRecord.id, endpointRecord.id, {
+        filepath,
+        snapshot_id: options.snapshotId,
+        approved_by: options.approvedBy,
+        reason: options.reason
+      });
+
+      this.dbService.createBaselineApproval(spaceRecord.id, {
+        endpoint_id: endpointRecord.id,
+        endpoint_name: endpointRecord.name,
+        decision: 'approved',
+        approved_by: options.approvedBy,
+        reason: options.reason,
+        baseline_id: baseline.id,
+        snapshot_id: options.snapshotId,
+        source: options.source,
+        ...summarizeComparison(options.comparison)
+      });
+
+      return baseline;
+    });
+  }
+
+  async revert(options: RevertBaselineOptions): Promise<BaselineRecord> {
+    const { spaceRecord, endpointRecord } = this.resolveEndpoint(options.space, options.endpoint);
+    const active = this.dbService.getActiveBaseline(endpointRecord.id);
+
+    let target: BaselineRecord | null | undefined;
+    if (options.baselineId !== undefined) {
+      target = this.dbService.getBaselineById(options.baselineId);
+      if (!target || target.endpoint_id !== endpointRecord.id) {
+        throw new Error(`Baseline ${options.baselineId} not found for endpoint '${endpointRecord.name}'`);
+      }
+    } else {
+      target = this.dbService.getBaselinesByEndpointId(endpointRecord.id).find(baseline => baseline.id !== active?.id);
+      if (!target) {
+        throw new Error(`Endpoint '${endpointRecord.name}' has no previous baseline to revert to`);
+      }
+    }
+
+    if (active && target.id === active.id) {
+      throw new Error(`Baseline ${target.id} is already the active baseline`);
+    }
+    if (!existsSync(target.filepath)) {
+      throw new Error(`Baseline file ${target.filepath} no longer exists`);
+    }
+
+    const restored = target;
+    return this.dbService.transaction(() => {
+      const baseline = this.dbService.createBaseline(spaceRecord.id, endpointRecord.id, {
+        filepath: restored.filepath,
+        snapshot_id: restored.snapshot_id,
+        approved_by: options.approvedBy,
+        reason: options.reason,
+        reverted_from: restored.id
+      });
+
+      this.dbService.createBaselineApproval(spaceRecord.id, {
+        endpoint_id: endpointRecord.id,
+        endpoint_name: endpointRecord.name,
+        decision: 'approved',
+        approved_by: options.approvedBy,
+        reason: options.reason || `reverted to baseline ${restored.id}`,
+        baseline_id: baseline.id,
+        snapshot_id: restored.snapshot_id,
+        source: options.source
+      });
+
+      return baseline;
+    });
+  }
+
+  // Record a review decision that does not change the baseline (rejected or skipped changes)
+  recordDecision(options: RecordDecisionOptions): BaselineApprovalRecord {
+    const spaceRecord = this.dbService.getSpaceByName(options.space);
+    if (!spaceRecord) {
+      throw new Error(`Space '${options.space}' not found`);
+    }
+    // The CLI reviews endpoints from its config file, which may not exist in the space
+    const endpointRecord = this.dbService.getEndpointsBySpaceId(spaceRecord.id).find(ep => ep.name === options.endpoint);
+
+    return this.dbService.createBaselineApproval(spaceRecord.id, {
+      endpoint_id: endpointRecord?.id,
+      endpoint_name: options.endpoint,
+      decision: options.decision,
+      approved_by: options.approvedBy,
+      reason: options.reason,
+      baseline_id: options.baselineId,
+      snapshot_id: options.snapshotId,
+      source: options.source,
+      ...summarizeComparison(options.comparison)
+    });
+  }
+
+  private async loadSnapshotRecord(spaceRecord: Space, endpointRecord: EndpointRecord, snapshotId: number): Promise<ApiSnapshot> {
+    const record = this.dbService.getSnapshotById(snapshotId);
+    if (!record || record.endpoint_id !== endpointRecord.id) {
+      throw new Error(`Snapshot ${snapshotId} not found for endpoint '${endpointRecord.name}'`);
+    }
+    if (record.status !== 'success') {
+      throw new Error(`Snapshot ${snapshotId} is a failed capture and cannot become a baseline`);
+    }
+
+    const filePath = locateSnapshotFile({ ...record, space_name: spaceRecord.name });
+    if (!filePath) {
+      throw new Error(`Snapshot file ${record.filename} not found`);
+    }
+    return readSnapshotFile(filePath);
+  }
+
+  private resolveEndpoint(space: string, endpoint: string): { spaceRecord: Space; endpointRecord: EndpointRecord } {
+    const spaceRecord = this.dbService.getSpaceByName(space);
+    if (!spaceRecord) {
+      throw new Error(`Space '${space}' not found`);
+    }
+    const endpointRecord = this.dbService.getEndpointsBySpaceId(spaceRecord.id).find(ep => ep.name === endpoint);
+    if (!endpointRecord) {
+      throw new Error(`Endpoint '${endpoint}' not found in space '${space}'`);
+    }
+    return { spaceRecord, endpointRecord };
+  }
+}
@@ -0,0 +1,422 @@
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, promises as fs } from 'fs';
+import { dirname, join, resolve, sep } from 'path';
+import { promisify } from 'util';
+import { gunzip, gunzipSync, gzip } from 'zlib';
+import type { ApiSnapshot } from '../types.js';
+
+// Content-addressed snapshot storage
+// Snapshot files keep the endpoint, metadata, status and headers; the response body lives in a shared blob store
+// under the SHA-256 of its normalized (key-sorted) JSON, gzip-compressed, and the file points at it with
+// `response.bodyBlob`. Identical responses are stored once. Every blob has a reference count next to it that
+// deleting a snapshot file decrements, the blob goes with its last reference. `collectGarbage` recounts the
+// references from the snapshot files when counts drifted (files deleted by hand, interrupted writes).
+// Baseline files keep their body inline: they are what gets committed, and must load without the store.
+// A store sits inside the snapshot directory writing into it, so it moves with the snapshots whatever the
+// working directory; `SnapshotLayout` records which directories write into which store for migration and GC.
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+export const DEFAULT_BLOB_DIR = './snapshots/.blobs';
+// Every directory holding snapshot files that point into the default store
+export const DEFAULT_SNAPSHOT_ROOTS = ['./snapshots', './baselines'];
+
+export function defaultBlobDir(): string {
+  return process.env.SNAPSHOT_BLOB_DIR || DEFAULT_BLOB_DIR;
+}
+
+// Store of the snapshot files written under `snapshotDir`
+export function blobDirFor(snapshotDir: string): string {
+  return process.env.SNAPSHOT_BLOB_DIR || join(snapshotDir, '.blobs');
+}
+
+// Directories whose snapshot files point into the store at `blobDir`; files under `baselineRoots` keep bodies inline
+export interface SnapshotLayout {
+  blobDir: string;
+  roots: string[];
+  baselineRoots: string[];
+}
+
+// Layout of a config file: snapshots in `snapshotDir`, baselines in `baselineDir` or `<snapshotDir>/baseline`
+export function snapshotLayoutFor(config: { snapshotDir: string; baselineDir?: string }): SnapshotLayout {
+  return {
+    blobDir: blobDirFor(config.snapshotDir),
+    roots: [config.snapshotDir],
+    baselineRoots: [config.baselineDir || join(config.snapshotDir, 'baseline')]
+  };
+}
+
+// Merges the layouts sharing a store, so migration and GC see every file that uses it
+export function groupLayoutsByStore(layouts: SnapshotLayout[]): SnapshotLayout[] {
+  const groups = new Map<string, SnapshotLayout>();
+  for (const layout of layouts) {
+    const key = resolve(layout.blobDir);
+    const group = groups.get(key) || { blobDir: layout.blobDir, roots: [], baselineRoots: [] };
+    group.roots.push(...layout.roots.filter(root => !group.roots.some(known => resolve(known) === resolve(root))));
+    group.baselineRoots.push(...layout.baselineRoots.filter(root => !group.baselineRoots.some(known => resolve(known) === resolve(root))));
+    groups.set(key, group);
+  }
+  return [...groups.values()];
+}
+
+export interface BlobInfo {
+  hash: string;
+  size: number; // Compressed size on disk
+  references: number;
+}
+
+export interface StorageMigrationReport {
+  filesScanned: number;
+  migrated: number;
+  alreadyMigrated: number;
+  inlined: number; // Baseline files whose body was moved back out of the store
+  skipped: string[]; // Files that are not snapshots or could not be read
+  bytesBefore: number;
+  bytesAfter: number;
+}
+
+export interface GarbageCollectionReport {
+  blobs: number;
+  referenced: number;
+  repaired: number; // Blobs whose reference count was wrong
+  removed: number;
+  bytesFreed: number;
+}
+
+export class BlobStore {
+  private static stores = new Map<string, BlobStore>();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly root: string = defaultBlobDir()) {}
+
+  // One instance per directory, so reference counts of concurrent captures are updated in turn
+  static at(root: string = defaultBlobDir()): BlobStore {
+    const key = resolve(root);
+    let store = BlobStore.stores.get(key);
+    if (!store) {
+      store = new BlobStore(root);
+      BlobStore.stores.set(key, store);
+    }
+    return store;
+  }
+
+  hash(data: any): string {
+    return createHash('sha256').update(normalizedJson(data)).digest('hex');
+  }
+
+  // Stores the value unless an identical one exists and adds a reference to it
+  async put(data: any): Promise<string> {
+    const hash = this.hash(data);
+    await this.exclusive(async () => {
+      const blobPath = this.blobPath(hash);
+      if (!existsSync(blobPath)) {
+        await fs.mkdir(dirname(blobPath), { recursive: true });
+        await writeAtomically(blobPath, await gzipAsync(JSON.stringify(data)));
+      }
+      await this.writeReferences(hash, await this.readReferences(hash) + 1);
+    });
+    return hash;
+  }
+
+  async get(hash: string): Promise<any> {
+    return JSON.parse((await gunzipAsync(await fs.readFile(this.blobPath(hash)))).toString('utf-8'));
+  }
+
+  getSync(hash: string): any {
+    return JSON.parse(gunzipSync(readFileSync(this.blobPath(hash))).toString('utf-8'));
+  }
+
+  // Drops a reference; returns true when it was the last one and the blob was deleted
+  async release(hash: string): Promise<boolean> {
+    return this.exclusive(async () => {
+      const references = await this.readReferences(hash) - 1;
+      if (references > 0) {
+        await this.writeReferences(hash, references);
+        return false;
+      }
+      await fs.rm(this.blobPath(hash), { force: true });
+      await fs.rm(this.referencesPath(hash), { force: true });
+      return true;
+    });
+  }
+
+  async list(): Promise<BlobInfo[]> {
+    const blobs: BlobInfo[] = [];
+    if (!existsSync(this.root)) {
+      return blobs;
+    }
+
+    for (const prefix of await fs.readdir(this.root)) {
+      const directory = join(this.root, prefix);
+      if (!(await fs.stat(directory)).isDirectory()) {
+        continue;
+      }
+      for (const file of await fs.readdir(directory)) {
+        const match = file.match(/^([0-9a-f]{64})\.json\.gz$/);
+        if (match) {
+          const { size } = await fs.stat(join(directory, file));
+          blobs.push({ hash: match[1], size, references: await this.readReferences(match[1]) });
+        }
+      }
+    }
+    return blobs;
+  }
+
+  // Replaces every reference count, deleting blobs nothing refers to
+  async setReferences(counts: Map<string, number>, dryRun = false): Promise<GarbageCollectionReport> {
+    return this.exclusive(async () => {
+      const report: GarbageCollectionReport = { blobs: 0, referenced: 0, repaired: 0, removed: 0, bytesFreed: 0 };
+
+      for (const blob of await this.list()) {
+        report.blobs++;
+        const references = counts.get(blob.hash) || 0;
+        if (references === 0) {
+          report.removed++;
+          report.bytesFreed += blob.size;
+          if (!dryRun) {
+            await fs.rm(this.blobPath(blob.hash), { force: true });
+            await fs.rm(this.referencesPath(blob.hash), { force: true });
+          }
+          continue;
+        }
+
+        report.referenced++;
+        if (references !== blob.references) {
+          report.repaired++;
+          if (!dryRun) {
+            await this.writeReferences(blob.hash, references);
+          }
+        }
+      }
+      return report;
+    });
+  }
+
+  has(hash: string): boolean {
+    return existsSync(this.blobPath(hash));
+  }
+
+  async sizeOf(hash: string): Promise<number> {
+    return (await fs.stat(this.blobPath(hash))).size;
+  }
+
+  private blobPath(hash: string): string {
+    return join(this.root, hash.slice(0, 2), `${hash}.json.gz`);
+  }
+
+  private referencesPath(hash: string): string {
+    return join(this.root, hash.slice(0, 2), `${hash}.refs`);
+  }
+
+  private async readReferences(hash: string): Promise<number> {
+    try {
+      return parseInt(await fs.readFile(this.referencesPath(hash), 'utf-8'), 10) || 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  private async writeReferences(hash: string, references: number): Promise<void> {
+    await writeAtomically(this.referencesPath(hash), String(references));
+  }
+
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+// Writes a snapshot file with its body in the blob store, or inline for baselines. An existing file at the
+// path (baselines are overwritten in place) gives up its reference.
+export async function writeSnapshotFile(
+  filePath: string,
+  snapshot: ApiSnapshot,
+  store: BlobStore = BlobStore.at(),
+  options: { inline?: boolean } = {}
+): Promise<void> {
+  const previous = await readBlobReference(filePath);
+
+  let stored: ApiSnapshot = snapshot;
+  if (options.inline) {
+    if (snapshot.response?.bodyBlob) {
+      const response = { ...snapshot.response };
+      delete response.bodyBlob;
+      stored = { ...snapshot, response };
+    }
+  } else if (snapshot.response && snapshot.response.data !== undefined) {
+    const { data, ...response } = snapshot.response;
+    stored = { ...snapshot, response: { ...response, bodyBlob: await store.put(data) } as ApiSnapshot['response'] };
+  }
+
+  await fs.mkdir(dirname(filePath), { recursive: true });
+  await writeAtomically(filePath, JSON.stringify(stored, null, 2));
+
+  if (previous) {
+    await store.release(previous);
+  }
+}
+
+// Reads a snapshot file written by either layout: with a blob reference or with the body inline
+export async function readSnapshotFile(filePath: string, store: BlobStore = BlobStore.at()): Promise<ApiSnapshot> {
+  const snapshot: ApiSnapshot = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  if (snapshot.response?.bodyBlob && snapshot.response.data === undefined) {
+    snapshot.response.data = await store.get(snapshot.response.bodyBlob);
+  }
+  return snapshot;
+}
+
+export function readSnapshotFileSync(filePath: string, store: BlobStore = BlobStore.at()): ApiSnapshot {
+  const snapshot: ApiSnapshot = JSON.parse(readFileSync(filePath, 'utf-8'));
+  if (snapshot.response?.bodyBlob && snapshot.response.data === undefined) {
+    snapshot.response.data = store.getSync(snapshot.response.bodyBlob);
+  }
+  return snapshot;
+}
+
+export async function deleteSnapshotFile(filePath: string, store: BlobStore = BlobStore.at()): Promise<void> {
+  const blob = await readBlobReference(filePath);
+  await fs.unlink(filePath);
+  if (blob) {
+    await store.release(blob);
+  }
+}
+
+// Moves the bodies of snapshot files under `roots` (the `ep-XXX/run-*.json` and per-space layouts alike)
+// into the blob store, rewriting each file in place. Baseline files under `baselineRoots` that an earlier
+// migration moved into the store get their body back.
+export async function migrateSnapshotFiles(
+  roots: string | string[] = DEFAULT_SNAPSHOT_ROOTS,
+  options: { dryRun?: boolean; store?: BlobStore; baselineRoots?: string[] } = {}
+): Promise<StorageMigrationReport> {
+  const store = options.store || BlobStore.at();
+  const report: StorageMigrationReport = { filesScanned: 0, migrated: 0, alreadyMigrated: 0, inlined: 0, skipped: [], bytesBefore: 0, bytesAfter: 0 };
+  const baselineRoots = (options.baselineRoots || []).map(root => resolve(root));
+  const isBaseline = (filePath: string) => baselineRoots.some(root => filePath.startsWith(root + sep));
+  const allRoots = [...(Array.isArray(roots) ? roots : [roots]), ...(options.baselineRoots || [])];
+
+  for (const filePath of await findSnapshotFiles(allRoots, store)) {
+    report.filesScanned++;
+
+    let snapshot: ApiSnapshot;
+    const size = (await fs.stat(filePath)).size;
+    try {
+      snapshot = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch {
+      report.skipped.push(filePath);
+      continue;
+    }
+
+    if (!snapshot?.endpoint || !snapshot.response) {
+      report.skipped.push(filePath);
+      continue;
+    }
+    if (isBaseline(filePath)) {
+      if (snapshot.response.bodyBlob && snapshot.response.data === undefined) {
+        report.inlined++;
+        if (!options.dryRun) {
+          await writeSnapshotFile(filePath, await readSnapshotFile(filePath, store), store, { inline: true });
+        }
+      }
+      continue;
+    }
+    if (snapshot.response.bodyBlob || snapshot.response.data === undefined) {
+      report.alreadyMigrated++;
+      continue;
+    }
+
+    report.migrated++;
+    report.bytesBefore += size;
+    if (options.dryRun) {
+      continue;
+    }
+
+    const hash = store.hash(snapshot.response.data);
+    const isNew = !store.has(hash);
+    await writeSnapshotFile(filePath, snapshot, store);
+    report.bytesAfter += (await fs.stat(filePath)).size;
+    if (isNew) {
+      report.bytesAfter += await store.sizeOf(hash);
+    }
+  }
+
+  return report;
+}
+
+// Recounts blob references from the snapshot files under `roots` and deletes unreferenced blobs.
+// The roots must cover every file using the store, a blob referenced from elsewhere would be deleted.
+export async function collectGarbage(
+  roots: string | string[] = DEFAULT_SNAPSHOT_ROOTS,
+  options: { dryRun?: boolean; store?: BlobStore } = {}
+): Promise<GarbageCollectionReport> {
+  const store = options.store || BlobStore.at();
+  const counts = new Map<string, number>();
+
+  for (const filePath of await findSnapshotFiles(roots, store)) {
+    const blob = await readBlobReference(filePath);
+    if (blob) {
+      counts.set(blob, (counts.get(blob) || 0) + 1);
+    }
+  }
+
+  return store.setReferences(counts, options.dryRun);
+}
+
+async function readBlobReference(filePath: string): Promise<string | undefined> {
+  try {
+    const snapshot = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    return typeof snapshot?.response?.bodyBlob === 'string' ? snapshot.response.bodyBlob : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function findSnapshotFiles(roots: string | string[], store: BlobStore): Promise<string[]> {
+  const files = new Set<string>();
+  const blobRoot = resolve(store.root);
+
+  const walk = async (directory: string): Promise<void> => {
+    if (resolve(directory) === blobRoot) {
+      return;
+    }
+    for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+      const entryPath = join(directory, entry.name);
+      if (entry.isDirectory()) {
+        await walk(entryPath);
+      } else if (entry.name.endsWith('.json') && !entry.name.startsWith('.')) {
+        files.add(resolve(entryPath));
+      }
+    }
+  };
+
+  for (const root of Array.isArray(roots) ? roots : [roots]) {
+    if (existsSync(root)) {
+      await walk(root);
+    }
+  }
+  return [...files];
+}
+
+async function writeAtomically(filePath: string, content: string | Buffer): Promise<void> {
+  const temporary = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(temporary, content);
+  await fs.rename(temporary, filePath);
+}
+
+function normalizedJson(value: any): string {
+  return JSON.stringify(value, (key, nested) => nested && typeof nested === 'object' && !Array.isArray(nested)
+    ? Object.fromEntries(Object.keys(nested).sort().map(name => [name, nested[name]]))
+    : nested) ?? 'undefined';
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = Math.abs(bytes);
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${bytes < 0 ? '-' : ''}${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
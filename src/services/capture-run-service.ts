@@ -0,0 +1,452 @@
+import { existsSync, promises as fs } from 'fs';
+import * as path from 'path';
+import type { Application } from '../core/application.js';
+import type { DiffProvider, Logger } from '../core/interfaces.js';
+import type { GenericRegistry } from '../core/registry.js';
+import { ServiceKeys } from '../core/container.js';
+import { DatabaseService } from '../database/database-service.js';
+import { DatabaseConfigManager } from '../database/database-config-manager.js';
+import type { ApiEndpoint, ApiSnapshot, CaptureSettings, Config, DiffRule, LatencySettings, SnapshotComparison, SnapshotDiff } from '../types.js';
+import { DefaultSnapshotService } from './snapshot-service.js';
+import { FileSystemStorageProvider } from './storage-provider.js';
+import { BaselineService, getSpaceSnapshotDirs } from './baseline-service.js';
+import { readSnapshotFile } from './blob-store.js';
+import { recordCapture, recordComparison } from './metrics.js';
+import { WebhookService } from './webhook-service.js';
+import { getNormalizationRules } from '../utils/valueNormalizer.js';
+import { detectLatencyRegression, resolveLatencySettings } from '../utils/latency.js';
+import { buildDependencyGraph, findDependencyCycle, runInDependencyOrder } from '../utils/requestChaining.js';
+
+// Capture Runs
+// Captures a space (or a group of its endpoints) as one recorded run: the run is tracked in `capture_runs`,
+// every snapshot is linked to it, and each new snapshot is compared with the endpoint's baseline: the active
+// baseline from the baselines table, else the latest baseline file, else the previous capture. A capture much
+// slower than the endpoint's recent captures adds a `response.duration` difference (see utils/latency.ts).
+// When the run is done, the comparisons with differences are sent to the space's webhooks.
+
+export type CaptureRunEmitter = (room: 'snapshots' | 'comparisons', event: string, payload: any) => void;
+
+export interface CaptureRunOptions {
+  space: string;
+  endpoints?: string[];
+  trigger?: 'manual' | 'schedule';
+  scheduleId?: number;
+  compareToBaseline?: boolean;
+}
+
+export interface DifferenceSummary {
+  total: number;
+  breaking: number;
+  nonBreaking: number;
+  informational: number;
+}
+
+export interface CaptureRunEndpointResult {
+  endpoint: string;
+  success: boolean;
+  snapshotId?: number;
+  timestamp?: string;
+  attempts?: number;
+  error?: string;
+  comparison?: {
+    result: 'no-baseline' | 'no-changes' | 'changes-detected' | 'comparison-failed';
+    baseline?: string;
+    summary?: DifferenceSummary;
+    error?: string;
+  };
+}
+
+export interface CaptureRunResult {
+  runId: string;
+  space: string;
+  status: 'completed' | 'failed';
+  successful: number;
+  failed: number;
+  results: CaptureRunEndpointResult[];
+  comparisonSummary: DifferenceSummary & { changedEndpoints: number };
+}
+
+export interface StartedCaptureRun {
+  runId: string;
+  endpoints: string[];
+  completion: Promise<CaptureRunResult>;
+}
+
+export function summarizeDifferences(differences: SnapshotDiff[]): DifferenceSummary {
+  return {
+    total: differences.length,
+    breaking: differences.filter(d => d.severity === 'breaking').length,
+    nonBreaking: differences.filter(d => d.severity === 'non-breaking').length,
+    informational: differences.filter(d => d.severity === 'informational').length
+  };
+}
+
+function generateRunId(): string {
+  return `run-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Same sanitization as FileSystemStorageProvider so we can find the files it wrote
+function snapshotFilePattern(endpointName: string): RegExp {
+  const sanitized = endpointName.replace(/[^a-zA-Z0-9_\- ]/g, '_').replace(/[.*+?^${}()|[\]\\-]/g, '\\$&');
+  return new RegExp(`^${sanitized}-\\d{4}-\\d{2}-\\d{2}T[\\d-]+Z\\.json$`);
+}
+
+export class CaptureRunService {
+  constructor(
+    private coreApp: Application,
+    private logger: Logger,
+    private emit: CaptureRunEmitter = () => {}
+  ) {}
+
+  // Creates the run record and returns immediately; captures and comparisons continue in `completion`
+  async start(options: CaptureRunOptions): Promise<StartedCaptureRun> {
+    const configManager = new DatabaseConfigManager();
+    let config: Config;
+    try {
+      if (!configManager.spaceExists(options.space)) {
+        throw new Error(`Space '${options.space}' does not exist`);
+      }
+      config = configManager.loadConfig(undefined, options.space);
+    } finally {
+      configManager.close();
+    }
+
+    const endpoints = options.endpoints && options.endpoints.length > 0
+      ? config.endpoints.filter(endpoint => options.endpoints!.includes(endpoint.name))
+      : config.endpoints;
+
+    if (endpoints.length === 0) {
+      throw new Error(`No matching endpoints to capture in space '${options.space}'`);
+    }
+
+    const cycle = findDependencyCycle(buildDependencyGraph(endpoints));
+    if (cycle) {
+      throw new Error(`Circular endpoint dependency: ${cycle.join(' -> ')}`);
+    }
+
+    const rules: DiffRule[] = [...(config.rules || []), ...getNormalizationRules(config.normalizationPresets)];
+    const runId = generateRunId();
+
+    const dbService = new DatabaseService();
+    try {
+      const space = dbService.getSpaceByName(options.space)!;
+      dbService.createCaptureRun({
+        run_id: runId,
+        space_id: space.id,
+        total_endpoints: endpoints.length,
+        trigger: options.trigger || 'manual',
+        schedule_id: options.scheduleId
+      });
+      if (options.scheduleId !== undefined) {
+        dbService.recordScheduleRun(options.scheduleId, runId);
+      }
+    } finally {
+      dbService.close();
+    }
+
+    this.logger.info(`Starting capture run ${runId} for space '${options.space}' with ${endpoints.length} endpoint(s)`);
+    this.emit('snapshots', 'capture:started', {
+      runId,
+      space: options.space,
+      trigger: options.trigger || 'manual',
+      endpoints: endpoints.map(e => e.name),
+      timestamp: new Date().toISOString()
+    });
+
+    const completion = this.execute(runId, options, endpoints, rules, config.capture, config.latency)
+      .then(result => {
+        this.emit('snapshots', 'capture:complete', {
+          runId,
+          space: options.space,
+          results: result.results,
+          successful: result.successful,
+          failed: result.failed,
+          comparisonSummary: result.comparisonSummary,
+          timestamp: new Date().toISOString()
+        });
+        return result;
+      })
+      .catch(error => {
+        this.finishRun(runId, { successful: 0, failed: endpoints.length, status: 'failed' });
+        this.emit('snapshots', 'capture:error', {
+          runId,
+          space: options.space,
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString()
+        });
+        throw error;
+      });
+
+    return { runId, endpoints: endpoints.map(e => e.name), completion };
+  }
+
+  private async execute(
+    runId: string,
+    options: CaptureRunOptions,
+    endpoints: ApiEndpoint[],
+    rules: DiffRule[],
+    captureSettings: CaptureSettings = {},
+    latencySettings: LatencySettings = {}
+  ): Promise<CaptureRunResult> {
+    const space = options.space;
+    const container = this.coreApp.getContainer();
+
+    const snapshotService = new DefaultSnapshotService(
+      await container.resolve(ServiceKeys.HTTP_CLIENT),
+      await container.resolve(ServiceKeys.STORAGE),
+      await container.resolve(ServiceKeys.AUTH_REGISTRY),
+      await container.resolve(ServiceKeys.SCHEMA_MANAGER),
+      endpoints,
+      this.logger,
+      space,
+      captureSettings
+    );
+
+    const { snapshotDir, baselineDir } = getSpaceSnapshotDirs(space);
+    const storage = new FileSystemStorageProvider(snapshotDir, baselineDir);
+    const changed: SnapshotComparison[] = [];
+
+    const captureEndpoint = async (endpoint: ApiEndpoint): Promise<CaptureRunEndpointResult> => {
+      let result: CaptureRunEndpointResult;
+
+      try {
+        const capture = await snapshotService.captureSnapshot(endpoint);
+
+        if (capture.success && capture.snapshot) {
+          const filePath = await storage.saveSnapshot(capture.snapshot, false);
+          const snapshotId = this.recordSnapshot(runId, space, endpoint.name, path.basename(filePath), 'success', {
+            response_status: capture.snapshot.response?.status,
+            duration: capture.snapshot.response?.duration,
+            file_size: JSON.stringify(capture.snapshot).length
+          });
+
+          result = {
+            endpoint: endpoint.name,
+            success: true,
+            snapshotId,
+            timestamp: capture.snapshot.timestamp
+          };
+
+          // The snapshot is saved, so a failed comparison does not fail the capture or its dependents
+          if (options.compareToBaseline !== false) {
+            try {
+              result.comparison = await this.compareWithBaseline(
+                runId, space, capture.snapshot, snapshotId, filePath, snapshotDir, baselineDir, rules, latencySettings, changed
+              );
+            } catch (error) {
+              result.comparison = { result: 'comparison-failed', error: error instanceof Error ? error.message : 'Unknown error' };
+              this.logger.error(`❌ [${runId}] Error comparing snapshot of endpoint '${endpoint.name}' in space '${space}' with its baseline:`, error);
+            }
+          }
+
+          this.logger.info(`✅ [${runId}] Snapshot captured for endpoint '${endpoint.name}' in space '${space}'`);
+        } else {
+          this.recordSnapshot(runId, space, endpoint.name, `${endpoint.name}_${Date.now()}_failed.json`, 'error', {
+            error: capture.error || 'Unknown error'
+          });
+          result = { endpoint: endpoint.name, success: false, error: capture.error || 'Unknown error' };
+          this.logger.warn(`❌ [${runId}] Failed to capture snapshot for endpoint '${endpoint.name}' in space '${space}': ${capture.error}`);
+        }
+      } catch (error) {
+        result = {
+          endpoint: endpoint.name,
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        };
+        this.logger.error(`❌ [${runId}] Error capturing snapshot for endpoint '${endpoint.name}' in space '${space}':`, error);
+      }
+
+      return result;
+    };
+
+    // Endpoints are captured `concurrency` at a time in dependency order; results keep the endpoint order
+    const results = await runInDependencyOrder(endpoints, endpoint => endpoint.name, buildDependencyGraph(endpoints), snapshotService.concurrency, {
+      run: captureEndpoint,
+      succeeded: result => result.success,
+      skip: (endpoint, failedDependency) => {
+        const error = `Skipped because dependency '${failedDependency}' failed`;
+        this.recordSnapshot(runId, space, endpoint.name, `${endpoint.name}_${Date.now()}_failed.json`, 'error', { error });
+        recordCapture(space, 'skipped');
+        this.logger.warn(`⏭️ [${runId}] ${error}: endpoint '${endpoint.name}' in space '${space}'`);
+        return { endpoint: endpoint.name, success: false, error };
+      }
+    });
+
+    const successful = results.filter(r => r.success).length;
+    const compared = results.filter(r => r.comparison?.summary);
+    const comparisonSummary = {
+      changedEndpoints: compared.filter(r => r.comparison!.result === 'changes-detected').length,
+      total: compared.reduce((sum, r) => sum + r.comparison!.summary!.total, 0),
+      breaking: compared.reduce((sum, r) => sum + r.comparison!.summary!.breaking, 0),
+      nonBreaking: compared.reduce((sum, r) => sum + r.comparison!.summary!.nonBreaking, 0),
+      informational: compared.reduce((sum, r) => sum + r.comparison!.summary!.informational, 0)
+    };
+
+    const runResult: CaptureRunResult = {
+      runId,
+      space,
+      status: successful > 0 ? 'completed' : 'failed',
+      successful,
+      failed: results.length - successful,
+      results,
+      comparisonSummary
+    };
+
+    this.finishRun(runId, {
+      successful: runResult.successful,
+      failed: runResult.failed,
+      status: runResult.status,
+      comparison_summary: comparisonSummary
+    });
+
+    this.logger.info(`Capture run ${runId} finished: ${successful}/${results.length} captured, ${comparisonSummary.breaking} breaking change(s)`);
+
+    // Deliveries retry for a while; the run result does not wait for them
+    if (changed.length > 0) {
+      new WebhookService(this.logger)
+        .notify({ event: 'comparison.changes', space, runId, trigger: options.trigger || 'manual', comparisons: changed, timestamp: new Date().toISOString() })
+        .catch(error => this.logger.warn(`Failed to send webhooks for capture run ${runId}:`, error));
+    }
+    return runResult;
+  }
+
+  private recordSnapshot(
+    runId: string,
+    space: string,
+    endpointName: string,
+    filename: string,
+    status: string,
+    metadata: { response_status?: number; error?: string; duration?: number; file_size?: number }
+  ): number | undefined {
+    const dbService = new DatabaseService();
+    try {
+      const spaceRecord = dbService.getSpaceByName(space);
+      const endpointRecord = spaceRecord && dbService.getEndpointsBySpaceId(spaceRecord.id).find(ep => ep.name === endpointName);
+      if (!spaceRecord || !endpointRecord) {
+        return undefined;
+      }
+      return dbService.createSnapshot(spaceRecord.id, endpointRecord.id, filename, status, { ...metadata, run_id: runId }).id;
+    } catch (error) {
+      this.logger.warn(`Failed to record snapshot in database:`, error);
+      return undefined;
+    } finally {
+      dbService.close();
+    }
+  }
+
+  private finishRun(runId: string, result: { successful: number; failed: number; status: string; comparison_summary?: any }): void {
+    const dbService = new DatabaseService();
+    try {
+      dbService.completeCaptureRun(runId, result);
+    } catch (error) {
+      this.logger.warn(`Failed to update capture run ${runId}:`, error);
+    } finally {
+      dbService.close();
+    }
+  }
+
+  private async compareWithBaseline(
+    runId: string,
+    space: string,
+    snapshot: ApiSnapshot,
+    snapshotId: number | undefined,
+    currentFile: string,
+    snapshotDir: string,
+    baselineDir: string,
+    rules: DiffRule[],
+    latencySettings: LatencySettings,
+    changed: SnapshotComparison[]
+  ): Promise<CaptureRunEndpointResult['comparison']> {
+    const baselineFile = this.findActiveBaselineFile(space, snapshot.endpoint.name)
+      || await this.findBaselineFile(snapshot.endpoint.name, currentFile, snapshotDir, baselineDir);
+    if (!baselineFile) {
+      return { result: 'no-baseline' };
+    }
+
+    const baseline = await readSnapshotFile(baselineFile);
+    const diffRegistry = await this.coreApp.getContainer().resolve<GenericRegistry<DiffProvider>>(ServiceKeys.DIFF_REGISTRY);
+    const comparison = diffRegistry.get('json')!.compare(baseline, snapshot, rules);
+
+    const latencyRegression = snapshotId !== undefined
+      ? this.findLatencyRegression(snapshotId, snapshot.response.duration, latencySettings)
+      : null;
+    if (latencyRegression) {
+      comparison.differences.push(latencyRegression);
+      comparison.hasChanges = true;
+    }
+
+    recordComparison(space, comparison.differences);
+    if (comparison.hasChanges) {
+      changed.push(comparison);
+    }
+    const summary = summarizeDifferences(comparison.differences);
+    const result = comparison.hasChanges ? 'changes-detected' : 'no-changes';
+
+    this.emit('comparisons', 'comparison:complete', {
+      runId,
+      baseline: path.basename(baselineFile),
+      snapshotId,
+      space,
+      endpoint: comparison.endpoint,
+      result,
+      summary,
+      timestamp: new Date().toISOString()
+    });
+
+    return { result, baseline: path.basename(baselineFile), summary };
+  }
+
+  // Compares the capture's duration with the endpoint's earlier successful captures
+  private findLatencyRegression(snapshotId: number, duration: number, settings: LatencySettings): SnapshotDiff | null {
+    const resolved = resolveLatencySettings(settings);
+    if (!resolved.enabled) {
+      return null;
+    }
+
+    const dbService = new DatabaseService();
+    try {
+      const snapshot = dbService.getSnapshotById(snapshotId);
+      if (!snapshot) {
+        return null;
+      }
+      const history = dbService.getSnapshotDurations(snapshot.endpoint_id, resolved.window, snapshotId);
+      return detectLatencyRegression(history.map(row => row.duration), duration, resolved);
+    } catch (error) {
+      this.logger.warn(`Failed to check response time of snapshot ${snapshotId}:`, error);
+      return null;
+    } finally {
+      dbService.close();
+    }
+  }
+
+  // Baseline promoted through the baseline API, if any
+  private findActiveBaselineFile(space: string, endpointName: string): string | null {
+    const dbService = new DatabaseService();
+    try {
+      const baseline = new BaselineService(dbService).getActiveBaseline(space, endpointName);
+      return baseline && existsSync(baseline.filepath) ? baseline.filepath : null;
+    } catch {
+      return null;
+    } finally {
+      dbService.close();
+    }
+  }
+
+  // Latest file in the baseline directory, otherwise the capture before the current one
+  private async findBaselineFile(endpointName: string, currentFile: string, snapshotDir: string, baselineDir: string): Promise<string | null> {
+    const pattern = snapshotFilePattern(endpointName);
+
+    const latestIn = async (directory: string, exclude?: string): Promise<string | null> => {
+      try {
+        const files = (await fs.readdir(directory))
+          .filter(file => pattern.test(file) && file !== exclude)
+          .sort();
+        return files.length > 0 ? path.join(directory, files[files.length - 1]) : null;
+      } catch {
+        return null;
+      }
+    };
+
+    return await latestIn(baselineDir) || await latestIn(snapshotDir, path.basename(currentFile));
+  }
+}
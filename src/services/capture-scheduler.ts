@@ -0,0 +1,123 @@
+import type { Logger } from '../core/interfaces.js';
+import { DatabaseService, type CaptureScheduleRecord } from '../database/database-service.js';
+import { parseCronExpression, cronMatches } from '../utils/cron.js';
+import type { CaptureRunService, StartedCaptureRun } from './capture-run-service.js';
+
+// Capture Scheduler
+// Wakes up at every minute boundary, reads the enabled schedules from the database and starts a capture run
+// for each one whose cron expression matches. Schedules are re-read on every tick, so edits made through the
+// API apply without a restart. A schedule is skipped while its previous run is still in progress.
+
+export class CaptureScheduler {
+  private timer?: NodeJS.Timeout;
+  private lastTick?: number;
+  private activeSchedules = new Set<number>();
+
+  constructor(
+    private captureRuns: CaptureRunService,
+    private logger: Logger
+  ) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.logger.info('⏰ Capture scheduler started');
+    this.scheduleNextTick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+      this.logger.info('⏰ Capture scheduler stopped');
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== undefined;
+  }
+
+  // Start the runs due at `now`; exposed for callers that drive the clock themselves
+  async tick(now: Date = new Date()): Promise<string[]> {
+    // Timers can fire a few milliseconds early, so work on the nearest minute and never run one twice
+    const minute = Math.round(now.getTime() / 60000) * 60000;
+    if (minute === this.lastTick) {
+      return [];
+    }
+    this.lastTick = minute;
+
+    const schedules = this.loadSchedules();
+    const started: string[] = [];
+
+    for (const schedule of schedules) {
+      try {
+        if (!cronMatches(parseCronExpression(schedule.cron), new Date(minute))) {
+          continue;
+        }
+      } catch (error) {
+        this.logger.warn(`Skipping schedule '${schedule.name}' in space '${schedule.space_name}':`, error instanceof Error ? error.message : error);
+        continue;
+      }
+
+      if (this.activeSchedules.has(schedule.id)) {
+        this.logger.warn(`Schedule '${schedule.name}' in space '${schedule.space_name}' is still running, skipping this tick`);
+        continue;
+      }
+
+      try {
+        const run = await this.runSchedule(schedule);
+        started.push(run.runId);
+      } catch (error) {
+        this.logger.error(`Failed to start scheduled capture '${schedule.name}' in space '${schedule.space_name}':`, error);
+      }
+    }
+
+    return started;
+  }
+
+  async runSchedule(schedule: CaptureScheduleRecord & { space_name: string }): Promise<StartedCaptureRun> {
+    const run = await this.captureRuns.start({
+      space: schedule.space_name,
+      endpoints: schedule.endpoints ? JSON.parse(schedule.endpoints) : undefined,
+      trigger: 'schedule',
+      scheduleId: schedule.id,
+      compareToBaseline: schedule.compare_to_baseline !== 0
+    });
+
+    this.activeSchedules.add(schedule.id);
+    run.completion
+      .catch(error => this.logger.error(`Scheduled capture run ${run.runId} failed:`, error))
+      .finally(() => this.activeSchedules.delete(schedule.id));
+
+    this.logger.info(`⏰ Schedule '${schedule.name}' started capture run ${run.runId} for space '${schedule.space_name}'`);
+    return run;
+  }
+
+  private loadSchedules(): Array<CaptureScheduleRecord & { space_name: string }> {
+    const dbService = new DatabaseService();
+    try {
+      return dbService.getEnabledCaptureSchedules();
+    } catch (error) {
+      this.logger.error('Failed to load capture schedules:', error);
+      return [];
+    } finally {
+      dbService.close();
+    }
+  }
+
+  private scheduleNextTick(): void {
+    const now = Date.now();
+    const delay = 60000 - (now % 60000);
+
+    this.timer = setTimeout(() => {
+      this.tick().catch(error => this.logger.error('Capture scheduler tick failed:', error));
+      if (this.timer) {
+        this.scheduleNextTick();
+      }
+    }, delay);
+
+    // Do not keep the process alive just for the scheduler
+    this.timer.unref();
+  }
+}
@@ -0,0 +1,94 @@
+import { existsSync, promises as fs } from 'fs';
+import type { DatabaseService } from '../database/database-service.js';
+import type { ApiSnapshot, SnapshotComparison } from '../types.js';
+import { BaselineService, type ApprovalDecision } from './baseline-service.js';
+
+// Change Log
+// Review decisions of the CLI go to the baseline history of the space when the endpoint belongs to a space of
+// the database. Endpoints that only exist in a config file keep using the change log file next to it, the
+// format the CLI has always written.
+
+export const CHANGE_LOG_PATH = './api-snapshot-changes.log.json';
+
+export interface ChangeLogEntry {
+  timestamp: string;
+  endpoint: string;
+  status: ApprovalDecision;
+  reason: string;
+  approvedBy?: string;
+  changesCount: number;
+  breakingChanges: number;
+  nonBreakingChanges: number;
+  differences: Array<{ path: string; type: string; severity: string }>;
+}
+
+export interface RecordApprovalOptions {
+  space: string;
+  approvedBy: string;
+  reason: string;
+  // A snapshot that has just been captured to become the endpoint's baseline
+  newBaseline?: ApiSnapshot;
+  changeLogPath?: string;
+}
+
+// A missing or corrupted log reads as empty, like the CLI always did
+export async function readChangeLog(changeLogPath: string = CHANGE_LOG_PATH): Promise<ChangeLogEntry[]> {
+  if (!existsSync(changeLogPath)) {
+    return [];
+  }
+  try {
+    const changeLog = JSON.parse(await fs.readFile(changeLogPath, 'utf-8'));
+    return Array.isArray(changeLog) ? changeLog : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function appendChangeLog(entry: ChangeLogEntry, changeLogPath: string = CHANGE_LOG_PATH): Promise<void> {
+  const changeLog = await readChangeLog(changeLogPath);
+  changeLog.push(entry);
+  await fs.writeFile(changeLogPath, JSON.stringify(changeLog, null, 2));
+}
+
+// Returns where the decision was recorded
+export async function recordApproval(
+  dbService: DatabaseService,
+  comparison: SnapshotComparison,
+  decision: ApprovalDecision,
+  options: RecordApprovalOptions
+): Promise<'database' | 'change-log'> {
+  const spaceRecord = dbService.getSpaceByName(options.space);
+  const inSpace = spaceRecord && dbService.getEndpointsBySpaceId(spaceRecord.id).some(ep => ep.name === comparison.endpoint);
+
+  if (!inSpace) {
+    await appendChangeLog({
+      timestamp: new Date().toISOString(),
+      endpoint: comparison.endpoint,
+      status: decision,
+      reason: options.reason,
+      approvedBy: options.approvedBy,
+      changesCount: comparison.differences.length,
+      breakingChanges: comparison.differences.filter(d => d.severity === 'breaking').length,
+      nonBreakingChanges: comparison.differences.filter(d => d.severity === 'non-breaking').length,
+      differences: comparison.differences.map(d => ({ path: d.path, type: d.type, severity: d.severity }))
+    }, options.changeLogPath);
+    return 'change-log';
+  }
+
+  const baselines = new BaselineService(dbService);
+  const approval = {
+    space: options.space,
+    endpoint: comparison.endpoint,
+    approvedBy: options.approvedBy,
+    reason: options.reason,
+    comparison,
+    source: 'cli' as const
+  };
+
+  if (options.newBaseline) {
+    await baselines.promote({ ...approval, snapshot: options.newBaseline });
+  } else {
+    baselines.recordDecision({ ...approval, decision });
+  }
+  return 'database';
+}
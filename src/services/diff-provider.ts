@@ -1,13 +1,25 @@
 import { DiffProvider, DiffRule } from '../core/interfaces.js';
-import { ApiSnapshot, SnapshotComparison, SnapshotDiff, ValidationResult } from '../types.js';
+import { ApiSnapshot, SnapshotComparison, SnapshotDiff, DiffOptions, ValidationResult } from '../types.js';
 import { diffJson } from 'diff';
+import { DEFAULT_ARRAY_KEYS, findArrayIdentityKey, matchArrayElements } from '../utils/arrayMatcher.js';
+import { diffResponseBodies } from '../utils/bodyHandlers.js';
+import { diffGraphQLResponses } from '../utils/graphql.js';
+import { findMatchingRule } from '../utils/pathMatcher.js';
+import { compareSnapshotShapes } from '../utils/schemaInference.js';
+import { normalizeSnapshot } from '../utils/valueNormalizer.js';
 
 export class JsonDiffProvider implements DiffProvider {
   name = 'json';
 
-  compare(baseline: ApiSnapshot, current: ApiSnapshot, rules: DiffRule[] = []): SnapshotComparison {
+  constructor(private readonly arrayKeys: string[] = DEFAULT_ARRAY_KEYS) {}
+
+  compare(baseline: ApiSnapshot, current: ApiSnapshot, rules: DiffRule[] = [], options: DiffOptions = {}): SnapshotComparison {
     const differences: SnapshotDiff[] = [];
     
+    // Mask dynamic values (timestamps, ids, cursors) so they do not flood the diff
+    const normalizedBaseline = normalizeSnapshot(baseline, rules);
+    const normalizedCurrent = normalizeSnapshot(current, rules);
+    
     // Compare status codes
     if (baseline.response.status !== current.response.status) {
       differences.push({
@@ -19,13 +31,17 @@ export class JsonDiffProvider implements DiffProvider {
       });
     }
 
-    // Compare response data
-    const dataDiffs = this.compareData(baseline.response.data, current.response.data, 'response.data');
+    // Compare response data, or only its inferred shape for APIs with volatile values
+    const dataDiffs = options.shapeOnly
+      ? compareSnapshotShapes(normalizedBaseline, normalizedCurrent)
+      : this.compareResponseBodies(normalizedBaseline, normalizedCurrent, rules);
     differences.push(...dataDiffs);
 
     // Compare headers (excluding sensitive ones)
-    const headerDiffs = this.compareHeaders(baseline.response.headers, current.response.headers);
-    differences.push(...headerDiffs);
+    if (!options.shapeOnly) {
+      const headerDiffs = this.compareHeaders(normalizedBaseline.response.headers, normalizedCurrent.response.headers);
+      differences.push(...headerDiffs);
+    }
 
     // Compare schema validation results
     const schemaDiffs = this.compareSchemaValidation(baseline, current);
@@ -56,7 +72,15 @@ export class JsonDiffProvider implements DiffProvider {
     }).join('');
   }
 
-  private compareData(oldData: any, newData: any, basePath: string): SnapshotDiff[] {
+  // GraphQL responses are compared per envelope member (data, errors), other bodies with their content-type's handler
+  private compareResponseBodies(baseline: ApiSnapshot, current: ApiSnapshot, rules: DiffRule[]): SnapshotDiff[] {
+    const compare = (oldData: any, newData: any, path: string) => this.compareData(oldData, newData, path, rules);
+    return baseline.endpoint.graphql || current.endpoint.graphql
+      ? diffGraphQLResponses(baseline.response.data, current.response.data, compare)
+      : diffResponseBodies(baseline, current, compare);
+  }
+
+  private compareData(oldData: any, newData: any, basePath: string, rules: DiffRule[]): SnapshotDiff[] {
     const differences: SnapshotDiff[] = [];
     
     if (typeof oldData !== typeof newData) {
@@ -84,11 +108,11 @@ export class JsonDiffProvider implements DiffProvider {
     }
 
     if (Array.isArray(oldData) && Array.isArray(newData)) {
-      return this.compareArrays(oldData, newData, basePath);
+      return this.compareArrays(oldData, newData, basePath, rules);
     }
 
     if (typeof oldData === 'object' && typeof newData === 'object') {
-      return this.compareObjects(oldData, newData, basePath);
+      return this.compareObjects(oldData, newData, basePath, rules);
     }
 
     if (oldData !== newData) {
@@ -104,7 +128,7 @@ export class JsonDiffProvider implements DiffProvider {
     return differences;
   }
 
-  private compareObjects(oldObj: Record<string, any>, newObj: Record<string, any>, basePath: string): SnapshotDiff[] {
+  private compareObjects(oldObj: Record<string, any>, newObj: Record<string, any>, basePath: string, rules: DiffRule[]): SnapshotDiff[] {
     const differences: SnapshotDiff[] = [];
     const allKeys = new Set([...Object.keys(oldObj), ...Object.keys(newObj)]);
 
@@ -126,7 +150,7 @@ export class JsonDiffProvider implements DiffProvider {
           severity: 'breaking'
         });
       } else {
-        const subDiffs = this.compareData(oldObj[key], newObj[key], currentPath);
+        const subDiffs = this.compareData(oldObj[key], newObj[key], currentPath, rules);
         differences.push(...subDiffs);
       }
     }
@@ -134,7 +158,7 @@ export class JsonDiffProvider implements DiffProvider {
     return differences;
   }
 
-  private compareArrays(oldArray: any[], newArray: any[], basePath: string): SnapshotDiff[] {
+  private compareArrays(oldArray: any[], newArray: any[], basePath: string, rules: DiffRule[]): SnapshotDiff[] {
     const differences: SnapshotDiff[] = [];
 
     // Compare array lengths
@@ -148,16 +172,68 @@ export class JsonDiffProvider implements DiffProvider {
       });
     }
 
+    // Match elements by identity when the arrays carry one, so inserts and reorders stay local
+    const identityKey = findArrayIdentityKey(oldArray, newArray, this.getArrayKeyCandidates(basePath, rules));
+    if (identityKey) {
+      differences.push(...this.compareArraysByKey(oldArray, newArray, basePath, identityKey, rules));
+      return differences;
+    }
+
     // Compare elements (up to the shorter array length)
     const minLength = Math.min(oldArray.length, newArray.length);
     for (let i = 0; i < minLength; i++) {
-      const elementDiffs = this.compareData(oldArray[i], newArray[i], `${basePath}[${i}]`);
+      const elementDiffs = this.compareData(oldArray[i], newArray[i], `${basePath}[${i}]`, rules);
       differences.push(...elementDiffs);
     }
 
     return differences;
   }
 
+  private compareArraysByKey(oldArray: any[], newArray: any[], basePath: string, key: string, rules: DiffRule[]): SnapshotDiff[] {
+    const differences: SnapshotDiff[] = [];
+    const match = matchArrayElements(oldArray, newArray, key);
+
+    for (const oldIndex of match.removed) {
+      differences.push({
+        path: `${basePath}[${oldIndex}]`,
+        type: 'removed',
+        oldValue: oldArray[oldIndex],
+        severity: 'breaking'
+      });
+    }
+
+    for (const newIndex of match.added) {
+      differences.push({
+        path: `${basePath}[${newIndex}]`,
+        type: 'added',
+        newValue: newArray[newIndex],
+        severity: 'non-breaking'
+      });
+    }
+
+    for (const moved of match.moved) {
+      differences.push({
+        path: `${basePath}[${moved.newIndex}]`,
+        type: 'moved',
+        oldValue: moved.oldIndex,
+        newValue: moved.newIndex,
+        severity: 'informational'
+      });
+    }
+
+    for (const { oldIndex, newIndex } of match.matched) {
+      differences.push(...this.compareData(oldArray[oldIndex], newArray[newIndex], `${basePath}[${newIndex}]`, rules));
+    }
+
+    return differences;
+  }
+
+  private getArrayKeyCandidates(basePath: string, rules: DiffRule[]): string[] {
+    const rule = findMatchingRule(rules, basePath, r => !!r.arrayKey, { exact: true, skipIndexes: true });
+
+    return rule?.arrayKey ? [rule.arrayKey] : this.arrayKeys;
+  }
+
   private compareHeaders(oldHeaders: Record<string, string>, newHeaders: Record<string, string>): SnapshotDiff[] {
     const differences: SnapshotDiff[] = [];
     const importantHeaders = ['content-type', 'content-length', 'cache-control'];
@@ -261,7 +337,7 @@ export class JsonDiffProvider implements DiffProvider {
 
   private applyRules(differences: SnapshotDiff[], rules: DiffRule[]): SnapshotDiff[] {
     return differences.filter(diff => {
-      const rule = rules.find(r => diff.path.startsWith(r.path));
+      const rule = findMatchingRule(rules, diff.path, r => !!(r.ignore || r.severity));
       
       if (rule) {
         if (rule.ignore) {
@@ -270,6 +346,7 @@ export class JsonDiffProvider implements DiffProvider {
         if (rule.severity) {
           diff.severity = rule.severity;
         }
+        diff.rule = rule.path;
       }
       
       return true;
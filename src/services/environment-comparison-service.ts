@@ -0,0 +1,215 @@
+import type { Application } from '../core/application.js';
+import type { DiffProvider, Logger } from '../core/interfaces.js';
+import type { GenericRegistry } from '../core/registry.js';
+import { ServiceKeys } from '../core/container.js';
+import { DatabaseService } from '../database/database-service.js';
+import { DatabaseConfigManager } from '../database/database-config-manager.js';
+import type { ApiEndpoint, ApiSnapshot, Config, DiffRule, EnvironmentPair, EnvironmentTarget, SnapshotComparison } from '../types.js';
+import { DefaultSnapshotService } from './snapshot-service.js';
+import { summarizeDifferences, type DifferenceSummary } from './capture-run-service.js';
+import { recordCapture, recordComparison } from './metrics.js';
+import { environmentLabel, environmentPairFromRecord, retargetEndpoint } from '../utils/environmentComparison.js';
+import { getNormalizationRules } from '../utils/valueNormalizer.js';
+import { buildDependencyGraph, runInDependencyOrder } from '../utils/requestChaining.js';
+
+// Cross-Environment Comparison
+// Captures the endpoint set of a space against two environments in one run and compares the responses of each
+// endpoint between them: the left side takes the place of the baseline. A side is another space (its endpoint
+// with the same name, parameters and auth) and/or a base URL. Nothing is stored, values extracted by chained
+// requests included (both sides capture the same space at once); the result carries both snapshots.
+
+export interface EnvironmentComparisonOptions {
+  space: string; // Space whose endpoints are compared
+  left: EnvironmentTarget;
+  right: EnvironmentTarget;
+  endpoints?: string[];
+  rules?: DiffRule[]; // Rules of the environment pair, on top of the space rules
+  shapeOnly?: boolean;
+}
+
+export interface EnvironmentEndpointResult {
+  endpoint: string;
+  success: boolean;
+  error?: string; // Capture failure on either side
+  comparison?: SnapshotComparison; // `baseline` is the left response, `current` the right one
+  summary?: DifferenceSummary;
+}
+
+export interface EnvironmentComparisonResult {
+  space: string;
+  left: string;
+  right: string;
+  results: EnvironmentEndpointResult[];
+  summary: DifferenceSummary & { compared: number; failed: number; changedEndpoints: number };
+}
+
+type CaptureOutcome = { success: boolean; snapshot?: ApiSnapshot; error?: string };
+
+// Stored pair of the space, as options for `compare`
+export function loadEnvironmentPair(space: string, name: string): EnvironmentPair {
+  const dbService = new DatabaseService();
+  try {
+    const spaceRecord = dbService.getSpaceByName(space);
+    const record = spaceRecord ? dbService.getEnvironmentPair(spaceRecord.id, name) : null;
+    if (!record) {
+      throw new Error(`Environment pair '${name}' does not exist in space '${space}'`);
+    }
+    return environmentPairFromRecord(record);
+  } finally {
+    dbService.close();
+  }
+}
+
+export class EnvironmentComparisonService {
+  constructor(
+    private coreApp: Application,
+    private logger: Logger
+  ) {}
+
+  async compare(options: EnvironmentComparisonOptions): Promise<EnvironmentComparisonResult> {
+    const configs = this.loadConfigs([options.space, options.left.space, options.right.space]);
+    const config = configs.get(options.space)!;
+
+    const endpoints = options.endpoints && options.endpoints.length > 0
+      ? config.endpoints.filter(endpoint => options.endpoints!.includes(endpoint.name))
+      : config.endpoints;
+    if (endpoints.length === 0) {
+      throw new Error(`No matching endpoints to compare in space '${options.space}'`);
+    }
+
+    const left = environmentLabel(options.left, options.space);
+    const right = environmentLabel(options.right, options.space);
+    this.logger.info(`Comparing ${endpoints.length} endpoint(s) of space '${options.space}' between ${left} and ${right}`);
+
+    const [leftCaptures, rightCaptures] = await Promise.all([
+      this.captureSide(options.left, left, options.space, endpoints, configs),
+      this.captureSide(options.right, right, options.space, endpoints, configs)
+    ]);
+
+    const rules: DiffRule[] = [
+      ...(config.rules || []),
+      ...getNormalizationRules(config.normalizationPresets),
+      ...(options.rules || [])
+    ];
+    const diffRegistry = await this.coreApp.getContainer().resolve<GenericRegistry<DiffProvider>>(ServiceKeys.DIFF_REGISTRY);
+    const diffProvider = diffRegistry.get('json')!;
+
+    const results = endpoints.map((endpoint): EnvironmentEndpointResult => {
+      const leftCapture = leftCaptures.get(endpoint.name)!;
+      const rightCapture = rightCaptures.get(endpoint.name)!;
+
+      const sides = [[left, leftCapture], [right, rightCapture]] as const;
+      const errors = sides
+        .filter(([, capture]) => !capture.success || !capture.snapshot)
+        .map(([label, capture]) => `${label}: ${capture.error || 'Unknown error'}`);
+      if (errors.length > 0) {
+        return { endpoint: endpoint.name, success: false, error: errors.join('; ') };
+      }
+
+      const comparison = diffProvider.compare(leftCapture.snapshot!, rightCapture.snapshot!, rules, { shapeOnly: options.shapeOnly });
+      recordComparison(options.space, comparison.differences);
+      return { endpoint: endpoint.name, success: true, comparison, summary: summarizeDifferences(comparison.differences) };
+    });
+
+    const compared = results.filter(result => result.summary);
+    const summary = {
+      compared: compared.length,
+      failed: results.length - compared.length,
+      changedEndpoints: compared.filter(result => result.comparison!.hasChanges).length,
+      ...summarizeDifferences(compared.flatMap(result => result.comparison!.differences))
+    };
+
+    this.logger.info(`Environment comparison ${left} ↔ ${right} finished: ${summary.changedEndpoints}/${summary.compared} endpoint(s) differ, ${summary.breaking} breaking`);
+    return { space: options.space, left, right, results, summary };
+  }
+
+  private loadConfigs(spaces: Array<string | undefined>): Map<string, Config> {
+    const configManager = new DatabaseConfigManager();
+    try {
+      const configs = new Map<string, Config>();
+      for (const space of spaces) {
+        if (!space || configs.has(space)) {
+          continue;
+        }
+        if (!configManager.spaceExists(space)) {
+          throw new Error(`Space '${space}' does not exist`);
+        }
+        configs.set(space, configManager.loadConfig(undefined, space));
+      }
+      return configs;
+    } finally {
+      configManager.close();
+    }
+  }
+
+  // Captures the compared endpoints as defined in the side's space, in dependency order. Dependencies outside
+  // the compared set are captured too so chained parameters resolve, but are not compared.
+  private async captureSide(
+    target: EnvironmentTarget,
+    label: string,
+    defaultSpace: string,
+    compared: ApiEndpoint[],
+    configs: Map<string, Config>
+  ): Promise<Map<string, CaptureOutcome>> {
+    const space = target.space || defaultSpace;
+    const config = configs.get(space)!;
+    const outcomes = new Map<string, CaptureOutcome>();
+
+    const available = new Map(config.endpoints.map(endpoint => [endpoint.name, endpoint]));
+    const graph = buildDependencyGraph(config.endpoints);
+    const needed = new Set<string>();
+    const include = (name: string) => {
+      if (!needed.has(name) && available.has(name)) {
+        needed.add(name);
+        (graph.get(name) || []).forEach(include);
+      }
+    };
+    compared.forEach(endpoint => include(endpoint.name));
+
+    for (const endpoint of compared) {
+      if (!available.has(endpoint.name)) {
+        outcomes.set(endpoint.name, { success: false, error: `Endpoint is not defined in space '${space}'` });
+      }
+    }
+
+    const endpoints = config.endpoints
+      .filter(endpoint => needed.has(endpoint.name))
+      .map(endpoint => target.baseUrl ? retargetEndpoint(endpoint, target.baseUrl) : endpoint);
+    if (endpoints.length === 0) {
+      return outcomes;
+    }
+
+    const container = this.coreApp.getContainer();
+    const snapshotService = new DefaultSnapshotService(
+      await container.resolve(ServiceKeys.HTTP_CLIENT),
+      await container.resolve(ServiceKeys.STORAGE),
+      await container.resolve(ServiceKeys.AUTH_REGISTRY),
+      await container.resolve(ServiceKeys.SCHEMA_MANAGER),
+      endpoints,
+      this.logger,
+      space,
+      config.capture,
+      { keepExtractedParameters: true }
+    );
+
+    await runInDependencyOrder(endpoints, endpoint => endpoint.name, buildDependencyGraph(endpoints), snapshotService.concurrency, {
+      run: async endpoint => {
+        const capture: CaptureOutcome = await snapshotService.captureSnapshot(endpoint);
+        if (capture.snapshot) {
+          capture.snapshot.metadata.environment = label;
+        }
+        outcomes.set(endpoint.name, capture);
+        return capture;
+      },
+      succeeded: capture => capture.success,
+      skip: (endpoint, failedDependency) => {
+        const capture = { success: false, error: `Skipped because dependency '${failedDependency}' failed` };
+        recordCapture(space, 'skipped');
+        outcomes.set(endpoint.name, capture);
+        return capture;
+      }
+    });
+
+    return outcomes;
+  }
+}
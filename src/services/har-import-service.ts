@@ -0,0 +1,121 @@
+import type { DatabaseService } from '../database/database-service.js';
+import type { ApiEndpoint } from '../types.js';
+import { convertHarToEndpoints, harResponseToSnapshot, validateHar, type HarImportOptions } from '../utils/har-converter.js';
+import { isSensitiveKey, maskEndpointSecrets } from '../utils/secrets.js';
+import { BaselineService } from './baseline-service.js';
+
+// Imports a HAR recording into a space: endpoints, the space parameters they reference and, optionally,
+// baselines made from the recorded responses. Shared by `api-snapshot import-har` and `/api/config/import-har`.
+
+export interface HarImportRequest extends HarImportOptions {
+  space: string;
+  har: any;
+  overwriteExisting?: boolean; // Replace endpoints and parameters with the same name (default: keep them)
+  seedBaselines?: boolean; // Promote the recorded responses of imported endpoints to baselines
+  approvedBy?: string;
+  source?: 'cli' | 'web';
+}
+
+export interface HarImportSummary {
+  imported: string[];
+  overwritten: string[];
+  skipped: string[]; // Endpoints that already existed
+  parameters: {
+    created: string[];
+    updated: string[];
+    kept: string[]; // Existing parameters left unchanged
+  };
+  baselines: string[]; // Endpoints with a baseline seeded from the recording
+  errors: Array<{ endpoint: string; error: string }>;
+  duplicates: number; // Requests merged into another endpoint
+  ignored: number; // Static resources and requests outside baseUrl
+  endpoints: ApiEndpoint[];
+}
+
+export class HarImportService {
+  constructor(private dbService: DatabaseService) {}
+
+  async import(request: HarImportRequest): Promise<HarImportSummary> {
+    const validation = validateHar(request.har);
+    if (!validation.isValid) {
+      throw new Error(`Invalid HAR file: ${validation.error}`);
+    }
+
+    const spaceRecord = this.dbService.getSpaceByName(request.space);
+    if (!spaceRecord) {
+      throw new Error(`Space '${request.space}' not found`);
+    }
+
+    const conversion = convertHarToEndpoints(request.har, request);
+    const summary: HarImportSummary = {
+      imported: [],
+      overwritten: [],
+      skipped: [],
+      parameters: { created: [], updated: [], kept: [] },
+      baselines: [],
+      errors: [],
+      duplicates: conversion.duplicates,
+      ignored: conversion.skipped,
+      endpoints: conversion.endpoints
+    };
+
+    this.dbService.transaction(() => {
+      const existingParameters = this.dbService.getSpaceParameters(spaceRecord.id);
+      for (const [name, value] of Object.entries(conversion.parameters)) {
+        if (!(name in existingParameters)) {
+          // Recorded tokens and passwords are stored encrypted
+          this.dbService.createSpaceParameter(spaceRecord.id, name, value, undefined, 'Imported from HAR recording', isSensitiveKey(name));
+          summary.parameters.created.push(name);
+        } else if (request.overwriteExisting && existingParameters[name] !== value) {
+          this.dbService.updateSpaceParameter(spaceRecord.id, name, value);
+          summary.parameters.updated.push(name);
+        } else {
+          summary.parameters.kept.push(name);
+        }
+      }
+
+      const existingEndpoints = this.dbService.getEndpointsBySpaceId(spaceRecord.id);
+      for (const endpoint of conversion.endpoints) {
+        const existing = existingEndpoints.find(record => record.name === endpoint.name);
+        if (!existing) {
+          this.dbService.createEndpoint(spaceRecord.id, endpoint);
+          summary.imported.push(endpoint.name);
+        } else if (request.overwriteExisting) {
+          this.dbService.updateEndpoint(existing.id, endpoint);
+          summary.overwritten.push(endpoint.name);
+        } else {
+          summary.skipped.push(endpoint.name);
+        }
+      }
+    });
+
+    if (request.seedBaselines) {
+      const baselines = new BaselineService(this.dbService);
+      const secretNames = this.dbService.getSecretParameterNames(spaceRecord.id);
+      const changed = new Set([...summary.imported, ...summary.overwritten]);
+
+      for (const endpoint of conversion.endpoints) {
+        const response = conversion.responses[endpoint.name];
+        if (!changed.has(endpoint.name) || !response) {
+          continue;
+        }
+
+        try {
+          await baselines.promote({
+            space: request.space,
+            endpoint: endpoint.name,
+            snapshot: harResponseToSnapshot(maskEndpointSecrets(endpoint, secretNames), response),
+            approvedBy: request.approvedBy,
+            reason: 'Seeded from HAR recording',
+            source: request.source
+          });
+          summary.baselines.push(endpoint.name);
+        } catch (error) {
+          summary.errors.push({ endpoint: endpoint.name, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    }
+
+    return summary;
+  }
+}
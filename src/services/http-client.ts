@@ -1,5 +1,7 @@
 import axios, { AxiosResponse, AxiosRequestConfig } from 'axios';
 import { HttpClient, RequestConfig, HttpResponse } from '../core/interfaces.js';
+import { decodeResponseBody } from '../utils/bodyHandlers.js';
+import { redactForLog, redactSecrets } from '../utils/secrets.js';
 
 export class AxiosHttpClient implements HttpClient {
   private readonly defaultTimeout = 30000;
@@ -12,53 +14,62 @@ export class AxiosHttpClient implements HttpClient {
       url: config.url,
       headers: config.headers || {},
       timeout: config.timeout || this.defaultTimeout,
-      validateStatus: () => true // Accept all status codes
+      validateStatus: () => true, // Accept all status codes
+      responseType: 'arraybuffer' // Decoded by the body handler for the content-type
     };
 
     if (config.data && ['POST', 'PUT', 'PATCH'].includes(config.method.toUpperCase())) {
       axiosConfig.data = config.data;
     }
 
-    // 🔍 Log the actual HTTP request being made
-    console.log(`🌐 [HTTP] ${config.method.toUpperCase()} ${config.url}`);
+    // 🔍 Log the actual HTTP request being made (credentials and secret values redacted)
+    console.log(`🌐 [HTTP] ${config.method.toUpperCase()} ${redactSecrets(config.url)}`);
     if (config.headers && Object.keys(config.headers).length > 0) {
-      console.log(`📋 [HTTP] Headers:`, config.headers);
+      console.log(`📋 [HTTP] Headers:`, redactForLog(config.headers));
     }
     if (config.data) {
-      console.log(`📦 [HTTP] Body:`, typeof config.data === 'string' ? config.data : JSON.stringify(config.data));
+      const body = redactForLog(config.data);
+      console.log(`📦 [HTTP] Body:`, typeof body === 'string' ? body : JSON.stringify(body));
     }
 
     try {
       const response: AxiosResponse = await axios(axiosConfig);
       const duration = Date.now() - startTime;
+      const headers = this.normalizeHeaders(response.headers);
+      const { data, bodyHandler } = decodeResponseBody(Buffer.from(response.data), headers['content-type']);
 
       // 🔍 Log the HTTP response
       console.log(`✅ [HTTP] ${response.status} ${response.statusText} (${duration}ms)`);
-      if (response.data) {
-        const dataPreview = typeof response.data === 'string' 
-          ? response.data.substring(0, 200) + (response.data.length > 200 ? '...' : '')
-          : JSON.stringify(response.data).substring(0, 200) + '...';
-        console.log(`📥 [HTTP] Response:`, dataPreview);
+      if (data) {
+        const redacted = redactForLog(data);
+        const dataPreview = typeof redacted === 'string' 
+          ? redacted.substring(0, 200) + (redacted.length > 200 ? '...' : '')
+          : JSON.stringify(redacted).substring(0, 200) + '...';
+        console.log(`📥 [HTTP] Response (${bodyHandler}):`, dataPreview);
       }
 
       return {
         status: response.status,
-        headers: this.normalizeHeaders(response.headers),
-        data: response.data,
-        duration
+        headers,
+        data,
+        duration,
+        bodyHandler
       };
     } catch (error) {
       const duration = Date.now() - startTime;
       
       if (axios.isAxiosError(error) && error.response) {
+        const headers = this.normalizeHeaders(error.response.headers);
+        const { data, bodyHandler } = decodeResponseBody(Buffer.from(error.response.data || ''), headers['content-type']);
         console.log(`❌ [HTTP] ${error.response.status} ${error.response.statusText} (${duration}ms)`);
-        console.log(`📥 [HTTP] Error Response:`, error.response.data);
+        console.log(`📥 [HTTP] Error Response:`, redactForLog(data));
         
         return {
           status: error.response.status,
-          headers: this.normalizeHeaders(error.response.headers),
-          data: error.response.data,
-          duration
+          headers,
+          data,
+          duration,
+          bodyHandler
         };
       }
       
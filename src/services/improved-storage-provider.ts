@@ -3,15 +3,18 @@ import { join, dirname } from 'path';
 import { ensureDir, pathExists } from 'fs-extra';
 import { ApiSnapshot } from '../types.js';
 import { StorageProvider } from '../core/interfaces.js';
+import { BlobStore, blobDirFor, deleteSnapshotFile, readSnapshotFile, writeSnapshotFile } from './blob-store.js';
 
 /**
  * Improved storage provider that organizes snapshots by endpoint ID
  * Structure: snapshots/{space}/endpoint-{id}/run-{timestamp}.json
+ * Response bodies are stored once per distinct content in the blob store, baselines keep them inline, see blob-store.ts
  */
 export class ImprovedStorageProvider implements StorageProvider {
   constructor(
     private readonly snapshotDir: string = './snapshots',
-    private readonly baselineDir: string = './baselines'
+    private readonly baselineDir: string = './baselines',
+    private readonly blobStore: BlobStore = BlobStore.at(blobDirFor(snapshotDir))
   ) {}
 
   /**
@@ -92,8 +95,8 @@ export class ImprovedStorageProvider implements StorageProvider {
     // Ensure directory exists
     await ensureDir(dirname(filePath));
     
-    // Write snapshot
-    await fs.writeFile(filePath, JSON.stringify(snapshot, null, 2), 'utf-8');
+    // Write snapshot, its body goes to the blob store
+    await writeSnapshotFile(filePath, snapshot, this.blobStore);
     
     // Also create a metadata file for quick lookups
     const metadataPath = join(this.snapshotDir, endpointFolder, '.metadata.json');
@@ -117,7 +120,7 @@ export class ImprovedStorageProvider implements StorageProvider {
     const filePath = join(this.baselineDir, fileName);
     
     await ensureDir(dirname(filePath));
-    await fs.writeFile(filePath, JSON.stringify(snapshot, null, 2), 'utf-8');
+    await writeSnapshotFile(filePath, snapshot, this.blobStore, { inline: true });
     
     return filePath;
   }
@@ -130,8 +133,7 @@ export class ImprovedStorageProvider implements StorageProvider {
       throw new Error(`Snapshot file not found: ${filePath}`);
     }
 
-    const content = await fs.readFile(filePath, 'utf-8');
-    return JSON.parse(content) as ApiSnapshot;
+    return readSnapshotFile(filePath, this.blobStore);
   }
 
   /**
@@ -237,7 +239,7 @@ export class ImprovedStorageProvider implements StorageProvider {
    */
   async deleteSnapshot(filePath: string): Promise<void> {
     if (await pathExists(filePath)) {
-      await fs.unlink(filePath);
+      await deleteSnapshotFile(filePath, this.blobStore);
       
       // Check if directory is empty and remove if so
       const dir = dirname(filePath);
@@ -268,6 +270,7 @@ export class ImprovedStorageProvider implements StorageProvider {
   
   /**
    * Cleanup old snapshots with per-endpoint retention (internal method)
+   * Deleting a snapshot releases its body; blobs shared with kept snapshots stay
    */
   private async cleanupOldSnapshots(endpointId: string | number, keepCount: number = 10): Promise<number> {
     const snapshots = await this.listSnapshots(endpointId);
@@ -289,6 +292,8 @@ export class ImprovedStorageProvider implements StorageProvider {
     totalEndpoints: number;
     totalSnapshots: number;
     totalSize: number;
+    blobCount: number;
+    blobSize: number;
     endpointStats: Array<{
       endpointId: string;
       snapshotCount: number;
@@ -296,10 +301,13 @@ export class ImprovedStorageProvider implements StorageProvider {
       newestSnapshot: string | null;
     }>;
   }> {
+    const blobs = await this.blobStore.list();
     const stats = {
       totalEndpoints: 0,
       totalSnapshots: 0,
-      totalSize: 0,
+      totalSize: 0, // Snapshot files only, bodies are counted in blobSize
+      blobCount: blobs.length,
+      blobSize: blobs.reduce((total, blob) => total + blob.size, 0),
       endpointStats: [] as any[]
     };
 
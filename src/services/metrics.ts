@@ -0,0 +1,382 @@
+import fs from 'fs';
+import path from 'path';
+import type { SnapshotDiff } from '../types.js';
+
+// Metrics
+// Counters, gauges and histograms kept in memory for the lifetime of the process. `/api/status/metrics` reports
+// them as JSON and `/api/status/metrics/prometheus` in the Prometheus text exposition format, so a Prometheus
+// server can scrape the web server. Histograms use cumulative buckets; quantiles in the JSON view are estimated
+// from them the same way PromQL's histogram_quantile does.
+
+export type MetricLabels = Record<string, string>;
+
+// Seconds; upstream APIs and our own routes both fall mostly within 5ms to 10s
+export const DEFAULT_DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const METRIC_PREFIX = 'api_snapshot_';
+
+// Default path of the SQLite database opened by DatabaseService
+const DATABASE_PATH = './snapshots.db';
+
+function labelKey(labelNames: string[], labels: MetricLabels): string {
+  return JSON.stringify(labelNames.map(name => labels[name] ?? ''));
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) {
+    return '+Inf';
+  }
+  return Number.isNaN(value) ? 'NaN' : String(value);
+}
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  render(): string[];
+  reset(): void;
+}
+
+export class Counter implements Metric {
+  readonly type = 'counter';
+  private values = new Map<string, { labels: MetricLabels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string, private labelNames: string[] = []) {}
+
+  inc(labels: MetricLabels = {}, amount = 1): void {
+    const key = labelKey(this.labelNames, labels);
+    const entry = this.values.get(key) || { labels: this.pick(labels), value: 0 };
+    entry.value += amount;
+    this.values.set(key, entry);
+  }
+
+  // Sum over every series whose labels include `filter`
+  get(filter: MetricLabels = {}): number {
+    return [...this.values.values()]
+      .filter(entry => Object.entries(filter).every(([name, value]) => entry.labels[name] === value))
+      .reduce((sum, entry) => sum + entry.value, 0);
+  }
+
+  // Totals per value of one label
+  byLabel(labelName: string): Record<string, number> {
+    const totals: Record<string, number> = {};
+    for (const entry of this.values.values()) {
+      const value = entry.labels[labelName];
+      totals[value] = (totals[value] || 0) + entry.value;
+    }
+    return totals;
+  }
+
+  render(): string[] {
+    return [...this.values.values()].map(entry => `${this.name}${formatLabels(entry.labels)} ${formatValue(entry.value)}`);
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+
+  private pick(labels: MetricLabels): MetricLabels {
+    return Object.fromEntries(this.labelNames.map(name => [name, labels[name] ?? '']));
+  }
+}
+
+// A gauge either holds set values or reads its current value when collected
+export class Gauge implements Metric {
+  readonly type = 'gauge';
+  private values = new Map<string, { labels: MetricLabels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private labelNames: string[] = [],
+    private collect?: () => number
+  ) {}
+
+  set(value: number, labels: MetricLabels = {}): void {
+    this.values.set(labelKey(this.labelNames, labels), { labels, value });
+  }
+
+  inc(labels: MetricLabels = {}, amount = 1): void {
+    this.set(this.get(labels) + amount, labels);
+  }
+
+  dec(labels: MetricLabels = {}, amount = 1): void {
+    this.inc(labels, -amount);
+  }
+
+  get(labels: MetricLabels = {}): number {
+    if (this.collect) {
+      return this.collect();
+    }
+    return this.values.get(labelKey(this.labelNames, labels))?.value ?? 0;
+  }
+
+  render(): string[] {
+    if (this.collect) {
+      return [`${this.name} ${formatValue(this.collect())}`];
+    }
+    return [...this.values.values()].map(entry => `${this.name}${formatLabels(entry.labels)} ${formatValue(entry.value)}`);
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+interface HistogramSeries {
+  labels: MetricLabels;
+  counts: number[]; // Per bucket, not cumulative; the last entry is +Inf
+  sum: number;
+  count: number;
+}
+
+export interface HistogramSummary {
+  count: number;
+  sum: number;
+  average: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export class Histogram implements Metric {
+  readonly type = 'histogram';
+  private series = new Map<string, HistogramSeries>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private labelNames: string[] = [],
+    private buckets: number[] = DEFAULT_DURATION_BUCKETS
+  ) {}
+
+  observe(value: number, labels: MetricLabels = {}): void {
+    const key = labelKey(this.labelNames, labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = {
+        labels: Object.fromEntries(this.labelNames.map(name => [name, labels[name] ?? ''])),
+        counts: new Array(this.buckets.length + 1).fill(0),
+        sum: 0,
+        count: 0
+      };
+      this.series.set(key, series);
+    }
+
+    const bucket = this.buckets.findIndex(bound => value <= bound);
+    series.counts[bucket === -1 ? this.buckets.length : bucket]++;
+    series.sum += value;
+    series.count++;
+  }
+
+  // Times `fn` in seconds, also when it throws
+  async time<T>(labels: MetricLabels, fn: () => Promise<T>): Promise<T> {
+    const start = process.hrtime.bigint();
+    try {
+      return await fn();
+    } finally {
+      this.observe(Number(process.hrtime.bigint() - start) / 1e9, labels);
+    }
+  }
+
+  // Count, sum and estimated quantiles over every series whose labels include `filter`
+  summary(filter: MetricLabels = {}): HistogramSummary {
+    const matching = [...this.series.values()]
+      .filter(series => Object.entries(filter).every(([name, value]) => series.labels[name] === value));
+    const counts = new Array(this.buckets.length + 1).fill(0);
+    let sum = 0;
+    let count = 0;
+    for (const series of matching) {
+      series.counts.forEach((value, index) => { counts[index] += value; });
+      sum += series.sum;
+      count += series.count;
+    }
+
+    return {
+      count,
+      sum,
+      average: count > 0 ? sum / count : 0,
+      p50: this.quantile(counts, count, 0.5),
+      p95: this.quantile(counts, count, 0.95),
+      p99: this.quantile(counts, count, 0.99)
+    };
+  }
+
+  // Label sets that have observations
+  labelSets(): MetricLabels[] {
+    return [...this.series.values()].map(series => series.labels);
+  }
+
+  render(): string[] {
+    const lines: string[] = [];
+    for (const series of this.series.values()) {
+      let cumulative = 0;
+      [...this.buckets, Infinity].forEach((bound, index) => {
+        cumulative += series.counts[index];
+        lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: formatValue(bound) })} ${cumulative}`);
+      });
+      lines.push(`${this.name}_sum${formatLabels(series.labels)} ${formatValue(series.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(series.labels)} ${series.count}`);
+    }
+    return lines;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  // Linear interpolation within the bucket holding the rank; observations above the last bound report that bound
+  private quantile(counts: number[], total: number, q: number): number {
+    if (total === 0) {
+      return 0;
+    }
+    const rank = q * total;
+    let cumulative = 0;
+    for (let index = 0; index < this.buckets.length; index++) {
+      const previous = cumulative;
+      cumulative += counts[index];
+      if (cumulative >= rank) {
+        const lower = index === 0 ? 0 : this.buckets[index - 1];
+        const upper = this.buckets[index];
+        return lower + (upper - lower) * (counts[index] > 0 ? (rank - previous) / counts[index] : 0);
+      }
+    }
+    return this.buckets[this.buckets.length - 1];
+  }
+}
+
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(new Counter(METRIC_PREFIX + name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: string[] = [], collect?: () => number): Gauge {
+    return this.register(new Gauge(METRIC_PREFIX + name, help, labelNames, collect));
+  }
+
+  histogram(name: string, help: string, labelNames: string[] = [], buckets?: number[]): Histogram {
+    return this.register(new Histogram(METRIC_PREFIX + name, help, labelNames, buckets));
+  }
+
+  // Prometheus text exposition format, version 0.0.4
+  renderPrometheus(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.render());
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  reset(): void {
+    this.metrics.forEach(metric => metric.reset());
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric '${metric.name}' is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+function databaseSize(): number {
+  const file = path.resolve(DATABASE_PATH);
+  return [file, `${file}-wal`].reduce((size, candidate) => {
+    try {
+      return size + fs.statSync(candidate).size;
+    } catch {
+      return size;
+    }
+  }, 0);
+}
+
+export const metrics = new MetricsRegistry();
+
+export const httpRequests = metrics.counter('http_requests_total', 'Requests served by the web server', ['method', 'route', 'status']);
+export const httpRequestsActive = metrics.gauge('http_requests_active', 'Requests being served by the web server');
+export const httpRequestDuration = metrics.histogram('http_request_duration_seconds', 'Time to serve a web server request', ['method', 'route']);
+export const captures = metrics.counter('captures_total', 'Endpoint captures by outcome', ['space', 'outcome']);
+export const comparisons = metrics.counter('comparisons_total', 'Comparisons by their most severe difference', ['space', 'severity']);
+export const comparisonDifferences = metrics.counter('comparison_differences_total', 'Differences found by comparisons', ['space', 'severity']);
+export const upstreamRequestDuration = metrics.histogram('upstream_request_duration_seconds', 'Duration of HTTP requests to captured APIs, per attempt', ['space', 'endpoint']);
+export const upstreamRequestErrors = metrics.counter('upstream_request_errors_total', 'HTTP requests to captured APIs that failed without a response', ['space', 'endpoint']);
+metrics.gauge('database_size_bytes', 'Size of the SQLite database including its write-ahead log', [], databaseSize);
+metrics.gauge('process_uptime_seconds', 'Time since the process started', [], () => process.uptime());
+metrics.gauge('process_resident_memory_bytes', 'Resident memory of the process', [], () => process.memoryUsage().rss);
+
+export type CaptureOutcome = 'success' | 'failed' | 'skipped';
+
+export function recordCapture(space: string, outcome: CaptureOutcome): void {
+  captures.inc({ space, outcome });
+}
+
+// Counts a comparison under its most severe difference (`none` without differences) and each of its differences
+export function recordComparison(space: string, differences: SnapshotDiff[]): void {
+  const severities: string[] = differences.map(difference => difference.severity || 'informational');
+  const severity = ['breaking', 'non-breaking', 'informational'].find(level => severities.includes(level)) || 'none';
+  comparisons.inc({ space, severity });
+  for (const level of severities) {
+    comparisonDifferences.inc({ space, severity: level });
+  }
+}
+
+export function metricsSnapshot() {
+  const requestDurations = httpRequestDuration.summary();
+  const upstream = upstreamRequestDuration.labelSets().map(labels => {
+    const summary = upstreamRequestDuration.summary(labels);
+    return {
+      space: labels.space,
+      endpoint: labels.endpoint,
+      requests: summary.count,
+      errors: upstreamRequestErrors.get(labels),
+      averageResponseTime: Math.round(summary.average * 1000),
+      p95ResponseTime: Math.round(summary.p95 * 1000),
+      p99ResponseTime: Math.round(summary.p99 * 1000)
+    };
+  });
+
+  return {
+    requests: {
+      total: httpRequests.get(),
+      active: httpRequestsActive.get(),
+      errors: Object.entries(httpRequests.byLabel('status'))
+        .filter(([status]) => Number(status) >= 500)
+        .reduce((sum, [, count]) => sum + count, 0)
+    },
+    snapshots: {
+      captured: captures.get({ outcome: 'success' }),
+      compared: comparisons.get(),
+      failed: captures.get({ outcome: 'failed' }),
+      skipped: captures.get({ outcome: 'skipped' })
+    },
+    comparisons: {
+      bySeverity: comparisons.byLabel('severity'),
+      differences: comparisonDifferences.byLabel('severity')
+    },
+    // Milliseconds, of requests served by the web server
+    performance: {
+      averageResponseTime: Math.round(requestDurations.average * 1000),
+      p95ResponseTime: Math.round(requestDurations.p95 * 1000),
+      p99ResponseTime: Math.round(requestDurations.p99 * 1000)
+    },
+    upstream,
+    database: {
+      sizeBytes: databaseSize()
+    },
+    timestamp: new Date().toISOString()
+  };
+}
@@ -0,0 +1,265 @@
+import Fastify, { type FastifyInstance, type FastifyReply } from 'fastify';
+import type { ApiSnapshot } from '../types.js';
+
+// Snapshot Mock Server
+// Serves stored responses as a local API. Every endpoint of a space contributes its active baseline, its latest
+// successful snapshot or the snapshot of a chosen capture run. Requests are matched by method and the endpoint's
+// templated URL: `{param}` path segments match any value, the origin (or a `{baseUrl}`-style parameter) is
+// dropped, and literal query values break ties. Responses keep the recorded status and headers.
+
+export type MockSource = 'baseline' | 'latest';
+
+export interface MockRoute {
+  endpoint: string;
+  method: string;
+  path: string; // Templated path, e.g. /users/{userId}
+  basePath: string; // Path part of the endpoint's server URL, optional in requests
+  query: Record<string, string>; // Literal query values of the endpoint URL
+  snapshot: ApiSnapshot;
+  source: MockSource | 'run';
+}
+
+export interface MockMatch {
+  route: MockRoute;
+  params: Record<string, string>;
+}
+
+export interface MockLoadOptions {
+  source?: MockSource; // Default: baseline, falling back to the latest snapshot
+  runId?: string; // Serve the snapshots of one capture run
+}
+
+export interface MockServerOptions {
+  replayLatency?: boolean; // Delay responses by their recorded duration
+  onRequest?: (method: string, url: string, match: MockMatch | null) => void;
+}
+
+// Recomputed when the body is sent, or specific to the recorded connection
+const DROPPED_HEADERS = ['content-length', 'content-encoding', 'transfer-encoding', 'connection', 'keep-alive'];
+
+const TEMPLATE = /^\{([A-Za-z_][\w.-]*)\}$/;
+
+export function buildMockRoute(snapshot: ApiSnapshot, source: MockRoute['source'], parameters: Record<string, string> = {}): MockRoute {
+  const endpoint = snapshot.endpoint;
+  const [withoutQuery, queryString = ''] = endpoint.url.split(/\?(.*)/s);
+
+  let server = '';
+  let path = withoutQuery;
+  const origin = withoutQuery.match(/^([a-z][a-z0-9+.-]*:\/\/[^/]+|\{[^{}/]+\})(.*)$/i);
+  if (origin) {
+    server = origin[1];
+    path = origin[2] || '/';
+  }
+
+  // A server parameter may carry a base path, e.g. baseUrl = https://api.example.com/v1
+  let basePath = '';
+  const serverUrl = server.replace(/^\{([^{}]+)\}$/, (match, name) => parameters[name] ?? match);
+  try {
+    basePath = new URL(serverUrl).pathname.replace(/\/$/, '');
+  } catch {
+    // Unresolved parameter: the path alone identifies the endpoint
+  }
+
+  const query: Record<string, string> = {};
+  for (const [name, value] of new URLSearchParams(queryString)) {
+    if (!/\{[^{}]+\}/.test(value)) {
+      query[name] = value;
+    }
+  }
+
+  return {
+    endpoint: endpoint.name,
+    method: endpoint.method.toUpperCase(),
+    path: path.startsWith('/') ? path : `/${path}`,
+    basePath,
+    query,
+    snapshot,
+    source
+  };
+}
+
+export function matchMockRoute(routes: MockRoute[], method: string, url: string): MockMatch | null {
+  const parsed = new URL(url, 'http://mock.local');
+  const requestSegments = splitPath(parsed.pathname);
+
+  let best: MockMatch | null = null;
+  let bestScore = -1;
+
+  for (const route of routes) {
+    if (route.method !== method.toUpperCase()) {
+      continue;
+    }
+
+    const candidates = [splitPath(route.basePath + route.path), ...(route.basePath ? [splitPath(route.path)] : [])];
+    for (const segments of candidates) {
+      const params = matchSegments(segments, requestSegments);
+      if (!params) {
+        continue;
+      }
+
+      // Literal segments outweigh templates, matching query values break ties
+      const literalSegments = segments.filter(segment => !TEMPLATE.test(segment)).length;
+      const queryMatches = Object.entries(route.query).filter(([name, value]) => parsed.searchParams.get(name) === value).length;
+      const score = literalSegments * 100 + queryMatches;
+      if (score > bestScore) {
+        best = { route, params };
+        bestScore = score;
+      }
+      break;
+    }
+  }
+
+  return best;
+}
+
+export async function loadMockRoutes(space: string, options: MockLoadOptions = {}): Promise<MockRoute[]> {
+  const { DatabaseService } = await import('../database/database-service.js');
+  const { BaselineService, locateSnapshotFile } = await import('./baseline-service.js');
+  const { readSnapshotFile } = await import('./blob-store.js');
+  const dbService = new DatabaseService();
+
+  try {
+    const spaceRecord = dbService.getSpaceByName(space);
+    if (!spaceRecord) {
+      throw new Error(`Space '${space}' not found`);
+    }
+
+    const readSnapshot = async (record: { filename: string; endpoint_id: number }): Promise<ApiSnapshot | null> => {
+      const filePath = locateSnapshotFile({ ...record, space_name: space });
+      return filePath ? readSnapshotFile(filePath) : null;
+    };
+
+    const parameters = dbService.getSpaceParameters(spaceRecord.id);
+    const routes: MockRoute[] = [];
+
+    if (options.runId) {
+      const run = dbService.getCaptureRun(options.runId);
+      if (!run || run.space_id !== spaceRecord.id) {
+        throw new Error(`Capture run '${options.runId}' not found in space '${space}'`);
+      }
+      for (const record of dbService.getSnapshotsByRunId(options.runId).filter(snapshot => snapshot.status === 'success')) {
+        const snapshot = await readSnapshot(record);
+        if (snapshot) {
+          routes.push(buildMockRoute(snapshot, 'run', parameters));
+        }
+      }
+      return routes;
+    }
+
+    const baselines = new BaselineService(dbService);
+    for (const endpoint of dbService.getEndpointsBySpaceId(spaceRecord.id)) {
+      const baseline = options.source !== 'latest' ? dbService.getActiveBaseline(endpoint.id) : null;
+      if (baseline) {
+        routes.push(buildMockRoute(await baselines.loadBaseline(baseline), 'baseline', parameters));
+        continue;
+      }
+
+      const latest = dbService.getLatestSnapshotByEndpointId(endpoint.id);
+      const snapshot = latest ? await readSnapshot(latest) : null;
+      if (snapshot) {
+        routes.push(buildMockRoute(snapshot, 'latest', parameters));
+      }
+    }
+    return routes;
+  } finally {
+    dbService.close();
+  }
+}
+
+export async function sendMockResponse(reply: FastifyReply, match: MockMatch, options: MockServerOptions = {}): Promise<FastifyReply> {
+  const { snapshot } = match.route;
+
+  if (options.replayLatency && snapshot.response.duration > 0) {
+    await new Promise(resolve => setTimeout(resolve, snapshot.response.duration));
+  }
+
+  for (const [name, value] of Object.entries(snapshot.response.headers || {})) {
+    if (!DROPPED_HEADERS.includes(name.toLowerCase())) {
+      reply.header(name, value);
+    }
+  }
+  reply
+    .header('x-snapshot-endpoint', match.route.endpoint)
+    .header('x-snapshot-source', match.route.source)
+    .header('x-snapshot-timestamp', snapshot.timestamp)
+    .status(snapshot.response.status);
+
+  // Binary bodies are only stored as a digest, there is nothing to replay
+  const data = snapshot.response.data;
+  if (snapshot.response.status === 204 || snapshot.response.status === 304 || data === undefined || data === '' ||
+      snapshot.response.bodyHandler === 'binary') {
+    return reply.send();
+  }
+  if (!reply.hasHeader('content-type')) {
+    reply.header('content-type', typeof data === 'string' ? 'text/plain; charset=utf-8' : 'application/json; charset=utf-8');
+  }
+  return reply.send(typeof data === 'string' ? data : JSON.stringify(data));
+}
+
+// Unmatched requests get a 404 listing what is available; CORS preflights are answered for browser clients
+export function sendNoMockResponse(reply: FastifyReply, method: string, url: string, routes: MockRoute[]): FastifyReply {
+  if (method === 'OPTIONS') {
+    return reply
+      .header('access-control-allow-origin', '*')
+      .header('access-control-allow-methods', 'GET, POST, PUT, PATCH, DELETE, HEAD, OPTIONS')
+      .header('access-control-allow-headers', '*')
+      .status(204)
+      .send();
+  }
+
+  return reply.status(404).send({
+    success: false,
+    error: 'No snapshot matches this request',
+    message: `No endpoint with a stored snapshot matches ${method} ${url}`,
+    available: routes.map(route => `${route.method} ${route.basePath}${route.path}`)
+  });
+}
+
+// Standalone mock server; routes are loaded per request so new baselines are served without a restart
+export function createMockServer(loadRoutes: () => Promise<MockRoute[]>, options: MockServerOptions = {}): FastifyInstance {
+  const app = Fastify({ logger: false });
+
+  // Request bodies are not inspected, accept whatever the client sends
+  app.removeAllContentTypeParsers();
+  app.addContentTypeParser('*', { parseAs: 'buffer' }, (request, body, done) => done(null, body));
+
+  app.addHook('onSend', async (request, reply) => {
+    if (!reply.hasHeader('access-control-allow-origin')) {
+      reply.header('access-control-allow-origin', '*');
+    }
+  });
+
+  app.route({
+    method: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'],
+    url: '/*',
+    handler: async (request, reply) => {
+      const routes = await loadRoutes();
+      const match = matchMockRoute(routes, request.method, request.url);
+      options.onRequest?.(request.method, request.url, match);
+      return match ? sendMockResponse(reply, match, options) : sendNoMockResponse(reply, request.method, request.url, routes);
+    }
+  });
+
+  return app;
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(Boolean);
+}
+
+function matchSegments(pattern: string[], segments: string[]): Record<string, string> | null {
+  if (pattern.length !== segments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < pattern.length; i++) {
+    const template = pattern[i].match(TEMPLATE);
+    if (template) {
+      params[template[1]] = decodeURIComponent(segments[i]);
+    } else if (pattern[i] !== segments[i]) {
+      return null;
+    }
+  }
+  return params;
+}
@@ -4,15 +4,34 @@ import {
   StorageProvider, 
   AuthProvider, 
   RequestConfig, 
+  HttpResponse,
   Logger 
 } from '../core/interfaces.js';
-import { ApiEndpoint, ApiSnapshot, SnapshotComparison, ValidationResult } from '../types.js';
+import { ApiEndpoint, ApiSnapshot, CaptureAttempt, CaptureSettings, SnapshotComparison, ValidationResult } from '../types.js';
 import { GenericRegistry } from '../core/registry.js';
 import { SchemaManager } from '../schema-manager.js';
 import { resolveEndpointParameters, debugParameterResolution, hasUnresolvedParameters } from '../utils/parameterResolver.js';
-import { mergeSpaceParameters } from '../utils/databaseSpaceParameterResolver.js';
+import { loadSecretParameterNames, mergeSpaceParameters, saveSpaceParameters } from '../utils/databaseSpaceParameterResolver.js';
+import { maskEndpointSecrets, redactForLog, redactSecrets } from '../utils/secrets.js';
+import { inferSchema } from '../utils/schemaInference.js';
+import { isRetryableStatus, nextRetryDelay, resolveRetryPolicy } from '../utils/retryPolicy.js';
+import { DEFAULT_CONCURRENCY, HostRateLimiter, sleep } from '../utils/rateLimiter.js';
+import { buildDependencyGraph, extractParameters, runInDependencyOrder } from '../utils/requestChaining.js';
+import { authenticateWith, resolveEndpointAuth, withAuthConfig } from '../utils/authProfileResolver.js';
+import { toGraphQLRequest } from '../utils/graphql.js';
+import { recordCapture, upstreamRequestDuration, upstreamRequestErrors } from './metrics.js';
+
+export interface SnapshotServiceOptions {
+  // Keep extracted values to this service instead of saving them to the space, for captures that run next to
+  // other captures of the same space
+  keepExtractedParameters?: boolean;
+}
 
 export class DefaultSnapshotService implements SnapshotService {
+  private rateLimiter: HostRateLimiter;
+  // Values extracted from earlier responses of this service, used even when they cannot be saved to the space
+  private extractedParameters: Record<string, string> = {};
+
   constructor(
     private httpClient: HttpClient,
     private storageProvider: StorageProvider,
@@ -20,39 +39,57 @@ export class DefaultSnapshotService implements SnapshotService {
     private schemaManager: SchemaManager,
     private endpoints: ApiEndpoint[],
     private logger: Logger,
-    private spaceId: string = 'default'
-  ) {}
+    private spaceId: string = 'default',
+    private captureSettings: CaptureSettings = {},
+    private options: SnapshotServiceOptions = {}
+  ) {
+    this.rateLimiter = new HostRateLimiter(captureSettings.rateLimits);
+  }
+
+  get concurrency(): number {
+    return this.captureSettings.concurrency ?? DEFAULT_CONCURRENCY;
+  }
 
   async captureSnapshot(endpoint: ApiEndpoint): Promise<{ success: boolean; snapshot?: ApiSnapshot; error?: string; }> {
+    const result = await this.capture(endpoint);
+    recordCapture(this.spaceId, result.success ? 'success' : 'failed');
+    return result;
+  }
+
+  private async capture(endpoint: ApiEndpoint): Promise<{ success: boolean; snapshot?: ApiSnapshot; error?: string; }> {
     const startTime = Date.now();
     
     try {
       // Debug incoming endpoint
       console.log(`🔍 [${endpoint.name}] Starting capture for space '${this.spaceId}'`);
-      console.log(`   Original endpoint:`, JSON.stringify(endpoint, null, 2));
+      console.log(`   Original endpoint:`, JSON.stringify(redactForLog(endpoint), null, 2));
       
-      // 1. Merge space-level parameters with endpoint parameters
-      const endpointWithSpaceParams = await mergeSpaceParameters(endpoint, this.spaceId);
+      // 1. Merge space-level parameters with endpoint parameters (extracted values override space values)
+      const endpointWithSpaceParams = await mergeSpaceParameters(
+        { ...endpoint, parameters: { ...this.extractedParameters, ...endpoint.parameters } },
+        this.spaceId
+      );
       
-      // 2. Resolve template parameters
-      const resolvedEndpoint = resolveEndpointParameters(endpointWithSpaceParams);
+      // 2. Resolve template parameters (GraphQL operations become a JSON POST body)
+      const parameterizedEndpoint = resolveEndpointParameters(endpointWithSpaceParams);
+      const resolvedEndpoint = toGraphQLRequest(parameterizedEndpoint);
       
       // Debug parameter resolution if parameters exist
       if (endpointWithSpaceParams.parameters && Object.keys(endpointWithSpaceParams.parameters).length > 0) {
         console.log(`🔄 [${endpoint.name}] Parameter Resolution:`);
         console.log(`   Template URL: ${endpoint.url}`);
-        console.log(`   Resolved URL: ${resolvedEndpoint.url}`);
-        console.log(`   Parameters:`, endpointWithSpaceParams.parameters);
+        console.log(`   Resolved URL: ${redactSecrets(resolvedEndpoint.url)}`);
+        console.log(`   Parameters:`, redactForLog(endpointWithSpaceParams.parameters));
         console.log(`   Space: ${this.spaceId}`);
         debugParameterResolution(endpointWithSpaceParams, resolvedEndpoint);
-        this.logger.info(`[${endpoint.name}] Resolved parameters:`, endpointWithSpaceParams.parameters);
+        this.logger.info(`[${endpoint.name}] Resolved parameters:`, redactForLog(endpointWithSpaceParams.parameters));
       } else {
         console.log(`🔄 [${endpoint.name}] No parameters to resolve`);
-        console.log(`   endpointWithSpaceParams.parameters:`, endpointWithSpaceParams.parameters);
+        console.log(`   endpointWithSpaceParams.parameters:`, redactForLog(endpointWithSpaceParams.parameters));
       }
       
-      // Check for any unresolved parameters
-      if (hasUnresolvedParameters(resolvedEndpoint)) {
+      // Check for any unresolved parameters (before the GraphQL query, whose selections use braces, becomes the body)
+      if (hasUnresolvedParameters(parameterizedEndpoint)) {
         this.logger.warn(`[${endpoint.name}] Endpoint contains unresolved parameters`);
       }
       
@@ -78,18 +115,30 @@ export class DefaultSnapshotService implements SnapshotService {
         requestConfig.data = resolvedEndpoint.body;
       }
 
-      // Apply authentication if configured
-      if (endpoint.auth && endpoint.auth.type) {
-        const authProvider = this.authRegistry.get(endpoint.auth.type);
-        if (authProvider) {
-          requestConfig = await authProvider.authenticate(requestConfig);
-        } else {
-          this.logger.warn(`Auth provider '${endpoint.auth.type}' not found for endpoint '${endpoint.name}'`);
-        }
+      // Apply authentication if configured, with this endpoint's provider settings (auth profile and overrides)
+      const unauthenticatedConfig = requestConfig;
+      const auth = await resolveEndpointAuth(endpoint, this.spaceId, endpointWithSpaceParams.parameters);
+      const authProvider = auth ? this.authRegistry.get(auth.type) : undefined;
+      if (auth && authProvider) {
+        requestConfig = await authenticateWith(authProvider, auth.config, requestConfig);
+      } else if (auth) {
+        this.logger.warn(`Auth provider '${auth.type}' not found for endpoint '${endpoint.name}'`);
       }
 
-      // Make HTTP request
-      const response = await this.httpClient.request(requestConfig);
+      // Make HTTP request, retrying transient failures
+      let { response, attempts, retries } = await this.requestWithRetry(requestConfig, endpoint.name);
+
+      // Providers with renewable credentials (OAuth2) get one chance to replace a rejected token
+      const rejectedConfig = requestConfig;
+      if (response.status === 401 && auth && authProvider?.handleUnauthorized &&
+          await withAuthConfig(authProvider, auth.config, () => authProvider.handleUnauthorized!(rejectedConfig, response))) {
+        this.logger.warn(`[${endpoint.name}] HTTP 401, renewing credentials and retrying`);
+        requestConfig = await authenticateWith(authProvider, auth.config, unauthenticatedConfig);
+        const retry = await this.requestWithRetry(requestConfig, endpoint.name);
+        retries = [...retries, { attempt: attempts, status: 401, delayMs: 0 }, ...retry.retries.map(r => ({ ...r, attempt: r.attempt + attempts }))];
+        attempts += retry.attempts;
+        response = retry.response;
+      }
 
       // Validate response if schema is provided
       let responseValidation: ValidationResult | undefined;
@@ -105,9 +154,14 @@ export class DefaultSnapshotService implements SnapshotService {
         }
       }
 
-      // Create snapshot (store original endpoint with parameters)
+      // Pass extracted values on to the endpoints that depend on this one
+      const extraction = endpoint.extract && endpoint.extract.length > 0
+        ? await this.applyExtractions(endpoint, response)
+        : undefined;
+
+      // Create snapshot (store original endpoint with template parameters, secrets masked)
       const snapshot: ApiSnapshot = {
-        endpoint: endpoint, // Store original endpoint with template parameters
+        endpoint: maskEndpointSecrets(endpoint, await loadSecretParameterNames(this.spaceId)),
         timestamp: new Date().toISOString(),
         request: requestValidation ? { validation: requestValidation } : undefined,
         response: {
@@ -115,14 +169,27 @@ export class DefaultSnapshotService implements SnapshotService {
           headers: response.headers,
           data: response.data,
           duration: response.duration,
-          validation: responseValidation
+          validation: responseValidation,
+          shape: inferSchema(response.data),
+          bodyHandler: response.bodyHandler
         },
         metadata: {
           version: '1.0.0',
-          environment: process.env.NODE_ENV || 'development'
+          environment: process.env.NODE_ENV || 'development',
+          attempts,
+          ...(retries.length > 0 ? { retries } : {}),
+          ...(extraction ? { extracted: Object.keys(extraction.values) } : {})
         }
       };
 
+      if (extraction && extraction.missing.length > 0) {
+        return {
+          success: false,
+          snapshot,
+          error: `Could not extract parameter(s) ${extraction.missing.join(', ')} from the response`
+        };
+      }
+
       return {
         success: true,
         snapshot
@@ -137,8 +204,8 @@ export class DefaultSnapshotService implements SnapshotService {
   }
 
   async captureAll(baseline?: boolean): Promise<{ success: boolean; snapshot?: ApiSnapshot; error?: string; }[]> {
-    const promises = this.endpoints.map(endpoint => 
-      this.captureSnapshot(endpoint).then(async result => {
+    return runInDependencyOrder(this.endpoints, endpoint => endpoint.name, buildDependencyGraph(this.endpoints), this.concurrency, {
+      run: endpoint => this.captureSnapshot(endpoint).then(async result => {
         if (result.success && result.snapshot) {
           try {
             await this.storageProvider.saveSnapshot(result.snapshot, baseline);
@@ -150,10 +217,82 @@ export class DefaultSnapshotService implements SnapshotService {
           }
         }
         return result;
+      }),
+      succeeded: result => result.success,
+      skip: (endpoint, failedDependency) => ({
+        success: false,
+        error: `Skipped because dependency '${failedDependency}' failed`
       })
-    );
-    
-    return Promise.all(promises);
+    });
+  }
+
+  private async applyExtractions(endpoint: ApiEndpoint, response: HttpResponse) {
+    const extraction = extractParameters(endpoint.extract!, response);
+    Object.assign(this.extractedParameters, extraction.values);
+
+    if (Object.keys(extraction.values).length > 0) {
+      this.logger.info(`[${endpoint.name}] Extracted parameters:`, Object.keys(extraction.values));
+      if (this.options.keepExtractedParameters) {
+        return extraction;
+      }
+      try {
+        await saveSpaceParameters(this.spaceId, extraction.values);
+      } catch (error) {
+        this.logger.warn(`[${endpoint.name}] Extracted parameters were not saved to space '${this.spaceId}':`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    return extraction;
+  }
+
+  // Sends the request within the host rate limit and retries network errors, 5xx and 429 responses.
+  // Once retries are exhausted the last response is returned (and captured) as is; network errors are thrown.
+  private async requestWithRetry(
+    requestConfig: RequestConfig,
+    endpointName: string
+  ): Promise<{ response: HttpResponse; attempts: number; retries: CaptureAttempt[] }> {
+    const policy = resolveRetryPolicy(this.captureSettings.retry);
+    const retries: CaptureAttempt[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+      await this.rateLimiter.acquire(requestConfig.url);
+
+      let response: HttpResponse | undefined;
+      let failure: unknown;
+      const labels = { space: this.spaceId, endpoint: endpointName };
+      try {
+        response = await upstreamRequestDuration.time(labels, () => this.httpClient.request(requestConfig));
+      } catch (error) {
+        failure = error;
+        upstreamRequestErrors.inc(labels);
+      }
+
+      if (response && !isRetryableStatus(response.status)) {
+        return { response, attempts: attempt, retries };
+      }
+
+      const delayMs = nextRetryDelay(attempt, policy, response?.headers['retry-after']);
+      if (delayMs === undefined) {
+        if (response) {
+          return { response, attempts: attempt, retries };
+        }
+        const message = failure instanceof Error ? failure.message : String(failure);
+        throw new Error(attempt > 1 ? `${message} (after ${attempt} attempts)` : message);
+      }
+
+      retries.push({
+        attempt,
+        ...(response ? { status: response.status } : { error: failure instanceof Error ? failure.message : String(failure) }),
+        delayMs
+      });
+      this.logger.warn(`[${endpointName}] Attempt ${attempt} failed (${response ? `HTTP ${response.status}` : retries[retries.length - 1].error}), retrying in ${delayMs}ms`);
+
+      // A 429 slows down every request to that host, not just this endpoint
+      if (response?.status === 429) {
+        this.rateLimiter.pause(requestConfig.url, delayMs);
+      }
+      await sleep(delayMs);
+    }
   }
 
   async compareSnapshots(endpointName: string): Promise<SnapshotComparison | null> {
@@ -0,0 +1,81 @@
+import type { DatabaseConfigManager } from '../database/database-config-manager.js';
+import type { ApiEndpoint, ApiSnapshot } from '../types.js';
+import { authProfileFromRecord } from '../utils/authProfileResolver.js';
+import { toGraphQLRequest } from '../utils/graphql.js';
+import { inferSchema } from '../utils/schemaInference.js';
+import { maskEndpointSecrets } from '../utils/secrets.js';
+import { exportSpace, type ExportFormat, type ExportedFile, type RecordedResponse } from '../utils/space-exporter.js';
+import { locateSnapshotFile } from './baseline-service.js';
+import { readSnapshotFile } from './blob-store.js';
+
+// Exports a space for use outside the verifier. Shared by `api-snapshot export` and
+// `/api/spaces/:space/export`.
+
+export class SpaceExportService {
+  constructor(private configManager: DatabaseConfigManager) {}
+
+  async export(space: string, format: ExportFormat): Promise<ExportedFile> {
+    const db = this.configManager.database;
+    const spaceRecord = db.getSpaceByName(space);
+    if (!spaceRecord) {
+      throw new Error(`Space '${space}' not found`);
+    }
+
+    const { endpoints } = this.configManager.loadConfig(undefined, space);
+    const parameters = this.configManager.getSpaceParameters(space);
+    const secretParameters = db.getSecretParameterNames(spaceRecord.id);
+
+    const responses: Record<string, RecordedResponse> = {};
+    for (const record of db.getEndpointsBySpaceId(spaceRecord.id)) {
+      const snapshot = await this.loadLatestSnapshot(record.id, space);
+      if (snapshot) {
+        responses[record.name] = {
+          status: snapshot.response.status,
+          headers: snapshot.response.headers,
+          shape: snapshot.response.shape || inferSchema(snapshot.response.data)
+        };
+      }
+    }
+
+    return exportSpace(format, {
+      space,
+      endpoints: endpoints.map(endpoint => maskEndpointSecrets(toGraphQLRequest(this.withProfile(endpoint, spaceRecord.id)), secretParameters)),
+      parameters,
+      secretParameters,
+      responses
+    });
+  }
+
+  // Profiles only exist in this database, so their settings are written into the endpoint
+  private withProfile(endpoint: ApiEndpoint, spaceId: number): ApiEndpoint {
+    const record = endpoint.auth?.profile ? this.configManager.database.getAuthProfile(spaceId, endpoint.auth.profile) : null;
+    if (!record || !endpoint.auth) {
+      return endpoint;
+    }
+
+    const profile = authProfileFromRecord(record);
+    const type = endpoint.auth.type || profile.type;
+    return {
+      ...endpoint,
+      auth: {
+        ...endpoint.auth,
+        type,
+        config: { ...(profile.type === type ? profile.config : {}), ...(endpoint.auth.config || {}) }
+      }
+    };
+  }
+
+  private async loadLatestSnapshot(endpointId: number, space: string): Promise<ApiSnapshot | null> {
+    const record = this.configManager.database.getLatestSnapshotByEndpointId(endpointId);
+    const filePath = record ? locateSnapshotFile({ ...record, space_name: space }) : null;
+    if (!filePath) {
+      return null;
+    }
+
+    try {
+      return await readSnapshotFile(filePath);
+    } catch {
+      return null;
+    }
+  }
+}
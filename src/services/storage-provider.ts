@@ -2,11 +2,15 @@ import { promises as fs } from 'fs';
 import * as path from 'path';
 import { StorageProvider } from '../core/interfaces.js';
 import { ApiSnapshot } from '../types.js';
+import { BlobStore, deleteSnapshotFile, readSnapshotFile, writeSnapshotFile } from './blob-store.js';
 
+// Response bodies are kept in the shared blob store of the web server, the files hold everything else; baselines keep
+// their body inline
 export class FileSystemStorageProvider implements StorageProvider {
   constructor(
     private snapshotDir: string,
-    private baselineDir?: string
+    private baselineDir?: string,
+    private blobStore: BlobStore = BlobStore.at()
   ) {}
 
   async saveSnapshot(snapshot: ApiSnapshot, baseline = false): Promise<string> {
@@ -20,15 +24,14 @@ export class FileSystemStorageProvider implements StorageProvider {
     const filePath = path.join(targetDir, filename);
     
     await this.ensureDirectoryExists(path.dirname(filePath));
-    await fs.writeFile(filePath, JSON.stringify(snapshot, null, 2));
+    await writeSnapshotFile(filePath, snapshot, this.blobStore, { inline: baseline });
     
     return filePath;
   }
 
   async loadSnapshot(filePath: string): Promise<ApiSnapshot> {
     try {
-      const content = await fs.readFile(filePath, 'utf-8');
-      return JSON.parse(content);
+      return await readSnapshotFile(filePath, this.blobStore);
     } catch (error) {
       throw new Error(`Failed to load snapshot from ${filePath}: ${error instanceof Error ? error.message : error}`);
     }
@@ -59,7 +62,7 @@ export class FileSystemStorageProvider implements StorageProvider {
 
   async deleteSnapshot(filePath: string): Promise<void> {
     try {
-      await fs.unlink(filePath);
+      await deleteSnapshotFile(filePath, this.blobStore);
     } catch (error) {
       throw new Error(`Failed to delete snapshot ${filePath}: ${error instanceof Error ? error.message : error}`);
     }
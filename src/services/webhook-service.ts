@@ -0,0 +1,90 @@
+import type { Logger } from '../core/interfaces.js';
+import { DatabaseService, type WebhookRecord } from '../database/database-service.js';
+import type { WebhookTarget } from '../types.js';
+import {
+  buildWebhookPayload,
+  deliverWebhook,
+  meetsMinSeverity,
+  testNotification,
+  webhookTargetFromRecord,
+  type WebhookDelivery,
+  type WebhookNotification
+} from '../utils/webhooks.js';
+
+// Webhook Delivery
+// Sends notifications to the webhook targets of a space (see utils/webhooks.ts for the payloads) and records every
+// delivery, successful or not, in `webhook_deliveries`. Each target only receives the comparisons that meet its
+// minimum severity, and nothing when none do.
+
+export interface WebhookDeliveryResult extends WebhookDelivery {
+  webhook: string;
+}
+
+export class WebhookService {
+  constructor(private logger: Logger) {}
+
+  async notify(notification: WebhookNotification): Promise<WebhookDeliveryResult[]> {
+    const deliveries = this.loadWebhooks(notification.space)
+      .map(record => ({ record, target: webhookTargetFromRecord(record) }))
+      .filter(({ target }) => target.enabled !== false)
+      .map(({ record, target }) => ({
+        record,
+        target,
+        comparisons: notification.comparisons.filter(comparison => meetsMinSeverity(comparison, target.minSeverity))
+      }))
+      .filter(({ comparisons }) => comparisons.length > 0)
+      .map(({ record, target, comparisons }) => this.deliver(record.id, target, { ...notification, comparisons }));
+
+    return Promise.all(deliveries);
+  }
+
+  // Sends a sample notification to one target, also when it is disabled
+  async test(space: string, name: string): Promise<WebhookDeliveryResult> {
+    const record = this.loadWebhooks(space).find(webhook => webhook.name === name);
+    if (!record) {
+      throw new Error(`Webhook '${name}' does not exist in space '${space}'`);
+    }
+    return this.deliver(record.id, webhookTargetFromRecord(record), testNotification(space));
+  }
+
+  private loadWebhooks(space: string): WebhookRecord[] {
+    const dbService = new DatabaseService();
+    try {
+      const spaceRecord = dbService.getSpaceByName(space);
+      return spaceRecord ? dbService.getWebhooksBySpaceId(spaceRecord.id) : [];
+    } finally {
+      dbService.close();
+    }
+  }
+
+  private async deliver(webhookId: number, target: WebhookTarget, notification: WebhookNotification): Promise<WebhookDeliveryResult> {
+    const payload = buildWebhookPayload(target.format || 'generic', notification);
+    const delivery = await deliverWebhook(target, payload);
+
+    if (delivery.status === 'delivered') {
+      this.logger.info(`📣 Webhook '${target.name}' of space '${notification.space}' notified (${notification.event})`);
+    } else {
+      this.logger.warn(`Webhook '${target.name}' of space '${notification.space}' failed after ${delivery.attempts} attempt(s): ${delivery.error}`);
+    }
+
+    const dbService = new DatabaseService();
+    try {
+      dbService.createWebhookDelivery(webhookId, {
+        event: notification.event,
+        run_id: notification.runId,
+        status: delivery.status,
+        attempts: delivery.attempts,
+        response_status: delivery.responseStatus,
+        error: delivery.error,
+        duration: delivery.durationMs,
+        payload
+      });
+    } catch (error) {
+      this.logger.warn(`Failed to record delivery of webhook '${target.name}':`, error);
+    } finally {
+      dbService.close();
+    }
+
+    return { webhook: target.name, ...delivery };
+  }
+}
@@ -2,12 +2,14 @@ import { ConfigManager } from './config.js';
 import { SnapshotCapturer } from './snapshot-capturer.js';
 import { SnapshotStorage } from './snapshot-storage.js';
 import { DiffEngine } from './diff-engine.js';
+import { getNormalizationRules } from './utils/valueNormalizer.js';
 import { 
   Config, 
   ApiEndpoint, 
   ApiSnapshot, 
   SnapshotResult, 
-  SnapshotComparison 
+  SnapshotComparison,
+  DiffOptions
 } from './types.js';
 
 export class SnapshotAgent {
@@ -25,7 +27,10 @@ export class SnapshotAgent {
   async initialize(): Promise<void> {
     this.config = this.configManager.loadConfig(this.configPath);
     this.storage = new SnapshotStorage(this.config.snapshotDir);
-    this.diffEngine = new DiffEngine(this.config.rules);
+    this.diffEngine = new DiffEngine(
+      [...(this.config.rules || []), ...getNormalizationRules(this.config.normalizationPresets)],
+      this.config.arrayKeys
+    );
   }
 
   async captureAll(saveAsBaseline: boolean = false): Promise<SnapshotResult[]> {
@@ -59,18 +64,18 @@ export class SnapshotAgent {
     return [result];
   }
 
-  async compareAll(): Promise<(SnapshotComparison | null)[]> {
+  async compareAll(options: DiffOptions = {}): Promise<(SnapshotComparison | null)[]> {
     const comparisons: (SnapshotComparison | null)[] = [];
     
     for (const endpoint of this.config.endpoints) {
-      const comparison = await this.compareEndpoint(endpoint.name);
+      const comparison = await this.compareEndpoint(endpoint.name, options);
       comparisons.push(comparison);
     }
     
     return comparisons;
   }
 
-  async compareEndpoint(endpointName: string): Promise<SnapshotComparison | null> {
+  async compareEndpoint(endpointName: string, options: DiffOptions = {}): Promise<SnapshotComparison | null> {
     const endpoint = this.findEndpoint(endpointName);
     
     // Load baseline
@@ -86,7 +91,7 @@ export class SnapshotAgent {
     }
     
     // Compare snapshots
-    const comparison = this.diffEngine.compareSnapshots(baseline, currentResult.snapshot);
+    const comparison = this.diffEngine.compareSnapshots(baseline, currentResult.snapshot, options);
     
     return comparison;
   }
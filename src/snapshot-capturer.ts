@@ -1,13 +1,17 @@
 import axios, { AxiosResponse, AxiosRequestConfig } from 'axios';
 import { ApiEndpoint, ApiSnapshot, SnapshotResult, ValidationResult } from './types.js';
 import { SchemaManager } from './schema-manager.js';
+import { inferSchema } from './utils/schemaInference.js';
+import { toGraphQLRequest } from './utils/graphql.js';
+import { decodeResponseBody } from './utils/bodyHandlers.js';
 
 export class SnapshotCapturer {
   private readonly defaultTimeout = 30000;
   private readonly schemaManager = new SchemaManager();
 
-  async captureSnapshot(endpoint: ApiEndpoint): Promise<SnapshotResult> {
+  async captureSnapshot(configuredEndpoint: ApiEndpoint): Promise<SnapshotResult> {
     const startTime = Date.now();
+    const endpoint = toGraphQLRequest(configuredEndpoint);
     
     try {
       // Validate request body if schema is provided
@@ -26,7 +30,8 @@ export class SnapshotCapturer {
         url: endpoint.url,
         headers: endpoint.headers || {},
         timeout: endpoint.timeout || this.defaultTimeout,
-        validateStatus: () => true // Accept all status codes
+        validateStatus: () => true, // Accept all status codes
+        responseType: 'arraybuffer' // Decoded by the body handler for the content-type
       };
 
       if (endpoint.body && ['POST', 'PUT', 'PATCH'].includes(endpoint.method)) {
@@ -35,12 +40,14 @@ export class SnapshotCapturer {
 
       const response: AxiosResponse = await axios(config);
       const duration = Date.now() - startTime;
+      const headers = this.normalizeHeaders(response.headers);
+      const { data, bodyHandler } = decodeResponseBody(Buffer.from(response.data), headers['content-type']);
 
       // Validate response if schema is provided
       let responseValidation: ValidationResult | undefined;
       if (endpoint.schema) {
         responseValidation = await this.schemaManager.validateResponse(
-          response.data, 
+          data, 
           response.status, 
           endpoint.schema
         );
@@ -56,10 +63,12 @@ export class SnapshotCapturer {
         request: requestValidation ? { validation: requestValidation } : undefined,
         response: {
           status: response.status,
-          headers: this.normalizeHeaders(response.headers),
-          data: response.data,
+          headers,
+          data,
           duration,
-          validation: responseValidation
+          validation: responseValidation,
+          shape: inferSchema(data),
+          bodyHandler
         },
         metadata: {
           version: '1.0.0',
@@ -1,17 +1,22 @@
 import { promises as fs } from 'fs';
-import { join, dirname } from 'path';
-import { ensureDir, pathExists } from 'fs-extra';
+import { join } from 'path';
+import { pathExists } from 'fs-extra';
 import { ApiSnapshot } from './types.js';
+import { BlobStore, blobDirFor, deleteSnapshotFile, readSnapshotFile, writeSnapshotFile } from './services/blob-store.js';
 
+// Snapshot files of the CLI; response bodies live in the blob store inside `baseDir` like those of the web server,
+// baselines keep theirs inline (see services/blob-store.ts)
 export class SnapshotStorage {
-  constructor(private readonly baseDir: string) {}
+  constructor(
+    private readonly baseDir: string,
+    private readonly blobStore: BlobStore = BlobStore.at(blobDirFor(baseDir))
+  ) {}
 
   async saveSnapshot(snapshot: ApiSnapshot): Promise<string> {
     const fileName = this.generateFileName(snapshot);
     const filePath = join(this.baseDir, fileName);
     
-    await ensureDir(dirname(filePath));
-    await fs.writeFile(filePath, JSON.stringify(snapshot, null, 2), 'utf-8');
+    await writeSnapshotFile(filePath, snapshot, this.blobStore);
     
     return filePath;
   }
@@ -21,8 +26,7 @@ export class SnapshotStorage {
     const fileName = `${snapshot.endpoint.name}.json`;
     const filePath = join(dir, fileName);
     
-    await ensureDir(dirname(filePath));
-    await fs.writeFile(filePath, JSON.stringify(snapshot, null, 2), 'utf-8');
+    await writeSnapshotFile(filePath, snapshot, this.blobStore, { inline: true });
     
     return filePath;
   }
@@ -32,8 +36,7 @@ export class SnapshotStorage {
       throw new Error(`Snapshot file not found: ${filePath}`);
     }
 
-    const content = await fs.readFile(filePath, 'utf-8');
-    return JSON.parse(content) as ApiSnapshot;
+    return readSnapshotFile(filePath, this.blobStore);
   }
 
   async loadBaseline(endpointName: string, baselineDir?: string): Promise<ApiSnapshot | null> {
@@ -88,7 +91,7 @@ export class SnapshotStorage {
 
   async deleteSnapshot(filePath: string): Promise<void> {
     if (await pathExists(filePath)) {
-      await fs.unlink(filePath);
+      await deleteSnapshotFile(filePath, this.blobStore);
     }
   }
 
@@ -31,11 +31,30 @@ export interface ApiEndpoint {
   schema?: ApiSchema;
   auth?: {
     type?: string;
+    profile?: string; // Name of an auth profile of the space, `type` and `config` override its settings
     token?: string;
     config?: any;
   };
   // Universal parameter support - Phase 1
   parameters?: Record<string, string>;  // Resolved parameter values: { userId: "123", authToken: "abc" }
+  extract?: ParameterExtraction[]; // Space parameters set from this endpoint's response
+  dependsOn?: string[]; // Endpoints captured before this one (parameters it uses from `extract` are implied)
+  graphql?: GraphQLOperation; // Sent as a JSON POST body instead of `body`
+}
+
+export interface GraphQLOperation {
+  query: string;
+  variables?: Record<string, any>; // `{param}` templates in values are resolved like a body
+  operationName?: string;
+}
+
+export type BodyHandlerName = 'json' | 'xml' | 'csv' | 'text' | 'binary';
+
+export interface ParameterExtraction {
+  name: string; // Space parameter that receives the value
+  jsonPath?: string; // JSONPath into the response body, e.g. $.data.id
+  header?: string; // Response header name
+  optional?: boolean; // Do not fail the capture when nothing matches
 }
 
 export interface ApiSnapshot {
@@ -50,13 +69,26 @@ export interface ApiSnapshot {
     data: any;
     duration: number;
     validation?: ValidationResult;
+    shape?: Record<string, any>; // JSON Schema inferred from `data`
+    bodyHandler?: BodyHandlerName; // How `data` was decoded from the body, see utils/bodyHandlers.ts
+    bodyBlob?: string; // Blob store hash of `data` in snapshot files, see services/blob-store.ts
   };
   metadata: {
     version: string;
     environment?: string;
+    attempts?: number; // Requests made for this capture, including retries
+    retries?: CaptureAttempt[]; // Failed attempts that were retried
+    extracted?: string[]; // Parameters set from this response (values are not stored)
   };
 }
 
+export interface CaptureAttempt {
+  attempt: number;
+  status?: number; // Response status of a retried 5xx/429
+  error?: string; // Network error message
+  delayMs: number; // Wait before the next attempt
+}
+
 export interface SnapshotComparison {
   endpoint: string;
   baseline: ApiSnapshot;
@@ -65,12 +97,44 @@ export interface SnapshotComparison {
   hasChanges: boolean;
 }
 
+// One side of a cross-environment comparison: the endpoints of `space` (parameters, auth profiles, capture
+// settings included), optionally sent to `baseUrl` instead of their own origin
+export interface EnvironmentTarget {
+  space?: string; // Defaults to the space whose endpoint set is compared
+  baseUrl?: string; // e.g. https://staging.example.com
+  label?: string; // Shown in results, defaults to the space name or base URL
+}
+
+// Two environments compared with each other, with ignore rules for values known to differ between them
+export interface EnvironmentPair {
+  name: string;
+  left: EnvironmentTarget;
+  right: EnvironmentTarget;
+  rules?: DiffRule[]; // Applied on top of the space rules, e.g. { path: 'response.data.region', ignore: true }
+  description?: string;
+}
+
+export type WebhookFormat = 'generic' | 'slack' | 'teams';
+
+// Notified when a capture run of the space finds differences of at least `minSeverity`, see utils/webhooks.ts
+export interface WebhookTarget {
+  name: string;
+  url: string; // Stored encrypted: Slack and Teams webhook URLs are credentials
+  format?: WebhookFormat; // Payload template (default: generic)
+  minSeverity?: SnapshotDiff['severity']; // default: breaking
+  headers?: Record<string, string>; // Sent with every delivery, e.g. Authorization for a generic receiver
+  retry?: RetryPolicy;
+  enabled?: boolean; // default: true
+  description?: string;
+}
+
 export interface SnapshotDiff {
   path: string;
-  type: 'added' | 'removed' | 'changed';
+  type: 'added' | 'removed' | 'changed' | 'moved';
   oldValue?: any;
   newValue?: any;
   severity: 'breaking' | 'non-breaking' | 'informational';
+  rule?: string; // Path of the DiffRule that set the severity
 }
 
 export interface Config {
@@ -78,6 +142,10 @@ export interface Config {
   snapshotDir: string;
   baselineDir?: string;
   rules?: DiffRule[];
+  arrayKeys?: string[]; // Identity fields tried when matching array elements (default: id, uuid, _id)
+  normalizationPresets?: string[]; // Built-in masking presets: timestamps, identifiers, etags, pagination, tokens
+  capture?: CaptureSettings;
+  latency?: LatencySettings;
   environment?: string;
   space?: string; // Added to track the actual space name
   plugins?: {
@@ -88,10 +156,49 @@ export interface Config {
   };
 }
 
+export interface CaptureSettings {
+  concurrency?: number; // Endpoints captured in parallel (default: 4)
+  rateLimits?: Record<string, number>; // Max requests per second by host, '*' for all other hosts
+  retry?: RetryPolicy;
+}
+
+// Response time regression detection, see utils/latency.ts
+export interface LatencySettings {
+  window?: number; // Successful captures before the current one that make up the reference (default: 20)
+  percentile?: LatencyPercentile; // Reference statistic of the window (default: p95)
+  thresholdPercent?: number; // Regression when the capture is this much slower than the reference (default: 50)
+  minDeltaMs?: number; // ...and at least this many milliseconds slower (default: 100)
+  severity?: SnapshotDiff['severity']; // Severity of the reported `response.duration` difference (default: non-breaking)
+  enabled?: boolean; // default: true
+}
+
+export type LatencyPercentile = 'p50' | 'p95' | 'p99';
+
+export interface RetryPolicy {
+  maxRetries?: number; // default: 3
+  baseDelayMs?: number; // First backoff delay, doubled on every retry (default: 500)
+  maxDelayMs?: number; // Backoff cap; a longer Retry-After gives up (default: 30000)
+}
+
 export interface DiffRule {
   path: string;
   ignore?: boolean;
   severity?: 'breaking' | 'non-breaking' | 'informational';
+  arrayKey?: string; // Identity field for array elements at exactly this path
+  normalize?: ValueNormalizer; // Replace matching values with a placeholder before diffing
+}
+
+export type ValuePatternType = 'iso-date' | 'http-date' | 'epoch' | 'uuid' | 'hex-id' | 'etag' | 'jwt';
+
+export interface ValueNormalizer {
+  type?: ValuePatternType; // Built-in value pattern
+  regex?: string; // Regular expression tested against string/number values
+  selector?: string; // JSONPath over the snapshot, e.g. $.response.data.items[*].cursor
+  placeholder?: string; // Defaults to <type> or <masked>
+}
+
+export interface DiffOptions {
+  shapeOnly?: boolean; // Diff inferred response schemas instead of response values
 }
 
 export interface SnapshotResult {
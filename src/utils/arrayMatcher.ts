@@ -0,0 +1,131 @@
+// Identity-aware Array Matching
+// Pairs up array elements by a key field (id, uuid, ...) so diffs survive inserts and reordering
+
+export const DEFAULT_ARRAY_KEYS = ['id', 'uuid', '_id'];
+
+export interface ArrayElementMatch {
+  oldIndex: number;
+  newIndex: number;
+}
+
+export interface ArrayMatchResult {
+  key: string;
+  matched: ArrayElementMatch[];
+  added: number[];   // Indexes in the new array
+  removed: number[]; // Indexes in the old array
+  moved: ArrayElementMatch[];
+}
+
+// Read the identity of an element, only primitives are usable as identities
+function identityOf(element: any, key: string): string | undefined {
+  if (typeof element !== 'object' || element === null || Array.isArray(element)) {
+    return undefined;
+  }
+
+  const value = element[key];
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return `${typeof value}:${value}`;
+  }
+
+  return undefined;
+}
+
+// A key is usable only when every element carries it and the values are unique per array
+function isUsableKey(array: any[], key: string): boolean {
+  const seen = new Set<string>();
+
+  for (const element of array) {
+    const identity = identityOf(element, key);
+    if (identity === undefined || seen.has(identity)) {
+      return false;
+    }
+    seen.add(identity);
+  }
+
+  return true;
+}
+
+// Pick the identity key for a pair of arrays, preferring an explicitly configured key
+export function findArrayIdentityKey(
+  oldArray: any[],
+  newArray: any[],
+  candidates: string[] = DEFAULT_ARRAY_KEYS
+): string | undefined {
+  if (oldArray.length === 0 && newArray.length === 0) {
+    return undefined;
+  }
+
+  return candidates.find(key => isUsableKey(oldArray, key) && isUsableKey(newArray, key));
+}
+
+// Indexes (into `sequence`) of one longest strictly increasing subsequence
+function longestIncreasingSubsequence(sequence: number[]): Set<number> {
+  const tails: number[] = [];
+  const previous: number[] = new Array(sequence.length).fill(-1);
+
+  for (let i = 0; i < sequence.length; i++) {
+    let low = 0;
+    let high = tails.length;
+
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (sequence[tails[mid]] < sequence[i]) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    if (low > 0) {
+      previous[i] = tails[low - 1];
+    }
+    tails[low] = i;
+  }
+
+  const result = new Set<number>();
+  let current = tails.length > 0 ? tails[tails.length - 1] : -1;
+  while (current !== -1) {
+    result.add(current);
+    current = previous[current];
+  }
+
+  return result;
+}
+
+// Match elements of two arrays by key and classify them as matched, added, removed or moved.
+// Moved elements are the minimal set that has to change position to turn the old order into the new one.
+export function matchArrayElements(oldArray: any[], newArray: any[], key: string): ArrayMatchResult {
+  const oldIndexByIdentity = new Map<string, number>();
+  oldArray.forEach((element, index) => {
+    oldIndexByIdentity.set(identityOf(element, key)!, index);
+  });
+
+  const matched: ArrayElementMatch[] = [];
+  const added: number[] = [];
+  const seenIdentities = new Set<string>();
+
+  newArray.forEach((element, newIndex) => {
+    const identity = identityOf(element, key)!;
+    const oldIndex = oldIndexByIdentity.get(identity);
+
+    if (oldIndex === undefined) {
+      added.push(newIndex);
+    } else {
+      matched.push({ oldIndex, newIndex });
+      seenIdentities.add(identity);
+    }
+  });
+
+  const removed: number[] = [];
+  oldArray.forEach((element, oldIndex) => {
+    if (!seenIdentities.has(identityOf(element, key)!)) {
+      removed.push(oldIndex);
+    }
+  });
+
+  // `matched` is in new-array order, so anything outside the LIS of old indexes was reordered
+  const inOrder = longestIncreasingSubsequence(matched.map(match => match.oldIndex));
+  const moved = matched.filter((_, index) => !inOrder.has(index));
+
+  return { key, matched, added, removed, moved };
+}
@@ -0,0 +1,96 @@
+import type { ApiEndpoint } from '../types.js';
+import type { AuthProvider, RequestConfig } from '../core/interfaces.js';
+import { substituteParametersInBody } from './parameterResolver.js';
+
+// Per-endpoint Authentication
+// An endpoint's `auth` names a provider `type` and/or an auth `profile` stored for its space. The profile
+// supplies the provider configuration, the endpoint's own `config` and `token` override single settings.
+// `{param}` placeholders in the configuration are resolved with the endpoint's parameters, so secrets can
+// live in space parameters. Providers are shared, so configuring and using one happens under a lock.
+
+export interface AuthProfile {
+  name: string;
+  type: string;
+  config: Record<string, any>;
+  description?: string;
+}
+
+export interface ResolvedAuth {
+  type: string;
+  config: Record<string, any>;
+  profile?: string;
+}
+
+export type AuthProfileLoader = (space: string, name: string) => Promise<AuthProfile | null>;
+
+export async function loadAuthProfileFromDatabase(space: string, name: string): Promise<AuthProfile | null> {
+  const { DatabaseService } = await import('../database/database-service.js');
+  const dbService = new DatabaseService();
+  try {
+    const spaceRecord = dbService.getSpaceByName(space);
+    const record = spaceRecord ? dbService.getAuthProfile(spaceRecord.id, name) : null;
+    return record ? authProfileFromRecord(record) : null;
+  } finally {
+    dbService.close();
+  }
+}
+
+export function authProfileFromRecord(record: { name: string; type: string; config?: string; description?: string }): AuthProfile {
+  return {
+    name: record.name,
+    type: record.type,
+    config: record.config ? JSON.parse(record.config) : {},
+    ...(record.description ? { description: record.description } : {})
+  };
+}
+
+export async function resolveEndpointAuth(
+  endpoint: ApiEndpoint,
+  space: string,
+  parameters: Record<string, string> = {},
+  loadProfile: AuthProfileLoader = loadAuthProfileFromDatabase
+): Promise<ResolvedAuth | undefined> {
+  const auth = endpoint.auth;
+  if (!auth || (!auth.type && !auth.profile)) {
+    return undefined;
+  }
+
+  let profile: AuthProfile | null = null;
+  if (auth.profile) {
+    profile = await loadProfile(space, auth.profile);
+    if (!profile) {
+      throw new Error(`Auth profile '${auth.profile}' not found in space '${space}'`);
+    }
+  }
+
+  const type = auth.type || profile!.type;
+  const config = {
+    space,
+    ...(profile && profile.type === type ? profile.config : {}),
+    ...(auth.config || {}),
+    ...(auth.token ? { token: auth.token } : {})
+  };
+
+  return {
+    type,
+    config: substituteParametersInBody(config, parameters),
+    ...(profile ? { profile: profile.name } : {})
+  };
+}
+
+// Pending work per provider; every configure() waits for the previous request to be authenticated
+const providerLocks = new WeakMap<AuthProvider, Promise<unknown>>();
+
+export function withAuthConfig<T>(provider: AuthProvider, config: Record<string, any>, fn: () => Promise<T>): Promise<T> {
+  const previous = providerLocks.get(provider) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(async () => {
+    await provider.configure(config);
+    return fn();
+  });
+  providerLocks.set(provider, next);
+  return next;
+}
+
+export function authenticateWith(provider: AuthProvider, config: Record<string, any>, request: RequestConfig): Promise<RequestConfig> {
+  return withAuthConfig(provider, config, () => provider.authenticate(request));
+}
@@ -0,0 +1,466 @@
+import { createHash } from 'crypto';
+import { diffLines } from 'diff';
+import type { ApiSnapshot, BodyHandlerName, SnapshotDiff } from '../types.js';
+
+// Response body handlers
+// The content-type of a response picks how its body is stored and diffed. JSON is parsed and diffed as before.
+// XML, CSV and text are stored as text and parsed when diffed: XML as an element tree (`@attr`, `#text`, repeated
+// children as arrays), CSV as columns and rows (keyed by the header row), text line by line. Binary bodies are
+// stored as a SHA-256 digest and size only. Snapshots record the handler in `response.bodyHandler`.
+
+export interface BinaryDigest {
+  sha256: string;
+  size: number;
+}
+
+export interface CsvTable {
+  columns: string[];
+  rows: Array<Record<string, string>>;
+}
+
+type CompareData = (oldData: any, newData: any, path: string) => SnapshotDiff[];
+
+export interface BodyHandler {
+  name: BodyHandlerName;
+  matches(contentType: string): boolean;
+  decode(body: Buffer): any; // Value stored as `response.data`
+  diff(oldData: any, newData: any, compareData: CompareData): SnapshotDiff[];
+}
+
+const jsonHandler: BodyHandler = {
+  name: 'json',
+  matches: contentType => /[/+]json\b/.test(contentType),
+  decode: body => JSON.parse(body.toString('utf-8')),
+  diff: (oldData, newData, compareData) => compareData(oldData, newData, 'response.data')
+};
+
+const xmlHandler: BodyHandler = {
+  name: 'xml',
+  matches: contentType => /[/+]xml\b/.test(contentType),
+  decode: body => body.toString('utf-8'),
+  diff: (oldData, newData, compareData) => {
+    if (typeof oldData !== 'string' || typeof newData !== 'string') {
+      return compareData(oldData, newData, 'response.data');
+    }
+    let oldTree: Record<string, any>;
+    let newTree: Record<string, any>;
+    try {
+      oldTree = parseXml(oldData);
+      newTree = parseXml(newData);
+    } catch {
+      // Malformed documents (error pages, truncated bodies) are still worth a line diff
+      return diffText(oldData, newData);
+    }
+    return compareData(oldTree, newTree, 'response.data');
+  }
+};
+
+const csvHandler: BodyHandler = {
+  name: 'csv',
+  matches: contentType => /^(text|application)\/(csv|x-csv|tab-separated-values)\b/.test(contentType),
+  decode: body => body.toString('utf-8'),
+  diff: (oldData, newData, compareData) => {
+    if (typeof oldData !== 'string' || typeof newData !== 'string') {
+      return compareData(oldData, newData, 'response.data');
+    }
+    return diffCsv(parseCsv(oldData), parseCsv(newData), compareData);
+  }
+};
+
+const textHandler: BodyHandler = {
+  name: 'text',
+  matches: contentType => /^text\//.test(contentType) ||
+    /^application\/(javascript|ecmascript|x-www-form-urlencoded|graphql|yaml|x-yaml|x-sh)\b/.test(contentType),
+  decode: body => body.toString('utf-8'),
+  diff: (oldData, newData, compareData) => typeof oldData === 'string' && typeof newData === 'string'
+    ? diffText(oldData, newData)
+    : compareData(oldData, newData, 'response.data')
+};
+
+const binaryHandler: BodyHandler = {
+  name: 'binary',
+  matches: () => true,
+  decode: body => binaryDigest(body),
+  diff: (oldData, newData, compareData) => compareData(binaryDigest(oldData), binaryDigest(newData), 'response.data')
+};
+
+// Checked in order, binary takes whatever is left
+export const BODY_HANDLERS: BodyHandler[] = [jsonHandler, xmlHandler, csvHandler, textHandler, binaryHandler];
+
+export function getBodyHandler(name: BodyHandlerName): BodyHandler {
+  return BODY_HANDLERS.find(handler => handler.name === name)!;
+}
+
+export function selectBodyHandler(contentType: string): BodyHandler {
+  const mediaType = contentType.split(';')[0].trim().toLowerCase();
+  return BODY_HANDLERS.find(handler => handler.matches(mediaType))!;
+}
+
+// Decodes a raw response body; without a content-type the body is sniffed as JSON, then text
+export function decodeResponseBody(body: Buffer, contentType?: string): { data: any; bodyHandler: BodyHandlerName } {
+  if (body.length === 0) {
+    return { data: '', bodyHandler: contentType ? selectBodyHandler(contentType).name : 'text' };
+  }
+
+  const handler = contentType ? selectBodyHandler(contentType) : null;
+  if (!handler || handler.name === 'json') {
+    try {
+      return { data: jsonHandler.decode(body), bodyHandler: 'json' };
+    } catch {
+      // Invalid JSON is kept as text, like before handlers existed
+      return isText(body) ? { data: textHandler.decode(body), bodyHandler: 'text' } : { data: binaryDigest(body), bodyHandler: 'binary' };
+    }
+  }
+  return { data: handler.decode(body), bodyHandler: handler.name };
+}
+
+// Diff the bodies of two snapshots with the handler they were captured with. Snapshots taken before handlers
+// existed fall back to their content-type header.
+export function diffResponseBodies(baseline: ApiSnapshot, current: ApiSnapshot, compareData: CompareData): SnapshotDiff[] {
+  const oldHandler = snapshotBodyHandler(baseline);
+  const newHandler = snapshotBodyHandler(current);
+  if (oldHandler !== newHandler) {
+    // The content-type header diff already reports the switch, the bodies are compared as they are
+    return compareData(baseline.response.data, current.response.data, 'response.data');
+  }
+  return getBodyHandler(oldHandler).diff(baseline.response.data, current.response.data, compareData);
+}
+
+export function snapshotBodyHandler(snapshot: ApiSnapshot): BodyHandlerName {
+  if (snapshot.response.bodyHandler) {
+    return snapshot.response.bodyHandler;
+  }
+  const contentType = Object.entries(snapshot.response.headers || {}).find(([name]) => name.toLowerCase() === 'content-type')?.[1];
+  const handler = contentType ? selectBodyHandler(contentType).name : 'json';
+  // Older captures of unknown types hold whatever the HTTP client decoded, compare those as values
+  return handler === 'binary' || typeof snapshot.response.data !== 'string' ? 'json' : handler;
+}
+
+export function binaryDigest(data: Buffer | string | BinaryDigest | null | undefined): BinaryDigest {
+  if (data && typeof data === 'object' && !Buffer.isBuffer(data)) {
+    return { sha256: data.sha256, size: data.size };
+  }
+  const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data ?? '', 'utf-8');
+  return { sha256: createHash('sha256').update(buffer).digest('hex'), size: buffer.length };
+}
+
+// Line diff; each hunk becomes one difference at the zero-based line index it starts at
+export function diffText(oldText: string, newText: string): SnapshotDiff[] {
+  const differences: SnapshotDiff[] = [];
+  const parts = diffLines(oldText, newText);
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    const lines = part.count ?? splitLines(part.value).length;
+
+    if (part.removed && parts[i + 1]?.added) {
+      const next = parts[i + 1];
+      differences.push({
+        path: `response.data.lines[${newLine}]`,
+        type: 'changed',
+        oldValue: trimNewline(part.value),
+        newValue: trimNewline(next.value),
+        severity: 'non-breaking'
+      });
+      oldLine += lines;
+      newLine += next.count ?? splitLines(next.value).length;
+      i++;
+    } else if (part.removed) {
+      differences.push({ path: `response.data.lines[${oldLine}]`, type: 'removed', oldValue: trimNewline(part.value), severity: 'breaking' });
+      oldLine += lines;
+    } else if (part.added) {
+      differences.push({ path: `response.data.lines[${newLine}]`, type: 'added', newValue: trimNewline(part.value), severity: 'non-breaking' });
+      newLine += lines;
+    } else {
+      oldLine += lines;
+      newLine += lines;
+    }
+  }
+
+  return differences;
+}
+
+// Element tree as plain values: `{ root: { '@id': '1', child: 'text', item: [..] } }`
+export function parseXml(text: string): Record<string, any> {
+  const parser = new XmlParser(text);
+  return parser.parseDocument();
+}
+
+// RFC 4180 CSV; the delimiter (comma, semicolon or tab) is taken from the header row
+export function parseCsv(text: string): CsvTable {
+  const content = text.replace(/^\uFEFF/, '');
+  const headerLine = content.split(/\r?\n/, 1)[0];
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best, ',');
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [columns = [], ...rows] = records.filter(row => row.length > 1 || row[0] !== '');
+  return {
+    columns,
+    rows: rows.map(row => Object.fromEntries(columns.map((column, index) => [column, row[index] ?? ''])))
+  };
+}
+
+// Columns are reported once; rows are compared on the columns both versions share
+function diffCsv(oldTable: CsvTable, newTable: CsvTable, compareData: CompareData): SnapshotDiff[] {
+  const differences: SnapshotDiff[] = [];
+  const shared = oldTable.columns.filter(column => newTable.columns.includes(column));
+
+  for (const column of oldTable.columns) {
+    if (!newTable.columns.includes(column)) {
+      differences.push({ path: `response.data.columns.${column}`, type: 'removed', oldValue: column, severity: 'breaking' });
+    }
+  }
+  for (const column of newTable.columns) {
+    if (!oldTable.columns.includes(column)) {
+      differences.push({ path: `response.data.columns.${column}`, type: 'added', newValue: column, severity: 'non-breaking' });
+    }
+  }
+
+  if (shared.length === oldTable.columns.length && shared.length === newTable.columns.length &&
+      shared.some((column, index) => newTable.columns[index] !== column)) {
+    differences.push({ path: 'response.data.columns', type: 'moved', oldValue: oldTable.columns, newValue: newTable.columns, severity: 'informational' });
+  }
+
+  const project = (rows: Array<Record<string, string>>) =>
+    rows.map(row => Object.fromEntries(shared.map(column => [column, row[column]])));
+  differences.push(...compareData(project(oldTable.rows), project(newTable.rows), 'response.data.rows'));
+
+  return differences;
+}
+
+function isText(body: Buffer): boolean {
+  return !body.includes(0) && !body.toString('utf-8').includes('\uFFFD');
+}
+
+function splitLines(value: string): string[] {
+  return trimNewline(value).split(/\r?\n/);
+}
+
+function trimNewline(value: string): string {
+  return value.replace(/\r?\n$/, '');
+}
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: Array<XmlElement | string>;
+}
+
+const XML_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+class XmlParser {
+  private position = 0;
+
+  constructor(private readonly text: string) {}
+
+  parseDocument(): Record<string, any> {
+    this.skipMisc();
+    if (this.text[this.position] !== '<') {
+      throw this.error('Expected a root element');
+    }
+    const root = this.parseElement();
+    this.skipMisc();
+    if (this.position < this.text.length) {
+      throw this.error('Unexpected content after the root element');
+    }
+    return { [root.name]: toValue(root) };
+  }
+
+  // Prolog, comments, processing instructions, doctype and whitespace between elements
+  private skipMisc(): void {
+    for (;;) {
+      while (/\s/.test(this.text[this.position] || '')) {
+        this.position++;
+      }
+      if (this.text.startsWith('<?', this.position)) {
+        this.skipPast('?>');
+      } else if (this.text.startsWith('<!--', this.position)) {
+        this.skipPast('-->');
+      } else if (this.text.startsWith('<!DOCTYPE', this.position)) {
+        const subset = this.text.indexOf('[', this.position);
+        const end = this.text.indexOf('>', this.position);
+        this.skipPast(subset !== -1 && subset < end ? ']>' : '>');
+      } else {
+        return;
+      }
+    }
+  }
+
+  private parseElement(): XmlElement {
+    this.position++; // <
+    const name = this.readName();
+    const attributes: Record<string, string> = {};
+
+    for (;;) {
+      this.skipWhitespace();
+      if (this.text.startsWith('/>', this.position)) {
+        this.position += 2;
+        return { name, attributes, children: [] };
+      }
+      if (this.text[this.position] === '>') {
+        this.position++;
+        break;
+      }
+      const attribute = this.readName();
+      this.skipWhitespace();
+      this.expect('=');
+      this.skipWhitespace();
+      const quote = this.text[this.position];
+      if (quote !== '"' && quote !== "'") {
+        throw this.error(`Expected a quoted value for attribute '${attribute}'`);
+      }
+      const end = this.text.indexOf(quote, this.position + 1);
+      if (end === -1) {
+        throw this.error(`Unterminated value of attribute '${attribute}'`);
+      }
+      attributes[attribute] = decodeEntities(this.text.slice(this.position + 1, end));
+      this.position = end + 1;
+    }
+
+    const children: Array<XmlElement | string> = [];
+    for (;;) {
+      if (this.position >= this.text.length) {
+        throw this.error(`Unclosed element <${name}>`);
+      }
+      if (this.text.startsWith('</', this.position)) {
+        this.position += 2;
+        const closing = this.readName();
+        if (closing !== name) {
+          throw this.error(`Expected </${name}> but found </${closing}>`);
+        }
+        this.skipWhitespace();
+        this.expect('>');
+        return { name, attributes, children };
+      }
+      if (this.text.startsWith('<![CDATA[', this.position)) {
+        const end = this.text.indexOf(']]>', this.position);
+        if (end === -1) {
+          throw this.error('Unterminated CDATA section');
+        }
+        children.push(this.text.slice(this.position + 9, end));
+        this.position = end + 3;
+      } else if (this.text.startsWith('<!--', this.position) || this.text.startsWith('<?', this.position)) {
+        this.skipPast(this.text[this.position + 1] === '?' ? '?>' : '-->');
+      } else if (this.text[this.position] === '<') {
+        children.push(this.parseElement());
+      } else {
+        const end = this.text.indexOf('<', this.position);
+        const textEnd = end === -1 ? this.text.length : end;
+        children.push(decodeEntities(this.text.slice(this.position, textEnd)));
+        this.position = textEnd;
+      }
+    }
+  }
+
+  private readName(): string {
+    const match = /^[A-Za-z_:][\w:.-]*/.exec(this.text.slice(this.position, this.position + 256));
+    if (!match) {
+      throw this.error('Expected a name');
+    }
+    this.position += match[0].length;
+    return match[0];
+  }
+
+  private skipWhitespace(): void {
+    while (/\s/.test(this.text[this.position] || '')) {
+      this.position++;
+    }
+  }
+
+  private skipPast(terminator: string): void {
+    const end = this.text.indexOf(terminator, this.position);
+    if (end === -1) {
+      throw this.error(`Expected '${terminator}'`);
+    }
+    this.position = end + terminator.length;
+  }
+
+  private expect(char: string): void {
+    if (this.text[this.position] !== char) {
+      throw this.error(`Expected '${char}'`);
+    }
+    this.position++;
+  }
+
+  private error(message: string): Error {
+    return new Error(`Invalid XML at offset ${this.position}: ${message}`);
+  }
+}
+
+function toValue(element: XmlElement): any {
+  const result: Record<string, any> = {};
+  for (const [name, value] of Object.entries(element.attributes)) {
+    result[`@${name}`] = value;
+  }
+
+  const text = element.children.filter((child): child is string => typeof child === 'string').join('').trim();
+  const elements = element.children.filter((child): child is XmlElement => typeof child !== 'string');
+
+  if (elements.length === 0 && Object.keys(result).length === 0) {
+    return text;
+  }
+  if (text) {
+    result['#text'] = text;
+  }
+
+  const groups = new Map<string, any[]>();
+  for (const child of elements) {
+    groups.set(child.name, [...(groups.get(child.name) || []), toValue(child)]);
+  }
+  for (const [name, values] of groups) {
+    result[name] = values.length === 1 ? values[0] : values;
+  }
+  return result;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith('#')) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
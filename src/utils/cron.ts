@@ -0,0 +1,180 @@
+// Cron Expressions
+// Standard 5-field expressions (minute hour day-of-month month day-of-week) evaluated in server local time.
+// Supports *, lists (1,15), ranges (1-5), steps (*/10, 0-30/5), month/day names and @hourly-style aliases.
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // When both day fields are restricted a date matches if either matches (Vixie cron semantics)
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const ALIASES: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  namesOffset?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, namesOffset: 1 },
+  { name: 'day-of-week', min: 0, max: 7, names: DAY_NAMES, namesOffset: 0 }
+];
+
+function parseValue(raw: string, spec: FieldSpec, expression: string): number {
+  const nameIndex = spec.names?.indexOf(raw.toUpperCase()) ?? -1;
+  const value = nameIndex >= 0 ? nameIndex + (spec.namesOffset ?? 0) : Number(raw);
+
+  if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+    throw new Error(`Invalid cron expression '${expression}': ${spec.name} value '${raw}' is out of range ${spec.min}-${spec.max}`);
+  }
+  return value;
+}
+
+function parseField(field: string, spec: FieldSpec, expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron expression '${expression}': bad step '${stepPart}' in ${spec.name}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(from, spec, expression);
+      end = parseValue(to, spec, expression);
+      if (start > end) {
+        throw new Error(`Invalid cron expression '${expression}': range '${rangePart}' in ${spec.name} is reversed`);
+      }
+    } else {
+      start = parseValue(rangePart, spec, expression);
+      // `5/15` means every 15 starting at 5
+      end = stepPart === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCronExpression(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (ALIASES[trimmed.toLowerCase()] || trimmed).split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression '${expression}': expected 5 fields, got ${fields.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, FIELDS[index], expression));
+
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression: trimmed,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: fields[2] !== '*',
+    dayOfWeekRestricted: fields[4] !== '*'
+  };
+}
+
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+export function cronMatches(schedule: CronSchedule | string, date: Date): boolean {
+  const parsed = typeof schedule === 'string' ? parseCronExpression(schedule) : schedule;
+
+  return parsed.minutes.has(date.getMinutes())
+    && parsed.hours.has(date.getHours())
+    && parsed.months.has(date.getMonth() + 1)
+    && matchesDay(parsed, date);
+}
+
+// First minute strictly after `after` that matches the schedule
+export function nextCronDate(schedule: CronSchedule | string, after: Date = new Date()): Date {
+  const parsed = typeof schedule === 'string' ? parseCronExpression(schedule) : schedule;
+  const date = new Date(after.getTime());
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  // Skip whole months/days/hours that cannot match; bounded so impossible dates (e.g. Feb 30) terminate
+  const limit = after.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+
+  while (date.getTime() <= limit) {
+    if (!parsed.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(parsed, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!parsed.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!parsed.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+
+  throw new Error(`Cron expression '${parsed.expression}' never matches`);
+}
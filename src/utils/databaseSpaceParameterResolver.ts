@@ -3,6 +3,7 @@
 
 import type { ApiEndpoint } from '../types.js';
 import { DatabaseService } from '../database/database-service.js';
+import { redactForLog } from './secrets.js';
 
 // Get database service instance
 let dbService: DatabaseService | null = null;
@@ -22,7 +23,7 @@ export async function loadSpaceParameters(spaceId: string): Promise<Record<strin
     const parameters = db.getSpaceParametersByName(spaceId);
     
     if (Object.keys(parameters).length > 0) {
-      console.log(`📊 Loaded ${Object.keys(parameters).length} space parameters from database for ${spaceId}:`, parameters);
+      console.log(`📊 Loaded ${Object.keys(parameters).length} space parameters from database for ${spaceId}:`, redactForLog(parameters));
     } else {
       console.log(`📊 No space parameters found in database for ${spaceId}`);
     }
@@ -44,9 +45,11 @@ export async function saveSpaceParameters(spaceId: string, parameters: Record<st
       throw new Error(`Space '${spaceId}' not found in database`);
     }
     
-    // Update or create each parameter
+    // Update or create each parameter, keeping the pattern and description of existing ones
     for (const [name, value] of Object.entries(parameters)) {
-      db.createSpaceParameter(space.id, name, value);
+      if (!db.updateSpaceParameter(space.id, name, value)) {
+        db.createSpaceParameter(space.id, name, value);
+      }
     }
     
     console.log(`💾 Saved ${Object.keys(parameters).length} space parameters to database for ${spaceId}`);
@@ -56,6 +59,28 @@ export async function saveSpaceParameters(spaceId: string, parameters: Record<st
   }
 }
 
+// Names of the space parameters flagged as secret
+export async function loadSecretParameterNames(spaceId: string): Promise<string[]> {
+  try {
+    const db = getDatabaseService();
+    const space = db.getSpaceByName(spaceId);
+    return space ? db.getSecretParameterNames(space.id) : [];
+  } catch (error) {
+    console.warn(`Failed to load secret parameter names for ${spaceId} from database:`, error);
+    return [];
+  }
+}
+
+export async function setSpaceParameterSecret(spaceId: string, name: string, secret: boolean): Promise<boolean> {
+  const db = getDatabaseService();
+  const space = db.getSpaceByName(spaceId);
+
+  if (!space) {
+    throw new Error(`Space '${spaceId}' not found in database`);
+  }
+  return db.setSpaceParameterSecret(space.id, name, secret);
+}
+
 // Merge space parameters with endpoint parameters
 export async function mergeSpaceParameters(
   endpoint: ApiEndpoint,
@@ -84,7 +109,7 @@ export async function mergeSpaceParameters(
     console.log(`🌍 All space parameters overridden by endpoint-specific values for ${endpoint.name}`);
   }
   
-  console.log(`🔗 Merged parameters for ${endpoint.name}:`, mergedParameters);
+  console.log(`🔗 Merged parameters for ${endpoint.name}:`, redactForLog(mergedParameters));
   
   return {
     ...endpoint,
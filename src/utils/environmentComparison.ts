@@ -0,0 +1,82 @@
+import type { ApiEndpoint, EnvironmentPair, EnvironmentTarget } from '../types.js';
+
+// Cross-environment comparison helpers
+// Both sides capture the same endpoint names; a side's `baseUrl` replaces the origin of every request so one space
+// can be compared against another deployment (staging vs production) without copying its endpoints.
+
+// Sends the endpoint to `baseUrl`. URLs starting with a parameter (`{baseUrl}/users`) get that parameter set,
+// absolute URLs keep their path and query, relative URLs are appended.
+export function retargetEndpoint(endpoint: ApiEndpoint, baseUrl: string): ApiEndpoint {
+  const target = baseUrl.replace(/\/+$/, '');
+
+  const parameterOrigin = endpoint.url.match(/^\{([^{}]+)\}/);
+  if (parameterOrigin) {
+    return { ...endpoint, parameters: { ...endpoint.parameters, [parameterOrigin[1]]: target } };
+  }
+
+  const origin = endpoint.url.match(/^[a-z][a-z0-9+.-]*:\/\/[^/?#]+/i);
+  if (origin) {
+    return { ...endpoint, url: target + endpoint.url.slice(origin[0].length) };
+  }
+
+  return { ...endpoint, url: `${target}${endpoint.url.startsWith('/') ? '' : '/'}${endpoint.url}` };
+}
+
+// Name shown for a side: its label, else the space and base URL it captures
+export function environmentLabel(target: EnvironmentTarget, defaultSpace: string): string {
+  if (target.label) {
+    return target.label;
+  }
+  const space = target.space || defaultSpace;
+  return target.baseUrl ? `${space}@${target.baseUrl}` : space;
+}
+
+// CLI shorthand: a URL is the base URL for the compared space, anything else a space name
+export function parseEnvironmentTarget(value: string): EnvironmentTarget {
+  return /^https?:\/\//i.test(value) ? { baseUrl: value } : { space: value };
+}
+
+// Returns an error message for an invalid pair, or null when it is acceptable
+export function validateEnvironmentPair(pair: Partial<EnvironmentPair>, partial = false): string | null {
+  if (!partial && (typeof pair.name !== 'string' || !/^[A-Za-z0-9_.-]+$/.test(pair.name))) {
+    return 'name is required (letters, digits, _, . and -)';
+  }
+
+  for (const side of ['left', 'right'] as const) {
+    const target = pair[side];
+    if (target === undefined && partial) {
+      continue;
+    }
+    if (!target || typeof target !== 'object' || Array.isArray(target)) {
+      return `${side} is required`;
+    }
+    if (!target.space && !target.baseUrl) {
+      return `${side} needs a space or a baseUrl`;
+    }
+    if (target.baseUrl !== undefined && !/^https?:\/\/[^/]+/i.test(target.baseUrl)) {
+      return `${side}.baseUrl must be an http(s) URL`;
+    }
+  }
+
+  if (pair.rules !== undefined && (!Array.isArray(pair.rules) || pair.rules.some(rule => typeof rule?.path !== 'string'))) {
+    return 'rules must be an array of diff rules with a path';
+  }
+
+  return null;
+}
+
+export function environmentPairFromRecord(record: {
+  name: string;
+  left_target: string;
+  right_target: string;
+  rules?: string;
+  description?: string;
+}): EnvironmentPair {
+  return {
+    name: record.name,
+    left: JSON.parse(record.left_target),
+    right: JSON.parse(record.right_target),
+    rules: record.rules ? JSON.parse(record.rules) : [],
+    ...(record.description ? { description: record.description } : {})
+  };
+}
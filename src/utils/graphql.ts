@@ -0,0 +1,386 @@
+import type { ApiEndpoint, SnapshotDiff } from '../types.js';
+
+// GraphQL support
+// Operations are captured as JSON POST requests. Responses are diffed per envelope member: `data` like any
+// response body, `errors` matched by message and path, so a new error is breaking and a resolved one is not.
+// Schemas are compared through their introspection results, from the consumer's point of view like
+// openApiDiff.ts: arguments and input fields may only get looser, output fields may only get stricter.
+
+export const INTROSPECTION_QUERY = `
+  query IntrospectionQuery {
+    __schema {
+      queryType { name }
+      mutationType { name }
+      subscriptionType { name }
+      types { ...FullType }
+    }
+  }
+
+  fragment FullType on __Type {
+    kind
+    name
+    fields(includeDeprecated: true) {
+      name
+      args { ...InputValue }
+      type { ...TypeRef }
+      isDeprecated
+      deprecationReason
+    }
+    inputFields { ...InputValue }
+    interfaces { ...TypeRef }
+    enumValues(includeDeprecated: true) { name isDeprecated deprecationReason }
+    possibleTypes { ...TypeRef }
+  }
+
+  fragment InputValue on __InputValue {
+    name
+    type { ...TypeRef }
+    defaultValue
+  }
+
+  fragment TypeRef on __Type {
+    kind
+    name
+    ofType { kind name ofType { kind name ofType { kind name ofType { kind name ofType { kind name ofType { kind name } } } } } }
+  }
+`;
+
+export interface GraphQLTypeRef {
+  kind: string;
+  name?: string | null;
+  ofType?: GraphQLTypeRef | null;
+}
+
+interface GraphQLInputValue {
+  name: string;
+  type: GraphQLTypeRef;
+  defaultValue?: string | null;
+}
+
+interface GraphQLField {
+  name: string;
+  args?: GraphQLInputValue[];
+  type: GraphQLTypeRef;
+  isDeprecated?: boolean;
+}
+
+export interface GraphQLNamedType {
+  kind: string;
+  name: string;
+  fields?: GraphQLField[] | null;
+  inputFields?: GraphQLInputValue[] | null;
+  interfaces?: GraphQLTypeRef[] | null;
+  enumValues?: Array<{ name: string; isDeprecated?: boolean }> | null;
+  possibleTypes?: GraphQLTypeRef[] | null;
+}
+
+export interface GraphQLIntrospection {
+  queryType?: { name: string } | null;
+  mutationType?: { name: string } | null;
+  subscriptionType?: { name: string } | null;
+  types: GraphQLNamedType[];
+}
+
+export interface GraphQLTypeDiff {
+  name: string; // SDL-style name, e.g. `type User`
+  oldType?: GraphQLNamedType;
+  newType?: GraphQLNamedType;
+  differences: SnapshotDiff[];
+}
+
+// SDL keyword per introspection kind
+const KIND_KEYWORDS: Record<string, string> = {
+  OBJECT: 'type',
+  INTERFACE: 'interface',
+  UNION: 'union',
+  ENUM: 'enum',
+  INPUT_OBJECT: 'input',
+  SCALAR: 'scalar'
+};
+
+const ROOT_OPERATIONS = ['queryType', 'mutationType', 'subscriptionType'] as const;
+
+// The endpoint as it is sent: a POST with the operation as JSON body
+export function toGraphQLRequest(endpoint: ApiEndpoint): ApiEndpoint {
+  if (!endpoint.graphql) {
+    return endpoint;
+  }
+
+  const headers = { ...(endpoint.headers || {}) };
+  if (!Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  const { query, variables, operationName } = endpoint.graphql;
+  return {
+    ...endpoint,
+    method: 'POST',
+    headers,
+    body: {
+      query,
+      ...(variables && Object.keys(variables).length > 0 ? { variables } : {}),
+      ...(operationName ? { operationName } : {})
+    }
+  };
+}
+
+// Diff the `data` and `errors` members of two GraphQL responses; `compareData` diffs plain values
+export function diffGraphQLResponses(
+  oldBody: any,
+  newBody: any,
+  compareData: (oldData: any, newData: any, path: string) => SnapshotDiff[]
+): SnapshotDiff[] {
+  // Gateways answer failures with non-GraphQL bodies, those are compared as they are
+  if (!isResponseEnvelope(oldBody) || !isResponseEnvelope(newBody)) {
+    return compareData(oldBody, newBody, 'response.data');
+  }
+
+  const differences = compareData(oldBody.data, newBody.data, 'response.data.data');
+
+  const oldErrors = errorsByKey(oldBody.errors);
+  const newErrors = errorsByKey(newBody.errors);
+  for (const [key, { error, index }] of newErrors) {
+    if (!oldErrors.has(key)) {
+      differences.push({ path: `response.data.errors[${index}]`, type: 'added', newValue: error, severity: 'breaking' });
+    }
+  }
+  for (const [key, { error, index }] of oldErrors) {
+    if (!newErrors.has(key)) {
+      differences.push({ path: `response.data.errors[${index}]`, type: 'removed', oldValue: error, severity: 'non-breaking' });
+    }
+  }
+
+  // Extensions carry server metadata (tracing, query cost) that clients rarely depend on
+  differences.push(...compareData(oldBody.extensions, newBody.extensions, 'response.data.extensions')
+    .map(diff => ({ ...diff, severity: 'informational' as const })));
+
+  return differences;
+}
+
+// Accepts a full introspection response (`{ data: { __schema } }`) or its `__schema`-only form
+export function parseIntrospection(json: any): GraphQLIntrospection {
+  const schema = json?.data?.__schema ?? json?.__schema;
+  if (!schema || !Array.isArray(schema.types)) {
+    if (Array.isArray(json?.errors) && json.errors.length > 0) {
+      throw new Error(`Introspection failed: ${json.errors.map((error: any) => error.message).join('; ')}`);
+    }
+    throw new Error('Not a GraphQL introspection result: expected data.__schema.types');
+  }
+  return schema;
+}
+
+// `[String!]!` notation of a type reference
+export function printTypeRef(type: GraphQLTypeRef | null | undefined): string {
+  if (!type) {
+    return 'unknown';
+  }
+  if (type.kind === 'NON_NULL') {
+    return `${printTypeRef(type.ofType)}!`;
+  }
+  if (type.kind === 'LIST') {
+    return `[${printTypeRef(type.ofType)}]`;
+  }
+  return type.name || 'unknown';
+}
+
+// Compare every named type of two introspection results
+export function diffGraphQLSchemas(oldSchema: GraphQLIntrospection, newSchema: GraphQLIntrospection): GraphQLTypeDiff[] {
+  const results: GraphQLTypeDiff[] = [];
+
+  const rootDiffs: SnapshotDiff[] = [];
+  for (const root of ROOT_OPERATIONS) {
+    const oldName = oldSchema[root]?.name;
+    const newName = newSchema[root]?.name;
+    if (oldName !== newName) {
+      rootDiffs.push({
+        path: root,
+        type: !newName ? 'removed' : !oldName ? 'added' : 'changed',
+        oldValue: oldName,
+        newValue: newName,
+        severity: oldName ? 'breaking' : 'non-breaking'
+      });
+    }
+  }
+  if (rootDiffs.length > 0) {
+    results.push({ name: 'schema', differences: rootDiffs });
+  }
+
+  const oldTypes = namedTypes(oldSchema);
+  const newTypes = namedTypes(newSchema);
+
+  for (const name of new Set([...oldTypes.keys(), ...newTypes.keys()])) {
+    const oldType = oldTypes.get(name);
+    const newType = newTypes.get(name);
+    const differences: SnapshotDiff[] = [];
+
+    if (!newType) {
+      differences.push({ path: 'type', type: 'removed', oldValue: name, severity: 'breaking' });
+    } else if (!oldType) {
+      differences.push({ path: 'type', type: 'added', newValue: name, severity: 'non-breaking' });
+    } else if (oldType.kind !== newType.kind) {
+      differences.push({ path: 'kind', type: 'changed', oldValue: oldType.kind, newValue: newType.kind, severity: 'breaking' });
+    } else {
+      differences.push(...diffFields(oldType.fields || [], newType.fields || []));
+      differences.push(...diffInputValues(oldType.inputFields || [], newType.inputFields || [], 'inputFields'));
+      differences.push(...diffNames(oldType.interfaces, newType.interfaces, 'interfaces'));
+      differences.push(...diffNames(oldType.possibleTypes, newType.possibleTypes, 'possibleTypes'));
+      differences.push(...diffNames(oldType.enumValues, newType.enumValues, 'enumValues'));
+    }
+
+    const type = (newType || oldType)!;
+    results.push({
+      name: `${KIND_KEYWORDS[type.kind] || type.kind.toLowerCase()} ${name}`,
+      oldType,
+      newType,
+      differences
+    });
+  }
+
+  return results;
+}
+
+function isResponseEnvelope(body: any): boolean {
+  return body !== null && typeof body === 'object' && !Array.isArray(body) && ('data' in body || 'errors' in body);
+}
+
+// Errors are identified by message and path; locations move whenever the query text is edited
+function errorsByKey(errors: any): Map<string, { error: any; index: number }> {
+  const result = new Map<string, { error: any; index: number }>();
+  if (!Array.isArray(errors)) {
+    return result;
+  }
+  errors.forEach((error, index) => {
+    const key = `${error?.message ?? JSON.stringify(error)}|${Array.isArray(error?.path) ? error.path.join('.') : ''}`;
+    if (!result.has(key)) {
+      result.set(key, { error, index });
+    }
+  });
+  return result;
+}
+
+function namedTypes(schema: GraphQLIntrospection): Map<string, GraphQLNamedType> {
+  // Introspection types (`__Type`, `__Schema`, ...) are the same on every server
+  return new Map(schema.types.filter(type => type.name && !type.name.startsWith('__')).map(type => [type.name, type]));
+}
+
+function diffFields(oldFields: GraphQLField[], newFields: GraphQLField[]): SnapshotDiff[] {
+  const differences: SnapshotDiff[] = [];
+  const newByName = new Map(newFields.map(field => [field.name, field]));
+  const oldNames = new Set(oldFields.map(field => field.name));
+
+  for (const oldField of oldFields) {
+    const path = `fields.${oldField.name}`;
+    const newField = newByName.get(oldField.name);
+
+    if (!newField) {
+      differences.push({ path, type: 'removed', oldValue: printTypeRef(oldField.type), severity: 'breaking' });
+      continue;
+    }
+
+    const oldType = printTypeRef(oldField.type);
+    const newType = printTypeRef(newField.type);
+    if (oldType !== newType) {
+      differences.push({
+        path: `${path}.type`,
+        type: 'changed',
+        oldValue: oldType,
+        newValue: newType,
+        severity: isStricterOrEqual(oldField.type, newField.type) ? 'non-breaking' : 'breaking'
+      });
+    }
+
+    differences.push(...diffInputValues(oldField.args || [], newField.args || [], `${path}.args`));
+
+    if (!oldField.isDeprecated && newField.isDeprecated) {
+      differences.push({ path: `${path}.deprecated`, type: 'changed', oldValue: false, newValue: true, severity: 'informational' });
+    }
+  }
+
+  for (const newField of newFields) {
+    if (!oldNames.has(newField.name)) {
+      differences.push({ path: `fields.${newField.name}`, type: 'added', newValue: printTypeRef(newField.type), severity: 'non-breaking' });
+    }
+  }
+
+  return differences;
+}
+
+// Arguments and input object fields: what clients send
+function diffInputValues(oldValues: GraphQLInputValue[], newValues: GraphQLInputValue[], basePath: string): SnapshotDiff[] {
+  const differences: SnapshotDiff[] = [];
+  const newByName = new Map(newValues.map(value => [value.name, value]));
+  const oldNames = new Set(oldValues.map(value => value.name));
+
+  for (const oldValue of oldValues) {
+    const path = `${basePath}.${oldValue.name}`;
+    const newValue = newByName.get(oldValue.name);
+
+    if (!newValue) {
+      differences.push({ path, type: 'removed', oldValue: printTypeRef(oldValue.type), severity: 'breaking' });
+      continue;
+    }
+
+    const oldType = printTypeRef(oldValue.type);
+    const newType = printTypeRef(newValue.type);
+    if (oldType !== newType) {
+      // A new default keeps a now non-null input optional for existing clients
+      const looser = isStricterOrEqual(newValue.type, oldValue.type) ||
+        (newValue.defaultValue != null && isStricterOrEqual(newValue.type, nonNull(oldValue.type)));
+      differences.push({ path: `${path}.type`, type: 'changed', oldValue: oldType, newValue: newType, severity: looser ? 'non-breaking' : 'breaking' });
+    }
+
+    if ((oldValue.defaultValue ?? null) !== (newValue.defaultValue ?? null)) {
+      differences.push({ path: `${path}.defaultValue`, type: 'changed', oldValue: oldValue.defaultValue, newValue: newValue.defaultValue, severity: 'informational' });
+    }
+  }
+
+  for (const newValue of newValues) {
+    if (!oldNames.has(newValue.name)) {
+      const required = newValue.type.kind === 'NON_NULL' && newValue.defaultValue == null;
+      differences.push({ path: `${basePath}.${newValue.name}`, type: 'added', newValue: printTypeRef(newValue.type), severity: required ? 'breaking' : 'non-breaking' });
+    }
+  }
+
+  return differences;
+}
+
+// Interfaces, union members and enum values
+function diffNames(oldItems: Array<{ name?: string | null }> | null | undefined, newItems: Array<{ name?: string | null }> | null | undefined, basePath: string): SnapshotDiff[] {
+  const oldNames = new Set((oldItems || []).map(item => item.name!));
+  const newNames = new Set((newItems || []).map(item => item.name!));
+  const differences: SnapshotDiff[] = [];
+
+  for (const name of oldNames) {
+    if (!newNames.has(name)) {
+      differences.push({ path: `${basePath}.${name}`, type: 'removed', oldValue: name, severity: 'breaking' });
+    }
+  }
+  for (const name of newNames) {
+    if (!oldNames.has(name)) {
+      differences.push({ path: `${basePath}.${name}`, type: 'added', newValue: name, severity: 'non-breaking' });
+    }
+  }
+
+  return differences;
+}
+
+// Whether values of `stricter` are always valid values of `looser`, e.g. `String!` for `String`
+function isStricterOrEqual(looser: GraphQLTypeRef | null | undefined, stricter: GraphQLTypeRef | null | undefined): boolean {
+  if (!looser || !stricter) {
+    return looser === stricter;
+  }
+  if (looser.kind === 'NON_NULL') {
+    return stricter.kind === 'NON_NULL' && isStricterOrEqual(looser.ofType, stricter.ofType);
+  }
+  if (stricter.kind === 'NON_NULL') {
+    return isStricterOrEqual(looser, stricter.ofType);
+  }
+  if (looser.kind === 'LIST' || stricter.kind === 'LIST') {
+    return looser.kind === stricter.kind && isStricterOrEqual(looser.ofType, stricter.ofType);
+  }
+  return looser.name === stricter.name;
+}
+
+function nonNull(type: GraphQLTypeRef): GraphQLTypeRef {
+  return type.kind === 'NON_NULL' ? type : { kind: 'NON_NULL', ofType: type };
+}
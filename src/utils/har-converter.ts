@@ -0,0 +1,352 @@
+import type { ApiEndpoint, ApiSnapshot, BodyHandlerName } from '../types.js';
+import { decodeResponseBody } from './bodyHandlers.js';
+import { inferSchema } from './schemaInference.js';
+
+// HAR Import
+// Browser devtools record sessions as HAR 1.2. Every request becomes an endpoint whose path has identifier
+// segments (numbers, UUIDs, hashes) replaced by `{param}` templates; requests with the same method and
+// templated path are imported once. Values that several endpoints share — the origin, query values and
+// header values such as tokens — are moved into space parameters, and the recorded responses can be
+// turned into snapshots so baselines exist without calling the API.
+
+// HAR 1.2 types (only the fields the importer reads)
+interface Har {
+  log: {
+    version?: string;
+    entries: HarEntry[];
+  };
+}
+
+interface HarEntry {
+  startedDateTime?: string;
+  time?: number;
+  request: HarRequest;
+  response?: HarResponse;
+  _resourceType?: string; // Chrome devtools: xhr, fetch, script, image, ...
+}
+
+interface HarRequest {
+  method: string;
+  url: string;
+  headers?: HarNameValue[];
+  queryString?: HarNameValue[];
+  postData?: {
+    mimeType?: string;
+    text?: string;
+    params?: HarNameValue[];
+  };
+}
+
+interface HarResponse {
+  status: number;
+  headers?: HarNameValue[];
+  content?: {
+    mimeType?: string;
+    text?: string;
+    encoding?: string;
+  };
+}
+
+interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarImportOptions {
+  baseUrl?: string; // Only import requests below this URL
+  includeStatic?: boolean; // Also import documents, scripts, stylesheets, images and fonts
+  minOccurrences?: number; // Endpoints that must share a value before it becomes a space parameter (default: 2)
+}
+
+export interface HarRecordedResponse {
+  status: number;
+  headers: Record<string, string>;
+  data: any;
+  bodyHandler?: BodyHandlerName;
+  duration: number;
+  timestamp: string;
+}
+
+export interface HarConversionResult {
+  endpoints: ApiEndpoint[];
+  parameters: Record<string, string>; // Space parameters referenced by the endpoints
+  responses: Record<string, HarRecordedResponse>; // Recorded response per endpoint name
+  duplicates: number; // Requests merged into an endpoint imported earlier
+  skipped: number; // Static resources and requests outside baseUrl
+}
+
+const SUPPORTED_METHODS = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS'];
+
+const STATIC_RESOURCE_TYPES = ['document', 'stylesheet', 'script', 'image', 'font', 'media', 'manifest', 'texttrack', 'websocket', 'ping', 'preflight'];
+const STATIC_MIME_TYPE = /^(text\/(html|css|javascript)|application\/(x-)?javascript|image\/|font\/|audio\/|video\/)/i;
+
+// Added by the browser or the transport, not part of the API contract
+const IGNORED_HEADERS = /^(:.*|host|connection|content-length|accept-encoding|accept-language|user-agent|referer|origin|pragma|cache-control|dnt|priority|upgrade-insecure-requests|te|sec-.*|if-none-match|if-modified-since)$/i;
+
+// Describe the payload rather than the caller, so they stay literal even when every endpoint sends them
+const LITERAL_HEADERS = /^(accept|content-type)$/i;
+
+const IDENTIFIER_SEGMENT = /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{16,}|[A-Za-z0-9_-]{20,})$/i;
+
+export function validateHar(data: any): { isValid: boolean; error?: string } {
+  if (!data || typeof data !== 'object') {
+    return { isValid: false, error: 'Invalid JSON structure' };
+  }
+
+  if (!data.log || typeof data.log !== 'object') {
+    return { isValid: false, error: 'Missing HAR log' };
+  }
+
+  if (!Array.isArray(data.log.entries)) {
+    return { isValid: false, error: 'Missing HAR entries' };
+  }
+
+  if (data.log.entries.some((entry: any) => !entry?.request?.url || !entry.request.method)) {
+    return { isValid: false, error: 'Every HAR entry needs a request method and URL' };
+  }
+
+  return { isValid: true };
+}
+
+// Replaces identifier segments with templates named after the preceding segment, e.g. /users/42 -> /users/{userId}
+export function templatePath(pathname: string): { path: string; values: Record<string, string> } {
+  const values: Record<string, string> = {};
+  const segments = pathname.split('/').map((segment, index, all) => {
+    if (!IDENTIFIER_SEGMENT.test(segment) || (segment.length >= 20 && !/\d/.test(segment))) {
+      return segment;
+    }
+
+    const previous = all[index - 1];
+    let name = previous && !IDENTIFIER_SEGMENT.test(previous) ? `${camelCase(singularize(previous))}Id` : 'id';
+    for (let suffix = 2; name in values; suffix++) {
+      name = name.replace(/\d*$/, String(suffix));
+    }
+    values[name] = decodeURIComponent(segment);
+    return `{${name}}`;
+  });
+
+  return { path: segments.join('/'), values };
+}
+
+export function convertHarToEndpoints(har: Har, options: HarImportOptions = {}): HarConversionResult {
+  const minOccurrences = options.minOccurrences ?? 2;
+  const baseUrl = options.baseUrl?.replace(/\/$/, '');
+
+  interface Candidate {
+    entry: HarEntry;
+    url: URL;
+    path: string;
+    pathValues: Record<string, string>;
+  }
+
+  // One candidate per method and templated path, preferring a successful response
+  const candidates = new Map<string, Candidate>();
+  let duplicates = 0;
+  let skipped = 0;
+
+  for (const entry of har.log.entries) {
+    let url: URL;
+    try {
+      url = new URL(entry.request.url);
+    } catch {
+      skipped++;
+      continue;
+    }
+
+    const method = entry.request.method.toUpperCase();
+    if (!SUPPORTED_METHODS.includes(method) || !/^https?:$/.test(url.protocol) ||
+        (baseUrl && !`${url.origin}${url.pathname}`.startsWith(baseUrl)) ||
+        (!options.includeStatic && isStaticResource(entry))) {
+      skipped++;
+      continue;
+    }
+
+    const { path, values } = templatePath(url.pathname);
+    const key = `${method} ${path}`;
+    const existing = candidates.get(key);
+    if (existing) {
+      duplicates++;
+      if (!isSuccessful(existing.entry) && isSuccessful(entry)) {
+        candidates.set(key, { entry, url, path, pathValues: values });
+      }
+      continue;
+    }
+    candidates.set(key, { entry, url, path, pathValues: values });
+  }
+
+  // Count how many endpoints share each origin, query value and header value
+  const originCounts = new Map<string, number>();
+  const queryCounts = new Map<string, number>();
+  const headerCounts = new Map<string, number>();
+  for (const { entry, url } of candidates.values()) {
+    increment(originCounts, url.origin);
+    for (const pair of new Set(Array.from(url.searchParams).map(([name, value]) => `${name}=${value}`))) {
+      increment(queryCounts, pair);
+    }
+    for (const header of requestHeaders(entry)) {
+      increment(headerCounts, `${header.name.toLowerCase()}:${header.value}`);
+    }
+  }
+
+  const parameters: Record<string, string> = {};
+  // Returns the name of the space parameter holding `value`, creating it on first use
+  const useParameter = (preferredName: string, value: string): string => {
+    let name = preferredName;
+    for (let suffix = 2; name in parameters && parameters[name] !== value; suffix++) {
+      name = `${preferredName}${suffix}`;
+    }
+    parameters[name] = value;
+    return name;
+  };
+
+  const [sharedOrigin] = Array.from(originCounts.entries())
+    .filter(([, count]) => count >= minOccurrences)
+    .sort((a, b) => b[1] - a[1])
+    .map(([origin]) => origin);
+
+  const endpoints: ApiEndpoint[] = [];
+  const responses: Record<string, HarRecordedResponse> = {};
+  const names = new Set<string>();
+
+  for (const { entry, url, path, pathValues } of candidates.values()) {
+    const method = entry.request.method.toUpperCase() as ApiEndpoint['method'];
+    const endpointParameters: Record<string, string> = {};
+
+    // Path identifiers are space parameters unless another endpoint already gave the name a different value
+    for (const [name, value] of Object.entries(pathValues)) {
+      if (name in parameters && parameters[name] !== value) {
+        endpointParameters[name] = value;
+      } else {
+        parameters[name] = value;
+      }
+    }
+
+    const origin = url.origin === sharedOrigin ? `{${useParameter('baseUrl', sharedOrigin)}}` : url.origin;
+    const query = Array.from(url.searchParams).map(([name, value]) => {
+      const shared = (queryCounts.get(`${name}=${value}`) || 0) >= minOccurrences;
+      return `${encodeURIComponent(name)}=${shared ? `{${useParameter(camelCase(name), value)}}` : encodeURIComponent(value)}`;
+    });
+
+    const headers: Record<string, string> = {};
+    for (const header of requestHeaders(entry)) {
+      const shared = !LITERAL_HEADERS.test(header.name) &&
+        (headerCounts.get(`${header.name.toLowerCase()}:${header.value}`) || 0) >= minOccurrences;
+      headers[header.name] = shared ? `{${useParameter(camelCase(header.name), header.value)}}` : header.value;
+    }
+
+    let name = endpointName(method, path);
+    for (let suffix = 2; names.has(name); suffix++) {
+      name = `${endpointName(method, path)}-${suffix}`;
+    }
+    names.add(name);
+
+    endpoints.push({
+      name,
+      url: `${origin}${path}${query.length > 0 ? `?${query.join('&')}` : ''}`,
+      method,
+      ...(Object.keys(headers).length > 0 ? { headers } : {}),
+      ...(entry.request.postData ? { body: requestBody(entry.request.postData) } : {}),
+      ...(Object.keys(endpointParameters).length > 0 ? { parameters: endpointParameters } : {})
+    });
+
+    if (entry.response && entry.response.status > 0) {
+      responses[name] = recordedResponse(entry);
+    }
+  }
+
+  return { endpoints, parameters, responses, duplicates, skipped };
+}
+
+// Snapshot of a recorded response, in the shape captures produce
+export function harResponseToSnapshot(endpoint: ApiEndpoint, response: HarRecordedResponse): ApiSnapshot {
+  return {
+    endpoint,
+    timestamp: response.timestamp,
+    response: {
+      status: response.status,
+      headers: response.headers,
+      data: response.data,
+      duration: response.duration,
+      shape: inferSchema(response.data),
+      bodyHandler: response.bodyHandler
+    },
+    metadata: {
+      version: '1.0.0',
+      environment: 'har-import'
+    }
+  };
+}
+
+function isStaticResource(entry: HarEntry): boolean {
+  if (entry._resourceType) {
+    return STATIC_RESOURCE_TYPES.includes(entry._resourceType.toLowerCase());
+  }
+  return STATIC_MIME_TYPE.test(entry.response?.content?.mimeType || '');
+}
+
+function isSuccessful(entry: HarEntry): boolean {
+  const status = entry.response?.status || 0;
+  return status >= 200 && status < 400;
+}
+
+function requestHeaders(entry: HarEntry): HarNameValue[] {
+  return (entry.request.headers || []).filter(header => header.name && !IGNORED_HEADERS.test(header.name));
+}
+
+function requestBody(postData: NonNullable<HarRequest['postData']>): any {
+  if (postData.text === undefined && postData.params) {
+    return new URLSearchParams(postData.params.map(param => [param.name, param.value])).toString();
+  }
+  if (postData.mimeType?.includes('json') && postData.text) {
+    try {
+      return JSON.parse(postData.text);
+    } catch {
+      return postData.text;
+    }
+  }
+  return postData.text;
+}
+
+function recordedResponse(entry: HarEntry): HarRecordedResponse {
+  const response = entry.response!;
+  const headers: Record<string, string> = {};
+  for (const header of response.headers || []) {
+    headers[header.name.toLowerCase()] = header.value;
+  }
+
+  // Truncated recordings of JSON bodies are kept as text
+  const text = response.content?.text ?? '';
+  const body = Buffer.from(text, response.content?.encoding === 'base64' ? 'base64' : 'utf-8');
+  const { data, bodyHandler } = decodeResponseBody(body, response.content?.mimeType || headers['content-type']);
+
+  return {
+    status: response.status,
+    headers,
+    data,
+    bodyHandler,
+    duration: Math.round(entry.time || 0),
+    timestamp: entry.startedDateTime || new Date().toISOString()
+  };
+}
+
+function endpointName(method: string, path: string): string {
+  const segments = path.split('/').filter(Boolean).map(segment => segment.replace(/[{}]/g, ''));
+  return [method.toLowerCase(), ...segments].join('-').replace(/[^a-zA-Z0-9-_]/g, '-').toLowerCase();
+}
+
+function increment(counts: Map<string, number>, key: string): void {
+  counts.set(key, (counts.get(key) || 0) + 1);
+}
+
+function singularize(word: string): string {
+  if (/ies$/i.test(word)) return word.slice(0, -3) + 'y';
+  if (/(ss|us)$/i.test(word)) return word;
+  return word.replace(/s$/i, '');
+}
+
+function camelCase(text: string): string {
+  const words = text.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  if (words.length === 0) return 'value';
+  const joined = words.map((word, index) => index === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase()).join('');
+  return /^\d/.test(joined) ? `p${joined}` : joined;
+}
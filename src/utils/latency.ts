@@ -0,0 +1,134 @@
+import type { LatencyPercentile, LatencySettings, SnapshotDiff } from '../types.js';
+
+// Response Time Tracking
+// Every successful capture records its duration. The reference latency of an endpoint is a percentile over its
+// last `window` captures; a capture slower than the reference by both `thresholdPercent` and `minDeltaMs` is a
+// regression and reported as a `response.duration` difference. The absolute floor keeps fast endpoints, where a
+// few milliseconds are a large percentage, from flapping.
+
+export const DEFAULT_LATENCY_SETTINGS: Required<LatencySettings> = {
+  window: 20,
+  percentile: 'p95',
+  thresholdPercent: 50,
+  minDeltaMs: 100,
+  severity: 'non-breaking',
+  enabled: true
+};
+
+const PERCENTILES: Record<LatencyPercentile, number> = { p50: 50, p95: 95, p99: 99 };
+
+export interface LatencyStats {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export interface LatencyPoint {
+  timestamp: string;
+  duration: number;
+  snapshotId?: number;
+  runId?: string;
+}
+
+// A capture with the percentiles of the window ending at it
+export interface RollingLatencyPoint extends LatencyPoint {
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export function resolveLatencySettings(settings: LatencySettings = {}): Required<LatencySettings> {
+  return {
+    window: settings.window ?? DEFAULT_LATENCY_SETTINGS.window,
+    percentile: settings.percentile ?? DEFAULT_LATENCY_SETTINGS.percentile,
+    thresholdPercent: settings.thresholdPercent ?? DEFAULT_LATENCY_SETTINGS.thresholdPercent,
+    minDeltaMs: settings.minDeltaMs ?? DEFAULT_LATENCY_SETTINGS.minDeltaMs,
+    severity: settings.severity ?? DEFAULT_LATENCY_SETTINGS.severity,
+    enabled: settings.enabled ?? DEFAULT_LATENCY_SETTINGS.enabled
+  };
+}
+
+// Linear interpolation between the closest ranks, `p` from 0 to 100
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return Math.round(sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower));
+}
+
+export function latencyStats(durations: number[]): LatencyStats | null {
+  if (durations.length === 0) {
+    return null;
+  }
+  return {
+    count: durations.length,
+    min: Math.min(...durations),
+    max: Math.max(...durations),
+    mean: Math.round(durations.reduce((sum, duration) => sum + duration, 0) / durations.length),
+    p50: percentile(durations, 50),
+    p95: percentile(durations, 95),
+    p99: percentile(durations, 99)
+  };
+}
+
+// Points oldest first, each with the percentiles of itself and the `window - 1` captures before it
+export function rollingLatency(points: LatencyPoint[], window: number): RollingLatencyPoint[] {
+  return points.map((point, index) => {
+    const durations = points.slice(Math.max(0, index - window + 1), index + 1).map(p => p.duration);
+    return { ...point, p50: percentile(durations, 50), p95: percentile(durations, 95), p99: percentile(durations, 99) };
+  });
+}
+
+// `history` holds the durations of earlier captures, newest first; only the first `window` count
+export function detectLatencyRegression(history: number[], current: number, settings: LatencySettings = {}): SnapshotDiff | null {
+  const resolved = resolveLatencySettings(settings);
+  const window = history.slice(0, resolved.window);
+  if (!resolved.enabled || window.length === 0) {
+    return null;
+  }
+
+  const reference = percentile(window, PERCENTILES[resolved.percentile]);
+  const delta = current - reference;
+  if (delta < resolved.minDeltaMs || current <= reference * (1 + resolved.thresholdPercent / 100)) {
+    return null;
+  }
+
+  return {
+    path: 'response.duration',
+    type: 'changed',
+    oldValue: reference,
+    newValue: current,
+    severity: resolved.severity
+  };
+}
+
+// Returns an error message for invalid settings, or null when they are acceptable
+export function validateLatencySettings(settings: LatencySettings): string | null {
+  if (settings.window !== undefined && (!Number.isInteger(settings.window) || settings.window < 1 || settings.window > 1000)) {
+    return 'window must be an integer between 1 and 1000';
+  }
+  if (settings.percentile !== undefined && !Object.keys(PERCENTILES).includes(settings.percentile)) {
+    return `percentile must be one of ${Object.keys(PERCENTILES).join(', ')}`;
+  }
+  for (const field of ['thresholdPercent', 'minDeltaMs'] as const) {
+    const value = settings[field];
+    if (value !== undefined && (typeof value !== 'number' || !(value >= 0))) {
+      return `${field} must be a non-negative number`;
+    }
+  }
+  if (settings.severity !== undefined && !['breaking', 'non-breaking', 'informational'].includes(settings.severity)) {
+    return 'severity must be breaking, non-breaking or informational';
+  }
+  if (settings.enabled !== undefined && typeof settings.enabled !== 'boolean') {
+    return 'enabled must be a boolean';
+  }
+  return null;
+}
@@ -0,0 +1,396 @@
+import type { SnapshotDiff } from '../types.js';
+
+// OpenAPI spec-to-spec comparison
+// Classifies changes from the consumer's point of view: what clients send (requests) may only get looser,
+// what clients receive (responses) may only get stricter.
+
+export const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+export interface OperationDiff {
+  method: string;
+  path: string;
+  oldOperation?: any;
+  newOperation?: any;
+  differences: SnapshotDiff[];
+}
+
+type Direction = 'request' | 'response';
+
+interface DiffContext {
+  oldDoc: any;
+  newDoc: any;
+  direction: Direction;
+  differences: SnapshotDiff[];
+  visited: Set<string>;
+}
+
+// Compare every operation of two OpenAPI documents
+export function diffOpenApiDocuments(oldDoc: any, newDoc: any): OperationDiff[] {
+  const results: OperationDiff[] = [];
+  const paths = new Set([...Object.keys(oldDoc?.paths || {}), ...Object.keys(newDoc?.paths || {})]);
+
+  for (const path of paths) {
+    const oldPathItem = resolveRef(oldDoc, oldDoc.paths?.[path]) || {};
+    const newPathItem = resolveRef(newDoc, newDoc.paths?.[path]) || {};
+
+    for (const method of HTTP_METHODS) {
+      const oldOperation = oldPathItem[method];
+      const newOperation = newPathItem[method];
+
+      if (!oldOperation && !newOperation) {
+        continue;
+      }
+
+      const differences: SnapshotDiff[] = [];
+
+      if (!newOperation) {
+        differences.push({ path: 'operation', type: 'removed', oldValue: `${method.toUpperCase()} ${path}`, severity: 'breaking' });
+      } else if (!oldOperation) {
+        differences.push({ path: 'operation', type: 'added', newValue: `${method.toUpperCase()} ${path}`, severity: 'non-breaking' });
+      } else {
+        differences.push(...diffParameters(
+          oldDoc, newDoc,
+          [...(oldPathItem.parameters || []), ...(oldOperation.parameters || [])],
+          [...(newPathItem.parameters || []), ...(newOperation.parameters || [])]
+        ));
+        differences.push(...diffRequestBody(oldDoc, newDoc, oldOperation.requestBody, newOperation.requestBody));
+        differences.push(...diffResponses(oldDoc, newDoc, oldOperation.responses || {}, newOperation.responses || {}));
+
+        if (!oldOperation.deprecated && newOperation.deprecated) {
+          differences.push({ path: 'deprecated', type: 'changed', oldValue: false, newValue: true, severity: 'informational' });
+        }
+      }
+
+      results.push({ method: method.toUpperCase(), path, oldOperation, newOperation, differences });
+    }
+  }
+
+  return results;
+}
+
+function diffParameters(oldDoc: any, newDoc: any, oldParams: any[], newParams: any[]): SnapshotDiff[] {
+  const differences: SnapshotDiff[] = [];
+  const key = (param: any) => `${param.in}.${param.name}`;
+
+  // Operation-level parameters override path-level ones with the same name and location
+  const oldByKey = new Map(oldParams.map(param => resolveRef(oldDoc, param)).filter(Boolean).map(param => [key(param), param]));
+  const newByKey = new Map(newParams.map(param => resolveRef(newDoc, param)).filter(Boolean).map(param => [key(param), param]));
+
+  for (const [paramKey, oldParam] of oldByKey) {
+    const path = `parameters.${paramKey}`;
+    const newParam = newByKey.get(paramKey);
+
+    if (!newParam) {
+      differences.push({ path, type: 'removed', oldValue: oldParam.name, severity: 'non-breaking' });
+      continue;
+    }
+
+    if (!oldParam.required && newParam.required) {
+      differences.push({ path: `${path}.required`, type: 'changed', oldValue: false, newValue: true, severity: 'breaking' });
+    }
+
+    differences.push(...diffSchemas(oldDoc, newDoc, oldParam.schema, newParam.schema, path, 'request'));
+  }
+
+  for (const [paramKey, newParam] of newByKey) {
+    if (!oldByKey.has(paramKey)) {
+      differences.push({
+        path: `parameters.${paramKey}`,
+        type: 'added',
+        newValue: newParam.name,
+        severity: newParam.required ? 'breaking' : 'non-breaking'
+      });
+    }
+  }
+
+  return differences;
+}
+
+function diffRequestBody(oldDoc: any, newDoc: any, oldBodyRef: any, newBodyRef: any): SnapshotDiff[] {
+  const oldBody = resolveRef(oldDoc, oldBodyRef);
+  const newBody = resolveRef(newDoc, newBodyRef);
+  const differences: SnapshotDiff[] = [];
+
+  if (!oldBody && !newBody) {
+    return differences;
+  }
+
+  if (!newBody) {
+    differences.push({ path: 'requestBody', type: 'removed', severity: 'non-breaking' });
+    return differences;
+  }
+
+  if (!oldBody) {
+    differences.push({ path: 'requestBody', type: 'added', severity: newBody.required ? 'breaking' : 'non-breaking' });
+    return differences;
+  }
+
+  if (!oldBody.required && newBody.required) {
+    differences.push({ path: 'requestBody.required', type: 'changed', oldValue: false, newValue: true, severity: 'breaking' });
+  }
+
+  differences.push(...diffContent(oldDoc, newDoc, oldBody.content, newBody.content, 'requestBody', 'request'));
+  return differences;
+}
+
+function diffResponses(oldDoc: any, newDoc: any, oldResponses: Record<string, any>, newResponses: Record<string, any>): SnapshotDiff[] {
+  const differences: SnapshotDiff[] = [];
+
+  for (const [statusCode, oldResponseRef] of Object.entries(oldResponses)) {
+    const path = `responses.${statusCode}`;
+
+    if (!(statusCode in newResponses)) {
+      differences.push({ path, type: 'removed', oldValue: statusCode, severity: 'breaking' });
+      continue;
+    }
+
+    const oldResponse = resolveRef(oldDoc, oldResponseRef);
+    const newResponse = resolveRef(newDoc, newResponses[statusCode]);
+    differences.push(...diffContent(oldDoc, newDoc, oldResponse?.content, newResponse?.content, path, 'response'));
+  }
+
+  for (const statusCode of Object.keys(newResponses)) {
+    if (!(statusCode in oldResponses)) {
+      differences.push({ path: `responses.${statusCode}`, type: 'added', newValue: statusCode, severity: 'non-breaking' });
+    }
+  }
+
+  return differences;
+}
+
+function diffContent(
+  oldDoc: any,
+  newDoc: any,
+  oldContent: Record<string, any> = {},
+  newContent: Record<string, any> = {},
+  basePath: string,
+  direction: Direction
+): SnapshotDiff[] {
+  const differences: SnapshotDiff[] = [];
+
+  for (const [mediaType, oldMedia] of Object.entries(oldContent)) {
+    const path = `${basePath}.content.${mediaType}`;
+    const newMedia = newContent[mediaType];
+
+    if (!newMedia) {
+      differences.push({ path, type: 'removed', oldValue: mediaType, severity: 'breaking' });
+      continue;
+    }
+
+    differences.push(...diffSchemas(oldDoc, newDoc, oldMedia?.schema, newMedia?.schema, `${path}.schema`, direction));
+  }
+
+  for (const mediaType of Object.keys(newContent)) {
+    if (!(mediaType in oldContent)) {
+      differences.push({ path: `${basePath}.content.${mediaType}`, type: 'added', newValue: mediaType, severity: 'non-breaking' });
+    }
+  }
+
+  return differences;
+}
+
+export function diffSchemas(
+  oldDoc: any,
+  newDoc: any,
+  oldSchema: any,
+  newSchema: any,
+  path: string,
+  direction: Direction
+): SnapshotDiff[] {
+  const context: DiffContext = { oldDoc, newDoc, direction, differences: [], visited: new Set() };
+  compareSchema(context, oldSchema, newSchema, path);
+  return context.differences;
+}
+
+function compareSchema(context: DiffContext, oldSchemaRef: any, newSchemaRef: any, path: string): void {
+  if (!oldSchemaRef || !newSchemaRef || typeof oldSchemaRef !== 'object' || typeof newSchemaRef !== 'object') {
+    return;
+  }
+
+  // Recursive schemas (e.g. a tree node referencing itself) stop at a ref pair already open on this branch
+  const visitKey = oldSchemaRef.$ref || newSchemaRef.$ref ? `${oldSchemaRef.$ref}|${newSchemaRef.$ref}` : undefined;
+  if (visitKey) {
+    if (context.visited.has(visitKey)) {
+      return;
+    }
+    context.visited.add(visitKey);
+  }
+
+  compareResolvedSchema(
+    context,
+    flattenAllOf(context.oldDoc, resolveRef(context.oldDoc, oldSchemaRef)),
+    flattenAllOf(context.newDoc, resolveRef(context.newDoc, newSchemaRef)),
+    path
+  );
+
+  if (visitKey) {
+    context.visited.delete(visitKey);
+  }
+}
+
+function compareResolvedSchema(context: DiffContext, oldSchema: any, newSchema: any, path: string): void {
+  const isRequest = context.direction === 'request';
+  const { differences } = context;
+
+  // Type: requests may accept more types, responses may return fewer
+  const oldTypes = schemaTypes(oldSchema);
+  const newTypes = schemaTypes(newSchema);
+  if (oldTypes && newTypes && !sameSet(oldTypes, newTypes)) {
+    const compatible = isRequest ? isSubset(oldTypes, newTypes) : isSubset(newTypes, oldTypes);
+    differences.push({
+      path: `${path}.type`,
+      type: 'changed',
+      oldValue: [...oldTypes].join(' | '),
+      newValue: [...newTypes].join(' | '),
+      severity: compatible ? 'non-breaking' : 'breaking'
+    });
+  }
+
+  // Enum: narrowing breaks clients sending the removed values
+  const oldValues: string[] | undefined = Array.isArray(oldSchema.enum) ? oldSchema.enum.map(stableValue) : undefined;
+  const newValues: string[] | undefined = Array.isArray(newSchema.enum) ? newSchema.enum.map(stableValue) : undefined;
+  if (newValues && !oldValues) {
+    differences.push({ path: `${path}.enum`, type: 'added', newValue: newSchema.enum, severity: isRequest ? 'breaking' : 'non-breaking' });
+  } else if (oldValues && !newValues) {
+    differences.push({ path: `${path}.enum`, type: 'removed', oldValue: oldSchema.enum, severity: 'non-breaking' });
+  } else if (oldValues && newValues) {
+    const removedValues = oldValues.filter(value => !newValues.includes(value));
+    const addedValues = newValues.filter(value => !oldValues.includes(value));
+
+    if (removedValues.length > 0) {
+      differences.push({
+        path: `${path}.enum`,
+        type: 'removed',
+        oldValue: removedValues.map(value => JSON.parse(value)),
+        severity: isRequest ? 'breaking' : 'non-breaking'
+      });
+    }
+    if (addedValues.length > 0) {
+      differences.push({
+        path: `${path}.enum`,
+        type: 'added',
+        newValue: addedValues.map(value => JSON.parse(value)),
+        severity: 'non-breaking'
+      });
+    }
+  }
+
+  if (oldSchema.format !== newSchema.format && oldSchema.format !== undefined && newSchema.format !== undefined) {
+    differences.push({ path: `${path}.format`, type: 'changed', oldValue: oldSchema.format, newValue: newSchema.format, severity: 'non-breaking' });
+  }
+
+  // Properties
+  const oldProperties = oldSchema.properties || {};
+  const newProperties = newSchema.properties || {};
+  const oldRequired = new Set<string>(oldSchema.required || []);
+  const newRequired = new Set<string>(newSchema.required || []);
+
+  for (const [name, oldProperty] of Object.entries(oldProperties)) {
+    const propertyPath = `${path}.${name}`;
+
+    if (!(name in newProperties)) {
+      differences.push({
+        path: propertyPath,
+        type: 'removed',
+        severity: isRequest ? 'non-breaking' : 'breaking'
+      });
+      continue;
+    }
+
+    if (isRequest && !oldRequired.has(name) && newRequired.has(name)) {
+      differences.push({ path: `${propertyPath}.required`, type: 'changed', oldValue: false, newValue: true, severity: 'breaking' });
+    }
+    if (!isRequest && oldRequired.has(name) && !newRequired.has(name)) {
+      differences.push({ path: `${propertyPath}.required`, type: 'changed', oldValue: true, newValue: false, severity: 'breaking' });
+    }
+
+    compareSchema(context, oldProperty, newProperties[name], propertyPath);
+  }
+
+  for (const name of Object.keys(newProperties)) {
+    if (!(name in oldProperties)) {
+      differences.push({
+        path: `${path}.${name}`,
+        type: 'added',
+        severity: isRequest && newRequired.has(name) ? 'breaking' : 'non-breaking'
+      });
+    }
+  }
+
+  // Arrays and alternatives
+  if (oldSchema.items && newSchema.items) {
+    compareSchema(context, oldSchema.items, newSchema.items, `${path}[]`);
+  }
+
+  for (const keyword of ['oneOf', 'anyOf']) {
+    if (Array.isArray(oldSchema[keyword]) && Array.isArray(newSchema[keyword])) {
+      const shared = Math.min(oldSchema[keyword].length, newSchema[keyword].length);
+      for (let i = 0; i < shared; i++) {
+        compareSchema(context, oldSchema[keyword][i], newSchema[keyword][i], `${path}.${keyword}[${i}]`);
+      }
+    }
+  }
+}
+
+// Follow local `$ref`s like `#/components/schemas/User`
+export function resolveRef(document: any, node: any): any {
+  const visited = new Set<string>();
+
+  while (node && typeof node.$ref === 'string' && node.$ref.startsWith('#/') && !visited.has(node.$ref)) {
+    visited.add(node.$ref);
+    node = node.$ref
+      .slice(2)
+      .split('/')
+      .reduce((current: any, segment: string) => current?.[decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~')], document);
+  }
+
+  return node;
+}
+
+// Merge `allOf` members so composed schemas compare by their effective properties
+function flattenAllOf(document: any, schema: any): any {
+  if (!schema || !Array.isArray(schema.allOf)) {
+    return schema || {};
+  }
+
+  const merged: any = { ...schema, properties: { ...(schema.properties || {}) }, required: [...(schema.required || [])] };
+  delete merged.allOf;
+
+  for (const member of schema.allOf) {
+    const resolved = flattenAllOf(document, resolveRef(document, member));
+    Object.assign(merged.properties, resolved.properties || {});
+    merged.required.push(...(resolved.required || []));
+    merged.type = merged.type ?? resolved.type;
+    merged.nullable = merged.nullable ?? resolved.nullable;
+  }
+
+  return merged;
+}
+
+function schemaTypes(schema: any): Set<string> | undefined {
+  if (schema.type === undefined) {
+    return undefined;
+  }
+
+  const types = new Set<string>(Array.isArray(schema.type) ? schema.type : [schema.type]);
+  if (schema.nullable === true) {
+    types.add('null');
+  }
+  // An integer is always a valid number
+  if (types.has('number')) {
+    types.add('integer');
+  }
+  return types;
+}
+
+function sameSet(a: Set<string>, b: Set<string>): boolean {
+  return a.size === b.size && isSubset(a, b);
+}
+
+function isSubset(subset: Set<string>, superset: Set<string>): boolean {
+  return [...subset].every(value => superset.has(value));
+}
+
+function stableValue(value: any): string {
+  return JSON.stringify(value);
+}
@@ -2,6 +2,7 @@
 // Resolves template parameters in endpoints before making HTTP requests
 
 import type { ApiEndpoint } from '../types';
+import { redactForLog } from './secrets.js';
 
 // Substitute parameters in a string
 export function substituteParametersInString(
@@ -99,6 +100,11 @@ export function resolveEndpointParameters(endpoint: ApiEndpoint): ApiEndpoint {
     url: substituteParametersInString(endpoint.url, endpoint.parameters),
     headers: substituteParametersInHeaders(endpoint.headers, endpoint.parameters),
     body: substituteParametersInBody(endpoint.body, endpoint.parameters),
+    // GraphQL selections use braces too, only variable values are templates
+    graphql: endpoint.graphql && {
+      ...endpoint.graphql,
+      variables: substituteParametersInBody(endpoint.graphql.variables, endpoint.parameters)
+    },
     // Keep original parameters for reference
     parameters: endpoint.parameters
   };
@@ -150,6 +156,16 @@ export function extractParametersFromEndpoint(endpoint: ApiEndpoint): string[] {
     }
   }
   
+  // Extract from auth settings (tokens and provider configuration)
+  if (endpoint.auth) {
+    extractFromObject(endpoint.auth);
+  }
+
+  // Extract from GraphQL variables
+  if (endpoint.graphql?.variables) {
+    extractFromObject(endpoint.graphql.variables);
+  }
+  
   return Array.from(parameters);
 }
 
@@ -198,6 +214,11 @@ export function hasUnresolvedParameters(endpoint: ApiEndpoint): boolean {
       return true;
     }
   }
+
+  // Check GraphQL variables
+  if (endpoint.graphql?.variables && checkObject(endpoint.graphql.variables)) {
+    return true;
+  }
   
   return false;
 }
@@ -212,7 +233,7 @@ export function debugParameterResolution(
   template: ApiEndpoint,
   resolved: ApiEndpoint
 ): void {
-  console.log('🔄 Backend Parameter Resolution:', {
+  console.log('🔄 Backend Parameter Resolution:', redactForLog({
     template: {
       url: template.url,
       headers: template.headers,
@@ -226,5 +247,5 @@ export function debugParameterResolution(
     },
     hasUnresolved: hasUnresolvedParameters(resolved),
     extractedParams: extractParametersFromEndpoint(template)
-  });
+  }));
 }
\ No newline at end of file
@@ -0,0 +1,184 @@
+import type { DiffRule } from '../types.js';
+
+// Rule Path Expressions
+// Rule paths are diff paths that may contain wildcards:
+//   response.data.items[*].updatedAt  - any element of the array
+//   response.data.*.id                - any single key or element
+//   **.etag                           - any depth (also written as $..etag)
+// A rule matches a diff at its path or anywhere below it. When several rules match,
+// the most specific one wins: more literal segments, then fewer wildcards, then declaration order.
+
+type PathToken =
+  | { kind: 'key'; name: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'any-index' }
+  | { kind: 'any' }
+  | { kind: 'globstar' };
+
+export interface PathMatchOptions {
+  // Require the whole path to match instead of the path or one of its ancestors
+  exact?: boolean;
+  // Ignore array element positions on both sides (`items[3].tags` matches `items.tags`)
+  skipIndexes?: boolean;
+}
+
+const patternCache = new Map<string, PathToken[]>();
+
+function tokenize(expression: string): PathToken[] {
+  const tokens: PathToken[] = [];
+  let source = expression.trim();
+
+  if (source.startsWith('$')) {
+    source = source.slice(1);
+  }
+
+  let i = 0;
+  while (i < source.length) {
+    if (source.startsWith('..', i)) {
+      tokens.push({ kind: 'globstar' });
+      i += 2;
+      continue;
+    }
+    if (source[i] === '.') {
+      i += 1;
+      continue;
+    }
+
+    if (source[i] === '[') {
+      const end = source.indexOf(']', i);
+      if (end === -1) {
+        throw new Error(`Invalid rule path '${expression}': unclosed '['`);
+      }
+      const content = source.slice(i + 1, end).trim();
+      if (content === '*') {
+        tokens.push({ kind: 'any-index' });
+      } else if (/^-?\d+$/.test(content)) {
+        tokens.push({ kind: 'index', index: parseInt(content, 10) });
+      } else {
+        tokens.push({ kind: 'key', name: content.replace(/^(['"])(.*)\1$/, '$2') });
+      }
+      i = end + 1;
+      continue;
+    }
+
+    let end = i;
+    while (end < source.length && source[end] !== '.' && source[end] !== '[') {
+      end++;
+    }
+    const name = source.slice(i, end);
+    if (name === '**') {
+      tokens.push({ kind: 'globstar' });
+    } else if (name === '*') {
+      tokens.push({ kind: 'any' });
+    } else {
+      tokens.push({ kind: 'key', name });
+    }
+    i = end;
+  }
+
+  return tokens;
+}
+
+function compile(pattern: string): PathToken[] {
+  let tokens = patternCache.get(pattern);
+  if (!tokens) {
+    tokens = tokenize(pattern);
+    patternCache.set(pattern, tokens);
+  }
+  return tokens;
+}
+
+function matchToken(token: PathToken, segment: PathToken): boolean {
+  switch (token.kind) {
+    case 'any':
+      return true;
+    case 'any-index':
+      return segment.kind === 'index';
+    case 'index':
+      return segment.kind === 'index' && segment.index === token.index;
+    case 'key':
+      return segment.kind === 'key' && segment.name === token.name;
+    default:
+      return false;
+  }
+}
+
+function matchTokens(pattern: PathToken[], path: PathToken[], exact: boolean): boolean {
+  // memo[p][s]: whether pattern[p..] matches path[s..]
+  const memo = new Map<number, boolean>();
+
+  const match = (p: number, s: number): boolean => {
+    const memoKey = p * (path.length + 1) + s;
+    const cached = memo.get(memoKey);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    let result: boolean;
+    if (p === pattern.length) {
+      result = exact ? s === path.length : true;
+    } else if (pattern[p].kind === 'globstar') {
+      result = match(p + 1, s) || (s < path.length && match(p, s + 1));
+    } else {
+      result = s < path.length && matchToken(pattern[p], path[s]) && match(p + 1, s + 1);
+    }
+
+    memo.set(memoKey, result);
+    return result;
+  };
+
+  return match(0, 0);
+}
+
+const isIndexToken = (token: PathToken) => token.kind === 'index' || token.kind === 'any-index';
+
+export function matchesPath(pattern: string, path: string, options: PathMatchOptions = {}): boolean {
+  let patternTokens = compile(pattern);
+  let pathTokens = tokenize(path);
+
+  if (options.skipIndexes) {
+    patternTokens = patternTokens.filter(token => !isIndexToken(token));
+    pathTokens = pathTokens.filter(token => !isIndexToken(token));
+  }
+
+  return matchTokens(patternTokens, pathTokens, options.exact ?? false);
+}
+
+// Literal segments dominate, a single-segment wildcard beats a globstar
+export function pathSpecificity(pattern: string): number {
+  let score = 0;
+  for (const token of compile(pattern)) {
+    if (token.kind === 'key' || token.kind === 'index') {
+      score += 10000;
+    } else if (token.kind === 'any' || token.kind === 'any-index') {
+      score += 100;
+    } else {
+      score -= 1;
+    }
+  }
+  return score;
+}
+
+// Most specific rule whose path matches; earlier rules win ties
+export function findMatchingRule(
+  rules: DiffRule[],
+  path: string,
+  where: (rule: DiffRule) => boolean = () => true,
+  options: PathMatchOptions = {}
+): DiffRule | undefined {
+  let best: DiffRule | undefined;
+  let bestScore = -Infinity;
+
+  for (const rule of rules) {
+    if (!where(rule) || !matchesPath(rule.path, path, options)) {
+      continue;
+    }
+    const score = pathSpecificity(rule.path);
+    if (score > bestScore) {
+      best = rule;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
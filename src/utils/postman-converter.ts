@@ -1,10 +1,11 @@
 import type { ApiEndpoint } from '../types.js';
 
 // Postman Collection v2.1 types
-interface PostmanCollection {
+export interface PostmanCollection {
   info: {
     name: string;
     schema: string;
+    description?: string;
   };
   item: PostmanItem[];
   variable?: PostmanVariable[];
@@ -12,6 +13,7 @@ interface PostmanCollection {
 
 interface PostmanItem {
   name: string;
+  description?: string;
   request?: PostmanRequest;
   item?: PostmanItem[]; // Folders can contain items
 }
@@ -33,6 +35,7 @@ interface PostmanHeader {
 interface PostmanBody {
   mode: 'raw' | 'urlencoded' | 'formdata' | 'file' | 'graphql';
   raw?: string;
+  options?: { raw?: { language: string } };
   urlencoded?: Array<{ key: string; value: string }>;
   formdata?: Array<{ key: string; value: string; type?: string }>;
 }
@@ -49,6 +52,7 @@ interface PostmanUrl {
 interface PostmanVariable {
   key: string;
   value: string;
+  description?: string;
 }
 
 interface PostmanAuth {
@@ -249,4 +253,129 @@ export function validatePostmanCollection(data: any): { isValid: boolean; error?
   }
 
   return { isValid: true };
-}
\ No newline at end of file
+}
+// Inverse of convertPostmanToEndpoints: `{param}` templates become `{{param}}` variables, name segments
+// separated by `/` become folders. Secret parameters are exported without their value.
+export function convertEndpointsToPostman(
+  name: string,
+  endpoints: ApiEndpoint[],
+  parameters: Record<string, string> = {},
+  secretNames: string[] = []
+): PostmanCollection {
+  const root: PostmanItem[] = [];
+
+  for (const endpoint of endpoints) {
+    const segments = endpoint.name.split('/').filter(Boolean);
+    let items = root;
+    for (const folderName of segments.slice(0, -1)) {
+      let folder = items.find(item => item.item && item.name === folderName);
+      if (!folder) {
+        folder = { name: folderName, item: [] };
+        items.push(folder);
+      }
+      items = folder.item!;
+    }
+    items.push(convertEndpoint(endpoint, segments[segments.length - 1] || endpoint.name));
+  }
+
+  return {
+    info: {
+      name,
+      schema: 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json',
+      description: 'Exported by API Snapshot Verifier'
+    },
+    item: root,
+    variable: Object.entries(parameters).map(([key, value]) => secretNames.includes(key)
+      ? { key, value: '', description: 'Secret, set the value in your environment' }
+      : { key, value })
+  };
+}
+
+function convertEndpoint(endpoint: ApiEndpoint, itemName: string): PostmanItem {
+  // Values given on the endpoint itself are written inline, space parameters stay variables
+  const toPostman = (text: string) => text.replace(/\{([A-Za-z_][\w.-]*)\}/g, (match, paramName) =>
+    endpoint.parameters?.[paramName] ?? `{{${paramName}}}`);
+
+  const header: PostmanHeader[] = Object.entries(endpoint.headers || {})
+    .map(([key, value]) => ({ key, value: toPostman(value) }));
+
+  const request: PostmanRequest = {
+    method: endpoint.method,
+    header,
+    url: toPostman(endpoint.url)
+  };
+
+  if (endpoint.body !== undefined && endpoint.body !== null && endpoint.body !== '') {
+    const contentType = Object.entries(endpoint.headers || {})
+      .find(([key]) => key.toLowerCase() === 'content-type')?.[1] || '';
+    if (contentType.includes('x-www-form-urlencoded') && typeof endpoint.body === 'string') {
+      request.body = {
+        mode: 'urlencoded',
+        urlencoded: Array.from(new URLSearchParams(endpoint.body)).map(([key, value]) => ({ key, value: toPostman(value) }))
+      };
+    } else if (typeof endpoint.body === 'string') {
+      request.body = { mode: 'raw', raw: toPostman(endpoint.body) };
+    } else {
+      request.body = { mode: 'raw', raw: toPostman(JSON.stringify(endpoint.body, null, 2)), options: { raw: { language: 'json' } } };
+    }
+  }
+
+  const credentials = endpointAuthCredentials(endpoint);
+  let description: string | undefined;
+  if (credentials?.type === 'bearer') {
+    request.auth = { type: 'bearer', bearer: [{ key: 'token', value: toPostman(credentials.token) }] };
+  } else if (credentials?.type === 'basic') {
+    request.auth = {
+      type: 'basic',
+      basic: [
+        { key: 'username', value: toPostman(credentials.username) },
+        { key: 'password', value: toPostman(credentials.password) }
+      ]
+    };
+  } else if (credentials?.type === 'apikey') {
+    request.auth = {
+      type: 'apikey',
+      apikey: [
+        { key: 'key', value: credentials.headerName },
+        { key: 'value', value: toPostman(credentials.key) },
+        { key: 'in', value: 'header' }
+      ]
+    };
+  } else if (credentials) {
+    description = credentials.description;
+  }
+
+  return { name: itemName, ...(description ? { description } : {}), request };
+}
+
+export type EndpointAuthCredentials =
+  | { type: 'bearer'; token: string }
+  | { type: 'basic'; username: string; password: string }
+  | { type: 'apikey'; headerName: string; key: string }
+  | { type: 'other'; description: string };
+
+// Credentials of the built-in providers as `{param}` templates; values read from environment variables become
+// templates named after the variable. Other providers are only described.
+export function endpointAuthCredentials(endpoint: ApiEndpoint): EndpointAuthCredentials | undefined {
+  const auth = endpoint.auth;
+  if (!auth || (!auth.type && !auth.profile)) {
+    return undefined;
+  }
+
+  const config = auth.config || {};
+  const value = (field: string): string | undefined =>
+    config[field] ?? (config[`${field}EnvVar`] ? `{${config[`${field}EnvVar`]}}` : undefined);
+
+  if (auth.type === 'bearer' && (auth.token || value('token'))) {
+    return { type: 'bearer', token: auth.token || value('token')! };
+  }
+  if (auth.type === 'basic' && value('username')) {
+    return { type: 'basic', username: value('username')!, password: value('password') ?? '' };
+  }
+  if (auth.type === 'apikey' && value('key')) {
+    return { type: 'apikey', headerName: config.headerName ?? 'X-API-Key', key: value('key')! };
+  }
+
+  const source = auth.profile ? `auth profile '${auth.profile}'` : `the '${auth.type}' provider`;
+  return { type: 'other', description: `Authenticates with ${source}` };
+}
@@ -0,0 +1,78 @@
+// Capture Throttling
+// `mapWithConcurrency` bounds how many endpoints of a space are captured at once; `HostRateLimiter`
+// spaces requests to the same host so that no host receives more than its configured requests per second.
+// Limits are keyed by host (`api.example.com:8443`), with `*` applying to every host without its own entry.
+
+export const DEFAULT_CONCURRENCY = 4;
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Like Promise.all over `items.map(fn)`, but with at most `limit` calls in flight; results keep input order
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host.toLowerCase();
+  } catch {
+    return '';
+  }
+}
+
+export class HostRateLimiter {
+  // Earliest time the next request to each host may start
+  private nextSlot = new Map<string, number>();
+
+  constructor(
+    private limits: Record<string, number> = {},
+    private now: () => number = Date.now
+  ) {}
+
+  // Resolves when a request to `url` may be sent
+  async acquire(url: string): Promise<void> {
+    const wait = this.reserve(url);
+    if (wait > 0) {
+      await sleep(wait);
+    }
+  }
+
+  // Hold back every request to the host of `url`, e.g. after a 429 with Retry-After
+  pause(url: string, ms: number): void {
+    const host = hostOf(url);
+    this.nextSlot.set(host, Math.max(this.nextSlot.get(host) ?? 0, this.now() + ms));
+  }
+
+  // Claims the next slot for the host and returns how long to wait for it
+  reserve(url: string): number {
+    const host = hostOf(url);
+    const perSecond = this.limits[host] ?? this.limits['*'];
+    const now = this.now();
+    const slot = Math.max(now, this.nextSlot.get(host) ?? 0);
+
+    // Hosts without a limit only wait out pauses
+    if (perSecond && perSecond > 0) {
+      this.nextSlot.set(host, slot + 1000 / perSecond);
+    }
+
+    return slot - now;
+  }
+}
@@ -0,0 +1,219 @@
+import type { ApiEndpoint, ParameterExtraction } from '../types.js';
+import { extractParametersFromEndpoint } from './parameterResolver.js';
+import { selectJsonPathValues } from './valueNormalizer.js';
+
+// Request Chaining
+// An endpoint's `extract` definitions copy values from its response (JSONPath on the body or a header name)
+// into space parameters, so later requests can use them as `{name}`. Endpoints then run in dependency order:
+// an endpoint waits for the endpoints listed in `dependsOn` and for every endpoint that extracts a parameter
+// it uses. Dependencies on endpoints outside the captured set are ignored, their values come from earlier runs.
+
+export interface ExtractionResult {
+  values: Record<string, string>;
+  missing: string[]; // Required extractions that matched nothing
+}
+
+function toParameterValue(value: any): string {
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+export function extractParameters(
+  extractions: ParameterExtraction[],
+  response: { headers: Record<string, string>; data: any }
+): ExtractionResult {
+  const values: Record<string, string> = {};
+  const missing: string[] = [];
+
+  let body = response.data;
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      // Plain text bodies can only be extracted from with `$`
+    }
+  }
+
+  for (const extraction of extractions) {
+    let value: any;
+
+    if (extraction.header) {
+      value = response.headers[extraction.header.toLowerCase()];
+    } else if (extraction.jsonPath) {
+      value = selectJsonPathValues(body, extraction.jsonPath).find(candidate => candidate !== undefined && candidate !== null);
+    }
+
+    if (value === undefined || value === null) {
+      if (!extraction.optional) {
+        missing.push(extraction.name);
+      }
+      continue;
+    }
+    values[extraction.name] = toParameterValue(value);
+  }
+
+  return { values, missing };
+}
+
+// Returns an error message for invalid `extract`/`dependsOn` settings, or null when they are acceptable
+export function validateChaining(endpoint: Partial<ApiEndpoint>): string | null {
+  if (endpoint.extract !== undefined) {
+    if (!Array.isArray(endpoint.extract)) {
+      return 'extract must be an array';
+    }
+    for (const extraction of endpoint.extract) {
+      if (!extraction || typeof extraction.name !== 'string' || !/^[A-Za-z_][\w.-]*$/.test(extraction.name)) {
+        return 'Every extraction needs a parameter name (letters, digits, _, . and -)';
+      }
+      if (!extraction.jsonPath === !extraction.header) {
+        return `Extraction '${extraction.name}' needs exactly one of jsonPath or header`;
+      }
+      if (extraction.jsonPath) {
+        try {
+          selectJsonPathValues({}, extraction.jsonPath);
+        } catch (error) {
+          return error instanceof Error ? error.message : `Invalid JSONPath for '${extraction.name}'`;
+        }
+      }
+    }
+  }
+
+  if (endpoint.dependsOn !== undefined) {
+    if (!Array.isArray(endpoint.dependsOn) || endpoint.dependsOn.some(name => typeof name !== 'string')) {
+      return 'dependsOn must be an array of endpoint names';
+    }
+    if (endpoint.name && endpoint.dependsOn.includes(endpoint.name)) {
+      return 'An endpoint cannot depend on itself';
+    }
+  }
+
+  return null;
+}
+
+// Dependencies of each endpoint by name, restricted to the given endpoints
+export function buildDependencyGraph(endpoints: ApiEndpoint[]): Map<string, string[]> {
+  const names = new Set(endpoints.map(endpoint => endpoint.name));
+  const producers = new Map<string, string[]>();
+
+  for (const endpoint of endpoints) {
+    for (const extraction of endpoint.extract || []) {
+      producers.set(extraction.name, [...(producers.get(extraction.name) || []), endpoint.name]);
+    }
+  }
+
+  const graph = new Map<string, string[]>();
+  for (const endpoint of endpoints) {
+    const dependencies = new Set((endpoint.dependsOn || []).filter(name => names.has(name)));
+    for (const parameter of extractParametersFromEndpoint(endpoint)) {
+      (producers.get(parameter) || []).forEach(producer => dependencies.add(producer));
+    }
+    dependencies.delete(endpoint.name);
+    graph.set(endpoint.name, [...dependencies]);
+  }
+
+  return graph;
+}
+
+// A cycle as a list of endpoint names (first name repeated at the end), or null
+export function findDependencyCycle(graph: Map<string, string[]>): string[] | null {
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (name: string): string[] | null => {
+    if (state.get(name) === 'done') {
+      return null;
+    }
+    if (state.get(name) === 'visiting') {
+      return [...stack.slice(stack.indexOf(name)), name];
+    }
+
+    state.set(name, 'visiting');
+    stack.push(name);
+    for (const dependency of graph.get(name) || []) {
+      const cycle = visit(dependency);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    stack.pop();
+    state.set(name, 'done');
+    return null;
+  };
+
+  for (const name of graph.keys()) {
+    const cycle = visit(name);
+    if (cycle) {
+      return cycle;
+    }
+  }
+  return null;
+}
+
+// Runs every item once its dependencies have succeeded, at most `limit` at a time; results keep input order.
+// Items whose dependency failed are not run, `skip` supplies their result instead.
+export function runInDependencyOrder<T, R>(
+  items: T[],
+  key: (item: T) => string,
+  graph: Map<string, string[]>,
+  limit: number,
+  handlers: {
+    run: (item: T) => Promise<R>;
+    succeeded: (result: R) => boolean;
+    skip: (item: T, failedDependency: string) => R;
+  }
+): Promise<R[]> {
+  const cycle = findDependencyCycle(graph);
+  if (cycle) {
+    return Promise.reject(new Error(`Circular endpoint dependency: ${cycle.join(' -> ')}`));
+  }
+
+  const results = new Array<R>(items.length);
+  const status = new Map<string, 'pending' | 'running' | 'succeeded' | 'failed'>(items.map(item => [key(item), 'pending']));
+  let running = 0;
+  let finished = 0;
+
+  return new Promise((resolve, reject) => {
+    const pump = () => {
+      let progressed = true;
+      while (progressed) {
+        progressed = false;
+
+        items.forEach((item, index) => {
+          const name = key(item);
+          if (status.get(name) !== 'pending') {
+            return;
+          }
+
+          const dependencies = graph.get(name) || [];
+          const failed = dependencies.find(dependency => status.get(dependency) === 'failed');
+          if (failed) {
+            results[index] = handlers.skip(item, failed);
+            status.set(name, 'failed');
+            finished++;
+            progressed = true;
+            return;
+          }
+
+          if (running >= Math.max(1, limit) || !dependencies.every(dependency => status.get(dependency) === 'succeeded')) {
+            return;
+          }
+
+          status.set(name, 'running');
+          running++;
+          handlers.run(item).then(result => {
+            results[index] = result;
+            status.set(name, handlers.succeeded(result) ? 'succeeded' : 'failed');
+            running--;
+            finished++;
+            pump();
+          }, reject);
+        });
+      }
+
+      if (finished === items.length) {
+        resolve(results);
+      }
+    };
+
+    pump();
+  });
+}
@@ -0,0 +1,63 @@
+import type { RetryPolicy } from '../types.js';
+
+// Capture Retries
+// Network errors, 5xx and 429 responses are retried with exponential backoff (with jitter). A `Retry-After`
+// header is honoured: the retry never happens sooner than the server asked, and if the server asks for a
+// longer wait than `maxDelayMs` the capture gives up instead of blocking the run.
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000
+};
+
+export function resolveRetryPolicy(policy: RetryPolicy = {}): Required<RetryPolicy> {
+  return {
+    maxRetries: policy.maxRetries ?? DEFAULT_RETRY_POLICY.maxRetries,
+    baseDelayMs: policy.baseDelayMs ?? DEFAULT_RETRY_POLICY.baseDelayMs,
+    maxDelayMs: policy.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs
+  };
+}
+
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// Milliseconds to wait according to a Retry-After header (delay in seconds or an HTTP date)
+export function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// Delay before retry number `attempt` (1-based); half of it is fixed, half random
+export function backoffDelay(attempt: number, policy: Required<RetryPolicy>, random: () => number = Math.random): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(exponential / 2 + random() * exponential / 2);
+}
+
+// Delay before the next attempt, or undefined when the capture should give up
+export function nextRetryDelay(
+  attempt: number,
+  policy: Required<RetryPolicy>,
+  retryAfter?: string,
+  random: () => number = Math.random
+): number | undefined {
+  if (attempt > policy.maxRetries) {
+    return undefined;
+  }
+
+  const requested = parseRetryAfter(retryAfter);
+  if (requested !== undefined) {
+    return requested <= policy.maxDelayMs ? requested : undefined;
+  }
+  return backoffDelay(attempt, policy, random);
+}
@@ -0,0 +1,105 @@
+import type { ApiSnapshot, SnapshotDiff } from '../types.js';
+import { diffSchemas } from './openApiDiff.js';
+
+// Response Shape Inference
+// Derives a JSON Schema from a response body: types, always-present vs optional keys and array item shapes.
+// Numbers are not split into integer/number so volatile numeric values do not flip the shape.
+
+export interface InferredSchema {
+  type?: string | string[];
+  properties?: Record<string, InferredSchema>;
+  required?: string[];
+  items?: InferredSchema;
+}
+
+function typeOf(value: any): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return 'number';
+  }
+  if (typeof value === 'object') {
+    return 'object';
+  }
+  return typeof value;
+}
+
+function typesOf(schema: InferredSchema): string[] {
+  if (schema.type === undefined) {
+    return [];
+  }
+  return Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+export function inferSchema(value: any): InferredSchema {
+  const type = typeOf(value);
+
+  if (type === 'array') {
+    const schema: InferredSchema = { type: 'array' };
+    if (value.length > 0) {
+      schema.items = value.map(inferSchema).reduce(mergeSchemas);
+    }
+    return schema;
+  }
+
+  if (type === 'object') {
+    const properties: Record<string, InferredSchema> = {};
+    for (const [key, propertyValue] of Object.entries(value)) {
+      properties[key] = inferSchema(propertyValue);
+    }
+    return { type: 'object', properties, required: Object.keys(properties) };
+  }
+
+  return { type };
+}
+
+// Combine two shapes: types are unioned, a key stays required only if both sides always have it
+export function mergeSchemas(a: InferredSchema, b: InferredSchema): InferredSchema {
+  const types = [...new Set([...typesOf(a), ...typesOf(b)])];
+  const merged: InferredSchema = {};
+
+  if (types.length > 0) {
+    merged.type = types.length === 1 ? types[0] : types;
+  }
+
+  if (a.properties || b.properties) {
+    const properties: Record<string, InferredSchema> = {};
+    const keys = new Set([...Object.keys(a.properties || {}), ...Object.keys(b.properties || {})]);
+
+    for (const key of keys) {
+      const left = a.properties?.[key];
+      const right = b.properties?.[key];
+      properties[key] = left && right ? mergeSchemas(left, right) : (left || right)!;
+    }
+
+    // A side that is not an object at all (e.g. null) does not make keys optional
+    const aRequired = a.properties ? a.required || [] : undefined;
+    const bRequired = b.properties ? b.required || [] : undefined;
+    merged.properties = properties;
+    merged.required = [...keys].filter(key =>
+      (aRequired === undefined || aRequired.includes(key)) && (bRequired === undefined || bRequired.includes(key))
+    );
+  }
+
+  if (a.items && b.items) {
+    merged.items = mergeSchemas(a.items, b.items);
+  } else if (a.items || b.items) {
+    merged.items = a.items || b.items;
+  }
+
+  return merged;
+}
+
+// Stored shape when the snapshot has one, otherwise inferred on the fly (older snapshots)
+export function getSnapshotShape(snapshot: ApiSnapshot): InferredSchema {
+  return (snapshot.response.shape as InferredSchema | undefined) || inferSchema(snapshot.response.data);
+}
+
+// Shape-only comparison: structural changes in the response body, ignoring the values themselves
+export function compareSnapshotShapes(baseline: ApiSnapshot, current: ApiSnapshot): SnapshotDiff[] {
+  return diffSchemas({}, {}, getSnapshotShape(baseline), getSnapshotShape(current), 'response.data', 'response');
+}
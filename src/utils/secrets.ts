@@ -0,0 +1,219 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import * as fs from 'fs';
+import type { ApiEndpoint } from '../types.js';
+
+// Secret Storage
+// Secret space parameters, saved server auth settings and auth profile configurations are encrypted at rest with
+// AES-256-GCM. The key comes from SNAPSHOT_SECRET_KEY (32 bytes as base64 or hex, anything else is hashed into a key)
+// or from the key file at SNAPSHOT_SECRET_KEY_FILE (default `./.snapshot-secret.key`), which is created on first use.
+// Encrypted values look like `enc:v1:<iv>:<tag>:<ciphertext>`; values without the prefix are read as plaintext, so
+// existing databases keep working and are encrypted as values are written again.
+// Every decrypted secret is remembered so that logging can redact it wherever it shows up.
+
+export const SECRET_MASK = '********';
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const DEFAULT_KEY_FILE = './.snapshot-secret.key';
+const SENSITIVE_KEY = /(authorization|cookie|passw(or)?d|secret|token|api[-_]?key|private[-_]?key|credential)/i;
+
+let cachedKey: Buffer | null = null;
+const knownSecrets = new Set<string>();
+
+function parseKey(material: string): Buffer {
+  const trimmed = material.trim();
+  if (/^[0-9a-f]{64}$/i.test(trimmed)) {
+    return Buffer.from(trimmed, 'hex');
+  }
+  const decoded = Buffer.from(trimmed, 'base64');
+  if (decoded.length === 32 && /^[A-Za-z0-9+/]+=*$/.test(trimmed)) {
+    return decoded;
+  }
+  return createHash('sha256').update(trimmed).digest();
+}
+
+function getSecretKey(): Buffer {
+  if (cachedKey) {
+    return cachedKey;
+  }
+
+  if (process.env.SNAPSHOT_SECRET_KEY) {
+    cachedKey = parseKey(process.env.SNAPSHOT_SECRET_KEY);
+    return cachedKey;
+  }
+
+  const keyFile = process.env.SNAPSHOT_SECRET_KEY_FILE || DEFAULT_KEY_FILE;
+  if (!fs.existsSync(keyFile)) {
+    fs.writeFileSync(keyFile, randomBytes(32).toString('base64') + '\n', { mode: 0o600 });
+    console.log(`🔑 Created secret key file ${keyFile}, keep it with the database`);
+  }
+  cachedKey = parseKey(fs.readFileSync(keyFile, 'utf-8'));
+  return cachedKey;
+}
+
+// Forget the cached key, e.g. after SNAPSHOT_SECRET_KEY changed
+export function resetSecretKey(): void {
+  cachedKey = null;
+}
+
+export function isEncryptedSecret(value: string | null | undefined): boolean {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+export function encryptSecret(plaintext: string): string {
+  rememberSecret(plaintext);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getSecretKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+  return ENCRYPTED_PREFIX + [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':');
+}
+
+export function decryptSecret(value: string): string {
+  if (!isEncryptedSecret(value)) {
+    return value;
+  }
+
+  const [iv, tag, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split(':').map(part => Buffer.from(part, 'base64'));
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', getSecretKey(), iv);
+    decipher.setAuthTag(tag);
+    const plaintext = Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf-8');
+    rememberSecret(plaintext);
+    return plaintext;
+  } catch {
+    throw new Error('Failed to decrypt secret: the secret key does not match the one it was encrypted with');
+  }
+}
+
+export function rememberSecret(value: string): void {
+  // Very short values would redact unrelated text
+  if (value && value.length >= 4) {
+    knownSecrets.add(value);
+  }
+}
+
+export function isSensitiveKey(name: string): boolean {
+  return SENSITIVE_KEY.test(name);
+}
+
+// Replaces known secret values in free text
+export function redactSecrets(text: string): string {
+  let result = text;
+  for (const secret of knownSecrets) {
+    if (result.includes(secret)) {
+      result = result.split(secret).join(SECRET_MASK);
+    }
+  }
+  return result;
+}
+
+// Copy of headers or a request body fit for logging: sensitive keys are masked and known secrets redacted.
+// Form-encoded strings are handled field by field.
+export function redactForLog(value: any): any {
+  if (typeof value === 'string') {
+    if (/^[^=&\s{[]+=[^&]*(&[^=&]+=[^&]*)*$/.test(value)) {
+      const params = new URLSearchParams(value);
+      for (const key of Array.from(params.keys())) {
+        if (isSensitiveKey(key)) {
+          params.set(key, SECRET_MASK);
+        }
+      }
+      return redactSecrets(params.toString());
+    }
+    return redactSecrets(value);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(redactForLog);
+  }
+
+  if (value && typeof value === 'object') {
+    const result: Record<string, any> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      result[key] = isSensitiveKey(key) && (typeof entry === 'string' || typeof entry === 'number') ? SECRET_MASK : redactForLog(entry);
+    }
+    return result;
+  }
+
+  return value;
+}
+
+export function maskParameters(parameters: Record<string, string>, secretNames: string[]): Record<string, string> {
+  const masked: Record<string, string> = {};
+  for (const [name, value] of Object.entries(parameters)) {
+    masked[name] = secretNames.includes(name) ? SECRET_MASK : value;
+  }
+  return masked;
+}
+
+// Endpoint copy for snapshots: secret parameter values, tokens and sensitive auth settings are masked.
+// `{param}` templates are kept, they show which parameter was used without revealing it.
+export function maskEndpointSecrets(endpoint: ApiEndpoint, secretNames: string[] = []): ApiEndpoint {
+  const masked: ApiEndpoint = redactDeep({
+    ...endpoint,
+    ...(endpoint.parameters ? { parameters: maskParameters(endpoint.parameters, secretNames) } : {})
+  });
+
+  if (masked.auth) {
+    masked.auth = {
+      ...masked.auth,
+      ...(masked.auth.token && !/^\{[^}]+\}$/.test(masked.auth.token) ? { token: SECRET_MASK } : {}),
+      ...(masked.auth.config ? { config: maskSensitiveFields(masked.auth.config) } : {})
+    };
+  }
+  return masked;
+}
+
+// Masks values of sensitive keys (secrets, passwords, tokens), leaving `{param}` templates and names of
+// environment variables or parameters (`...EnvVar`, `...Param`) readable
+export function maskSensitiveFields<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(maskSensitiveFields) as T;
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const result: Record<string, any> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    const isReference = /(EnvVar|Param)$/.test(key) || (typeof entry === 'string' && /^\{[^}]+\}$/.test(entry));
+    result[key] = isSensitiveKey(key) && typeof entry === 'string' && entry && !isReference
+      ? SECRET_MASK
+      : maskSensitiveFields(entry);
+  }
+  return result as T;
+}
+
+function redactDeep<T>(value: T): T {
+  if (typeof value === 'string') {
+    return redactSecrets(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactDeep) as T;
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, any> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      result[key] = redactDeep(entry);
+    }
+    return result as T;
+  }
+  return value;
+}
+
+// Undoes maskSensitiveFields for values a client sent back unchanged: masked fields keep their stored value
+export function restoreMaskedFields<T>(updated: T, stored: any): T {
+  if (updated === SECRET_MASK) {
+    return (typeof stored === 'string' ? stored : updated) as T;
+  }
+  if (Array.isArray(updated)) {
+    return updated.map((entry, index) => restoreMaskedFields(entry, Array.isArray(stored) ? stored[index] : undefined)) as T;
+  }
+  if (updated && typeof updated === 'object') {
+    const result: Record<string, any> = {};
+    for (const [key, entry] of Object.entries(updated)) {
+      result[key] = restoreMaskedFields(entry, stored && typeof stored === 'object' ? stored[key] : undefined);
+    }
+    return result as T;
+  }
+  return updated;
+}
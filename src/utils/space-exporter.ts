@@ -0,0 +1,296 @@
+import type { ApiEndpoint } from '../types.js';
+import { convertEndpointsToPostman, endpointAuthCredentials } from './postman-converter.js';
+import { inferSchema, type InferredSchema } from './schemaInference.js';
+
+// Space Export
+// Writes a space's endpoints as a Postman v2.1 collection, an OpenAPI 3.1 document or a shell script of curl
+// commands. `{param}` templates stay references to the space parameters (Postman variables, OpenAPI server
+// variables and examples, shell variables); values set on an endpoint itself are written inline. Secret
+// parameters are never exported, the script reads them from the environment.
+
+export type ExportFormat = 'postman' | 'openapi' | 'curl';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['postman', 'openapi', 'curl'];
+
+export interface RecordedResponse {
+  status: number;
+  headers?: Record<string, string>;
+  shape?: InferredSchema;
+}
+
+export interface SpaceExportInput {
+  space: string;
+  endpoints: ApiEndpoint[];
+  parameters: Record<string, string>;
+  secretParameters?: string[];
+  responses?: Record<string, RecordedResponse>; // Latest successful response per endpoint name
+}
+
+export interface ExportedFile {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+// `{param}` placeholders; the name rules out JSON objects in bodies
+const TEMPLATE = /\{([A-Za-z_][\w.-]*)\}/g;
+
+// OpenAPI rejects these as header parameters, they are described by security schemes and media types
+const RESERVED_HEADERS = /^(accept|content-type|authorization)$/i;
+
+export function exportSpace(format: ExportFormat, input: SpaceExportInput): ExportedFile {
+  const basename = input.space.replace(/[^a-zA-Z0-9_-]/g, '_');
+
+  switch (format) {
+    case 'postman':
+      return {
+        filename: `${basename}.postman_collection.json`,
+        contentType: 'application/json',
+        content: JSON.stringify(convertEndpointsToPostman(input.space, input.endpoints, input.parameters, input.secretParameters), null, 2)
+      };
+    case 'openapi':
+      return {
+        filename: `${basename}.openapi.json`,
+        contentType: 'application/json',
+        content: JSON.stringify(exportToOpenApi(input), null, 2)
+      };
+    case 'curl':
+      return {
+        filename: `${basename}.sh`,
+        contentType: 'text/x-shellscript',
+        content: exportToCurl(input)
+      };
+    default:
+      throw new Error(`Unknown export format '${format}'. Available formats: ${EXPORT_FORMATS.join(', ')}`);
+  }
+}
+
+export function exportToOpenApi(input: SpaceExportInput): Record<string, any> {
+  const secrets = new Set(input.secretParameters || []);
+  const example = (name: string, endpoint: ApiEndpoint) =>
+    endpoint.parameters?.[name] ?? (secrets.has(name) ? undefined : input.parameters[name]);
+
+  const servers: Array<Record<string, any>> = [];
+  const paths: Record<string, Record<string, any>> = {};
+  const securitySchemes: Record<string, any> = {};
+
+  for (const endpoint of input.endpoints) {
+    const { server, path, query } = splitUrl(endpoint.url);
+
+    // Server variables are the templates in the server part, with their space parameter values as defaults
+    let serverIndex = servers.findIndex(entry => entry.url === server);
+    if (serverIndex === -1) {
+      const variables: Record<string, any> = {};
+      for (const name of templateNames(server)) {
+        variables[name] = { default: example(name, endpoint) ?? '' };
+      }
+      servers.push({ url: server, ...(Object.keys(variables).length > 0 ? { variables } : {}) });
+      serverIndex = servers.length - 1;
+    }
+
+    const method = endpoint.method.toLowerCase();
+    const pathItem = paths[path] = paths[path] || {};
+    if (pathItem[method]) {
+      // Endpoints that only differ in their query string share an operation
+      pathItem[method]['x-api-snapshot-endpoints'].push(endpoint.name);
+      continue;
+    }
+
+    const parameters: Array<Record<string, any>> = [
+      ...templateNames(path).map(name => parameterObject(name, 'path', example(name, endpoint))),
+      ...Array.from(new URLSearchParams(query)).map(([name, value]) => {
+        const [template] = templateNames(value);
+        return parameterObject(name, 'query', template ? example(template, endpoint) : value);
+      }),
+      ...Object.entries(endpoint.headers || {})
+        .filter(([name]) => !RESERVED_HEADERS.test(name))
+        .map(([name, value]) => {
+          const [template] = templateNames(value);
+          return parameterObject(name, 'header', template ? example(template, endpoint) : value);
+        })
+    ];
+
+    const operation: Record<string, any> = {
+      operationId: endpoint.name,
+      summary: endpoint.name,
+      ...(parameters.length > 0 ? { parameters } : {}),
+      responses: responsesObject(input.responses?.[endpoint.name]),
+      'x-api-snapshot-endpoints': [endpoint.name]
+    };
+
+    if (serverIndex > 0) {
+      operation.servers = [servers[serverIndex]];
+    }
+
+    const requestBody = requestBodyObject(endpoint);
+    if (requestBody) {
+      operation.requestBody = requestBody;
+    }
+
+    const credentials = endpointAuthCredentials(endpoint);
+    if (credentials && credentials.type !== 'other') {
+      const schemeName = credentials.type === 'apikey' ? `apiKey${credentials.headerName.replace(/[^A-Za-z0-9]/g, '')}` : `${credentials.type}Auth`;
+      securitySchemes[schemeName] = credentials.type === 'apikey'
+        ? { type: 'apiKey', in: 'header', name: credentials.headerName }
+        : { type: 'http', scheme: credentials.type };
+      operation.security = [{ [schemeName]: [] }];
+    } else if (credentials) {
+      operation.description = credentials.description;
+    }
+
+    pathItem[method] = operation;
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: `${input.space} API`,
+      version: '1.0.0',
+      description: `Exported by API Snapshot Verifier from space '${input.space}'. Response schemas are inferred from the latest snapshots.`
+    },
+    servers: servers.length > 0 ? [servers[0]] : [],
+    paths,
+    ...(Object.keys(securitySchemes).length > 0 ? { components: { securitySchemes } } : {})
+  };
+}
+
+export function exportToCurl(input: SpaceExportInput): string {
+  const secrets = new Set(input.secretParameters || []);
+  const used = new Set<string>();
+  const commands: string[] = [];
+
+  for (const endpoint of input.endpoints) {
+    const quote = (text: string) => shellTemplate(text, endpoint, used);
+    const lines = [`curl -sS -X ${endpoint.method} ${quote(endpoint.url)}`];
+
+    for (const [name, value] of Object.entries(endpoint.headers || {})) {
+      lines.push(`-H ${quote(`${name}: ${value}`)}`);
+    }
+
+    const credentials = endpointAuthCredentials(endpoint);
+    let note = '';
+    if (credentials?.type === 'bearer') {
+      lines.push(`-H ${quote(`Authorization: Bearer ${credentials.token}`)}`);
+    } else if (credentials?.type === 'basic') {
+      lines.push(`-u ${quote(`${credentials.username}:${credentials.password}`)}`);
+    } else if (credentials?.type === 'apikey') {
+      lines.push(`-H ${quote(`${credentials.headerName}: ${credentials.key}`)}`);
+    } else if (credentials) {
+      note = `\n# ${credentials.description}, add its credentials to this request`;
+    }
+
+    if (endpoint.body !== undefined && endpoint.body !== null && endpoint.body !== '') {
+      lines.push(`--data-raw ${quote(typeof endpoint.body === 'string' ? endpoint.body : JSON.stringify(endpoint.body))}`);
+    }
+
+    commands.push(`# ${endpoint.name}${note}\n${lines.join(' \\\n  ')}\necho`);
+  }
+
+  // Space parameters become shell variables that can be overridden from the environment
+  const variables = Array.from(used).sort().map(name => {
+    const variable = shellVariable(name);
+    if (secrets.has(name) || !(name in input.parameters)) {
+      return `${variable}="\${${variable}:?Set ${variable}${secrets.has(name) ? ' (secret)' : ''}}"`;
+    }
+    return `${variable}="\${${variable}:-${escapeDoubleQuoted(input.parameters[name])}}"`;
+  });
+
+  return [
+    '#!/usr/bin/env bash',
+    `# Requests of space '${input.space}', exported by API Snapshot Verifier`,
+    'set -euo pipefail',
+    ...(variables.length > 0 ? ['', ...variables] : []),
+    '',
+    commands.join('\n\n'),
+    ''
+  ].join('\n');
+}
+
+// Splits `https://api.example.com/users/{id}?page=2` or `{baseUrl}/users/{id}` into server, path and query
+function splitUrl(url: string): { server: string; path: string; query: string } {
+  const [withoutQuery, query = ''] = url.split(/\?(.*)/s);
+  const match = withoutQuery.match(/^([a-z][a-z0-9+.-]*:\/\/[^/]+|\{[^{}]+\})(\/.*)?$/i);
+  if (!match) {
+    return { server: '/', path: withoutQuery.startsWith('/') ? withoutQuery : `/${withoutQuery}`, query };
+  }
+  return { server: match[1], path: match[2] || '/', query };
+}
+
+function templateNames(text: string): string[] {
+  return Array.from(text.matchAll(TEMPLATE), match => match[1]);
+}
+
+function parameterObject(name: string, location: 'path' | 'query' | 'header', example?: string): Record<string, any> {
+  return {
+    name,
+    in: location,
+    ...(location === 'path' ? { required: true } : {}),
+    schema: { type: 'string' },
+    ...(example !== undefined ? { example } : {})
+  };
+}
+
+function requestBodyObject(endpoint: ApiEndpoint): Record<string, any> | undefined {
+  if (endpoint.body === undefined || endpoint.body === null || endpoint.body === '') {
+    return undefined;
+  }
+
+  const contentType = Object.entries(endpoint.headers || {})
+    .find(([name]) => name.toLowerCase() === 'content-type')?.[1] || (typeof endpoint.body === 'string' ? 'text/plain' : 'application/json');
+
+  let body = endpoint.body;
+  if (typeof body === 'string' && contentType.includes('json')) {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      // Templated bodies are not always valid JSON, keep them as an example
+    }
+  }
+
+  return {
+    content: {
+      [contentType]: { schema: inferSchema(body), example: body }
+    }
+  };
+}
+
+function responsesObject(response?: RecordedResponse): Record<string, any> {
+  if (!response) {
+    return { default: { description: 'No snapshot captured yet' } };
+  }
+
+  const contentType = (response.headers?.['content-type'] || 'application/json').split(';')[0].trim();
+  return {
+    [String(response.status)]: {
+      description: 'Response recorded in the latest snapshot',
+      ...(response.shape ? { content: { [contentType]: { schema: response.shape } } } : {})
+    }
+  };
+}
+
+// Double-quoted shell word with `{param}` templates as variables; endpoint values are written inline
+function shellTemplate(text: string, endpoint: ApiEndpoint, used: Set<string>): string {
+  let result = '';
+  let last = 0;
+  for (const match of text.matchAll(TEMPLATE)) {
+    result += escapeDoubleQuoted(text.slice(last, match.index));
+    const name = match[1];
+    if (endpoint.parameters && name in endpoint.parameters) {
+      result += escapeDoubleQuoted(endpoint.parameters[name]);
+    } else {
+      used.add(name);
+      result += `\${${shellVariable(name)}}`;
+    }
+    last = match.index! + match[0].length;
+  }
+  return `"${result}${escapeDoubleQuoted(text.slice(last))}"`;
+}
+
+function escapeDoubleQuoted(text: string): string {
+  return text.replace(/[\\"$`]/g, '\\$&');
+}
+
+// userId -> USER_ID
+function shellVariable(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/[^A-Za-z0-9]+/g, '_').replace(/^(\d)/, '_$1').toUpperCase();
+}
@@ -0,0 +1,314 @@
+import type { ApiSnapshot, DiffRule, ValuePatternType } from '../types.js';
+import { matchesPath } from './pathMatcher.js';
+
+// Dynamic Value Normalization
+// Replaces volatile values (timestamps, ids, etags, cursors) with placeholders before snapshots are diffed
+
+export const VALUE_PATTERNS: Record<ValuePatternType, RegExp> = {
+  'iso-date': /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/,
+  'http-date': /^[A-Z][a-z]{2}, \d{2} [A-Z][a-z]{2} \d{4} \d{2}:\d{2}:\d{2} GMT$/,
+  'epoch': /^1\d{9}(?:\d{3})?$/,
+  'uuid': /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  'hex-id': /^[0-9a-f]{24,64}$/i,
+  'etag': /^(?:W\/)?"[^"]*"$/,
+  'jwt': /^eyJ[A-Za-z0-9_-]*\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*$/
+};
+
+export interface NormalizationPreset {
+  description: string;
+  rules: DiffRule[];
+}
+
+export const NORMALIZATION_PRESETS: Record<string, NormalizationPreset> = {
+  timestamps: {
+    description: 'ISO 8601 dates anywhere and HTTP dates in headers',
+    rules: [
+      { path: 'response', normalize: { type: 'iso-date' } },
+      { path: 'response.headers', normalize: { type: 'http-date' } }
+    ]
+  },
+  identifiers: {
+    description: 'UUIDs anywhere and request/trace id headers',
+    rules: [
+      { path: 'response', normalize: { type: 'uuid' } },
+      {
+        path: 'response.headers',
+        normalize: {
+          selector: "$.response.headers['x-request-id','x-correlation-id','x-trace-id','x-amzn-trace-id','traceparent','cf-ray']",
+          placeholder: '<request-id>'
+        }
+      }
+    ]
+  },
+  etags: {
+    description: 'ETag headers and etag fields in the body',
+    rules: [
+      { path: 'response.headers.etag', normalize: { placeholder: '<etag>' } },
+      { path: 'response.data', normalize: { selector: '$.response.data..etag', placeholder: '<etag>' } }
+    ]
+  },
+  pagination: {
+    description: 'Pagination cursors and page tokens',
+    rules: [
+      {
+        path: 'response.data',
+        normalize: {
+          selector: "$.response.data..['cursor','nextCursor','next_cursor','prevCursor','prev_cursor','nextPageToken','next_page_token','continuationToken']",
+          placeholder: '<cursor>'
+        }
+      }
+    ]
+  },
+  tokens: {
+    description: 'JSON Web Tokens anywhere',
+    rules: [
+      { path: 'response', normalize: { type: 'jwt' } }
+    ]
+  }
+};
+
+// Expand preset names into rules, rejecting unknown presets so typos do not silently disable masking
+export function getNormalizationRules(presets: string[] = []): DiffRule[] {
+  return presets.flatMap(name => {
+    const preset = NORMALIZATION_PRESETS[name];
+    if (!preset) {
+      throw new Error(`Unknown normalization preset '${name}'. Available: ${Object.keys(NORMALIZATION_PRESETS).join(', ')}`);
+    }
+    return preset.rules;
+  });
+}
+
+interface NormalizationContext {
+  rules: Array<{ rule: DiffRule; pattern?: RegExp; selected?: Set<string> }>;
+}
+
+// Return a copy of the snapshot with matching header and body values replaced by placeholders
+export function normalizeSnapshot(snapshot: ApiSnapshot, rules: DiffRule[]): ApiSnapshot {
+  const normalizers = rules.filter(rule => rule.normalize);
+  if (normalizers.length === 0) {
+    return snapshot;
+  }
+
+  const context: NormalizationContext = {
+    rules: normalizers.map(rule => {
+      const { regex, type, selector } = rule.normalize!;
+      return {
+        rule,
+        pattern: regex ? new RegExp(regex) : type ? VALUE_PATTERNS[type] : undefined,
+        selected: selector ? new Set(selectJsonPath(snapshot, selector)) : undefined
+      };
+    })
+  };
+
+  return {
+    ...snapshot,
+    response: {
+      ...snapshot.response,
+      headers: normalizeNode(snapshot.response.headers, 'response.headers', context),
+      data: normalizeNode(snapshot.response.data, 'response.data', context)
+    }
+  };
+}
+
+function normalizeNode(value: any, path: string, context: NormalizationContext): any {
+  const placeholder = findPlaceholder(value, path, context);
+  if (placeholder !== undefined) {
+    return placeholder;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, index) => normalizeNode(item, `${path}[${index}]`, context));
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const normalized: Record<string, any> = {};
+    for (const [key, child] of Object.entries(value)) {
+      normalized[key] = normalizeNode(child, `${path}.${key}`, context);
+    }
+    return normalized;
+  }
+
+  return value;
+}
+
+function findPlaceholder(value: any, path: string, context: NormalizationContext): string | undefined {
+  const isContainer = typeof value === 'object' && value !== null;
+
+  for (const { rule, pattern, selected } of context.rules) {
+    if (!matchesPath(rule.path, path)) {
+      continue;
+    }
+    if (selected && !selected.has(path)) {
+      continue;
+    }
+
+    if (pattern) {
+      if ((typeof value !== 'string' && typeof value !== 'number') || !pattern.test(String(value))) {
+        continue;
+      }
+    } else if (isContainer && !selected) {
+      // A bare path masks the leaf values below it; only selectors replace whole subtrees
+      continue;
+    }
+
+    const { placeholder, type } = rule.normalize!;
+    return placeholder ?? `<${type ?? 'masked'}>`;
+  }
+
+  return undefined;
+}
+
+// JSONPath Selectors
+// Supports $, .name, ['name'], [n], [*], .*, ..name, ..* and unions like ['a','b'] or [0,1].
+// Selected nodes are returned as diff paths (e.g. `response.data.items[0].cursor`) or as values.
+
+type JsonPathSelector =
+  | { kind: 'name'; name: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' };
+
+interface JsonPathSegment {
+  recursive: boolean;
+  selectors: JsonPathSelector[];
+}
+
+interface JsonPathNode {
+  value: any;
+  path: string;
+}
+
+function queryJsonPath(root: any, expression: string): JsonPathNode[] {
+  let nodes: JsonPathNode[] = [{ value: root, path: '' }];
+
+  for (const segment of parseJsonPath(expression)) {
+    const sources = segment.recursive ? nodes.flatMap(descendantsOf) : nodes;
+    nodes = sources.flatMap(node => segment.selectors.flatMap(selector => selectChildren(node, selector)));
+  }
+
+  return nodes;
+}
+
+// Diff paths of the selected nodes
+export function selectJsonPath(root: any, expression: string): string[] {
+  return [...new Set(queryJsonPath(root, expression).map(node => node.path))];
+}
+
+// Values of the selected nodes, in document order
+export function selectJsonPathValues(root: any, expression: string): any[] {
+  return queryJsonPath(root, expression).map(node => node.value);
+}
+
+function parseJsonPath(expression: string): JsonPathSegment[] {
+  if (!expression.startsWith('$')) {
+    throw new Error(`Invalid JSONPath '${expression}': must start with '$'`);
+  }
+
+  const segments: JsonPathSegment[] = [];
+  let i = 1;
+
+  while (i < expression.length) {
+    let recursive = false;
+
+    if (expression.startsWith('..', i)) {
+      recursive = true;
+      i += 2;
+    } else if (expression[i] === '.') {
+      i += 1;
+    } else if (expression[i] !== '[') {
+      throw new Error(`Invalid JSONPath '${expression}' at position ${i}`);
+    }
+
+    if (expression[i] === '[') {
+      const end = findClosingBracket(expression, i);
+      segments.push({ recursive, selectors: parseBracket(expression.slice(i + 1, end)) });
+      i = end + 1;
+      continue;
+    }
+
+    const match = /^(\*|[^.[\]]+)/.exec(expression.slice(i));
+    if (!match) {
+      throw new Error(`Invalid JSONPath '${expression}' at position ${i}`);
+    }
+    segments.push({ recursive, selectors: [match[1] === '*' ? { kind: 'wildcard' } : { kind: 'name', name: match[1] }] });
+    i += match[1].length;
+  }
+
+  return segments;
+}
+
+function findClosingBracket(expression: string, start: number): number {
+  let quote: string | null = null;
+
+  for (let i = start + 1; i < expression.length; i++) {
+    const char = expression[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '\'' || char === '"') {
+      quote = char;
+    } else if (char === ']') {
+      return i;
+    }
+  }
+
+  throw new Error(`Invalid JSONPath '${expression}': unclosed '['`);
+}
+
+function parseBracket(content: string): JsonPathSelector[] {
+  const parts = content.match(/'[^']*'|"[^"]*"|[^,]+/g) || [];
+
+  return parts.map(part => part.trim()).filter(Boolean).map((part): JsonPathSelector => {
+    if (part === '*') {
+      return { kind: 'wildcard' };
+    }
+    if (/^-?\d+$/.test(part)) {
+      return { kind: 'index', index: parseInt(part, 10) };
+    }
+    if (/^(['"]).*\1$/.test(part)) {
+      return { kind: 'name', name: part.slice(1, -1) };
+    }
+    return { kind: 'name', name: part };
+  });
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+function selectChildren(node: JsonPathNode, selector: JsonPathSelector): JsonPathNode[] {
+  const { value, path } = node;
+  if (typeof value !== 'object' || value === null) {
+    return [];
+  }
+
+  if (Array.isArray(value)) {
+    if (selector.kind === 'wildcard') {
+      return value.map((item, index) => ({ value: item, path: childPath(path, index) }));
+    }
+    if (selector.kind === 'index') {
+      const index = selector.index < 0 ? value.length + selector.index : selector.index;
+      return index >= 0 && index < value.length ? [{ value: value[index], path: childPath(path, index) }] : [];
+    }
+    return [];
+  }
+
+  if (selector.kind === 'wildcard') {
+    return Object.entries(value).map(([key, child]) => ({ value: child, path: childPath(path, key) }));
+  }
+  if (selector.kind === 'name' && Object.prototype.hasOwnProperty.call(value, selector.name)) {
+    return [{ value: value[selector.name], path: childPath(path, selector.name) }];
+  }
+  return [];
+}
+
+function descendantsOf(node: JsonPathNode): JsonPathNode[] {
+  const result: JsonPathNode[] = [node];
+  for (const child of selectChildren(node, { kind: 'wildcard' })) {
+    result.push(...descendantsOf(child));
+  }
+  return result;
+}
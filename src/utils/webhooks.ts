@@ -0,0 +1,321 @@
+import type { SnapshotComparison, SnapshotDiff, WebhookFormat, WebhookTarget } from '../types.js';
+import { isRetryableStatus, nextRetryDelay, resolveRetryPolicy } from './retryPolicy.js';
+import { sleep } from './rateLimiter.js';
+
+// Webhook Notifications
+// A capture run whose comparisons find differences of at least a target's `minSeverity` is posted to that target
+// as one message listing the changed endpoints. `generic` is a JSON document for custom receivers, `slack` uses
+// Block Kit (incoming webhooks and workflow triggers) and `teams` an Adaptive Card (Teams incoming webhooks and
+// Workflows). Failed deliveries are retried like captures: network errors, 5xx and 429 with backoff.
+
+export type WebhookEvent = 'comparison.changes' | 'webhook.test';
+
+export interface WebhookNotification {
+  event: WebhookEvent;
+  space: string;
+  runId?: string;
+  trigger?: string; // 'manual' or 'schedule'
+  comparisons: SnapshotComparison[]; // Comparisons with differences, one per endpoint
+  timestamp: string;
+}
+
+export interface WebhookDelivery {
+  status: 'delivered' | 'failed';
+  attempts: number;
+  responseStatus?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export const WEBHOOK_FORMATS: WebhookFormat[] = ['generic', 'slack', 'teams'];
+
+const SEVERITY_RANK: Record<SnapshotDiff['severity'], number> = { informational: 0, 'non-breaking': 1, breaking: 2 };
+
+const DELIVERY_TIMEOUT_MS = 10000;
+const MAX_ENDPOINTS = 10; // Listed in chat messages; the generic payload lists every endpoint
+const MAX_DIFFERENCES = 5; // Per endpoint in chat messages
+const MAX_GENERIC_DIFFERENCES = 50;
+
+function summarize(differences: SnapshotDiff[]) {
+  return {
+    total: differences.length,
+    breaking: differences.filter(d => d.severity === 'breaking').length,
+    nonBreaking: differences.filter(d => d.severity === 'non-breaking').length,
+    informational: differences.filter(d => d.severity === 'informational').length
+  };
+}
+
+function describeCounts(differences: SnapshotDiff[]): string {
+  const summary = summarize(differences);
+  return [
+    summary.breaking && `${summary.breaking} breaking`,
+    summary.nonBreaking && `${summary.nonBreaking} non-breaking`,
+    summary.informational && `${summary.informational} informational`
+  ].filter(Boolean).join(', ');
+}
+
+function describeDifference(difference: SnapshotDiff): string {
+  return `\`${difference.path}\` ${difference.type} (${difference.severity})`;
+}
+
+// Most severe first, so the truncated lists of chat messages keep the breaking ones
+function bySeverity(differences: SnapshotDiff[]): SnapshotDiff[] {
+  return [...differences].sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+}
+
+function notificationTitle(notification: WebhookNotification): string {
+  if (notification.event === 'webhook.test') {
+    return `Test notification for space '${notification.space}'`;
+  }
+  const summary = summarize(notification.comparisons.flatMap(comparison => comparison.differences));
+  return summary.breaking > 0
+    ? `${summary.breaking} breaking change(s) in space '${notification.space}'`
+    : `${summary.total} change(s) in space '${notification.space}'`;
+}
+
+function notificationContext(notification: WebhookNotification): Array<[string, string]> {
+  return [
+    ['Space', notification.space],
+    ...(notification.runId ? [['Run', notification.runId] as [string, string]] : []),
+    ...(notification.trigger ? [['Trigger', notification.trigger] as [string, string]] : []),
+    ['Endpoints changed', String(notification.comparisons.length)]
+  ];
+}
+
+// Whether a comparison has a difference the target is interested in
+export function meetsMinSeverity(comparison: SnapshotComparison, minSeverity: SnapshotDiff['severity'] = 'breaking'): boolean {
+  return comparison.differences.some(difference => SEVERITY_RANK[difference.severity] >= SEVERITY_RANK[minSeverity]);
+}
+
+export function buildWebhookPayload(format: WebhookFormat, notification: WebhookNotification): Record<string, any> {
+  switch (format) {
+    case 'slack':
+      return buildSlackPayload(notification);
+    case 'teams':
+      return buildTeamsPayload(notification);
+    default:
+      return buildGenericPayload(notification);
+  }
+}
+
+function buildGenericPayload(notification: WebhookNotification) {
+  return {
+    event: notification.event,
+    space: notification.space,
+    ...(notification.runId ? { runId: notification.runId } : {}),
+    ...(notification.trigger ? { trigger: notification.trigger } : {}),
+    timestamp: notification.timestamp,
+    summary: {
+      changedEndpoints: notification.comparisons.length,
+      ...summarize(notification.comparisons.flatMap(comparison => comparison.differences))
+    },
+    endpoints: notification.comparisons.map(comparison => ({
+      endpoint: comparison.endpoint,
+      summary: summarize(comparison.differences),
+      differences: bySeverity(comparison.differences).slice(0, MAX_GENERIC_DIFFERENCES).map(difference => ({
+        path: difference.path,
+        type: difference.type,
+        severity: difference.severity,
+        ...(difference.oldValue !== undefined ? { oldValue: difference.oldValue } : {}),
+        ...(difference.newValue !== undefined ? { newValue: difference.newValue } : {})
+      })),
+      baselineTimestamp: comparison.baseline.timestamp,
+      currentTimestamp: comparison.current.timestamp
+    }))
+  };
+}
+
+function endpointLines(comparison: SnapshotComparison, bullet: string): string {
+  const differences = bySeverity(comparison.differences);
+  const lines = differences.slice(0, MAX_DIFFERENCES).map(difference => `${bullet} ${describeDifference(difference)}`);
+  if (differences.length > MAX_DIFFERENCES) {
+    lines.push(`${bullet} ...and ${differences.length - MAX_DIFFERENCES} more`);
+  }
+  return lines.join('\n');
+}
+
+function buildSlackPayload(notification: WebhookNotification) {
+  const title = notificationTitle(notification);
+  const shown = notification.comparisons.slice(0, MAX_ENDPOINTS);
+  const hidden = notification.comparisons.length - shown.length;
+
+  return {
+    text: title, // Fallback for notifications and clients without blocks
+    blocks: [
+      { type: 'header', text: { type: 'plain_text', text: title.slice(0, 150) } },
+      {
+        type: 'section',
+        fields: notificationContext(notification).map(([label, value]) => ({ type: 'mrkdwn', text: `*${label}:* ${value}` }))
+      },
+      ...shown.map(comparison => ({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*${comparison.endpoint}*: ${describeCounts(comparison.differences)}\n${endpointLines(comparison, '•')}`.slice(0, 3000)
+        }
+      })),
+      ...(hidden > 0 ? [{ type: 'context', elements: [{ type: 'mrkdwn', text: `...and ${hidden} more endpoint(s)` }] }] : [])
+    ]
+  };
+}
+
+function buildTeamsPayload(notification: WebhookNotification) {
+  const title = notificationTitle(notification);
+  const breaking = notification.comparisons.some(comparison => meetsMinSeverity(comparison, 'breaking'));
+  const shown = notification.comparisons.slice(0, MAX_ENDPOINTS);
+  const hidden = notification.comparisons.length - shown.length;
+
+  return {
+    type: 'message',
+    attachments: [{
+      contentType: 'application/vnd.microsoft.card.adaptive',
+      contentUrl: null,
+      content: {
+        $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+        type: 'AdaptiveCard',
+        version: '1.4',
+        body: [
+          { type: 'TextBlock', text: title, size: 'Medium', weight: 'Bolder', wrap: true, color: breaking ? 'Attention' : 'Warning' },
+          { type: 'FactSet', facts: notificationContext(notification).map(([label, value]) => ({ title: label, value })) },
+          ...shown.flatMap(comparison => [
+            { type: 'TextBlock', text: `**${comparison.endpoint}**: ${describeCounts(comparison.differences)}`, wrap: true },
+            { type: 'TextBlock', text: endpointLines(comparison, '-'), wrap: true, spacing: 'None' }
+          ]),
+          ...(hidden > 0 ? [{ type: 'TextBlock', text: `...and ${hidden} more endpoint(s)`, isSubtle: true, wrap: true }] : [])
+        ]
+      }
+    }]
+  };
+}
+
+// Posts the payload, retrying network errors, 5xx and 429 per the target's retry policy. Other responses
+// (including 4xx, which a retry will not fix) end the delivery.
+export async function deliverWebhook(
+  target: Pick<WebhookTarget, 'url' | 'headers' | 'retry'>,
+  payload: unknown,
+  wait: (ms: number) => Promise<void> = sleep
+): Promise<WebhookDelivery> {
+  const policy = resolveRetryPolicy(target.retry);
+  const start = Date.now();
+  const body = JSON.stringify(payload);
+
+  for (let attempt = 1; ; attempt++) {
+    let responseStatus: number | undefined;
+    let retryAfter: string | undefined;
+    let error: string | undefined;
+
+    try {
+      const response = await fetch(target.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'User-Agent': 'api-snapshot-verifier', ...target.headers },
+        body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+      });
+      responseStatus = response.status;
+      retryAfter = response.headers.get('retry-after') ?? undefined;
+      await response.arrayBuffer().catch(() => undefined);
+    } catch (failure) {
+      error = failure instanceof Error ? failure.message : String(failure);
+    }
+
+    if (responseStatus !== undefined && responseStatus < 300) {
+      return { status: 'delivered', attempts: attempt, responseStatus, durationMs: Date.now() - start };
+    }
+
+    const retryable = responseStatus === undefined || isRetryableStatus(responseStatus);
+    const delayMs = retryable ? nextRetryDelay(attempt, policy, retryAfter) : undefined;
+    if (delayMs === undefined) {
+      return {
+        status: 'failed',
+        attempts: attempt,
+        ...(responseStatus !== undefined ? { responseStatus } : {}),
+        error: error || `HTTP ${responseStatus}`,
+        durationMs: Date.now() - start
+      };
+    }
+    await wait(delayMs);
+  }
+}
+
+// Sample notification for the "test webhook" route, so the target shows what a real message looks like
+export function testNotification(space: string): WebhookNotification {
+  const timestamp = new Date().toISOString();
+  const snapshot = (data: any) => ({
+    endpoint: { name: 'example-endpoint', url: 'https://api.example.com/users/1', method: 'GET' as const },
+    timestamp,
+    response: { status: 200, headers: {}, data, duration: 120 },
+    metadata: { version: '1.0.0' }
+  });
+
+  return {
+    event: 'webhook.test',
+    space,
+    timestamp,
+    comparisons: [{
+      endpoint: 'example-endpoint',
+      baseline: snapshot({ id: 1, email: 'user@example.com' }),
+      current: snapshot({ id: '1' }),
+      differences: [
+        { path: 'response.data.email', type: 'removed', oldValue: 'user@example.com', severity: 'breaking' },
+        { path: 'response.data.id', type: 'changed', oldValue: 1, newValue: '1', severity: 'breaking' }
+      ],
+      hasChanges: true
+    }]
+  };
+}
+
+// Shows where a webhook posts without revealing the token in its path
+export function maskWebhookUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.pathname === '/' && !parsed.search ? parsed.origin : `${parsed.origin}/********`;
+  } catch {
+    return '********';
+  }
+}
+
+// Returns an error message for an invalid target, or null when it is acceptable
+export function validateWebhookTarget(target: Partial<WebhookTarget>, partial = false): string | null {
+  if (!partial && (typeof target.name !== 'string' || !/^[A-Za-z0-9_.-]+$/.test(target.name))) {
+    return 'name is required (letters, digits, _, . and -)';
+  }
+  if ((!partial || target.url !== undefined) && (typeof target.url !== 'string' || !/^https?:\/\/[^/]+/i.test(target.url))) {
+    return 'url must be an http(s) URL';
+  }
+  if (target.format !== undefined && !WEBHOOK_FORMATS.includes(target.format)) {
+    return `format must be one of ${WEBHOOK_FORMATS.join(', ')}`;
+  }
+  if (target.minSeverity !== undefined && !Object.keys(SEVERITY_RANK).includes(target.minSeverity)) {
+    return 'minSeverity must be breaking, non-breaking or informational';
+  }
+  if (target.headers !== undefined && (typeof target.headers !== 'object' || target.headers === null || Array.isArray(target.headers) ||
+      Object.values(target.headers).some(value => typeof value !== 'string'))) {
+    return 'headers must be an object of strings';
+  }
+  if (target.enabled !== undefined && typeof target.enabled !== 'boolean') {
+    return 'enabled must be a boolean';
+  }
+  return null;
+}
+
+export function webhookTargetFromRecord(record: {
+  name: string;
+  url: string;
+  format: string;
+  min_severity: string;
+  headers?: string;
+  retry?: string;
+  enabled: number;
+  description?: string;
+}): WebhookTarget {
+  return {
+    name: record.name,
+    url: record.url,
+    format: record.format as WebhookFormat,
+    minSeverity: record.min_severity as SnapshotDiff['severity'],
+    headers: record.headers ? JSON.parse(record.headers) : {},
+    ...(record.retry ? { retry: JSON.parse(record.retry) } : {}),
+    enabled: Boolean(record.enabled),
+    ...(record.description ? { description: record.description } : {})
+  };
+}
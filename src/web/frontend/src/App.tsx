@@ -8,6 +8,7 @@ import Compare from '@/pages/Compare'
 import Plugins from '@/pages/Plugins'
 import SettingsLocal from '@/pages/SettingsLocal'
 import Parameters from '@/pages/Parameters'
+import AuthProfiles from '@/pages/AuthProfiles'
 import SpaceManagement from '@/pages/SpaceManagement'
 import BackendSetupWizard from '@/components/BackendSetupWizard'
 import { useBackendConfig } from '@/hooks/useBackendConfig'
@@ -34,6 +35,7 @@ function App() {
         <Route path="snapshots/:id" element={<SnapshotDetail />} />
         <Route path="compare" element={<Compare />} />
         <Route path="parameters" element={<Parameters />} />
+        <Route path="auth-profiles" element={<AuthProfiles />} />
         <Route path="plugins" element={<Plugins />} />
         <Route path="settings" element={<SettingsLocal />} />
         <Route path="spaces" element={<SpaceManagement />} />
@@ -0,0 +1,44 @@
+import { BaseApiClient } from '@/api/base/client'
+import { ApiResponse } from '@/api/base/types'
+
+export interface AuthProfile {
+  id: number
+  name: string
+  type: string
+  config: Record<string, any>
+  description?: string
+  usedBy: string[]
+  createdAt: string
+  updatedAt: string
+}
+
+export interface AuthProfileInput {
+  name?: string
+  type?: string
+  config?: Record<string, any>
+  description?: string
+}
+
+export class AuthProfilesApi extends BaseApiClient {
+  async getAll(space: string): Promise<AuthProfile[]> {
+    const response = await this.get<ApiResponse<AuthProfile[]>>(`/spaces/${space}/auth-profiles`)
+    return response.data || []
+  }
+
+  async create(space: string, profile: AuthProfileInput): Promise<AuthProfile> {
+    const response = await this.post<ApiResponse<AuthProfile>>(`/spaces/${space}/auth-profiles`, profile)
+    return response.data!
+  }
+
+  async update(space: string, name: string, profile: AuthProfileInput): Promise<AuthProfile> {
+    const response = await this.put<ApiResponse<AuthProfile>>(`/spaces/${space}/auth-profiles/${encodeURIComponent(name)}`, profile)
+    return response.data!
+  }
+
+  async deleteProfile(space: string, name: string): Promise<void> {
+    await super.delete(`/spaces/${space}/auth-profiles/${encodeURIComponent(name)}`)
+  }
+}
+
+// Export singleton instance
+export const authProfilesApi = new AuthProfilesApi()
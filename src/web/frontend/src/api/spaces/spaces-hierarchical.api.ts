@@ -1,5 +1,5 @@
 import { BaseApiClient } from '../base/client';
-import type { Space, ApiEndpoint, Snapshot } from '@/types';
+import type { Space, ApiEndpoint, Snapshot, EndpointLatency } from '@/types';
 
 /**
  * Hierarchical Spaces API Client
@@ -78,6 +78,28 @@ export class SpacesHierarchicalApi extends BaseApiClient {
     return response.data;
   }
 
+  /**
+   * Response time history and rolling percentiles of an endpoint
+   * GET /api/spaces/:space/endpoints/:endpoint/latency
+   */
+  async getEndpointLatency(
+    spaceName: string,
+    endpointName: string,
+    options?: { limit?: number; window?: number }
+  ): Promise<EndpointLatency> {
+    const params = new URLSearchParams();
+    if (options?.limit) {
+      params.append('limit', options.limit.toString());
+    }
+    if (options?.window) {
+      params.append('window', options.window.toString());
+    }
+
+    const url = `/api/spaces/${encodeURIComponent(spaceName)}/endpoints/${encodeURIComponent(endpointName)}/latency${params.toString() ? `?${params}` : ''}`;
+    const response = await this.get<{ data: EndpointLatency }>(url);
+    return response.data;
+  }
+
   /**
    * Capture snapshots for entire space
    * POST /api/spaces/:space/snapshots/capture
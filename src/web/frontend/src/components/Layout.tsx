@@ -12,7 +12,8 @@ import {
   X,
   ChevronLeft,
   ChevronRight,
-  Database
+  Database,
+  KeyRound
 } from 'lucide-react'
 import { useState, useEffect } from 'react'
 import { cn } from '@/lib/utils'
@@ -28,6 +29,7 @@ const navigation = [
   { name: 'Snapshots', href: '/snapshots', icon: Camera },
   { name: 'Compare', href: '/compare', icon: GitCompare },
   { name: 'Parameters', href: '/parameters', icon: Settings },
+  { name: 'Auth Profiles', href: '/auth-profiles', icon: KeyRound },
   { name: 'Spaces', href: '/spaces', icon: Database },
   { name: 'Plugins', href: '/plugins', icon: Puzzle },
   { name: 'Settings', href: '/settings', icon: Settings },
@@ -1,15 +1,17 @@
-import React from 'react';
-import { Edit3, Trash2, Copy, Play, Loader2, Camera, Clock } from 'lucide-react';
+import React, { useState } from 'react';
+import { Edit3, Trash2, Copy, Play, Loader2, Camera, Clock, Activity } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { useEndpointStats, formatEndpointStats } from '@/hooks/endpoints/useEndpointStats';
 import { getMethodColor, HTTP_METHOD } from '@/constants/httpMethods';
 import type { ApiEndpoint } from '@/types';
+import { LatencyChart } from './LatencyChart';
 import toast from '@/components/ui/toast';
 
 export interface EndpointCardProps {
   endpoint: ApiEndpoint;
   snapshots: any[];
+  space?: string; // Enables the response time chart
   isSelected?: boolean;
   selectionMode?: boolean;
   isSnapshotting?: boolean;
@@ -28,6 +30,7 @@ export interface EndpointCardProps {
 export function EndpointCard({
   endpoint,
   snapshots,
+  space,
   isSelected = false,
   selectionMode = false,
   isSnapshotting = false,
@@ -42,6 +45,7 @@ export function EndpointCard({
   const stats = useEndpointStats(endpoint.name, snapshots);
   const formattedStats = formatEndpointStats(stats);
   const methodColors = getMethodColor(endpoint.method);
+  const [showLatency, setShowLatency] = useState(false);
 
   const handleCopyTimestamp = async () => {
     if (!stats.lastSnapshot) return;
@@ -130,6 +134,19 @@ export function EndpointCard({
 
           {/* Action buttons */}
           <div className="flex items-center gap-1">
+            {space && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowLatency(!showLatency)}
+                className={`h-8 w-8 lg:w-auto lg:px-3 p-0 lg:gap-2 text-muted-foreground hover:text-foreground ${showLatency ? 'bg-accent' : ''}`}
+                title="Show response times of the captures with rolling p50/p95/p99"
+              >
+                <Activity className="h-3 w-3" />
+                <span className="hidden lg:inline text-xs">Latency</span>
+              </Button>
+            )}
+
             <Button
               variant="outline"
               size="sm"
@@ -243,6 +260,9 @@ export function EndpointCard({
               </div>
             </div>
           )}
+
+          {/* Response times */}
+          {space && showLatency && <LatencyChart space={space} endpoint={endpoint.name} />}
         </div>
       </CardContent>
     </Card>
@@ -8,6 +8,7 @@ import { getSpaceParameterManager } from '@/utils/spaceParameterManager';
 import { useSpace } from '@/contexts/SpaceContext';
 import { RequestBodyField, HeadersSection, ParametersSection } from './EndpointFormComponents';
 import type { ApiEndpoint } from '@/types';
+import { authProfilesApi, type AuthProfile } from '@/api/auth-profiles/auth-profiles.api';
 import toast from '@/components/ui/toast';
 
 export interface EndpointFormProps {
@@ -50,6 +51,15 @@ export function EndpointForm({
   const [preservedBody, setPreservedBody] = useState(endpoint?.body || '');
   const [showParameters, setShowParameters] = useState(false);
   const [endpointParams, setEndpointParams] = useState<any>(null);
+  const [authProfiles, setAuthProfiles] = useState<AuthProfile[]>([]);
+
+  // Auth profiles the endpoint can reference
+  useEffect(() => {
+    authProfilesApi
+      .getAll(currentSpace)
+      .then(setAuthProfiles)
+      .catch(() => setAuthProfiles([]));
+  }, [currentSpace]);
 
   // Handle ESC key to cancel
   useEffect(() => {
@@ -368,6 +378,30 @@ export function EndpointForm({
               setIsCustomValue={setIsCustomValue}
             />
 
+            {/* Authentication */}
+            <div>
+              <label className="text-sm font-medium">Auth Profile</label>
+              <select
+                value={formData.auth?.profile || ''}
+                onChange={(e) => {
+                  const auth = { ...formData.auth };
+                  delete auth.profile;
+                  if (e.target.value) {
+                    auth.profile = e.target.value;
+                  }
+                  setFormData({ ...formData, auth });
+                }}
+                className="w-full mt-1 px-3 py-2 border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-background text-foreground text-sm"
+              >
+                <option value="">None</option>
+                {authProfiles.map((profile) => (
+                  <option key={profile.name} value={profile.name}>
+                    {profile.name} ({profile.type})
+                  </option>
+                ))}
+              </select>
+            </div>
+
             {/* Parameters */}
             {endpointParams && endpointParams.totalCount > 0 && (
               <ParametersSection
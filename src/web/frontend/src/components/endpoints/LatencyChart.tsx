@@ -0,0 +1,96 @@
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+import { useApiQuery } from '@/hooks/api/useApiQuery';
+import { spacesHierarchicalApi } from '@/api/spaces/spaces-hierarchical.api';
+import type { EndpointLatency } from '@/types';
+
+export interface LatencyChartProps {
+  space: string;
+  endpoint: string;
+  limit?: number;
+  className?: string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 120;
+const PADDING = 4;
+
+const SERIES = [
+  { key: 'duration', label: 'Response time', className: 'stroke-gray-400 dark:stroke-gray-500' },
+  { key: 'p50', label: 'p50', className: 'stroke-blue-500' },
+  { key: 'p95', label: 'p95', className: 'stroke-amber-500' },
+  { key: 'p99', label: 'p99', className: 'stroke-red-500' },
+] as const;
+
+/**
+ * Response times of an endpoint's captures with rolling p50/p95/p99
+ */
+export function LatencyChart({ space, endpoint, limit = 100, className = '' }: LatencyChartProps) {
+  const { data, isLoading, error } = useApiQuery<EndpointLatency>(
+    ['endpoint-latency', space, endpoint, limit],
+    () => spacesHierarchicalApi.getEndpointLatency(space, endpoint, { limit }),
+    { staleTime: 30 * 1000 }
+  );
+
+  if (isLoading) {
+    return (
+      <div className={`flex items-center gap-2 text-xs text-muted-foreground ${className}`}>
+        <Loader2 className="h-3 w-3 animate-spin" /> Loading response times...
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return <div className={`text-xs text-red-600 ${className}`}>Failed to load response times</div>;
+  }
+
+  if (data.points.length === 0) {
+    return <div className={`text-xs text-muted-foreground ${className}`}>No successful captures yet</div>;
+  }
+
+  const max = Math.max(...data.points.flatMap(point => [point.duration, point.p99]), 1);
+  const x = (index: number) => data.points.length === 1
+    ? WIDTH / 2
+    : PADDING + (index / (data.points.length - 1)) * (WIDTH - 2 * PADDING);
+  const y = (value: number) => HEIGHT - PADDING - (value / max) * (HEIGHT - 2 * PADDING);
+
+  return (
+    <div className={`bg-gray-50 dark:bg-gray-800 p-2 rounded ${className}`}>
+      <div className="flex items-center justify-between text-xs mb-1">
+        <span className="font-medium text-gray-600 dark:text-gray-400">
+          Response time (last {data.points.length} captures, window {data.window})
+        </span>
+        {data.stats && (
+          <span className="font-mono text-gray-700 dark:text-gray-300">
+            p50 {data.stats.p50} ms · p95 {data.stats.p95} ms · p99 {data.stats.p99} ms
+          </span>
+        )}
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-28" preserveAspectRatio="none" role="img" aria-label={`Response times of ${endpoint}`}>
+        {SERIES.map(series => (
+          <polyline
+            key={series.key}
+            fill="none"
+            strokeWidth={series.key === 'duration' ? 1 : 1.5}
+            vectorEffect="non-scaling-stroke"
+            className={series.className}
+            points={data.points.map((point, index) => `${x(index)},${y(point[series.key])}`).join(' ')}
+          >
+            <title>{series.label}</title>
+          </polyline>
+        ))}
+      </svg>
+
+      <div className="flex gap-3 text-xs text-muted-foreground mt-1">
+        {SERIES.map(series => (
+          <span key={series.key} className="flex items-center gap-1">
+            <svg width="12" height="2"><line x1="0" y1="1" x2="12" y2="1" strokeWidth="2" className={series.className} /></svg>
+            {series.label}
+          </span>
+        ))}
+        <span className="ml-auto">max {max} ms</span>
+      </div>
+    </div>
+  );
+}
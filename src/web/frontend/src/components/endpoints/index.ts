@@ -1,2 +1,3 @@
 export * from './EndpointCard';
-export * from './EndpointForm';
\ No newline at end of file
+export * from './EndpointForm';
+export * from './LatencyChart';
\ No newline at end of file
@@ -0,0 +1,298 @@
+import { useState, useEffect } from 'react'
+import { useSpace } from '@/contexts/SpaceContext'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { KeyRound, Save, Trash2, Edit3, Plus } from 'lucide-react'
+import { useNavigate } from 'react-router-dom'
+import { toast } from '@/components/ui/toast'
+import { authProfilesApi, type AuthProfile } from '@/api/auth-profiles/auth-profiles.api'
+import { PageLayout, PageSection } from '@/components/shared'
+
+const AUTH_TYPES = ['bearer', 'apikey', 'basic', 'oauth2']
+
+// Starting configuration for each provider type; `{param}` values come from space parameters
+const CONFIG_TEMPLATES: Record<string, Record<string, any>> = {
+  bearer: { token: '{authToken}' },
+  apikey: { headerName: 'X-API-Key', key: '{apiKey}' },
+  basic: { username: '{username}', password: '{password}' },
+  oauth2: {
+    tokenUrl: 'https://auth.example.com/oauth/token',
+    grantType: 'client_credentials',
+    clientId: '{clientId}',
+    clientSecretParam: 'clientSecret',
+    scope: ''
+  }
+}
+
+interface ProfileForm {
+  name: string
+  type: string
+  config: string
+  description: string
+}
+
+const emptyForm = (): ProfileForm => ({
+  name: '',
+  type: 'bearer',
+  config: JSON.stringify(CONFIG_TEMPLATES.bearer, null, 2),
+  description: ''
+})
+
+export default function AuthProfiles() {
+  const { currentSpace } = useSpace()
+  const navigate = useNavigate()
+
+  const [profiles, setProfiles] = useState<AuthProfile[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [editing, setEditing] = useState<string | null>(null) // Profile name, '' for a new profile
+  const [form, setForm] = useState<ProfileForm>(emptyForm())
+
+  useEffect(() => {
+    loadProfiles()
+  }, [currentSpace])
+
+  const loadProfiles = async () => {
+    setIsLoading(true)
+    try {
+      setProfiles(await authProfilesApi.getAll(currentSpace))
+    } catch (error) {
+      console.error('Failed to load auth profiles:', error)
+      toast.error('Failed to load auth profiles')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const startCreate = () => {
+    setForm(emptyForm())
+    setEditing('')
+  }
+
+  const startEdit = (profile: AuthProfile) => {
+    setForm({
+      name: profile.name,
+      type: profile.type,
+      config: JSON.stringify(profile.config, null, 2),
+      description: profile.description || ''
+    })
+    setEditing(profile.name)
+  }
+
+  const handleTypeChange = (type: string) => {
+    // Swap in the template unless the configuration was edited
+    const untouched = form.config === JSON.stringify(CONFIG_TEMPLATES[form.type] || {}, null, 2)
+    setForm({
+      ...form,
+      type,
+      config: untouched ? JSON.stringify(CONFIG_TEMPLATES[type] || {}, null, 2) : form.config
+    })
+  }
+
+  const handleSave = async () => {
+    let config: Record<string, any>
+    try {
+      config = JSON.parse(form.config || '{}')
+    } catch {
+      toast.error('Configuration must be valid JSON')
+      return
+    }
+
+    try {
+      if (editing) {
+        await authProfilesApi.update(currentSpace, editing, { type: form.type, config, description: form.description })
+        toast.success(`Auth profile "${editing}" updated`)
+      } else {
+        if (!form.name.trim()) {
+          toast.error('Profile name is required')
+          return
+        }
+        await authProfilesApi.create(currentSpace, { name: form.name.trim(), type: form.type, config, description: form.description })
+        toast.success(`Auth profile "${form.name.trim()}" created`)
+      }
+      setEditing(null)
+      await loadProfiles()
+    } catch (error) {
+      console.error('Failed to save auth profile:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to save auth profile')
+    }
+  }
+
+  const handleDelete = async (profile: AuthProfile) => {
+    if (profile.usedBy.length > 0) {
+      toast.error(`"${profile.name}" is used by ${profile.usedBy.join(', ')}`)
+      return
+    }
+    if (!confirm(`Delete auth profile "${profile.name}"? This action cannot be undone.`)) {
+      return
+    }
+
+    try {
+      await authProfilesApi.deleteProfile(currentSpace, profile.name)
+      setProfiles(prev => prev.filter(p => p.name !== profile.name))
+      toast.success(`Auth profile "${profile.name}" deleted`)
+    } catch (error) {
+      console.error('Failed to delete auth profile:', error)
+      toast.error(`Failed to delete auth profile "${profile.name}"`)
+    }
+  }
+
+  const headerActions = (
+    <Button size="sm" onClick={startCreate} className="gap-2" disabled={editing !== null}>
+      <Plus className="h-4 w-4" />
+      Add Profile
+    </Button>
+  )
+
+  return (
+    <PageLayout
+      title="Auth Profiles"
+      subtitle={currentSpace ? `Authentication settings for ${currentSpace}` : undefined}
+      loading={isLoading}
+      showRefreshButton
+      onRefresh={loadProfiles}
+      actions={headerActions}
+    >
+      <PageSection>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-start gap-3">
+              <KeyRound className="h-5 w-5 text-blue-600 mt-0.5" />
+              <p className="text-sm text-muted-foreground">
+                Endpoints use a profile with <code>{'"auth": { "profile": "name" }'}</code>. Values like {'{clientSecret}'} are
+                taken from the space parameters when a snapshot is captured, so secrets do not have to be stored in the profile.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      </PageSection>
+
+      {editing !== null && (
+        <PageSection>
+          <Card className="border-blue-200 bg-blue-50 dark:bg-blue-950/20 dark:border-blue-800">
+            <CardHeader>
+              <CardTitle className="text-lg">{editing ? `Edit "${editing}"` : 'Add Auth Profile'}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                <div className="flex gap-4">
+                  <div className="flex-1">
+                    <label className="text-sm font-medium">Name</label>
+                    <input
+                      type="text"
+                      value={form.name}
+                      onChange={(e) => setForm({ ...form, name: e.target.value })}
+                      disabled={!!editing}
+                      placeholder="e.g., staging-oauth"
+                      className="w-full mt-1 px-3 py-2 border border-input rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-ring"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium">Type</label>
+                    <select
+                      value={form.type}
+                      onChange={(e) => handleTypeChange(e.target.value)}
+                      className="w-full mt-1 px-3 py-2 border border-input rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-ring"
+                    >
+                      {AUTH_TYPES.map(type => (
+                        <option key={type} value={type}>{type}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Configuration (JSON)</label>
+                  <textarea
+                    value={form.config}
+                    onChange={(e) => setForm({ ...form, config: e.target.value })}
+                    rows={8}
+                    className="w-full mt-1 px-3 py-2 font-mono text-sm border border-input rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-ring"
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Description</label>
+                  <input
+                    type="text"
+                    value={form.description}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                    className="w-full mt-1 px-3 py-2 border border-input rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-ring"
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button onClick={handleSave} className="gap-2">
+                    <Save className="h-4 w-4" />
+                    Save Profile
+                  </Button>
+                  <Button variant="outline" onClick={() => setEditing(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </PageSection>
+      )}
+
+      <PageSection title="Profiles">
+        {profiles.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <KeyRound className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No auth profiles defined yet.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4">
+            {profiles.map(profile => (
+              <Card key={profile.name} className="hover:shadow-md transition-shadow">
+                <CardContent className="pt-6">
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-3 mb-2">
+                        <h3 className="font-mono text-lg font-semibold">{profile.name}</h3>
+                        <span className="text-xs bg-muted text-muted-foreground px-2 py-1 rounded">{profile.type}</span>
+                      </div>
+                      {profile.description && (
+                        <p className="text-sm text-muted-foreground mb-2">{profile.description}</p>
+                      )}
+                      <pre className="bg-muted px-3 py-2 rounded text-xs overflow-x-auto mb-3">
+                        {JSON.stringify(profile.config, null, 2)}
+                      </pre>
+                      {profile.usedBy.length > 0 && (
+                        <div className="text-sm text-muted-foreground">
+                          Used by: {profile.usedBy.map((endpoint, index) => (
+                            <span key={endpoint}>
+                              <button
+                                onClick={() => navigate(`/endpoints?space=${currentSpace}&highlight=${encodeURIComponent(endpoint)}`)}
+                                className="text-primary hover:text-primary/80 hover:underline"
+                              >
+                                {endpoint}
+                              </button>
+                              {index < profile.usedBy.length - 1 && ', '}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button variant="outline" size="sm" onClick={() => startEdit(profile)} disabled={editing !== null}>
+                        <Edit3 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(profile)}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </PageSection>
+    </PageLayout>
+  )
+}
@@ -686,6 +686,7 @@ export default function Endpoints() {
                 key={endpoint.name}
                 endpoint={endpoint}
                 snapshots={snapshots}
+                space={currentSpace || undefined}
                 isSelected={selection.isSelected(endpoint.name)}
                 selectionMode={selection.selectionMode}
                 isSnapshotting={snapshotting.has(endpoint.name)}
@@ -8,6 +8,7 @@ export interface ApiEndpoint {
   timeout?: number
   auth?: {
     type?: string
+    profile?: string  // Auth profile of the space
     token?: string
     config?: any
   }
@@ -38,4 +39,21 @@ export interface ComparisonResult {
   differences: any[]
   hasChanges: boolean
   timestamp: string
-}
\ No newline at end of file
+}
+// Response times of an endpoint, from GET /api/spaces/:space/endpoints/:endpoint/latency
+export interface LatencyPoint {
+  timestamp: string
+  duration: number
+  snapshotId?: number
+  runId?: string
+  p50: number  // Percentiles of the rolling window ending at this capture
+  p95: number
+  p99: number
+}
+
+export interface EndpointLatency {
+  window: number
+  stats: { count: number; min: number; max: number; mean: number; p50: number; p95: number; p99: number } | null
+  settings: { window: number; percentile: 'p50' | 'p95' | 'p99'; thresholdPercent: number; minDeltaMs: number; severity: string; enabled: boolean }
+  points: LatencyPoint[]
+}
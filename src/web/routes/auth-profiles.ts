@@ -0,0 +1,447 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { DatabaseService, type AuthProfileRecord } from '../../database/database-service.js';
+import { ServiceKeys } from '../../core/container.js';
+import type { AuthProvider } from '../../core/interfaces.js';
+import type { GenericRegistry } from '../../core/registry.js';
+import { authProfileFromRecord } from '../../utils/authProfileResolver.js';
+import { maskSensitiveFields, restoreMaskedFields } from '../../utils/secrets.js';
+
+interface AuthProfileBody {
+  name?: string;
+  type?: string;
+  config?: Record<string, any>;
+  description?: string;
+}
+
+// Secrets in the configuration are masked, references to parameters and env vars are shown
+function formatAuthProfile(record: AuthProfileRecord, usedBy: string[]) {
+  const profile = authProfileFromRecord(record);
+  return {
+    id: record.id,
+    ...profile,
+    config: maskSensitiveFields(profile.config),
+    usedBy,
+    createdAt: record.created_at,
+    updatedAt: record.updated_at
+  };
+}
+
+// Endpoints of the space that reference each profile
+function profileUsage(dbService: DatabaseService, space: string): Record<string, string[]> {
+  const usage: Record<string, string[]> = {};
+  for (const endpoint of dbService.getEndpointsBySpaceName(space)) {
+    if (endpoint.auth?.profile) {
+      (usage[endpoint.auth.profile] = usage[endpoint.auth.profile] || []).push(endpoint.name);
+    }
+  }
+  return usage;
+}
+
+async function getAuthRegistry(request: FastifyRequest): Promise<GenericRegistry<AuthProvider> | undefined> {
+  const coreApp = (request as any).coreApp;
+  return coreApp ? coreApp.getContainer().resolve(ServiceKeys.AUTH_REGISTRY) : undefined;
+}
+
+// Returns an error message for invalid input, or null when the body is acceptable
+function validateAuthProfile(
+  body: AuthProfileBody,
+  registry: GenericRegistry<AuthProvider> | undefined,
+  partial: boolean
+): string | null {
+  if (!partial) {
+    if (typeof body.name !== 'string' || !/^[A-Za-z0-9_.-]+$/.test(body.name)) {
+      return 'name is required (letters, digits, _, . and -)';
+    }
+  }
+
+  if (!partial || body.type !== undefined) {
+    if (typeof body.type !== 'string' || body.type.trim() === '') {
+      return 'type is required';
+    }
+    if (registry && !registry.has(body.type)) {
+      return `Unknown auth provider '${body.type}'. Available providers: ${registry.list().join(', ')}`;
+    }
+  }
+
+  if (body.config !== undefined && (typeof body.config !== 'object' || body.config === null || Array.isArray(body.config))) {
+    return 'config must be an object';
+  }
+
+  return null;
+}
+
+async function authProfileRoutes(fastify: FastifyInstance) {
+
+/**
+ * @swagger
+ * /api/spaces/{space}/auth-profiles:
+ *   get:
+ *     summary: List auth profiles of a space
+ *     description: Auth profiles are named provider configurations that endpoints reference with `auth.profile`
+ *     tags: [Spaces, Auth Profiles]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Space name
+ *     responses:
+ *       200:
+ *         description: Auth profiles retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: integer
+ *                           name:
+ *                             type: string
+ *                           type:
+ *                             type: string
+ *                             example: oauth2
+ *                           config:
+ *                             type: object
+ *                           description:
+ *                             type: string
+ *                           usedBy:
+ *                             type: array
+ *                             items:
+ *                               type: string
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // GET /api/spaces/:space/auth-profiles - List auth profiles
+  fastify.get<{ Params: { space: string } }>('/:space/auth-profiles', async (request, reply) => {
+    const dbService = new DatabaseService();
+    try {
+      const { space } = request.params;
+      const spaceRecord = dbService.getSpaceByName(space);
+
+      if (!spaceRecord) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Space not found',
+          message: `Space '${space}' does not exist`
+        };
+      }
+
+      const usage = profileUsage(dbService, space);
+      const profiles = dbService.getAuthProfilesBySpaceId(spaceRecord.id)
+        .map(record => formatAuthProfile(record, usage[record.name] || []));
+
+      return {
+        success: true,
+        data: profiles,
+        count: profiles.length,
+        space,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      (request as any).logger?.error('Failed to list auth profiles:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to list auth profiles',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      dbService.close();
+    }
+  });
+
+/**
+ * @swagger
+ * /api/spaces/{space}/auth-profiles:
+ *   post:
+ *     summary: Create an auth profile
+ *     description: String values in `config` may use `{param}` placeholders, resolved with the space parameters at capture time
+ *     tags: [Spaces, Auth Profiles]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Space name
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, type]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: staging-oauth
+ *               type:
+ *                 type: string
+ *                 enum: [bearer, apikey, basic, oauth2]
+ *               config:
+ *                 type: object
+ *                 example: { tokenUrl: 'https://auth.example.com/oauth/token', clientId: 'snapshot-bot', clientSecretParam: 'clientSecret' }
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Auth profile created successfully
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: An auth profile with this name already exists
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // POST /api/spaces/:space/auth-profiles - Create an auth profile
+  fastify.post<{ Params: { space: string }; Body: AuthProfileBody }>('/:space/auth-profiles', async (request, reply) => {
+    const dbService = new DatabaseService();
+    const body = request.body || {};
+    try {
+      const { space } = request.params;
+      const spaceRecord = dbService.getSpaceByName(space);
+
+      if (!spaceRecord) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Space not found',
+          message: `Space '${space}' does not exist`
+        };
+      }
+
+      const validationError = validateAuthProfile(body, await getAuthRegistry(request), false);
+      if (validationError) {
+        reply.status(400);
+        return {
+          success: false,
+          error: 'Invalid auth profile',
+          message: validationError
+        };
+      }
+
+      const profile = dbService.createAuthProfile(spaceRecord.id, {
+        name: body.name!,
+        type: body.type!.trim(),
+        config: body.config,
+        description: body.description
+      });
+
+      reply.status(201);
+      return {
+        success: true,
+        data: formatAuthProfile(profile, []),
+        space,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('UNIQUE constraint failed')) {
+        reply.status(409);
+        return {
+          success: false,
+          error: 'Auth profile already exists',
+          message: `An auth profile named '${body.name}' already exists in space '${request.params.space}'`
+        };
+      }
+
+      (request as any).logger?.error('Failed to create auth profile:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to create auth profile',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      dbService.close();
+    }
+  });
+
+/**
+ * @swagger
+ * /api/spaces/{space}/auth-profiles/{name}:
+ *   put:
+ *     summary: Update an auth profile
+ *     description: Endpoints referencing the profile use the new settings from their next capture on
+ *     tags: [Spaces, Auth Profiles]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Space name
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Auth profile name
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               type:
+ *                 type: string
+ *               config:
+ *                 type: object
+ *               description:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Auth profile updated successfully
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // PUT /api/spaces/:space/auth-profiles/:name - Update an auth profile
+  fastify.put<{ Params: { space: string; name: string }; Body: AuthProfileBody }>('/:space/auth-profiles/:name', async (request, reply) => {
+    const dbService = new DatabaseService();
+    try {
+      const { space, name } = request.params;
+      const body = request.body || {};
+      const spaceRecord = dbService.getSpaceByName(space);
+      const profile = spaceRecord ? dbService.getAuthProfile(spaceRecord.id, name) : null;
+
+      if (!spaceRecord || !profile) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Auth profile not found',
+          message: `Auth profile '${name}' does not exist in space '${space}'`
+        };
+      }
+
+      const validationError = validateAuthProfile(body, await getAuthRegistry(request), true);
+      if (validationError) {
+        reply.status(400);
+        return {
+          success: false,
+          error: 'Invalid auth profile',
+          message: validationError
+        };
+      }
+
+      dbService.updateAuthProfile(profile.id, {
+        type: body.type?.trim(),
+        // Masked secrets sent back unchanged keep their stored values
+        config: body.config && restoreMaskedFields(body.config, authProfileFromRecord(profile).config),
+        description: body.description
+      });
+
+      return {
+        success: true,
+        data: formatAuthProfile(dbService.getAuthProfileById(profile.id)!, profileUsage(dbService, space)[name] || []),
+        space,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      (request as any).logger?.error('Failed to update auth profile:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to update auth profile',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      dbService.close();
+    }
+  });
+
+/**
+ * @swagger
+ * /api/spaces/{space}/auth-profiles/{name}:
+ *   delete:
+ *     summary: Delete an auth profile
+ *     tags: [Spaces, Auth Profiles]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Space name
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Auth profile name
+ *     responses:
+ *       200:
+ *         description: Auth profile deleted successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The profile is still referenced by endpoints
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // DELETE /api/spaces/:space/auth-profiles/:name - Delete an auth profile
+  fastify.delete<{ Params: { space: string; name: string } }>('/:space/auth-profiles/:name', async (request, reply) => {
+    const dbService = new DatabaseService();
+    try {
+      const { space, name } = request.params;
+      const spaceRecord = dbService.getSpaceByName(space);
+      const profile = spaceRecord ? dbService.getAuthProfile(spaceRecord.id, name) : null;
+
+      if (!spaceRecord || !profile) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Auth profile not found',
+          message: `Auth profile '${name}' does not exist in space '${space}'`
+        };
+      }
+
+      const usedBy = profileUsage(dbService, space)[name] || [];
+      if (usedBy.length > 0) {
+        reply.status(409);
+        return {
+          success: false,
+          error: 'Auth profile in use',
+          message: `Auth profile '${name}' is used by endpoint(s): ${usedBy.join(', ')}`
+        };
+      }
+
+      dbService.deleteAuthProfile(profile.id);
+
+      return {
+        success: true,
+        message: `Auth profile '${name}' deleted`,
+        space,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      (request as any).logger?.error('Failed to delete auth profile:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to delete auth profile',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      dbService.close();
+    }
+  });
+}
+
+export { authProfileRoutes };
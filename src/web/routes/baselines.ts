@@ -0,0 +1,553 @@
+import { FastifyInstance } from 'fastify';
+import { DatabaseService, type BaselineApprovalRecord, type BaselineRecord } from '../../database/database-service.js';
+import { BaselineService, type ApprovalDecision } from '../../services/baseline-service.js';
+
+interface BaselineParams {
+  space: string;
+  endpoint: string;
+}
+
+interface ApprovalBody {
+  approvedBy?: string;
+  reason?: string;
+}
+
+const DECISIONS: ApprovalDecision[] = ['approved', 'rejected', 'pending'];
+
+function formatBaseline(record: BaselineRecord) {
+  return {
+    id: record.id,
+    status: record.status,
+    snapshotId: record.snapshot_id ?? null,
+    filepath: record.filepath,
+    approvedBy: record.approved_by || null,
+    reason: record.reason || null,
+    revertedFrom: record.reverted_from ?? null,
+    createdAt: record.created_at,
+    supersededAt: record.superseded_at || null
+  };
+}
+
+function formatApproval(record: BaselineApprovalRecord) {
+  return {
+    id: record.id,
+    endpoint: record.endpoint_name,
+    decision: record.decision,
+    approvedBy: record.approved_by || null,
+    reason: record.reason || null,
+    baselineId: record.baseline_id ?? null,
+    snapshotId: record.snapshot_id ?? null,
+    changesCount: record.changes_count,
+    breakingChanges: record.breaking_changes,
+    nonBreakingChanges: record.non_breaking_changes,
+    differences: record.differences ? JSON.parse(record.differences) : [],
+    source: record.source,
+    createdAt: record.created_at
+  };
+}
+
+// Map BaselineService errors onto HTTP status codes
+function errorStatus(error: unknown): number {
+  const message = error instanceof Error ? error.message : '';
+  if (message.includes('not found')) {
+    return 404;
+  }
+  if (/already the active|no previous baseline|cannot become a baseline|no longer exists/.test(message)) {
+    return 409;
+  }
+  return 500;
+}
+
+async function baselineRoutes(fastify: FastifyInstance) {
+  const emitBaselineUpdated = (space: string, endpoint: string, action: string, baseline: BaselineRecord) => {
+    (fastify as any).io?.to('comparisons').emit('baseline:updated', {
+      space,
+      endpoint,
+      action,
+      baseline: formatBaseline(baseline),
+      timestamp: new Date().toISOString()
+    });
+  };
+
+/**
+ * @swagger
+ * /api/spaces/{space}/endpoints/{endpoint}/baseline:
+ *   get:
+ *     summary: Get the active baseline of an endpoint
+ *     tags: [Spaces, Endpoints, Baselines]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Space name
+ *       - in: path
+ *         name: endpoint
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Endpoint name
+ *     responses:
+ *       200:
+ *         description: Active baseline with its snapshot content, or null when none has been promoted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       nullable: true
+ *                       properties:
+ *                         id:
+ *                           type: integer
+ *                         snapshotId:
+ *                           type: integer
+ *                           nullable: true
+ *                         approvedBy:
+ *                           type: string
+ *                           nullable: true
+ *                         reason:
+ *                           type: string
+ *                           nullable: true
+ *                         revertedFrom:
+ *                           type: integer
+ *                           nullable: true
+ *                         snapshot:
+ *                           type: object
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // GET /api/spaces/:space/endpoints/:endpoint/baseline - Active baseline
+  fastify.get<{ Params: BaselineParams }>('/:space/endpoints/:endpoint/baseline', async (request, reply) => {
+    const dbService = new DatabaseService();
+    try {
+      const { space, endpoint } = request.params;
+      const baselines = new BaselineService(dbService);
+      const baseline = baselines.getActiveBaseline(space, endpoint);
+
+      return {
+        success: true,
+        data: baseline ? { ...formatBaseline(baseline), snapshot: await baselines.loadBaseline(baseline) } : null,
+        space,
+        endpoint,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      const status = errorStatus(error);
+      if (status === 500) {
+        (request as any).logger?.error('Failed to get baseline:', error);
+      }
+      reply.status(status);
+      return {
+        success: false,
+        error: 'Failed to get baseline',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      dbService.close();
+    }
+  });
+
+/**
+ * @swagger
+ * /api/spaces/{space}/endpoints/{endpoint}/baseline:
+ *   post:
+ *     summary: Promote a snapshot to baseline
+ *     description: Copies the snapshot into the space's baseline directory, makes it the active baseline and records the approval
+ *     tags: [Spaces, Endpoints, Baselines]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Space name
+ *       - in: path
+ *         name: endpoint
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Endpoint name
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [snapshotId, approvedBy]
+ *             properties:
+ *               snapshotId:
+ *                 type: integer
+ *               approvedBy:
+ *                 type: string
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Snapshot promoted to baseline
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The snapshot is a failed capture
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // POST /api/spaces/:space/endpoints/:endpoint/baseline - Promote a snapshot to baseline
+  fastify.post<{ Params: BaselineParams; Body: ApprovalBody & { snapshotId?: number } }>('/:space/endpoints/:endpoint/baseline', async (request, reply) => {
+    const dbService = new DatabaseService();
+    try {
+      const { space, endpoint } = request.params;
+      const body = request.body || {};
+
+      if (!Number.isInteger(body.snapshotId) || typeof body.approvedBy !== 'string' || body.approvedBy.trim() === '') {
+        reply.status(400);
+        return {
+          success: false,
+          error: 'Invalid request',
+          message: 'snapshotId and approvedBy are required'
+        };
+      }
+
+      const baseline = await new BaselineService(dbService).promote({
+        space,
+        endpoint,
+        snapshotId: body.snapshotId,
+        approvedBy: body.approvedBy.trim(),
+        reason: body.reason,
+        source: 'web'
+      });
+
+      emitBaselineUpdated(space, endpoint, 'promoted', baseline);
+
+      reply.status(201);
+      return {
+        success: true,
+        data: formatBaseline(baseline),
+        space,
+        endpoint,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      const status = errorStatus(error);
+      if (status === 500) {
+        (request as any).logger?.error('Failed to promote baseline:', error);
+      }
+      reply.status(status);
+      return {
+        success: false,
+        error: 'Failed to promote baseline',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      dbService.close();
+    }
+  });
+
+/**
+ * @swagger
+ * /api/spaces/{space}/endpoints/{endpoint}/baseline/history:
+ *   get:
+ *     summary: List prior baselines and approval decisions of an endpoint
+ *     tags: [Spaces, Endpoints, Baselines]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Space name
+ *       - in: path
+ *         name: endpoint
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Endpoint name
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *         description: Maximum number of baselines and of approvals to return
+ *     responses:
+ *       200:
+ *         description: Baseline history retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         baselines:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                         approvals:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // GET /api/spaces/:space/endpoints/:endpoint/baseline/history - Baseline and approval history
+  fastify.get<{ Params: BaselineParams; Querystring: { limit?: string } }>('/:space/endpoints/:endpoint/baseline/history', async (request, reply) => {
+    const dbService = new DatabaseService();
+    try {
+      const { space, endpoint } = request.params;
+      const limit = parseInt(request.query.limit || '50', 10) || 50;
+      const history = new BaselineService(dbService).getHistory(space, endpoint, limit);
+
+      return {
+        success: true,
+        data: {
+          baselines: history.baselines.map(formatBaseline),
+          approvals: history.approvals.map(formatApproval)
+        },
+        space,
+        endpoint,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      const status = errorStatus(error);
+      if (status === 500) {
+        (request as any).logger?.error('Failed to get baseline history:', error);
+      }
+      reply.status(status);
+      return {
+        success: false,
+        error: 'Failed to get baseline history',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      dbService.close();
+    }
+  });
+
+/**
+ * @swagger
+ * /api/spaces/{space}/endpoints/{endpoint}/baseline/revert:
+ *   post:
+ *     summary: Revert to a prior baseline
+ *     description: Makes a prior baseline active again. The revert is recorded as a new baseline entry, so history is never rewritten.
+ *     tags: [Spaces, Endpoints, Baselines]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Space name
+ *       - in: path
+ *         name: endpoint
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Endpoint name
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [approvedBy]
+ *             properties:
+ *               baselineId:
+ *                 type: integer
+ *                 description: Baseline to restore (defaults to the one active before the current baseline)
+ *               approvedBy:
+ *                 type: string
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Baseline reverted
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: Nothing to revert to, or the baseline is already active
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // POST /api/spaces/:space/endpoints/:endpoint/baseline/revert - Restore a prior baseline
+  fastify.post<{ Params: BaselineParams; Body: ApprovalBody & { baselineId?: number } }>('/:space/endpoints/:endpoint/baseline/revert', async (request, reply) => {
+    const dbService = new DatabaseService();
+    try {
+      const { space, endpoint } = request.params;
+      const body = request.body || {};
+
+      if (typeof body.approvedBy !== 'string' || body.approvedBy.trim() === '') {
+        reply.status(400);
+        return {
+          success: false,
+          error: 'Invalid request',
+          message: 'approvedBy is required'
+        };
+      }
+      if (body.baselineId !== undefined && !Number.isInteger(body.baselineId)) {
+        reply.status(400);
+        return {
+          success: false,
+          error: 'Invalid request',
+          message: 'baselineId must be an integer'
+        };
+      }
+
+      const baseline = await new BaselineService(dbService).revert({
+        space,
+        endpoint,
+        baselineId: body.baselineId,
+        approvedBy: body.approvedBy.trim(),
+        reason: body.reason,
+        source: 'web'
+      });
+
+      emitBaselineUpdated(space, endpoint, 'reverted', baseline);
+
+      return {
+        success: true,
+        data: formatBaseline(baseline),
+        space,
+        endpoint,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      const status = errorStatus(error);
+      if (status === 500) {
+        (request as any).logger?.error('Failed to revert baseline:', error);
+      }
+      reply.status(status);
+      return {
+        success: false,
+        error: 'Failed to revert baseline',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      dbService.close();
+    }
+  });
+
+/**
+ * @swagger
+ * /api/spaces/{space}/endpoints/{endpoint}/baseline/decisions:
+ *   post:
+ *     summary: Record a review decision that keeps the current baseline
+ *     description: Used for rejected or deferred changes; approvals that update the baseline go through promote instead
+ *     tags: [Spaces, Endpoints, Baselines]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Space name
+ *       - in: path
+ *         name: endpoint
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Endpoint name
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [decision, approvedBy]
+ *             properties:
+ *               decision:
+ *                 type: string
+ *                 enum: [approved, rejected, pending]
+ *               snapshotId:
+ *                 type: integer
+ *               approvedBy:
+ *                 type: string
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Decision recorded
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // POST /api/spaces/:space/endpoints/:endpoint/baseline/decisions - Record a review decision
+  fastify.post<{ Params: BaselineParams; Body: ApprovalBody & { decision?: ApprovalDecision; snapshotId?: number } }>('/:space/endpoints/:endpoint/baseline/decisions', async (request, reply) => {
+    const dbService = new DatabaseService();
+    try {
+      const { space, endpoint } = request.params;
+      const body = request.body || {};
+
+      if (!body.decision || !DECISIONS.includes(body.decision) || typeof body.approvedBy !== 'string' || body.approvedBy.trim() === '') {
+        reply.status(400);
+        return {
+          success: false,
+          error: 'Invalid request',
+          message: `decision (${DECISIONS.join(', ')}) and approvedBy are required`
+        };
+      }
+
+      // Unlike the CLI, the web UI only reviews endpoints that belong to the space
+      const spaceRecord = dbService.getSpaceByName(space);
+      if (!spaceRecord || !dbService.getEndpointsBySpaceId(spaceRecord.id).some(ep => ep.name === endpoint)) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Endpoint not found',
+          message: `Endpoint '${endpoint}' does not exist in space '${space}'`
+        };
+      }
+
+      const approval = new BaselineService(dbService).recordDecision({
+        space,
+        endpoint,
+        decision: body.decision,
+        snapshotId: body.snapshotId,
+        approvedBy: body.approvedBy.trim(),
+        reason: body.reason,
+        source: 'web'
+      });
+
+      reply.status(201);
+      return {
+        success: true,
+        data: formatApproval(approval),
+        space,
+        endpoint,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      const status = errorStatus(error);
+      if (status === 500) {
+        (request as any).logger?.error('Failed to record decision:', error);
+      }
+      reply.status(status);
+      return {
+        success: false,
+        error: 'Failed to record decision',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      dbService.close();
+    }
+  });
+}
+
+export { baselineRoutes };
@@ -1,6 +1,10 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { DatabaseConfigManager } from '../../database/database-config-manager.js';
 import type { ApiEndpoint } from '../../types.js';
+import { validateChaining } from '../../utils/requestChaining.js';
+import { validateHar } from '../../utils/har-converter.js';
+import { HarImportService } from '../../services/har-import-service.js';
+import { deleteSnapshotFile } from '../../services/blob-store.js';
 
 // Use database-based config manager
 const dbConfigManager = new DatabaseConfigManager();
@@ -411,6 +415,17 @@ async function configRoutes(fastify: FastifyInstance) {
       const endpoint = request.body as any;
       const configManager = dbConfigManager;
       
+      const chainingError = validateChaining(endpoint);
+      if (chainingError) {
+        reply.status(400);
+        return {
+          success: false,
+          error: 'Invalid endpoint',
+          message: chainingError,
+          timestamp: new Date().toISOString()
+        };
+      }
+      
       // Load current config
       const config = configManager.loadConfig(undefined, space);
       
@@ -472,6 +487,17 @@ async function configRoutes(fastify: FastifyInstance) {
       const updatedEndpoint = request.body as any;
       const configManager = dbConfigManager;
       
+      const chainingError = validateChaining({ name, ...updatedEndpoint });
+      if (chainingError) {
+        reply.status(400);
+        return {
+          success: false,
+          error: 'Invalid endpoint',
+          message: chainingError,
+          timestamp: new Date().toISOString()
+        };
+      }
+      
       // Load current config
       const config = configManager.loadConfig(undefined, space);
       
@@ -574,7 +600,7 @@ async function configRoutes(fastify: FastifyInstance) {
                 const fileContent = fs.readFileSync(filePath, 'utf-8');
                 const snapshot = JSON.parse(fileContent);
                 if (snapshot.endpoint?.name === name) {
-                  fs.unlinkSync(filePath);
+                  await deleteSnapshotFile(filePath);
                   snapshotsDeleted++;
                 }
               } catch (parseError) {
@@ -947,6 +973,72 @@ async function configRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // POST /api/config/import-har - Import endpoints, space parameters and optionally baselines from a HAR recording
+  fastify.post('/import-har', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { space } = request.query as { space?: string };
+      const { har, baseUrl, includeStatic, minOccurrences, overwriteExisting, seedBaselines, approvedBy } = request.body as {
+        har: any;
+        baseUrl?: string;
+        includeStatic?: boolean;
+        minOccurrences?: number;
+        overwriteExisting?: boolean;
+        seedBaselines?: boolean;
+        approvedBy?: string;
+      };
+
+      const validation = validateHar(har);
+      if (!validation.isValid) {
+        reply.status(400);
+        return {
+          success: false,
+          error: 'Invalid HAR file',
+          message: validation.error,
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      if (!dbConfigManager.database.getSpaceByName(space || 'default')) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Space not found',
+          message: `Space '${space || 'default'}' does not exist`,
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      const summary = await new HarImportService(dbConfigManager.database).import({
+        space: space || 'default',
+        har,
+        baseUrl,
+        includeStatic,
+        minOccurrences,
+        overwriteExisting,
+        seedBaselines,
+        approvedBy,
+        source: 'web'
+      });
+
+      return {
+        success: true,
+        message: `HAR import completed: ${summary.imported.length} imported, ${summary.overwritten.length} overwritten, ${summary.skipped.length} skipped`,
+        data: summary,
+        space: space || 'default',
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      console.error('Failed to import HAR file:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to import HAR file',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      };
+    }
+  });
+
   // GET /api/config/fetch-openapi - Proxy endpoint to fetch OpenAPI schemas from external URLs
   fastify.get('/fetch-openapi', async (request: FastifyRequest, reply: FastifyReply) => {
     try {
@@ -0,0 +1,456 @@
+import { FastifyInstance } from 'fastify';
+import { DatabaseService, type EnvironmentPairRecord } from '../../database/database-service.js';
+import { EnvironmentComparisonService, loadEnvironmentPair } from '../../services/environment-comparison-service.js';
+import { environmentPairFromRecord, validateEnvironmentPair } from '../../utils/environmentComparison.js';
+import type { DiffRule, EnvironmentPair, EnvironmentTarget } from '../../types.js';
+
+interface EnvironmentComparisonBody {
+  pair?: string; // Stored pair; `left`, `right` and `rules` given here take precedence
+  left?: EnvironmentTarget;
+  right?: EnvironmentTarget;
+  rules?: DiffRule[];
+  endpoints?: string[];
+  shapeOnly?: boolean;
+}
+
+function formatEnvironmentPair(record: EnvironmentPairRecord) {
+  return {
+    id: record.id,
+    ...environmentPairFromRecord(record),
+    createdAt: record.created_at,
+    updatedAt: record.updated_at
+  };
+}
+
+async function environmentRoutes(fastify: FastifyInstance) {
+
+/**
+ * @swagger
+ * /api/spaces/{space}/environment-pairs:
+ *   get:
+ *     summary: List environment pairs of a space
+ *     description: An environment pair names two environments the space's endpoints are compared between, with ignore rules for values known to differ
+ *     tags: [Spaces, Environments]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Space name
+ *     responses:
+ *       200:
+ *         description: Environment pairs retrieved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // GET /api/spaces/:space/environment-pairs - List environment pairs
+  fastify.get<{ Params: { space: string } }>('/:space/environment-pairs', async (request, reply) => {
+    const dbService = new DatabaseService();
+    try {
+      const { space } = request.params;
+      const spaceRecord = dbService.getSpaceByName(space);
+
+      if (!spaceRecord) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Space not found',
+          message: `Space '${space}' does not exist`
+        };
+      }
+
+      const pairs = dbService.getEnvironmentPairsBySpaceId(spaceRecord.id).map(formatEnvironmentPair);
+
+      return {
+        success: true,
+        data: pairs,
+        count: pairs.length,
+        space,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      (request as any).logger?.error('Failed to list environment pairs:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to list environment pairs',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      dbService.close();
+    }
+  });
+
+/**
+ * @swagger
+ * /api/spaces/{space}/environment-pairs:
+ *   post:
+ *     summary: Create an environment pair
+ *     tags: [Spaces, Environments]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Space name
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, left, right]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: staging-vs-production
+ *               left:
+ *                 type: object
+ *                 description: Space and/or base URL, e.g. { space: 'production' }
+ *               right:
+ *                 type: object
+ *                 example: { baseUrl: 'https://staging.example.com' }
+ *               rules:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                 example: [{ path: 'response.data.region', ignore: true }]
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Environment pair created successfully
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: An environment pair with this name already exists
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // POST /api/spaces/:space/environment-pairs - Create an environment pair
+  fastify.post<{ Params: { space: string }; Body: Partial<EnvironmentPair> }>('/:space/environment-pairs', async (request, reply) => {
+    const dbService = new DatabaseService();
+    const body = request.body || {};
+    try {
+      const { space } = request.params;
+      const spaceRecord = dbService.getSpaceByName(space);
+
+      if (!spaceRecord) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Space not found',
+          message: `Space '${space}' does not exist`
+        };
+      }
+
+      const validationError = validateEnvironmentPair(body);
+      if (validationError) {
+        reply.status(400);
+        return {
+          success: false,
+          error: 'Invalid environment pair',
+          message: validationError
+        };
+      }
+
+      const pair = dbService.createEnvironmentPair(spaceRecord.id, body as EnvironmentPair);
+
+      reply.status(201);
+      return {
+        success: true,
+        data: formatEnvironmentPair(pair),
+        space,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('UNIQUE constraint failed')) {
+        reply.status(409);
+        return {
+          success: false,
+          error: 'Environment pair already exists',
+          message: `An environment pair named '${body.name}' already exists in space '${request.params.space}'`
+        };
+      }
+
+      (request as any).logger?.error('Failed to create environment pair:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to create environment pair',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      dbService.close();
+    }
+  });
+
+/**
+ * @swagger
+ * /api/spaces/{space}/environment-pairs/{name}:
+ *   put:
+ *     summary: Update an environment pair
+ *     description: Fields left out keep their values; `rules` replaces the whole rule list
+ *     tags: [Spaces, Environments]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Environment pair updated successfully
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // PUT /api/spaces/:space/environment-pairs/:name - Update an environment pair
+  fastify.put<{ Params: { space: string; name: string }; Body: Partial<EnvironmentPair> }>('/:space/environment-pairs/:name', async (request, reply) => {
+    const dbService = new DatabaseService();
+    try {
+      const { space, name } = request.params;
+      const body = request.body || {};
+      const spaceRecord = dbService.getSpaceByName(space);
+      const pair = spaceRecord ? dbService.getEnvironmentPair(spaceRecord.id, name) : null;
+
+      if (!spaceRecord || !pair) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Environment pair not found',
+          message: `Environment pair '${name}' does not exist in space '${space}'`
+        };
+      }
+
+      const validationError = validateEnvironmentPair(body, true);
+      if (validationError) {
+        reply.status(400);
+        return {
+          success: false,
+          error: 'Invalid environment pair',
+          message: validationError
+        };
+      }
+
+      dbService.updateEnvironmentPair(pair.id, {
+        left: body.left,
+        right: body.right,
+        rules: body.rules,
+        description: body.description
+      });
+
+      return {
+        success: true,
+        data: formatEnvironmentPair(dbService.getEnvironmentPairById(pair.id)!),
+        space,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      (request as any).logger?.error('Failed to update environment pair:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to update environment pair',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      dbService.close();
+    }
+  });
+
+/**
+ * @swagger
+ * /api/spaces/{space}/environment-pairs/{name}:
+ *   delete:
+ *     summary: Delete an environment pair
+ *     tags: [Spaces, Environments]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Environment pair deleted successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // DELETE /api/spaces/:space/environment-pairs/:name - Delete an environment pair
+  fastify.delete<{ Params: { space: string; name: string } }>('/:space/environment-pairs/:name', async (request, reply) => {
+    const dbService = new DatabaseService();
+    try {
+      const { space, name } = request.params;
+      const spaceRecord = dbService.getSpaceByName(space);
+      const pair = spaceRecord ? dbService.getEnvironmentPair(spaceRecord.id, name) : null;
+
+      if (!spaceRecord || !pair) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Environment pair not found',
+          message: `Environment pair '${name}' does not exist in space '${space}'`
+        };
+      }
+
+      dbService.deleteEnvironmentPair(pair.id);
+
+      return {
+        success: true,
+        message: `Environment pair '${name}' deleted`,
+        space,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      (request as any).logger?.error('Failed to delete environment pair:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to delete environment pair',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      dbService.close();
+    }
+  });
+
+/**
+ * @swagger
+ * /api/spaces/{space}/environment-comparisons:
+ *   post:
+ *     summary: Compare the space's endpoints between two environments
+ *     description: |
+ *       Captures every endpoint (or the listed ones) against both environments and returns a comparison per
+ *       endpoint with the left response as baseline. Use a stored `pair` or give `left` and `right` directly.
+ *       Responses are not stored. The request returns when all captures are done.
+ *     tags: [Spaces, Environments]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Space whose endpoint set is compared
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               pair:
+ *                 type: string
+ *                 example: staging-vs-production
+ *               left:
+ *                 type: object
+ *               right:
+ *                 type: object
+ *               rules:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *               endpoints:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               shapeOnly:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Comparison per endpoint with a summary
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // POST /api/spaces/:space/environment-comparisons - Capture against two environments and compare
+  fastify.post<{ Params: { space: string }; Body: EnvironmentComparisonBody }>('/:space/environment-comparisons', async (request, reply) => {
+    try {
+      const { space } = request.params;
+      const body = request.body || {};
+
+      const coreApp = (request as any).coreApp;
+      if (!coreApp) {
+        reply.status(500);
+        return {
+          success: false,
+          error: 'Core application not available',
+          message: 'Internal server error'
+        };
+      }
+
+      const stored = body.pair ? loadEnvironmentPair(space, body.pair) : undefined;
+      const pair = {
+        name: body.pair || 'ad-hoc',
+        left: body.left || stored?.left,
+        right: body.right || stored?.right,
+        rules: body.rules || stored?.rules
+      };
+
+      const validationError = validateEnvironmentPair(pair);
+      if (validationError) {
+        reply.status(400);
+        return {
+          success: false,
+          error: 'Invalid environment comparison',
+          message: validationError
+        };
+      }
+
+      const service = new EnvironmentComparisonService(coreApp, (request as any).logger || console);
+      const result = await service.compare({
+        space,
+        left: pair.left!,
+        right: pair.right!,
+        rules: pair.rules,
+        endpoints: body.endpoints,
+        shapeOnly: body.shapeOnly
+      });
+
+      return {
+        success: true,
+        data: result,
+        space,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const notFound = message.includes('does not exist');
+      if (!notFound) {
+        (request as any).logger?.error('Failed to compare environments:', error);
+      }
+      reply.status(notFound ? 404 : message.startsWith('No matching endpoints') ? 400 : 500);
+      return {
+        success: false,
+        error: 'Failed to compare environments',
+        message
+      };
+    }
+  });
+}
+
+export { environmentRoutes };
@@ -0,0 +1,82 @@
+import { FastifyInstance } from 'fastify';
+import { DatabaseConfigManager } from '../../database/database-config-manager.js';
+import { SpaceExportService } from '../../services/space-export-service.js';
+import { EXPORT_FORMATS, type ExportFormat } from '../../utils/space-exporter.js';
+
+async function exportRoutes(fastify: FastifyInstance) {
+
+/**
+ * @swagger
+ * /api/spaces/{space}/export:
+ *   get:
+ *     summary: Download a space as a Postman collection, OpenAPI document or curl script
+ *     description: Secret parameters are left out; OpenAPI response schemas are inferred from the latest snapshots
+ *     tags: [Spaces]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Space name
+ *       - in: query
+ *         name: format
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [postman, openapi, curl]
+ *     responses:
+ *       200:
+ *         description: Exported file, sent as an attachment
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // GET /api/spaces/:space/export - Download the space in another tool's format
+  fastify.get<{ Params: { space: string }; Querystring: { format?: string } }>('/:space/export', async (request, reply) => {
+    const configManager = new DatabaseConfigManager();
+    try {
+      const { space } = request.params;
+      const format = request.query.format as ExportFormat;
+
+      if (!EXPORT_FORMATS.includes(format)) {
+        reply.status(400);
+        return {
+          success: false,
+          error: 'Invalid format',
+          message: `format must be one of: ${EXPORT_FORMATS.join(', ')}`
+        };
+      }
+
+      if (!configManager.spaceExists(space)) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Space not found',
+          message: `Space '${space}' does not exist`
+        };
+      }
+
+      const file = await new SpaceExportService(configManager).export(space, format);
+      reply
+        .header('Content-Type', file.contentType)
+        .header('Content-Disposition', `attachment; filename="${file.filename}"`);
+      return file.content;
+    } catch (error) {
+      (request as any).logger?.error('Failed to export space:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to export space',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      configManager.close();
+    }
+  });
+}
+
+export { exportRoutes };
@@ -0,0 +1,105 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { loadMockRoutes, matchMockRoute, sendMockResponse, sendNoMockResponse, type MockLoadOptions } from '../../services/mock-server.js';
+
+const MOCK_METHODS: Array<'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'OPTIONS'> = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+
+async function mockRoutes(fastify: FastifyInstance) {
+  // Mocked requests carry any body, it is never read
+  fastify.removeAllContentTypeParsers();
+  fastify.addContentTypeParser('*', { parseAs: 'buffer' }, (request, body, done) => done(null, body));
+
+  const serveMock = async (request: FastifyRequest, reply: FastifyReply, space: string, options: MockLoadOptions) => {
+    try {
+      const queryIndex = request.url.indexOf('?');
+      const url = `/${(request.params as { '*': string })['*']}${queryIndex === -1 ? '' : request.url.slice(queryIndex)}`;
+
+      const routes = await loadMockRoutes(space, options);
+      const match = matchMockRoute(routes, request.method, url);
+      return match ? sendMockResponse(reply, match) : sendNoMockResponse(reply, request.method, url, routes);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      (request as any).logger?.error('Failed to serve mock response:', error);
+      reply.status(message.includes('not found') ? 404 : 500);
+      return {
+        success: false,
+        error: 'Failed to serve mock response',
+        message
+      };
+    }
+  };
+
+/**
+ * @swagger
+ * /api/spaces/{space}/mock/{path}:
+ *   get:
+ *     summary: Serve a stored response for a request to the space's API
+ *     description: |
+ *       Matches the method and path against the templated endpoint URLs of the space and replies with the endpoint's
+ *       baseline, or its latest successful snapshot when it has none. Send `X-Mock-Source: latest` to prefer the
+ *       latest snapshots. All methods are served; the recorded status and headers are kept.
+ *     tags: [Spaces, Mock]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Request path of the mocked API, e.g. users/42
+ *     responses:
+ *       200:
+ *         description: Recorded response (status and headers as recorded)
+ *       404:
+ *         description: No stored snapshot matches the request, or the space does not exist
+ */
+  // ALL /api/spaces/:space/mock/* - Serve baselines (or latest snapshots) as a mock API
+  fastify.route<{ Params: { space: string } }>({
+    method: MOCK_METHODS,
+    url: '/:space/mock/*',
+    handler: async (request, reply) => {
+      const source = request.headers['x-mock-source'] === 'latest' ? 'latest' : 'baseline';
+      return serveMock(request, reply, request.params.space, { source });
+    }
+  });
+
+/**
+ * @swagger
+ * /api/spaces/{space}/runs/{runId}/mock/{path}:
+ *   get:
+ *     summary: Serve the responses recorded by one capture run
+ *     tags: [Spaces, Mock]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: runId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Recorded response (status and headers as recorded)
+ *       404:
+ *         description: No snapshot of the run matches the request, or the run does not exist
+ */
+  // ALL /api/spaces/:space/runs/:runId/mock/* - Serve the snapshots of one capture run as a mock API
+  fastify.route<{ Params: { space: string; runId: string } }>({
+    method: MOCK_METHODS,
+    url: '/:space/runs/:runId/mock/*',
+    handler: async (request, reply) => serveMock(request, reply, request.params.space, { runId: request.params.runId })
+  });
+}
+
+export { mockRoutes };
@@ -1,5 +1,13 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { loadSpaceParameters, saveSpaceParameters, extractSpaceParameters, initializeSpaceParameters } from '../../utils/databaseSpaceParameterResolver.js';
+import {
+  loadSpaceParameters,
+  saveSpaceParameters,
+  extractSpaceParameters,
+  initializeSpaceParameters,
+  loadSecretParameterNames,
+  setSpaceParameterSecret
+} from '../../utils/databaseSpaceParameterResolver.js';
+import { SECRET_MASK, maskParameters } from '../../utils/secrets.js';
 import { DatabaseConfigManager } from '../../database/database-config-manager.js';
 
 async function parameterRoutes(fastify: FastifyInstance) {
@@ -29,7 +37,12 @@ async function parameterRoutes(fastify: FastifyInstance) {
  *                   properties:
  *                     data:
  *                       type: object
- *                       description: Key-value pairs of parameters
+ *                       description: Key-value pairs of parameters, values of secret parameters are masked
+ *                     secrets:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       description: Names of the parameters flagged as secret
  *       404:
  *         $ref: '#/components/responses/NotFound'
  *       500:
@@ -52,12 +65,14 @@ async function parameterRoutes(fastify: FastifyInstance) {
         };
       }
       
-      // Load space parameters
+      // Load space parameters, secret values are never returned
       const parameters = await loadSpaceParameters(space);
+      const secrets = await loadSecretParameterNames(space);
       
       return {
         success: true,
-        data: parameters,
+        data: maskParameters(parameters, secrets),
+        secrets,
         space,
         timestamp: new Date().toISOString()
       };
@@ -135,8 +150,14 @@ async function parameterRoutes(fastify: FastifyInstance) {
         };
       }
       
+      // Masked values sent back for secret parameters leave them unchanged
+      const secrets = await loadSecretParameterNames(space);
+      const changed = Object.fromEntries(
+        Object.entries(parameters).filter(([name, value]) => !(secrets.includes(name) && value === SECRET_MASK))
+      );
+      
       // Save space parameters
-      await saveSpaceParameters(space, parameters);
+      await saveSpaceParameters(space, changed);
       
       return {
         success: true,
@@ -184,7 +205,10 @@ async function parameterRoutes(fastify: FastifyInstance) {
  *             properties:
  *               value:
  *                 type: string
- *                 description: Parameter value
+ *                 description: Parameter value, the mask `********` keeps the stored value of a secret parameter
+ *               secret:
+ *                 type: boolean
+ *                 description: Store the value encrypted and mask it in responses and snapshots
  *     responses:
  *       200:
  *         description: Parameter updated successfully
@@ -201,7 +225,7 @@ async function parameterRoutes(fastify: FastifyInstance) {
   fastify.put<{ Params: { space: string; paramName: string } }>('/:space/:paramName', async (request, reply) => {
     try {
       const { space, paramName } = request.params;
-      const { value } = request.body as { value: string };
+      const { value, secret } = request.body as { value: string; secret?: boolean };
       
       // Check if the space exists
       const configManager = new DatabaseConfigManager();
@@ -228,17 +252,26 @@ async function parameterRoutes(fastify: FastifyInstance) {
       
       // Load existing parameters
       const parameters = await loadSpaceParameters(space);
-      parameters[paramName] = value;
+      const wasSecret = (await loadSecretParameterNames(space)).includes(paramName);
       
-      // Save updated parameters
-      await saveSpaceParameters(space, parameters);
+      // Saving the masked value back (e.g. when only the secret flag changes) keeps the stored secret
+      if (!(wasSecret && value === SECRET_MASK)) {
+        parameters[paramName] = value;
+        await saveSpaceParameters(space, parameters);
+      }
+      
+      const isSecret = secret ?? wasSecret;
+      if (isSecret !== wasSecret) {
+        await setSpaceParameterSecret(space, paramName, isSecret);
+      }
       
       return {
         success: true,
         message: `Updated parameter '${paramName}' for space '${space}'`,
         space,
         paramName,
-        value,
+        value: isSecret ? SECRET_MASK : value,
+        secret: isSecret,
         timestamp: new Date().toISOString()
       };
     } catch (error) {
@@ -509,7 +542,7 @@ async function parameterRoutes(fastify: FastifyInstance) {
       return {
         success: true,
         message: `Initialized ${newCount} new parameters for space '${space}'`,
-        data: parameters,
+        data: maskParameters(parameters, await loadSecretParameterNames(space)),
         newCount,
         totalCount: Object.keys(parameters).length,
         space,
@@ -0,0 +1,686 @@
+import { FastifyInstance } from 'fastify';
+import { DatabaseService, type CaptureRunRecord, type CaptureScheduleRecord } from '../../database/database-service.js';
+import { parseCronExpression, nextCronDate } from '../../utils/cron.js';
+import type { CaptureScheduler } from '../../services/capture-scheduler.js';
+
+interface ScheduleBody {
+  name?: string;
+  cron?: string;
+  endpoints?: string[];
+  compareToBaseline?: boolean;
+  enabled?: boolean;
+}
+
+function formatSchedule(record: CaptureScheduleRecord) {
+  let nextRunAt: string | null = null;
+  if (record.enabled) {
+    try {
+      nextRunAt = nextCronDate(record.cron).toISOString();
+    } catch {
+      nextRunAt = null;
+    }
+  }
+
+  return {
+    id: record.id,
+    name: record.name,
+    cron: record.cron,
+    endpoints: record.endpoints ? JSON.parse(record.endpoints) as string[] : [],
+    compareToBaseline: record.compare_to_baseline !== 0,
+    enabled: record.enabled !== 0,
+    lastRunId: record.last_run_id || null,
+    lastRunAt: record.last_run_at || null,
+    nextRunAt,
+    createdAt: record.created_at,
+    updatedAt: record.updated_at
+  };
+}
+
+function formatRun(record: CaptureRunRecord) {
+  return {
+    runId: record.run_id,
+    status: record.status,
+    trigger: record.trigger || 'manual',
+    scheduleId: record.schedule_id ?? null,
+    totalEndpoints: record.total_endpoints,
+    successful: record.successful,
+    failed: record.failed,
+    comparisonSummary: record.comparison_summary ? JSON.parse(record.comparison_summary) : null,
+    startedAt: record.started_at,
+    completedAt: record.completed_at || null
+  };
+}
+
+// Returns an error message for invalid input, or null when the body is acceptable
+function validateSchedule(body: ScheduleBody, endpointNames: string[], partial: boolean): string | null {
+  if (!partial || body.name !== undefined) {
+    if (typeof body.name !== 'string' || body.name.trim() === '') {
+      return 'name is required';
+    }
+  }
+
+  if (!partial || body.cron !== undefined) {
+    if (typeof body.cron !== 'string') {
+      return 'cron is required';
+    }
+    try {
+      parseCronExpression(body.cron);
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid cron expression';
+    }
+  }
+
+  if (body.endpoints !== undefined) {
+    if (!Array.isArray(body.endpoints) || body.endpoints.some(name => typeof name !== 'string')) {
+      return 'endpoints must be an array of endpoint names';
+    }
+    const unknown = body.endpoints.filter(name => !endpointNames.includes(name));
+    if (unknown.length > 0) {
+      return `Unknown endpoint(s): ${unknown.join(', ')}`;
+    }
+  }
+
+  return null;
+}
+
+async function scheduleRoutes(fastify: FastifyInstance) {
+
+/**
+ * @swagger
+ * /api/spaces/{space}/schedules:
+ *   get:
+ *     summary: List capture schedules of a space
+ *     tags: [Spaces, Schedules]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Space name
+ *     responses:
+ *       200:
+ *         description: Schedules retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: integer
+ *                           name:
+ *                             type: string
+ *                           cron:
+ *                             type: string
+ *                           endpoints:
+ *                             type: array
+ *                             items:
+ *                               type: string
+ *                           compareToBaseline:
+ *                             type: boolean
+ *                           enabled:
+ *                             type: boolean
+ *                           lastRunId:
+ *                             type: string
+ *                             nullable: true
+ *                           nextRunAt:
+ *                             type: string
+ *                             format: date-time
+ *                             nullable: true
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // GET /api/spaces/:space/schedules - List capture schedules
+  fastify.get<{ Params: { space: string } }>('/:space/schedules', async (request, reply) => {
+    const dbService = new DatabaseService();
+    try {
+      const { space } = request.params;
+      const spaceRecord = dbService.getSpaceByName(space);
+
+      if (!spaceRecord) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Space not found',
+          message: `Space '${space}' does not exist`
+        };
+      }
+
+      const schedules = dbService.getCaptureSchedulesBySpaceId(spaceRecord.id).map(formatSchedule);
+
+      return {
+        success: true,
+        data: schedules,
+        count: schedules.length,
+        space,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      (request as any).logger?.error('Failed to list schedules:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to list schedules',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      dbService.close();
+    }
+  });
+
+/**
+ * @swagger
+ * /api/spaces/{space}/schedules:
+ *   post:
+ *     summary: Create a capture schedule
+ *     description: Captures the space (or the listed endpoints) on a 5-field cron expression in server local time and compares each snapshot with its baseline
+ *     tags: [Spaces, Schedules]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Space name
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, cron]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               cron:
+ *                 type: string
+ *                 example: '0 6 * * 1-5'
+ *               endpoints:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Endpoint group to capture (all endpoints when omitted)
+ *               compareToBaseline:
+ *                 type: boolean
+ *                 default: true
+ *               enabled:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: Schedule created successfully
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: A schedule with this name already exists
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // POST /api/spaces/:space/schedules - Create a capture schedule
+  fastify.post<{ Params: { space: string }; Body: ScheduleBody }>('/:space/schedules', async (request, reply) => {
+    const dbService = new DatabaseService();
+    const body = request.body || {};
+    try {
+      const { space } = request.params;
+      const spaceRecord = dbService.getSpaceByName(space);
+
+      if (!spaceRecord) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Space not found',
+          message: `Space '${space}' does not exist`
+        };
+      }
+
+      const endpointNames = dbService.getEndpointsBySpaceId(spaceRecord.id).map(ep => ep.name);
+      const validationError = validateSchedule(body, endpointNames, false);
+      if (validationError) {
+        reply.status(400);
+        return {
+          success: false,
+          error: 'Invalid schedule',
+          message: validationError
+        };
+      }
+
+      const schedule = dbService.createCaptureSchedule(spaceRecord.id, {
+        name: body.name!.trim(),
+        cron: body.cron!.trim(),
+        endpoints: body.endpoints,
+        compare_to_baseline: body.compareToBaseline,
+        enabled: body.enabled
+      });
+
+      reply.status(201);
+      return {
+        success: true,
+        data: formatSchedule(schedule),
+        space,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('UNIQUE constraint failed')) {
+        reply.status(409);
+        return {
+          success: false,
+          error: 'Schedule already exists',
+          message: `A schedule named '${body.name}' already exists in space '${request.params.space}'`
+        };
+      }
+
+      (request as any).logger?.error('Failed to create schedule:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to create schedule',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      dbService.close();
+    }
+  });
+
+/**
+ * @swagger
+ * /api/spaces/{space}/schedules/{id}:
+ *   put:
+ *     summary: Update a capture schedule
+ *     tags: [Spaces, Schedules]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Space name
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Schedule ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               cron:
+ *                 type: string
+ *               endpoints:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               compareToBaseline:
+ *                 type: boolean
+ *               enabled:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Schedule updated successfully
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // PUT /api/spaces/:space/schedules/:id - Update a capture schedule
+  fastify.put<{ Params: { space: string; id: string }; Body: ScheduleBody }>('/:space/schedules/:id', async (request, reply) => {
+    const dbService = new DatabaseService();
+    try {
+      const { space, id } = request.params;
+      const body = request.body || {};
+      const spaceRecord = dbService.getSpaceByName(space);
+      const schedule = dbService.getCaptureScheduleById(parseInt(id, 10));
+
+      if (!spaceRecord || !schedule || schedule.space_id !== spaceRecord.id) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Schedule not found',
+          message: `Schedule '${id}' does not exist in space '${space}'`
+        };
+      }
+
+      const endpointNames = dbService.getEndpointsBySpaceId(spaceRecord.id).map(ep => ep.name);
+      const validationError = validateSchedule(body, endpointNames, true);
+      if (validationError) {
+        reply.status(400);
+        return {
+          success: false,
+          error: 'Invalid schedule',
+          message: validationError
+        };
+      }
+
+      dbService.updateCaptureSchedule(schedule.id, {
+        name: body.name?.trim(),
+        cron: body.cron?.trim(),
+        endpoints: body.endpoints,
+        compare_to_baseline: body.compareToBaseline,
+        enabled: body.enabled
+      });
+
+      return {
+        success: true,
+        data: formatSchedule(dbService.getCaptureScheduleById(schedule.id)!),
+        space,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      (request as any).logger?.error('Failed to update schedule:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to update schedule',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      dbService.close();
+    }
+  });
+
+/**
+ * @swagger
+ * /api/spaces/{space}/schedules/{id}:
+ *   delete:
+ *     summary: Delete a capture schedule
+ *     tags: [Spaces, Schedules]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Space name
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Schedule ID
+ *     responses:
+ *       200:
+ *         description: Schedule deleted successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // DELETE /api/spaces/:space/schedules/:id - Delete a capture schedule
+  fastify.delete<{ Params: { space: string; id: string } }>('/:space/schedules/:id', async (request, reply) => {
+    const dbService = new DatabaseService();
+    try {
+      const { space, id } = request.params;
+      const spaceRecord = dbService.getSpaceByName(space);
+      const schedule = dbService.getCaptureScheduleById(parseInt(id, 10));
+
+      if (!spaceRecord || !schedule || schedule.space_id !== spaceRecord.id) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Schedule not found',
+          message: `Schedule '${id}' does not exist in space '${space}'`
+        };
+      }
+
+      dbService.deleteCaptureSchedule(schedule.id);
+
+      return {
+        success: true,
+        message: `Schedule '${schedule.name}' deleted`,
+        space,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      (request as any).logger?.error('Failed to delete schedule:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to delete schedule',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      dbService.close();
+    }
+  });
+
+/**
+ * @swagger
+ * /api/spaces/{space}/schedules/{id}/run:
+ *   post:
+ *     summary: Run a capture schedule now
+ *     description: Starts a capture run for the schedule immediately; progress is emitted to the snapshots and comparisons Socket.IO rooms
+ *     tags: [Spaces, Schedules]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Space name
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Schedule ID
+ *     responses:
+ *       202:
+ *         description: Capture run started
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // POST /api/spaces/:space/schedules/:id/run - Trigger a schedule immediately
+  fastify.post<{ Params: { space: string; id: string } }>('/:space/schedules/:id/run', async (request, reply) => {
+    const dbService = new DatabaseService();
+    try {
+      const { space, id } = request.params;
+      const spaceRecord = dbService.getSpaceByName(space);
+      const schedule = dbService.getCaptureScheduleById(parseInt(id, 10));
+
+      if (!spaceRecord || !schedule || schedule.space_id !== spaceRecord.id) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Schedule not found',
+          message: `Schedule '${id}' does not exist in space '${space}'`
+        };
+      }
+
+      const scheduler = (fastify as any).scheduler as CaptureScheduler | undefined;
+      if (!scheduler) {
+        reply.status(500);
+        return {
+          success: false,
+          error: 'Scheduler not available',
+          message: 'Internal server error'
+        };
+      }
+
+      const run = await scheduler.runSchedule({ ...schedule, space_name: spaceRecord.name });
+
+      reply.status(202);
+      return {
+        success: true,
+        message: `Capture run started for schedule '${schedule.name}'`,
+        runId: run.runId,
+        endpoints: run.endpoints,
+        space,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      (request as any).logger?.error('Failed to run schedule:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to run schedule',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      dbService.close();
+    }
+  });
+
+/**
+ * @swagger
+ * /api/spaces/{space}/runs:
+ *   get:
+ *     summary: List capture runs of a space
+ *     description: Run history of manual and scheduled captures, newest first
+ *     tags: [Spaces, Schedules]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Space name
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *         description: Maximum number of runs to return
+ *     responses:
+ *       200:
+ *         description: Runs retrieved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // GET /api/spaces/:space/runs - Capture run history
+  fastify.get<{ Params: { space: string }; Querystring: { limit?: string } }>('/:space/runs', async (request, reply) => {
+    const dbService = new DatabaseService();
+    try {
+      const { space } = request.params;
+      const limit = parseInt(request.query.limit || '50', 10) || 50;
+      const spaceRecord = dbService.getSpaceByName(space);
+
+      if (!spaceRecord) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Space not found',
+          message: `Space '${space}' does not exist`
+        };
+      }
+
+      const runs = dbService.getCaptureRunsBySpaceId(spaceRecord.id, limit).map(formatRun);
+
+      return {
+        success: true,
+        data: runs,
+        count: runs.length,
+        space,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      (request as any).logger?.error('Failed to list capture runs:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to list capture runs',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      dbService.close();
+    }
+  });
+
+/**
+ * @swagger
+ * /api/spaces/{space}/runs/{runId}:
+ *   get:
+ *     summary: Get a capture run with its snapshots
+ *     tags: [Spaces, Schedules]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Space name
+ *       - in: path
+ *         name: runId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Capture run ID
+ *     responses:
+ *       200:
+ *         description: Run retrieved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // GET /api/spaces/:space/runs/:runId - Capture run details
+  fastify.get<{ Params: { space: string; runId: string } }>('/:space/runs/:runId', async (request, reply) => {
+    const dbService = new DatabaseService();
+    try {
+      const { space, runId } = request.params;
+      const spaceRecord = dbService.getSpaceByName(space);
+      const run = dbService.getCaptureRun(runId);
+
+      if (!spaceRecord || !run || run.space_id !== spaceRecord.id) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Run not found',
+          message: `Capture run '${runId}' does not exist in space '${space}'`
+        };
+      }
+
+      const endpointNames = new Map(dbService.getEndpointsBySpaceId(spaceRecord.id).map(ep => [ep.id, ep.name]));
+      const snapshots = dbService.getSnapshotsByRunId(runId).map(snapshot => ({
+        id: snapshot.id,
+        endpoint: endpointNames.get(snapshot.endpoint_id) || null,
+        filename: snapshot.filename,
+        status: snapshot.status,
+        responseStatus: snapshot.response_status ?? null,
+        duration: snapshot.duration ?? null,
+        error: snapshot.error || null,
+        createdAt: snapshot.created_at
+      }));
+
+      return {
+        success: true,
+        data: { ...formatRun(run), snapshots },
+        space,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      (request as any).logger?.error('Failed to get capture run:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to get capture run',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      dbService.close();
+    }
+  });
+}
+
+export { scheduleRoutes };
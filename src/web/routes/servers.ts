@@ -1,6 +1,7 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { DatabaseConfigManager } from '../../database/database-config-manager.js';
 import { testBackendConnection } from '../../web/frontend/src/config/index.js';
+import { maskSensitiveFields, restoreMaskedFields } from '../../utils/secrets.js';
 
 const dbConfigManager = new DatabaseConfigManager();
 
@@ -13,7 +14,7 @@ export async function serversRoutes(fastify: FastifyInstance) {
       // Parse JSON fields
       const parsedServers = servers.map(server => ({
         ...server,
-        auth_config: server.auth_config ? JSON.parse(server.auth_config) : null,
+        auth_config: server.auth_config ? maskSensitiveFields(JSON.parse(server.auth_config)) : null,
         server_info: server.server_info ? JSON.parse(server.server_info) : null,
         is_default: Boolean(server.is_default),
         is_locked: Boolean(server.is_locked)
@@ -106,7 +107,7 @@ export async function serversRoutes(fastify: FastifyInstance) {
       });
       
       // Parse JSON fields for response
-      newServer.auth_config = newServer.auth_config ? JSON.parse(newServer.auth_config) : null;
+      newServer.auth_config = newServer.auth_config ? maskSensitiveFields(JSON.parse(newServer.auth_config)) : null;
       newServer.server_info = newServer.server_info ? JSON.parse(newServer.server_info) : null;
       newServer.is_default = Boolean(newServer.is_default);
       newServer.is_locked = Boolean(newServer.is_locked);
@@ -140,6 +141,12 @@ export async function serversRoutes(fastify: FastifyInstance) {
         server_info: any;
       }>;
       
+      // Masked secrets sent back unchanged keep their stored values
+      if (updates.auth_config) {
+        const stored = dbConfigManager.database.getSavedServerById(parseInt(id));
+        updates.auth_config = restoreMaskedFields(updates.auth_config, stored?.auth_config ? JSON.parse(stored.auth_config) : undefined);
+      }
+      
       const success = dbConfigManager.database.updateSavedServer(parseInt(id), updates);
       
       if (!success) {
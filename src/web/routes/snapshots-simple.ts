@@ -1,4 +1,41 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import type { DatabaseService } from '../../database/database-service.js';
+import type { ApiSnapshot, Config } from '../../types.js';
+import { getNormalizationRules } from '../../utils/valueNormalizer.js';
+import { summarizeDifferences } from '../../services/capture-run-service.js';
+import { locateSnapshotFile } from '../../services/baseline-service.js';
+import { readSnapshotFileSync } from '../../services/blob-store.js';
+
+// Look up a snapshot record by database ID or by filename (for backward compatibility)
+function findSnapshotRecord(dbService: DatabaseService, id: string): any {
+  const query = `
+    SELECT 
+      s.*,
+      e.name as endpoint_name,
+      e.url as endpoint_url,
+      e.method as endpoint_method,
+      sp.name as space_name
+    FROM snapshots s
+    JOIN endpoints e ON s.endpoint_id = e.id
+    JOIN spaces sp ON s.space_id = sp.id
+  `;
+
+  if (/^\d+$/.test(id)) {
+    return dbService.db.prepare(`${query} WHERE s.id = ?`).get(parseInt(id));
+  }
+
+  const filename = id.endsWith('.json') ? id : `${id}.json`;
+  return dbService.db.prepare(`${query} WHERE s.filename = ?`).get(filename);
+}
+
+function readSnapshotFile(snapshotRecord: any): ApiSnapshot | null {
+  const filePath = locateSnapshotFile(snapshotRecord);
+  if (!filePath) {
+    return null;
+  }
+
+  return readSnapshotFileSync(filePath);
+}
 
 async function snapshotRoutes(fastify: FastifyInstance) {
 
@@ -356,8 +393,7 @@ async function snapshotRoutes(fastify: FastifyInstance) {
         }
         
         // Read and parse the snapshot file
-        const fileContent = fs.readFileSync(filePath, 'utf-8');
-        const snapshotData = JSON.parse(fileContent);
+        const snapshotData = readSnapshotFileSync(filePath);
         
         // Return combined metadata and content
         return {
@@ -459,8 +495,7 @@ async function snapshotRoutes(fastify: FastifyInstance) {
         }
         
         // Read and parse the snapshot file
-        const fileContent = fs.readFileSync(filePath, 'utf-8');
-        const snapshotData = JSON.parse(fileContent);
+        const snapshotData = readSnapshotFileSync(filePath);
         
         // Return just the response data
         return {
@@ -594,7 +629,8 @@ async function snapshotRoutes(fastify: FastifyInstance) {
         schemaManager,
         endpointsToCapture,
         (request as any).logger || console,
-        targetSpace
+        targetSpace,
+        spaceConfig.capture
       );
       
       (request as any).logger?.info(`Starting snapshot capture for space '${targetSpace}' with ${endpointsToCapture.length} endpoint(s):`, endpointsToCapture.map(e => e.name));
@@ -778,6 +814,10 @@ async function snapshotRoutes(fastify: FastifyInstance) {
  *                 items:
  *                   type: string
  *                 description: Specific endpoint names to capture (optional)
+ *               compare:
+ *                 type: boolean
+ *                 default: true
+ *                 description: Compare each new snapshot with the endpoint's baseline
  *     responses:
  *       200:
  *         description: Snapshot capture started successfully
@@ -790,7 +830,10 @@ async function snapshotRoutes(fastify: FastifyInstance) {
  *                   properties:
  *                     jobId:
  *                       type: string
- *                       description: Capture job ID
+ *                       description: Capture job ID (same as runId)
+ *                     runId:
+ *                       type: string
+ *                       description: Capture run ID recorded in capture_runs
  *                     space:
  *                       type: string
  *                       description: Space name
@@ -808,7 +851,7 @@ async function snapshotRoutes(fastify: FastifyInstance) {
   fastify.post<{ Params: { space: string } }>('/capture/:space', async (request, reply) => {
     try {
       const { space } = request.params;
-      const { endpoints } = request.body as { endpoints?: string[] };
+      const { endpoints, compare } = (request.body || {}) as { endpoints?: string[]; compare?: boolean };
       
       // Check if the space exists first
       const { DatabaseConfigManager } = await import('../../database/database-config-manager.js');
@@ -857,179 +900,31 @@ async function snapshotRoutes(fastify: FastifyInstance) {
         }
       }
       
-      // Create a space-aware snapshot service
-      const { ServiceKeys } = await import('../../core/container.js');
-      const { DefaultSnapshotService } = await import('../../services/snapshot-service.js');
-      
-      // Get dependencies from container
-      const httpClient = await coreApp.getContainer().resolve(ServiceKeys.HTTP_CLIENT);
-      const storageProvider = await coreApp.getContainer().resolve(ServiceKeys.STORAGE);
-      const authRegistry = await coreApp.getContainer().resolve(ServiceKeys.AUTH_REGISTRY);
-      const schemaManager = await coreApp.getContainer().resolve(ServiceKeys.SCHEMA_MANAGER);
-      
-      // Create space-specific snapshot service
-      const snapshotService = new DefaultSnapshotService(
-        httpClient,
-        storageProvider,
-        authRegistry,
-        schemaManager,
-        endpointsToCapture,
-        (request as any).logger || console,
-        space
-      );
-      
-      (request as any).logger?.info(`Starting snapshot capture for space '${space}' with ${endpointsToCapture.length} endpoint(s):`, endpointsToCapture.map(e => e.name));
+      // Capture as a recorded run; each snapshot is compared with its baseline as it arrives
+      const { CaptureRunService } = await import('../../services/capture-run-service.js');
+      const captureRuns = new CaptureRunService(coreApp, (request as any).logger || console, (room, event, payload) => {
+        (fastify as any).io?.to(room).emit(event, payload);
+      });
       
-      // Start capture process asynchronously
-      const capturePromise = (async () => {
-        const results = [];
-        
-        for (const endpoint of endpointsToCapture) {
-          try {
-            const result = await snapshotService.captureSnapshot(endpoint);
-            
-            if (result.success && result.snapshot) {
-              // Save the snapshot using space-specific storage provider
-              const { FileSystemStorageProvider } = await import('../../services/storage-provider.js');
-              
-              // Sanitize space name to prevent path traversal
-              const sanitizedSpace = space.replace(/[^a-zA-Z0-9_-]/g, '_');
-              if (sanitizedSpace !== space) {
-                (request as any).logger?.warn(`Space name sanitized from '${space}' to '${sanitizedSpace}'`);
-              }
-              
-              const spaceAwareStorage = new FileSystemStorageProvider(
-                sanitizedSpace !== 'default' ? `./snapshots/${sanitizedSpace}` : './snapshots',
-                sanitizedSpace !== 'default' ? `./snapshots/${sanitizedSpace}/baseline` : './snapshots/baseline'
-              );
-              
-              const filePath = await spaceAwareStorage.saveSnapshot(result.snapshot, false);
-              console.log(`📁 Snapshot saved to: ${filePath} for space: ${space}`);
-              
-              // Record snapshot in database
-              try {
-                const { DatabaseService } = await import('../../database/database-service.js');
-                const dbService = new DatabaseService();
-                const spaceRecord = dbService.getSpaceByName(space);
-                
-                if (spaceRecord) {
-                  const endpointRecords = dbService.getEndpointsBySpaceId(spaceRecord.id);
-                  const endpointRecord = endpointRecords.find(ep => ep.name === endpoint.name);
-                  
-                  if (endpointRecord) {
-                    const filename = filePath.split('/').pop() || `${endpoint.name}_${Date.now()}.json`;
-                    dbService.createSnapshot(
-                      spaceRecord.id,
-                      endpointRecord.id,
-                      filename,
-                      'success',
-                      {
-                        response_status: result.snapshot.response?.status,
-                        duration: result.snapshot.response?.duration,
-                        file_size: JSON.stringify(result.snapshot).length
-                      }
-                    );
-                    console.log(`📊 Snapshot recorded in database for endpoint '${endpoint.name}'`);
-                  }
-                }
-                dbService.close();
-              } catch (dbError) {
-                console.warn(`Failed to record snapshot in database:`, dbError);
-              }
-              
-              results.push({
-                endpoint: endpoint.name,
-                success: true,
-                snapshotId: `${endpoint.name}_${Date.now()}`,
-                timestamp: result.snapshot.timestamp
-              });
-              
-              (request as any).logger?.info(`✅ Snapshot captured for endpoint '${endpoint.name}' in space '${space}'`);
-            } else {
-              // Record failed snapshot in database
-              try {
-                const { DatabaseService } = await import('../../database/database-service.js');
-                const dbService = new DatabaseService();
-                const spaceRecord = dbService.getSpaceByName(space);
-                
-                if (spaceRecord) {
-                  const endpointRecords = dbService.getEndpointsBySpaceId(spaceRecord.id);
-                  const endpointRecord = endpointRecords.find(ep => ep.name === endpoint.name);
-                  
-                  if (endpointRecord) {
-                    const filename = `${endpoint.name}_${Date.now()}_failed.json`;
-                    dbService.createSnapshot(
-                      spaceRecord.id,
-                      endpointRecord.id,
-                      filename,
-                      'error',
-                      {
-                        error: result.error || 'Unknown error'
-                      }
-                    );
-                    console.log(`📊 Failed snapshot recorded in database for endpoint '${endpoint.name}'`);
-                  }
-                }
-                dbService.close();
-              } catch (dbError) {
-                console.warn(`Failed to record failed snapshot in database:`, dbError);
-              }
-              
-              results.push({
-                endpoint: endpoint.name,
-                success: false,
-                error: result.error || 'Unknown error'
-              });
-              
-              (request as any).logger?.warn(`❌ Failed to capture snapshot for endpoint '${endpoint.name}' in space '${space}': ${result.error}`);
-            }
-          } catch (error) {
-            results.push({
-              endpoint: endpoint.name,
-              success: false,
-              error: error instanceof Error ? error.message : 'Unknown error'
-            });
-            
-            (request as any).logger?.error(`❌ Error capturing snapshot for endpoint '${endpoint.name}' in space '${space}':`, error);
-          }
-        }
-        
-        return results;
-      })();
+      const run = await captureRuns.start({
+        space,
+        endpoints: endpointsToCapture.map(e => e.name),
+        trigger: 'manual',
+        compareToBaseline: compare !== false
+      });
       
-      // Emit WebSocket event when capture starts
-      if ((fastify as any).io) {
-        (fastify as any).io.to('snapshots').emit('capture:started', {
-          space,
-          endpoints: endpointsToCapture.map(e => e.name),
-          timestamp: new Date().toISOString()
-        });
-        
-        // Emit completion event when done
-        capturePromise.then((results) => {
-          (fastify as any).io.to('snapshots').emit('capture:complete', {
-            space,
-            results,
-            successful: results.filter(r => r.success).length,
-            failed: results.filter(r => !r.success).length,
-            timestamp: new Date().toISOString()
-          });
-        }).catch((error) => {
-          (fastify as any).io.to('snapshots').emit('capture:error', {
-            space,
-            error: error.message,
-            timestamp: new Date().toISOString()
-          });
-        });
-      }
+      run.completion.catch((error) => {
+        (request as any).logger?.error(`Capture run ${run.runId} for space '${space}' failed:`, error);
+      });
       
       // Return immediate response
       const response = {
         success: true,
         message: `Snapshot capture started for space '${space}' with ${endpointsToCapture.length} endpoint(s)`,
-        jobId: Date.now().toString(),
+        jobId: run.runId,
+        runId: run.runId,
         space,
-        endpoints: endpointsToCapture.map(e => e.name),
+        endpoints: run.endpoints,
         timestamp: new Date().toISOString()
       };
       
@@ -1068,6 +963,15 @@ async function snapshotRoutes(fastify: FastifyInstance) {
  *               options:
  *                 type: object
  *                 description: Comparison options
+ *                 properties:
+ *                   engine:
+ *                     type: string
+ *                     description: Name of the registered diff provider
+ *                     default: json
+ *                   shapeOnly:
+ *                     type: boolean
+ *                     description: Compare inferred response schemas instead of response values
+ *                     default: false
  *     responses:
  *       200:
  *         description: Comparison completed successfully
@@ -1085,34 +989,159 @@ async function snapshotRoutes(fastify: FastifyInstance) {
  *                           type: string
  *                         snapshotId:
  *                           type: string
+ *                         space:
+ *                           type: string
  *                         result:
  *                           type: string
- *                           enum: [no-changes, changes-detected, error]
- *                         differences:
- *                           type: array
- *                           description: List of differences found
+ *                           enum: [no-changes, changes-detected]
+ *                         comparison:
+ *                           type: object
+ *                           description: Full SnapshotComparison (endpoint, baseline, current, differences, hasChanges)
+ *                         summary:
+ *                           type: object
+ *                           properties:
+ *                             total:
+ *                               type: integer
+ *                             breaking:
+ *                               type: integer
+ *                             nonBreaking:
+ *                               type: integer
+ *                             informational:
+ *                               type: integer
  *       400:
  *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
   // POST /api/snapshots/compare - Compare snapshots
   fastify.post('/compare', async (request: FastifyRequest & { logger?: any }, reply: FastifyReply) => {
     try {
-      const { baselineId, snapshotId } = request.body as any;
+      const { baselineId, snapshotId, options } = (request.body || {}) as {
+        baselineId?: string | number;
+        snapshotId?: string | number;
+        options?: { engine?: string; shapeOnly?: boolean };
+      };
       
-      // Mock comparison result
-      const comparison = {
-        baselineId,
-        snapshotId,
-        result: 'no-changes',
-        differences: [],
+      if (!baselineId || !snapshotId) {
+        reply.status(400);
+        return {
+          success: false,
+          error: 'Missing snapshot IDs',
+          message: 'Both baselineId and snapshotId are required'
+        };
+      }
+      
+      const coreApp = (request as any).coreApp;
+      if (!coreApp) {
+        reply.status(500);
+        return {
+          success: false,
+          error: 'Core application not available',
+          message: 'Internal server error'
+        };
+      }
+      
+      const { DatabaseService } = await import('../../database/database-service.js');
+      const dbService = new DatabaseService();
+      
+      let baselineRecord: any;
+      let currentRecord: any;
+      let baseline: ApiSnapshot | null;
+      let current: ApiSnapshot | null;
+      
+      try {
+        baselineRecord = findSnapshotRecord(dbService, String(baselineId));
+        currentRecord = findSnapshotRecord(dbService, String(snapshotId));
+        
+        const missingId = !baselineRecord ? baselineId : !currentRecord ? snapshotId : undefined;
+        if (missingId !== undefined) {
+          reply.status(404);
+          return {
+            success: false,
+            error: 'Snapshot not found',
+            message: `No snapshot found with ID ${missingId}`
+          };
+        }
+        
+        baseline = readSnapshotFile(baselineRecord);
+        current = readSnapshotFile(currentRecord);
+      } finally {
+        dbService.close();
+      }
+      
+      const missingFile = !baseline ? baselineRecord : !current ? currentRecord : undefined;
+      if (missingFile) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Snapshot file not found',
+          message: `File ${missingFile.filename} not found in any expected location`
+        };
+      }
+      
+      // Resolve the diff provider registered with the core application
+      const { ServiceKeys } = await import('../../core/container.js');
+      const diffRegistry = await coreApp.getContainer().resolve(ServiceKeys.DIFF_REGISTRY);
+      const engine = options?.engine || 'json';
+      const diffProvider = diffRegistry.get(engine);
+      
+      if (!diffProvider) {
+        reply.status(400);
+        return {
+          success: false,
+          error: 'Unknown diff engine',
+          message: `Diff provider '${engine}' is not registered. Available: ${diffRegistry.list().join(', ')}`
+        };
+      }
+      
+      // Apply the rules of the space the compared snapshot belongs to
+      const { DatabaseConfigManager } = await import('../../database/database-config-manager.js');
+      const configManager = new DatabaseConfigManager();
+      const spaceName = currentRecord.space_name;
+      let spaceConfig: Config | undefined;
+      try {
+        spaceConfig = configManager.spaceExists(spaceName) ? configManager.loadConfig(undefined, spaceName) : undefined;
+      } finally {
+        configManager.close();
+      }
+      const rules = [
+        ...(spaceConfig?.rules || []),
+        ...getNormalizationRules(spaceConfig?.normalizationPresets)
+      ];
+      
+      const comparison = diffProvider.compare(baseline!, current!, rules, { shapeOnly: options?.shapeOnly });
+      const summary = summarizeDifferences(comparison.differences);
+      
+      const result = {
+        baselineId: baselineRecord.id,
+        snapshotId: currentRecord.id,
+        space: spaceName,
+        endpoint: comparison.endpoint,
+        result: comparison.hasChanges ? 'changes-detected' : 'no-changes',
+        comparison,
+        summary,
         timestamp: new Date().toISOString()
       };
       
+      (request as any).logger?.info(`Compared snapshots ${baselineRecord.id} and ${currentRecord.id}: ${summary.total} difference(s), ${summary.breaking} breaking`);
+      
+      if ((fastify as any).io) {
+        (fastify as any).io.to('comparisons').emit('comparison:complete', {
+          baselineId: result.baselineId,
+          snapshotId: result.snapshotId,
+          space: spaceName,
+          endpoint: comparison.endpoint,
+          result: result.result,
+          summary,
+          timestamp: result.timestamp
+        });
+      }
+      
       return {
         success: true,
-        data: comparison
+        data: result
       };
     } catch (error) {
       (request as any).logger?.error('Failed to compare snapshots:', error);
@@ -1,4 +1,36 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import type { CaptureSettings, LatencySettings } from '../../types.js';
+
+// Returns an error message for invalid capture settings, or null when they are acceptable
+function validateCaptureSettings(settings: CaptureSettings): string | null {
+  if (settings.concurrency !== undefined && (!Number.isInteger(settings.concurrency) || settings.concurrency < 1 || settings.concurrency > 50)) {
+    return 'concurrency must be an integer between 1 and 50';
+  }
+
+  if (settings.rateLimits !== undefined) {
+    if (typeof settings.rateLimits !== 'object' || settings.rateLimits === null || Array.isArray(settings.rateLimits)) {
+      return 'rateLimits must map host names to requests per second';
+    }
+    const invalid = Object.entries(settings.rateLimits).find(([, perSecond]) => typeof perSecond !== 'number' || !(perSecond > 0));
+    if (invalid) {
+      return `Rate limit for '${invalid[0]}' must be a positive number of requests per second`;
+    }
+  }
+
+  if (settings.retry !== undefined) {
+    if (typeof settings.retry !== 'object' || settings.retry === null) {
+      return 'retry must be an object';
+    }
+    for (const field of ['maxRetries', 'baseDelayMs', 'maxDelayMs'] as const) {
+      const value = settings.retry[field];
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        return `retry.${field} must be a non-negative integer`;
+      }
+    }
+  }
+
+  return null;
+}
 
 async function spacesHierarchicalRoutes(fastify: FastifyInstance) {
 
@@ -525,6 +557,110 @@ async function spacesHierarchicalRoutes(fastify: FastifyInstance) {
     }
   });
 
+/**
+ * @swagger
+ * /api/spaces/{space}/endpoints/{endpoint}/latency:
+ *   get:
+ *     summary: Response time history of an endpoint
+ *     description: |
+ *       Durations of the endpoint's successful captures, oldest first, each with the p50/p95/p99 of the rolling
+ *       window ending at it, plus the percentiles of the latest window and the space's regression settings.
+ *     tags: [Spaces, Endpoints]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Space name
+ *       - in: path
+ *         name: endpoint
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Endpoint name
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 100
+ *         description: Number of captures to return
+ *       - in: query
+ *         name: window
+ *         schema:
+ *           type: integer
+ *         description: Rolling window size, defaults to the space's latency settings
+ *     responses:
+ *       200:
+ *         description: Latency history retrieved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // GET /api/spaces/:space/endpoints/:endpoint/latency - Response time percentiles and history
+  fastify.get<{ Params: { space: string; endpoint: string }; Querystring: { limit?: string; window?: string } }>('/:space/endpoints/:endpoint/latency', async (request, reply) => {
+    try {
+      const { space, endpoint } = request.params;
+      const { DatabaseConfigManager } = await import('../../database/database-config-manager.js');
+      const { DatabaseService } = await import('../../database/database-service.js');
+      const { latencyStats, resolveLatencySettings, rollingLatency } = await import('../../utils/latency.js');
+      const configManager = new DatabaseConfigManager();
+      const dbService = new DatabaseService();
+      
+      try {
+        const spaceRecord = dbService.getSpaceByName(space);
+        const endpointRecord = spaceRecord && dbService.getEndpointsBySpaceId(spaceRecord.id).find(e => e.name === endpoint);
+        
+        if (!spaceRecord || !endpointRecord) {
+          reply.status(404);
+          return {
+            success: false,
+            error: 'Endpoint not found',
+            message: `Endpoint '${endpoint}' does not exist in space '${space}'`
+          };
+        }
+        
+        const settings = resolveLatencySettings(configManager.getLatencySettings(space));
+        const window = Math.max(1, parseInt(request.query.window || '') || settings.window);
+        const limit = Math.max(1, parseInt(request.query.limit || '') || 100);
+        
+        // Load a window more than shown so the first points have full rolling windows
+        const rows = dbService.getSnapshotDurations(endpointRecord.id, limit + window - 1).reverse();
+        const points = rollingLatency(rows.map(row => ({
+          timestamp: row.created_at,
+          duration: row.duration,
+          snapshotId: row.id,
+          runId: row.run_id || undefined
+        })), window).slice(-limit);
+        
+        return {
+          success: true,
+          data: {
+            window,
+            stats: latencyStats(rows.slice(-window).map(row => row.duration)),
+            settings,
+            points
+          },
+          space,
+          endpoint,
+          timestamp: new Date().toISOString()
+        };
+      } finally {
+        dbService.close();
+        configManager.close();
+      }
+    } catch (error) {
+      (request as any).logger?.error('Failed to get endpoint latency:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to get endpoint latency',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  });
+
 /**
  * @swagger
  * /api/spaces/{space}/snapshots/capture:
@@ -595,6 +731,522 @@ async function spacesHierarchicalRoutes(fastify: FastifyInstance) {
       };
     }
   });
+
+/**
+ * @swagger
+ * /api/spaces/{space}/normalization:
+ *   get:
+ *     summary: Get value normalization presets for a space
+ *     tags: [Spaces]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Space name
+ *     responses:
+ *       200:
+ *         description: Selected and available presets
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         presets:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                         available:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               name:
+ *                                 type: string
+ *                               description:
+ *                                 type: string
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // GET /api/spaces/:space/normalization - Get value normalization presets
+  fastify.get<{ Params: { space: string } }>('/:space/normalization', async (request, reply) => {
+    try {
+      const { space } = request.params;
+      
+      const { DatabaseConfigManager } = await import('../../database/database-config-manager.js');
+      const { NORMALIZATION_PRESETS } = await import('../../utils/valueNormalizer.js');
+      const configManager = new DatabaseConfigManager();
+      
+      if (!configManager.spaceExists(space)) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Space not found',
+          message: `Space '${space}' does not exist`
+        };
+      }
+      
+      return {
+        success: true,
+        data: {
+          presets: configManager.getNormalizationPresets(space),
+          available: Object.entries(NORMALIZATION_PRESETS).map(([name, preset]) => ({
+            name,
+            description: preset.description
+          }))
+        },
+        space: space,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      (request as any).logger?.error('Failed to get normalization presets:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to get normalization presets',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  });
+
+/**
+ * @swagger
+ * /api/spaces/{space}/normalization:
+ *   put:
+ *     summary: Select value normalization presets for a space
+ *     description: Selected presets mask dynamic values (timestamps, ids, etags, cursors) before snapshots are compared
+ *     tags: [Spaces]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Space name
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [presets]
+ *             properties:
+ *               presets:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [timestamps, identifiers, etags, pagination, tokens]
+ *     responses:
+ *       200:
+ *         description: Presets updated successfully
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // PUT /api/spaces/:space/normalization - Select value normalization presets
+  fastify.put<{ Params: { space: string }; Body: { presets?: string[] } }>('/:space/normalization', async (request, reply) => {
+    try {
+      const { space } = request.params;
+      const { presets } = request.body || {};
+      
+      const { DatabaseConfigManager } = await import('../../database/database-config-manager.js');
+      const { NORMALIZATION_PRESETS } = await import('../../utils/valueNormalizer.js');
+      
+      if (!Array.isArray(presets) || presets.some(preset => typeof preset !== 'string')) {
+        reply.status(400);
+        return {
+          success: false,
+          error: 'Invalid presets',
+          message: 'presets must be an array of preset names'
+        };
+      }
+      
+      const unknown = presets.filter(preset => !NORMALIZATION_PRESETS[preset]);
+      if (unknown.length > 0) {
+        reply.status(400);
+        return {
+          success: false,
+          error: 'Unknown normalization preset',
+          message: `Unknown preset(s): ${unknown.join(', ')}. Available: ${Object.keys(NORMALIZATION_PRESETS).join(', ')}`
+        };
+      }
+      
+      const configManager = new DatabaseConfigManager();
+      
+      if (!configManager.spaceExists(space)) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Space not found',
+          message: `Space '${space}' does not exist`
+        };
+      }
+      
+      const selected = [...new Set(presets)];
+      configManager.setNormalizationPresets(space, selected);
+      
+      return {
+        success: true,
+        data: { presets: selected },
+        space: space,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      (request as any).logger?.error('Failed to update normalization presets:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to update normalization presets',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  });
+
+/**
+ * @swagger
+ * /api/spaces/{space}/capture-settings:
+ *   get:
+ *     summary: Get capture concurrency, rate limits and retry policy of a space
+ *     tags: [Spaces]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Space name
+ *     responses:
+ *       200:
+ *         description: Capture settings with defaults applied
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // GET /api/spaces/:space/capture-settings - Get capture settings
+  fastify.get<{ Params: { space: string } }>('/:space/capture-settings', async (request, reply) => {
+    try {
+      const { space } = request.params;
+      
+      const { DatabaseConfigManager } = await import('../../database/database-config-manager.js');
+      const { DEFAULT_RETRY_POLICY, resolveRetryPolicy } = await import('../../utils/retryPolicy.js');
+      const { DEFAULT_CONCURRENCY } = await import('../../utils/rateLimiter.js');
+      const configManager = new DatabaseConfigManager();
+      
+      if (!configManager.spaceExists(space)) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Space not found',
+          message: `Space '${space}' does not exist`
+        };
+      }
+      
+      const settings = configManager.getCaptureSettings(space);
+      
+      return {
+        success: true,
+        data: {
+          concurrency: settings.concurrency ?? DEFAULT_CONCURRENCY,
+          rateLimits: settings.rateLimits || {},
+          retry: resolveRetryPolicy(settings.retry)
+        },
+        defaults: { concurrency: DEFAULT_CONCURRENCY, rateLimits: {}, retry: DEFAULT_RETRY_POLICY },
+        space: space,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      (request as any).logger?.error('Failed to get capture settings:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to get capture settings',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  });
+
+/**
+ * @swagger
+ * /api/spaces/{space}/capture-settings:
+ *   put:
+ *     summary: Update capture concurrency, rate limits and retry policy of a space
+ *     description: Network errors, 5xx and 429 responses are retried with exponential backoff, honouring Retry-After
+ *     tags: [Spaces]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Space name
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               concurrency:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 50
+ *               rateLimits:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: number
+ *                 description: Requests per second by host, '*' for every other host
+ *                 example: { "staging.example.com": 5, "*": 20 }
+ *               retry:
+ *                 type: object
+ *                 properties:
+ *                   maxRetries:
+ *                     type: integer
+ *                   baseDelayMs:
+ *                     type: integer
+ *                   maxDelayMs:
+ *                     type: integer
+ *     responses:
+ *       200:
+ *         description: Capture settings updated successfully
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // PUT /api/spaces/:space/capture-settings - Update capture settings
+  fastify.put<{ Params: { space: string }; Body: CaptureSettings }>('/:space/capture-settings', async (request, reply) => {
+    try {
+      const { space } = request.params;
+      const body = request.body || {};
+      
+      const { DatabaseConfigManager } = await import('../../database/database-config-manager.js');
+      
+      const validationError = validateCaptureSettings(body);
+      if (validationError) {
+        reply.status(400);
+        return {
+          success: false,
+          error: 'Invalid capture settings',
+          message: validationError
+        };
+      }
+      
+      const configManager = new DatabaseConfigManager();
+      
+      if (!configManager.spaceExists(space)) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Space not found',
+          message: `Space '${space}' does not exist`
+        };
+      }
+      
+      const settings: CaptureSettings = {
+        concurrency: body.concurrency,
+        rateLimits: body.rateLimits,
+        retry: body.retry && {
+          maxRetries: body.retry.maxRetries,
+          baseDelayMs: body.retry.baseDelayMs,
+          maxDelayMs: body.retry.maxDelayMs
+        }
+      };
+      configManager.setCaptureSettings(space, settings);
+      
+      return {
+        success: true,
+        data: settings,
+        space: space,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      (request as any).logger?.error('Failed to update capture settings:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to update capture settings',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  });
+
+/**
+ * @swagger
+ * /api/spaces/{space}/latency-settings:
+ *   get:
+ *     summary: Get the response time regression settings of a space
+ *     tags: [Spaces]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Space name
+ *     responses:
+ *       200:
+ *         description: Latency settings with defaults applied
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // GET /api/spaces/:space/latency-settings - Get latency settings
+  fastify.get<{ Params: { space: string } }>('/:space/latency-settings', async (request, reply) => {
+    try {
+      const { space } = request.params;
+      
+      const { DatabaseConfigManager } = await import('../../database/database-config-manager.js');
+      const { DEFAULT_LATENCY_SETTINGS, resolveLatencySettings } = await import('../../utils/latency.js');
+      const configManager = new DatabaseConfigManager();
+      
+      if (!configManager.spaceExists(space)) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Space not found',
+          message: `Space '${space}' does not exist`
+        };
+      }
+      
+      return {
+        success: true,
+        data: resolveLatencySettings(configManager.getLatencySettings(space)),
+        defaults: DEFAULT_LATENCY_SETTINGS,
+        space: space,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      (request as any).logger?.error('Failed to get latency settings:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to get latency settings',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  });
+
+/**
+ * @swagger
+ * /api/spaces/{space}/latency-settings:
+ *   put:
+ *     summary: Update the response time regression settings of a space
+ *     description: |
+ *       A capture is a regression when it is slower than the chosen percentile of the endpoint's last `window`
+ *       captures by both `thresholdPercent` and `minDeltaMs`. It is reported as a `response.duration` difference.
+ *     tags: [Spaces]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Space name
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               window:
+ *                 type: integer
+ *                 example: 20
+ *               percentile:
+ *                 type: string
+ *                 enum: [p50, p95, p99]
+ *               thresholdPercent:
+ *                 type: number
+ *                 example: 50
+ *               minDeltaMs:
+ *                 type: number
+ *                 example: 100
+ *               severity:
+ *                 type: string
+ *                 enum: [breaking, non-breaking, informational]
+ *               enabled:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Latency settings updated successfully
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // PUT /api/spaces/:space/latency-settings - Update latency settings
+  fastify.put<{ Params: { space: string }; Body: LatencySettings }>('/:space/latency-settings', async (request, reply) => {
+    try {
+      const { space } = request.params;
+      const body = request.body || {};
+      
+      const { DatabaseConfigManager } = await import('../../database/database-config-manager.js');
+      const { validateLatencySettings } = await import('../../utils/latency.js');
+      
+      const validationError = validateLatencySettings(body);
+      if (validationError) {
+        reply.status(400);
+        return {
+          success: false,
+          error: 'Invalid latency settings',
+          message: validationError
+        };
+      }
+      
+      const configManager = new DatabaseConfigManager();
+      
+      if (!configManager.spaceExists(space)) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Space not found',
+          message: `Space '${space}' does not exist`
+        };
+      }
+      
+      const settings: LatencySettings = {
+        window: body.window,
+        percentile: body.percentile,
+        thresholdPercent: body.thresholdPercent,
+        minDeltaMs: body.minDeltaMs,
+        severity: body.severity,
+        enabled: body.enabled
+      };
+      configManager.setLatencySettings(space, settings);
+      
+      return {
+        success: true,
+        data: settings,
+        space: space,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      (request as any).logger?.error('Failed to update latency settings:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to update latency settings',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  });
 }
 
-export { spacesHierarchicalRoutes };
\ No newline at end of file
+export { spacesHierarchicalRoutes };
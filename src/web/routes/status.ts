@@ -1,5 +1,6 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import os from 'os';
+import { metrics, metricsSnapshot } from '../../services/metrics.js';
 
 async function statusRoutes(fastify: FastifyInstance) {
 
@@ -118,8 +119,23 @@ async function statusRoutes(fastify: FastifyInstance) {
  *                               type: integer
  *                             failed:
  *                               type: integer
+ *                             skipped:
+ *                               type: integer
+ *                         comparisons:
+ *                           type: object
+ *                           properties:
+ *                             bySeverity:
+ *                               type: object
+ *                               description: Comparisons per most severe difference (breaking, non-breaking, informational, none)
+ *                               additionalProperties:
+ *                                 type: integer
+ *                             differences:
+ *                               type: object
+ *                               additionalProperties:
+ *                                 type: integer
  *                         performance:
  *                           type: object
+ *                           description: Web server response times in milliseconds
  *                           properties:
  *                             averageResponseTime:
  *                               type: number
@@ -127,34 +143,40 @@ async function statusRoutes(fastify: FastifyInstance) {
  *                               type: number
  *                             p99ResponseTime:
  *                               type: number
+ *                         upstream:
+ *                           type: array
+ *                           description: Response times of captured APIs in milliseconds, per space and endpoint
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               space:
+ *                                 type: string
+ *                               endpoint:
+ *                                 type: string
+ *                               requests:
+ *                                 type: integer
+ *                               errors:
+ *                                 type: integer
+ *                               averageResponseTime:
+ *                                 type: number
+ *                               p95ResponseTime:
+ *                                 type: number
+ *                               p99ResponseTime:
+ *                                 type: number
+ *                         database:
+ *                           type: object
+ *                           properties:
+ *                             sizeBytes:
+ *                               type: integer
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
   // GET /api/status/metrics - Get performance metrics
   fastify.get('/metrics', async (request, reply) => {
     try {
-      const metrics = {
-        requests: {
-          total: 0, // Would track this in production
-          active: 0,
-          errors: 0
-        },
-        snapshots: {
-          captured: 0, // Would track this
-          compared: 0,
-          failed: 0
-        },
-        performance: {
-          averageResponseTime: 0, // Would calculate this
-          p95ResponseTime: 0,
-          p99ResponseTime: 0
-        },
-        timestamp: new Date().toISOString()
-      };
-      
       return {
         success: true,
-        data: metrics
+        data: metricsSnapshot()
       };
     } catch (error) {
       (request as any).logger?.error('Failed to get metrics:', error);
@@ -166,6 +188,38 @@ async function statusRoutes(fastify: FastifyInstance) {
       };
     }
   });
+
+/**
+ * @swagger
+ * /api/status/metrics/prometheus:
+ *   get:
+ *     summary: Get metrics in the Prometheus text exposition format
+ *     tags: [Status]
+ *     responses:
+ *       200:
+ *         description: Metrics for a Prometheus scrape
+ *         content:
+ *           text/plain:
+ *             schema:
+ *               type: string
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // GET /api/status/metrics/prometheus - Get metrics for Prometheus
+  fastify.get('/metrics/prometheus', async (request, reply) => {
+    try {
+      reply.header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+      return metrics.renderPrometheus();
+    } catch (error) {
+      (request as any).logger?.error('Failed to render Prometheus metrics:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to render Prometheus metrics',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  });
 }
 
 export { statusRoutes };
\ No newline at end of file
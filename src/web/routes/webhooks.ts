@@ -0,0 +1,501 @@
+import { FastifyInstance } from 'fastify';
+import { DatabaseService, type WebhookDeliveryRecord, type WebhookRecord } from '../../database/database-service.js';
+import { WebhookService } from '../../services/webhook-service.js';
+import { maskSensitiveFields, restoreMaskedFields } from '../../utils/secrets.js';
+import { maskWebhookUrl, validateWebhookTarget, webhookTargetFromRecord } from '../../utils/webhooks.js';
+import type { WebhookTarget } from '../../types.js';
+
+// The URL shows only its origin and secret headers are masked
+function formatWebhook(record: WebhookRecord) {
+  const target = webhookTargetFromRecord(record);
+  return {
+    id: record.id,
+    ...target,
+    url: maskWebhookUrl(target.url),
+    headers: maskSensitiveFields(target.headers),
+    createdAt: record.created_at,
+    updatedAt: record.updated_at
+  };
+}
+
+function formatDelivery(record: WebhookDeliveryRecord) {
+  return {
+    id: record.id,
+    event: record.event,
+    ...(record.run_id ? { runId: record.run_id } : {}),
+    status: record.status,
+    attempts: record.attempts,
+    ...(record.response_status !== null && record.response_status !== undefined ? { responseStatus: record.response_status } : {}),
+    ...(record.error ? { error: record.error } : {}),
+    durationMs: record.duration,
+    payload: record.payload ? JSON.parse(record.payload) : null,
+    createdAt: record.created_at
+  };
+}
+
+async function webhookRoutes(fastify: FastifyInstance) {
+
+/**
+ * @swagger
+ * /api/spaces/{space}/webhooks:
+ *   get:
+ *     summary: List webhooks of a space
+ *     description: Webhooks are notified when a capture run of the space finds differences of at least their minimum severity
+ *     tags: [Spaces, Webhooks]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Space name
+ *     responses:
+ *       200:
+ *         description: Webhooks retrieved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // GET /api/spaces/:space/webhooks - List webhooks
+  fastify.get<{ Params: { space: string } }>('/:space/webhooks', async (request, reply) => {
+    const dbService = new DatabaseService();
+    try {
+      const { space } = request.params;
+      const spaceRecord = dbService.getSpaceByName(space);
+
+      if (!spaceRecord) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Space not found',
+          message: `Space '${space}' does not exist`
+        };
+      }
+
+      const webhooks = dbService.getWebhooksBySpaceId(spaceRecord.id).map(formatWebhook);
+
+      return {
+        success: true,
+        data: webhooks,
+        count: webhooks.length,
+        space,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      (request as any).logger?.error('Failed to list webhooks:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to list webhooks',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      dbService.close();
+    }
+  });
+
+/**
+ * @swagger
+ * /api/spaces/{space}/webhooks:
+ *   post:
+ *     summary: Create a webhook
+ *     tags: [Spaces, Webhooks]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Space name
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, url]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: team-slack
+ *               url:
+ *                 type: string
+ *                 example: https://hooks.slack.com/services/T000/B000/XXXX
+ *               format:
+ *                 type: string
+ *                 enum: [generic, slack, teams]
+ *                 default: generic
+ *               minSeverity:
+ *                 type: string
+ *                 enum: [breaking, non-breaking, informational]
+ *                 default: breaking
+ *               headers:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: string
+ *               retry:
+ *                 type: object
+ *                 properties:
+ *                   maxRetries:
+ *                     type: integer
+ *                   baseDelayMs:
+ *                     type: integer
+ *                   maxDelayMs:
+ *                     type: integer
+ *               enabled:
+ *                 type: boolean
+ *                 default: true
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Webhook created successfully
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: A webhook with this name already exists
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // POST /api/spaces/:space/webhooks - Create a webhook
+  fastify.post<{ Params: { space: string }; Body: Partial<WebhookTarget> }>('/:space/webhooks', async (request, reply) => {
+    const dbService = new DatabaseService();
+    const body = request.body || {};
+    try {
+      const { space } = request.params;
+      const spaceRecord = dbService.getSpaceByName(space);
+
+      if (!spaceRecord) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Space not found',
+          message: `Space '${space}' does not exist`
+        };
+      }
+
+      const validationError = validateWebhookTarget(body);
+      if (validationError) {
+        reply.status(400);
+        return {
+          success: false,
+          error: 'Invalid webhook',
+          message: validationError
+        };
+      }
+
+      const webhook = dbService.createWebhook(spaceRecord.id, body as WebhookTarget);
+
+      reply.status(201);
+      return {
+        success: true,
+        data: formatWebhook(webhook),
+        space,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('UNIQUE constraint failed')) {
+        reply.status(409);
+        return {
+          success: false,
+          error: 'Webhook already exists',
+          message: `A webhook named '${body.name}' already exists in space '${request.params.space}'`
+        };
+      }
+
+      (request as any).logger?.error('Failed to create webhook:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to create webhook',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      dbService.close();
+    }
+  });
+
+/**
+ * @swagger
+ * /api/spaces/{space}/webhooks/{name}:
+ *   put:
+ *     summary: Update a webhook
+ *     description: Fields left out keep their values; the masked URL and masked header values sent back unchanged keep the stored ones
+ *     tags: [Spaces, Webhooks]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Webhook updated successfully
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // PUT /api/spaces/:space/webhooks/:name - Update a webhook
+  fastify.put<{ Params: { space: string; name: string }; Body: Partial<WebhookTarget> }>('/:space/webhooks/:name', async (request, reply) => {
+    const dbService = new DatabaseService();
+    try {
+      const { space, name } = request.params;
+      const spaceRecord = dbService.getSpaceByName(space);
+      const webhook = spaceRecord ? dbService.getWebhook(spaceRecord.id, name) : null;
+
+      if (!spaceRecord || !webhook) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Webhook not found',
+          message: `Webhook '${name}' does not exist in space '${space}'`
+        };
+      }
+
+      const stored = webhookTargetFromRecord(webhook);
+      const body = { ...request.body };
+      if (body.url === maskWebhookUrl(stored.url)) {
+        body.url = stored.url;
+      }
+      if (body.headers) {
+        body.headers = restoreMaskedFields(body.headers, stored.headers);
+      }
+
+      const validationError = validateWebhookTarget(body, true);
+      if (validationError) {
+        reply.status(400);
+        return {
+          success: false,
+          error: 'Invalid webhook',
+          message: validationError
+        };
+      }
+
+      dbService.updateWebhook(webhook.id, {
+        url: body.url,
+        format: body.format,
+        minSeverity: body.minSeverity,
+        headers: body.headers,
+        retry: body.retry,
+        enabled: body.enabled,
+        description: body.description
+      });
+
+      return {
+        success: true,
+        data: formatWebhook(dbService.getWebhookById(webhook.id)!),
+        space,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      (request as any).logger?.error('Failed to update webhook:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to update webhook',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      dbService.close();
+    }
+  });
+
+/**
+ * @swagger
+ * /api/spaces/{space}/webhooks/{name}:
+ *   delete:
+ *     summary: Delete a webhook and its delivery log
+ *     tags: [Spaces, Webhooks]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Webhook deleted successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // DELETE /api/spaces/:space/webhooks/:name - Delete a webhook
+  fastify.delete<{ Params: { space: string; name: string } }>('/:space/webhooks/:name', async (request, reply) => {
+    const dbService = new DatabaseService();
+    try {
+      const { space, name } = request.params;
+      const spaceRecord = dbService.getSpaceByName(space);
+      const webhook = spaceRecord ? dbService.getWebhook(spaceRecord.id, name) : null;
+
+      if (!spaceRecord || !webhook) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Webhook not found',
+          message: `Webhook '${name}' does not exist in space '${space}'`
+        };
+      }
+
+      dbService.deleteWebhook(webhook.id);
+
+      return {
+        success: true,
+        message: `Webhook '${name}' deleted`,
+        space,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      (request as any).logger?.error('Failed to delete webhook:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to delete webhook',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      dbService.close();
+    }
+  });
+
+/**
+ * @swagger
+ * /api/spaces/{space}/webhooks/{name}/test:
+ *   post:
+ *     summary: Send a test notification
+ *     description: Posts a sample notification with two breaking changes in the webhook's format, also when the webhook is disabled. The delivery is logged.
+ *     tags: [Spaces, Webhooks]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Delivery result, with `success` false when the target did not accept the notification
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // POST /api/spaces/:space/webhooks/:name/test - Send a test notification
+  fastify.post<{ Params: { space: string; name: string } }>('/:space/webhooks/:name/test', async (request, reply) => {
+    try {
+      const { space, name } = request.params;
+      const delivery = await new WebhookService((request as any).logger || console).test(space, name);
+
+      return {
+        success: delivery.status === 'delivered',
+        data: delivery,
+        space,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const notFound = message.includes('does not exist');
+      if (!notFound) {
+        (request as any).logger?.error('Failed to test webhook:', error);
+      }
+      reply.status(notFound ? 404 : 500);
+      return {
+        success: false,
+        error: 'Failed to test webhook',
+        message
+      };
+    }
+  });
+
+/**
+ * @swagger
+ * /api/spaces/{space}/webhooks/{name}/deliveries:
+ *   get:
+ *     summary: Delivery log of a webhook
+ *     tags: [Spaces, Webhooks]
+ *     parameters:
+ *       - in: path
+ *         name: space
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Deliveries, newest first, with the posted payload, attempts and the receiver's response status
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+  // GET /api/spaces/:space/webhooks/:name/deliveries - Delivery log
+  fastify.get<{ Params: { space: string; name: string }; Querystring: { limit?: string } }>('/:space/webhooks/:name/deliveries', async (request, reply) => {
+    const dbService = new DatabaseService();
+    try {
+      const { space, name } = request.params;
+      const limit = Math.min(Math.max(parseInt(request.query.limit || '50', 10) || 50, 1), 500);
+      const spaceRecord = dbService.getSpaceByName(space);
+      const webhook = spaceRecord ? dbService.getWebhook(spaceRecord.id, name) : null;
+
+      if (!spaceRecord || !webhook) {
+        reply.status(404);
+        return {
+          success: false,
+          error: 'Webhook not found',
+          message: `Webhook '${name}' does not exist in space '${space}'`
+        };
+      }
+
+      const deliveries = dbService.getWebhookDeliveries(webhook.id, limit).map(formatDelivery);
+
+      return {
+        success: true,
+        data: deliveries,
+        count: deliveries.length,
+        space,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      (request as any).logger?.error('Failed to get webhook deliveries:', error);
+      reply.status(500);
+      return {
+        success: false,
+        error: 'Failed to get webhook deliveries',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      dbService.close();
+    }
+  });
+}
+
+export { webhookRoutes };
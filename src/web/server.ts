@@ -12,6 +12,9 @@ import dotenv from 'dotenv';
 import { Application } from '../core/application.js';
 import { DatabaseConfigManager } from '../database/database-config-manager.js';
 import { LogLevel, ConsoleLogger } from '../core/logger.js';
+import { CaptureRunService } from '../services/capture-run-service.js';
+import { CaptureScheduler } from '../services/capture-scheduler.js';
+import { httpRequestDuration, httpRequests, httpRequestsActive } from '../services/metrics.js';
 
 // Import API routes
 import { configRoutes } from './routes/config-simple.js';
@@ -28,11 +31,13 @@ export interface WebServerConfig {
   logLevel: LogLevel;
   corsOrigin?: string | string[];
   enableRateLimit?: boolean;
+  enableScheduler?: boolean;
 }
 
 export class WebServer {
   private app: FastifyInstance;
   private coreApp!: Application;
+  private scheduler!: CaptureScheduler;
   private logger: ConsoleLogger;
 
   constructor(private config: WebServerConfig) {
@@ -56,6 +61,9 @@ export class WebServer {
     // Setup middleware
     await this.setupMiddleware();
 
+    // Setup scheduled captures (needs Socket.IO from the middleware)
+    this.setupScheduler();
+
     // Setup routes
     await this.setupRoutes();
 
@@ -145,6 +153,18 @@ export class WebServer {
       this.logger.info(`${request.method} ${request.url} - ${request.ip}`);
     });
 
+    // Request metrics, labelled by route pattern so parameters and unmatched URLs don't create new series
+    this.app.addHook('onRequest', async () => {
+      httpRequestsActive.inc();
+    });
+
+    this.app.addHook('onResponse', async (request, reply) => {
+      httpRequestsActive.dec();
+      const route = request.routeOptions.url || 'unmatched';
+      httpRequests.inc({ method: request.method, route, status: String(reply.statusCode) });
+      httpRequestDuration.observe(reply.elapsedTime / 1000, { method: request.method, route });
+    });
+
     // Add core application to request context
     this.app.decorateRequest('coreApp', null);
     this.app.decorateRequest('logger', null);
@@ -155,6 +175,16 @@ export class WebServer {
     });
   }
 
+  private setupScheduler(): void {
+    const captureRuns = new CaptureRunService(this.coreApp, this.logger, (room, event, payload) => {
+      (this.app as any).io?.to(room).emit(event, payload);
+    });
+    this.scheduler = new CaptureScheduler(captureRuns, this.logger);
+
+    // Routes use the scheduler to trigger schedules on demand
+    this.app.decorate('scheduler', this.scheduler);
+  }
+
   private async setupRoutes(): Promise<void> {
     // Swagger documentation
     await this.app.register(swagger, {
@@ -196,6 +226,34 @@ export class WebServer {
     const { spacesHierarchicalRoutes } = await import('./routes/spaces-hierarchical.js');
     await this.app.register(spacesHierarchicalRoutes, { prefix: '/api/spaces' });
     
+    // Capture schedules and run history
+    const { scheduleRoutes } = await import('./routes/schedules.js');
+    await this.app.register(scheduleRoutes, { prefix: '/api/spaces' });
+    
+    // Baseline promotion, revert and approval history
+    const { baselineRoutes } = await import('./routes/baselines.js');
+    await this.app.register(baselineRoutes, { prefix: '/api/spaces' });
+    
+    // Named auth provider configurations referenced by endpoints
+    const { authProfileRoutes } = await import('./routes/auth-profiles.js');
+    await this.app.register(authProfileRoutes, { prefix: '/api/spaces' });
+    
+    // Space export as Postman collection, OpenAPI document or curl script
+    const { exportRoutes } = await import('./routes/export.js');
+    await this.app.register(exportRoutes, { prefix: '/api/spaces' });
+    
+    // Environment pairs and cross-environment comparisons
+    const { environmentRoutes } = await import('./routes/environments.js');
+    await this.app.register(environmentRoutes, { prefix: '/api/spaces' });
+    
+    // Webhook targets notified of changes found by capture runs, with their delivery log
+    const { webhookRoutes } = await import('./routes/webhooks.js');
+    await this.app.register(webhookRoutes, { prefix: '/api/spaces' });
+    
+    // Stored responses served as a mock of the space's API
+    const { mockRoutes } = await import('./routes/mock.js');
+    await this.app.register(mockRoutes, { prefix: '/api/spaces' });
+    
     // Keep legacy spaces routes for compatibility
     const { spacesRoutes } = await import('./routes/spaces.js');
     await this.app.register(spacesRoutes, { prefix: '/api/spaces-legacy' });
@@ -315,6 +373,10 @@ export class WebServer {
       this.logger.info(`📊 API documentation available at http://${this.config.host}:${this.config.port}/api-docs`);
       this.logger.info(`💾 WebSocket server running on http://${this.config.host}:${this.config.port}/socket.io/`);
       this.logger.info(`🔌 WebSocket endpoint: ws://${this.config.host}:${this.config.port}/socket.io/`);
+
+      if (this.config.enableScheduler !== false) {
+        this.scheduler.start();
+      }
     } catch (error) {
       this.logger.error('Failed to start server:', error);
       throw error;
@@ -324,6 +386,9 @@ export class WebServer {
   async shutdown(): Promise<void> {
     this.logger.info('Shutting down web server...');
 
+    // Stop scheduling new capture runs
+    this.scheduler?.stop();
+
     // Close Fastify server (this also closes WebSocket connections)
     await this.app.close();
     this.logger.info('HTTP server closed');
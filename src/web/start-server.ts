@@ -8,7 +8,8 @@ const config: WebServerConfig = {
   host: process.env.HOST || 'localhost',
   logLevel: LogLevel.INFO,
   corsOrigin: process.env.CORS_ORIGIN ? process.env.CORS_ORIGIN.split(',') : ['http://localhost:5173', 'http://localhost:3300'],
-  enableRateLimit: process.env.ENABLE_RATE_LIMIT === 'true'
+  enableRateLimit: process.env.ENABLE_RATE_LIMIT === 'true',
+  enableScheduler: process.env.ENABLE_SCHEDULER !== 'false'
 };
 
 async function startServer() {
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { authenticateWith, resolveEndpointAuth } from '../src/utils/authProfileResolver.js'
+import { BearerAuthProvider } from '../src/plugins/auth/bearer-auth-provider.js'
+import type { ApiEndpoint } from '../src/types.js'
+
+const profiles = {
+  'staging-oauth': { name: 'staging-oauth', type: 'oauth2', config: { tokenUrl: 'https://auth.example.com/token', clientId: 'bot', clientSecret: '{secret}' } },
+  'service-token': { name: 'service-token', type: 'bearer', config: { token: '{serviceToken}' } }
+}
+const loadProfile = async (space: string, name: string) => (space === 'staging' ? profiles[name as keyof typeof profiles] || null : null)
+
+const endpoint = (auth: ApiEndpoint['auth']): ApiEndpoint => ({ name: 'me', url: 'https://api.example.com/me', method: 'GET', auth })
+
+describe('per-endpoint auth', () => {
+  it('merges the profile with endpoint overrides and resolves parameters', async () => {
+    const auth = await resolveEndpointAuth(
+      endpoint({ profile: 'staging-oauth', config: { scope: 'read' } }),
+      'staging',
+      { secret: 's3cret' },
+      loadProfile
+    )
+
+    expect(auth).toEqual({
+      type: 'oauth2',
+      profile: 'staging-oauth',
+      config: { space: 'staging', tokenUrl: 'https://auth.example.com/token', clientId: 'bot', clientSecret: 's3cret', scope: 'read' }
+    })
+    expect(await resolveEndpointAuth(endpoint({ type: 'bearer', token: 'abc' }), 'staging', {}, loadProfile))
+      .toEqual({ type: 'bearer', config: { space: 'staging', token: 'abc' } })
+    expect(await resolveEndpointAuth(endpoint(undefined), 'staging', {}, loadProfile)).toBeUndefined()
+    await expect(resolveEndpointAuth(endpoint({ profile: 'missing' }), 'staging', {}, loadProfile))
+      .rejects.toThrow("Auth profile 'missing' not found in space 'staging'")
+  })
+
+  it('configures a shared provider for each request', async () => {
+    const provider = new BearerAuthProvider()
+    const request = { method: 'GET', url: 'https://api.example.com/me' }
+
+    const [first, second] = await Promise.all([
+      authenticateWith(provider, { token: 'token-a' }, request),
+      authenticateWith(provider, { token: 'token-b' }, request)
+    ])
+
+    expect(first.headers?.Authorization).toBe('Bearer token-a')
+    expect(second.headers?.Authorization).toBe('Bearer token-b')
+  })
+})
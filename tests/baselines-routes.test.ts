@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import Fastify, { type FastifyInstance } from 'fastify'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { DatabaseService } from '../src/database/database-service.js'
+import { BaselineService } from '../src/services/baseline-service.js'
+import { writeSnapshotFile } from '../src/services/blob-store.js'
+import { baselineRoutes } from '../src/web/routes/baselines.js'
+import type { ApiSnapshot, SnapshotComparison } from '../src/types.js'
+
+const endpoint = { name: 'users', url: 'https://api.example.com/users', method: 'GET' as const }
+
+function snapshot(data: any): ApiSnapshot {
+  return {
+    endpoint,
+    timestamp: '2024-05-01T10:00:00.000Z',
+    response: { status: 200, headers: { 'content-type': 'application/json' }, data, duration: 12 },
+    metadata: { version: '1.0.0' }
+  }
+}
+
+const originalCwd = process.cwd()
+let dir: string
+let app: FastifyInstance
+let snapshotIds: number[]
+
+// Records a successful capture of `users` in the space `shop`, with its file where the web server writes it
+async function recordSnapshot(db: DatabaseService, spaceId: number, endpointId: number, data: any): Promise<number> {
+  const filename = `users-${data.version}.json`
+  await writeSnapshotFile(join('snapshots', 'shop', filename), snapshot(data))
+  return db.createSnapshot(spaceId, endpointId, filename, 'success', { response_status: 200 }).id
+}
+
+beforeEach(async () => {
+  dir = mkdtempSync(join(tmpdir(), 'baselines-routes-'))
+  process.chdir(dir)
+
+  const db = new DatabaseService()
+  try {
+    const space = db.createSpace({ name: 'shop' })
+    const users = db.createEndpoint(space.id, endpoint)
+    db.createEndpoint(space.id, { name: 'orders', url: 'https://api.example.com/orders', method: 'GET' })
+    snapshotIds = [
+      await recordSnapshot(db, space.id, users.id, { version: 1 }),
+      await recordSnapshot(db, space.id, users.id, { version: 2 })
+    ]
+  } finally {
+    db.close()
+  }
+
+  app = Fastify()
+  await app.register(baselineRoutes, { prefix: '/api/spaces' })
+})
+
+afterEach(async () => {
+  await app.close()
+  process.chdir(originalCwd)
+  rmSync(dir, { recursive: true, force: true })
+})
+
+function promote(snapshotId: number, reason?: string) {
+  return app.inject({
+    method: 'POST',
+    url: '/api/spaces/shop/endpoints/users/baseline',
+    payload: { snapshotId, approvedBy: 'alice', reason }
+  })
+}
+
+async function activeBaseline() {
+  return (await app.inject({ method: 'GET', url: '/api/spaces/shop/endpoints/users/baseline' })).json().data
+}
+
+describe('baseline routes', () => {
+  it('promotes snapshots and reverts to the previous baseline', async () => {
+    expect(await activeBaseline()).toBeNull()
+
+    const first = await promote(snapshotIds[0], 'initial release')
+    expect(first.statusCode).toBe(201)
+    expect(first.json().data).toMatchObject({ status: 'active', snapshotId: snapshotIds[0], approvedBy: 'alice' })
+
+    const second = await promote(snapshotIds[1], 'v2 rollout')
+    expect(second.statusCode).toBe(201)
+    expect(await activeBaseline()).toMatchObject({ id: second.json().data.id, snapshot: { response: { data: { version: 2 } } } })
+
+    const reverted = await app.inject({
+      method: 'POST',
+      url: '/api/spaces/shop/endpoints/users/baseline/revert',
+      payload: { approvedBy: 'bob' }
+    })
+    expect(reverted.statusCode).toBe(200)
+    expect(reverted.json().data).toMatchObject({ snapshotId: snapshotIds[0], revertedFrom: first.json().data.id, approvedBy: 'bob' })
+    expect(await activeBaseline()).toMatchObject({ id: reverted.json().data.id, snapshot: { response: { data: { version: 1 } } } })
+
+    // Reverting again goes back to the v2 baseline, reverting to the active one is a conflict
+    const again = await app.inject({
+      method: 'POST',
+      url: '/api/spaces/shop/endpoints/users/baseline/revert',
+      payload: { approvedBy: 'bob', baselineId: reverted.json().data.id }
+    })
+    expect(again.statusCode).toBe(409)
+  })
+
+  it('records every promotion, revert and review decision in the history', async () => {
+    const first = (await promote(snapshotIds[0], 'initial release')).json().data
+    const second = (await promote(snapshotIds[1])).json().data
+    await app.inject({ method: 'POST', url: '/api/spaces/shop/endpoints/users/baseline/revert', payload: { approvedBy: 'bob' } })
+    const rejected = await app.inject({
+      method: 'POST',
+      url: '/api/spaces/shop/endpoints/users/baseline/decisions',
+      payload: { decision: 'rejected', approvedBy: 'carol', reason: 'unexpected field', snapshotId: snapshotIds[1] }
+    })
+    expect(rejected.statusCode).toBe(201)
+
+    const history = (await app.inject({ method: 'GET', url: '/api/spaces/shop/endpoints/users/baseline/history' })).json().data
+    expect(history.baselines.map((b: any) => b.status)).toEqual(['active', 'superseded', 'superseded'])
+    expect(history.baselines[0].revertedFrom).toBe(first.id)
+    expect(history.baselines[1].id).toBe(second.id)
+    expect(history.approvals.map((a: any) => [a.decision, a.approvedBy, a.reason, a.source])).toEqual([
+      ['rejected', 'carol', 'unexpected field', 'web'],
+      ['approved', 'bob', `reverted to baseline ${first.id}`, 'web'],
+      ['approved', 'alice', null, 'web'],
+      ['approved', 'alice', 'initial release', 'web']
+    ])
+    expect(history.approvals[0].baselineId).toBeNull()
+    expect(history.approvals[3]).toMatchObject({ baselineId: first.id, snapshotId: snapshotIds[0] })
+  })
+
+  it('answers 404 for unknown snapshots, baselines and endpoints', async () => {
+    const unknownSnapshot = await promote(9999)
+    expect(unknownSnapshot.statusCode).toBe(404)
+    expect(unknownSnapshot.json().message).toContain('Snapshot 9999 not found')
+
+    const otherEndpoint = await app.inject({
+      method: 'POST',
+      url: '/api/spaces/shop/endpoints/orders/baseline',
+      payload: { snapshotId: snapshotIds[0], approvedBy: 'alice' }
+    })
+    expect(otherEndpoint.statusCode).toBe(404)
+
+    await promote(snapshotIds[0])
+    const unknownBaseline = await app.inject({
+      method: 'POST',
+      url: '/api/spaces/shop/endpoints/users/baseline/revert',
+      payload: { approvedBy: 'bob', baselineId: 9999 }
+    })
+    expect(unknownBaseline.statusCode).toBe(404)
+    expect(unknownBaseline.json().message).toContain('Baseline 9999 not found')
+
+    expect((await app.inject({ method: 'GET', url: '/api/spaces/shop/endpoints/missing/baseline' })).statusCode).toBe(404)
+    expect((await app.inject({ method: 'GET', url: '/api/spaces/nope/endpoints/users/baseline/history' })).statusCode).toBe(404)
+    const decision = await app.inject({
+      method: 'POST',
+      url: '/api/spaces/shop/endpoints/missing/baseline/decisions',
+      payload: { decision: 'approved', approvedBy: 'alice' }
+    })
+    expect(decision.statusCode).toBe(404)
+  })
+
+  it('answers 409 when there is no previous baseline to revert to', async () => {
+    await promote(snapshotIds[0])
+    const revert = await app.inject({ method: 'POST', url: '/api/spaces/shop/endpoints/users/baseline/revert', payload: { approvedBy: 'bob' } })
+    expect(revert.statusCode).toBe(409)
+  })
+})
+
+describe('baseline service', () => {
+  // The CLI's approve-and-update-baseline promotes the snapshot it has just captured, with the reviewed changes
+  it('promotes a captured snapshot with the reviewed comparison', async () => {
+    const db = new DatabaseService()
+    try {
+      const baselines = new BaselineService(db)
+      const comparison: SnapshotComparison = {
+        endpoint: 'users',
+        baseline: snapshot({ version: 1 }),
+        current: snapshot({ version: 3, name: 'x' }),
+        differences: [
+          { path: 'version', type: 'changed', oldValue: 1, newValue: 3, severity: 'informational' },
+          { path: 'name', type: 'added', newValue: 'x', severity: 'non-breaking' }
+        ],
+        hasChanges: true
+      }
+
+      const baseline = await baselines.promote({
+        space: 'shop',
+        endpoint: 'users',
+        snapshot: comparison.current,
+        comparison,
+        approvedBy: 'dave',
+        reason: 'approved and baseline updated by user',
+        source: 'cli'
+      })
+
+      expect(baseline.snapshot_id).toBeNull()
+      expect(baseline.filepath).toMatch(/^snapshots\/shop\/baseline\/users-/)
+      expect((await baselines.loadBaseline(baselines.getActiveBaseline('shop', 'users')!)).response.data).toEqual({ version: 3, name: 'x' })
+
+      const [approval] = baselines.getHistory('shop', 'users').approvals
+      expect(approval).toMatchObject({ decision: 'approved', approved_by: 'dave', source: 'cli', changes_count: 2, breaking_changes: 0, non_breaking_changes: 1 })
+      expect(JSON.parse(approval.differences!)).toEqual([
+        { path: 'version', type: 'changed', severity: 'informational' },
+        { path: 'name', type: 'added', severity: 'non-breaking' }
+      ])
+    } finally {
+      db.close()
+    }
+  })
+
+  it('records CLI decisions for endpoints outside the space and refuses unknown spaces', async () => {
+    const db = new DatabaseService()
+    try {
+      const baselines = new BaselineService(db)
+      const approval = baselines.recordDecision({ space: 'shop', endpoint: 'health', decision: 'pending', approvedBy: 'dave', source: 'cli' })
+      expect(approval).toMatchObject({ endpoint_id: null, endpoint_name: 'health', decision: 'pending', source: 'cli' })
+
+      expect(() => baselines.recordDecision({ space: 'nope', endpoint: 'users', decision: 'approved' })).toThrow("Space 'nope' not found")
+      await expect(baselines.promote({ space: 'shop', endpoint: 'users' })).rejects.toThrow('A snapshot or snapshot ID is required')
+    } finally {
+      db.close()
+    }
+  })
+})
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync, mkdirSync, readFileSync, existsSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import {
+  BlobStore,
+  blobDirFor,
+  collectGarbage,
+  deleteSnapshotFile,
+  groupLayoutsByStore,
+  migrateSnapshotFiles,
+  readSnapshotFile,
+  snapshotLayoutFor,
+  writeSnapshotFile
+} from '../src/services/blob-store.js'
+import { SnapshotStorage } from '../src/snapshot-storage.js'
+import type { ApiSnapshot } from '../src/types.js'
+
+const snapshotWith = (data: any, timestamp = '2024-01-01T00:00:00.000Z'): ApiSnapshot => ({
+  endpoint: { name: 'users', url: 'https://api.example.com/users', method: 'GET' },
+  timestamp,
+  response: { status: 200, headers: { 'content-type': 'application/json' }, data, duration: 10 },
+  metadata: { version: '1.0.0' }
+})
+
+describe('BlobStore', () => {
+  let root: string
+  let store: BlobStore
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'blob-store-'))
+    store = new BlobStore(join(root, '.blobs'))
+  })
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  it('stores identical bodies once regardless of key order', async () => {
+    await writeSnapshotFile(join(root, 'a.json'), snapshotWith({ id: 1, name: 'Ada' }), store)
+    await writeSnapshotFile(join(root, 'b.json'), snapshotWith({ name: 'Ada', id: 1 }, '2024-01-02T00:00:00.000Z'), store)
+
+    const blobs = await store.list()
+    expect(blobs).toHaveLength(1)
+    expect(blobs[0].references).toBe(2)
+    expect(JSON.parse(readFileSync(join(root, 'a.json'), 'utf-8')).response).not.toHaveProperty('data')
+    expect((await readSnapshotFile(join(root, 'b.json'), store)).response.data).toEqual({ name: 'Ada', id: 1 })
+  })
+
+  it('deletes a blob with its last reference', async () => {
+    await writeSnapshotFile(join(root, 'a.json'), snapshotWith([1, 2]), store)
+    await writeSnapshotFile(join(root, 'b.json'), snapshotWith([1, 2]), store)
+
+    await deleteSnapshotFile(join(root, 'a.json'), store)
+    expect(await store.list()).toHaveLength(1)
+    await deleteSnapshotFile(join(root, 'b.json'), store)
+    expect(await store.list()).toEqual([])
+  })
+
+  it('releases the old body when a file is overwritten', async () => {
+    const baseline = join(root, 'baseline.json')
+    await writeSnapshotFile(baseline, snapshotWith({ v: 1 }), store)
+    await writeSnapshotFile(baseline, snapshotWith({ v: 2 }), store)
+
+    expect(await store.list()).toEqual([expect.objectContaining({ hash: store.hash({ v: 2 }), references: 1 })])
+  })
+
+  it('migrates inline snapshot files and keeps them readable', async () => {
+    mkdirSync(join(root, 'ep-001'))
+    const body = { users: Array.from({ length: 50 }, (_, id) => ({ id, name: `user-${id}` })) }
+    writeFileSync(join(root, 'ep-001', 'run-1.json'), JSON.stringify(snapshotWith(body), null, 2))
+    writeFileSync(join(root, 'ep-001', 'run-2.json'), JSON.stringify(snapshotWith(body), null, 2))
+    writeFileSync(join(root, 'notes.json'), '{"todo": true}')
+
+    expect(await migrateSnapshotFiles(root, { store, dryRun: true })).toMatchObject({ migrated: 2, bytesAfter: 0 })
+
+    const report = await migrateSnapshotFiles(root, { store })
+    expect(report).toMatchObject({ filesScanned: 3, migrated: 2, alreadyMigrated: 0, skipped: [join(root, 'notes.json')] })
+    expect(report.bytesAfter).toBeLessThan(report.bytesBefore)
+    expect((await readSnapshotFile(join(root, 'ep-001', 'run-2.json'), store)).response.data).toEqual(body)
+    expect(await migrateSnapshotFiles(root, { store })).toMatchObject({ migrated: 0, alreadyMigrated: 2 })
+  })
+
+  it('keeps CLI baselines self-contained and restores bodies an earlier migration moved out', async () => {
+    const storage = new SnapshotStorage(root, store)
+    const baselineDir = join(root, 'baseline')
+    await storage.saveBaseline(snapshotWith({ a: 1 }))
+    await writeSnapshotFile(join(baselineDir, 'orders.json'), snapshotWith({ o: 1 }), store)
+
+    expect(JSON.parse(readFileSync(join(baselineDir, 'users.json'), 'utf-8')).response.data).toEqual({ a: 1 })
+    expect(await migrateSnapshotFiles(root, { store, baselineRoots: [baselineDir] })).toMatchObject({ migrated: 0, inlined: 1 })
+    expect(JSON.parse(readFileSync(join(baselineDir, 'orders.json'), 'utf-8')).response).toEqual(expect.objectContaining({ data: { o: 1 } }))
+    expect(JSON.parse(readFileSync(join(baselineDir, 'orders.json'), 'utf-8')).response).not.toHaveProperty('bodyBlob')
+    expect(await store.list()).toEqual([])
+
+    // A fresh checkout has the committed baselines but no store
+    rmSync(join(root, '.blobs'), { recursive: true, force: true })
+    expect((await storage.loadBaseline('users'))!.response.data).toEqual({ a: 1 })
+    expect((await storage.loadBaseline('orders'))!.response.data).toEqual({ o: 1 })
+
+    const saved = await storage.saveSnapshot(snapshotWith({ b: 2 }, '2024-01-02T00:00:00.000Z'))
+    expect(await store.list()).toHaveLength(1)
+    await storage.deleteSnapshot(saved)
+    expect(await store.list()).toEqual([])
+  })
+
+  it('keeps the store of CLI snapshots inside their directory', async () => {
+    const snapshotDir = join(root, 'project', 'snapshots')
+    await new SnapshotStorage(snapshotDir).saveSnapshot(snapshotWith({ c: 3 }))
+
+    expect(await BlobStore.at(blobDirFor(snapshotDir)).list()).toEqual([expect.objectContaining({ hash: store.hash({ c: 3 }) })])
+    expect(snapshotLayoutFor({ snapshotDir, baselineDir: join(root, 'baselines') })).toEqual({
+      blobDir: join(snapshotDir, '.blobs'),
+      roots: [snapshotDir],
+      baselineRoots: [join(root, 'baselines')]
+    })
+  })
+
+  it('groups layouts writing into the same store', () => {
+    const layouts = groupLayoutsByStore([
+      { blobDir: './snapshots/.blobs', roots: ['./snapshots'], baselineRoots: ['./snapshots/baseline'] },
+      snapshotLayoutFor({ snapshotDir: './snapshots', baselineDir: './baselines' }),
+      snapshotLayoutFor({ snapshotDir: './other' })
+    ])
+
+    expect(layouts).toEqual([
+      { blobDir: './snapshots/.blobs', roots: ['./snapshots'], baselineRoots: ['./snapshots/baseline', './baselines'] },
+      { blobDir: join('./other', '.blobs'), roots: ['./other'], baselineRoots: [join('./other', 'baseline')] }
+    ])
+  })
+
+  it('recounts references and removes orphaned blobs', async () => {
+    await writeSnapshotFile(join(root, 'a.json'), snapshotWith('kept'), store)
+    await writeSnapshotFile(join(root, 'b.json'), snapshotWith('orphan'), store)
+    rmSync(join(root, 'b.json'))
+
+    expect(await collectGarbage(root, { store, dryRun: true })).toMatchObject({ blobs: 2, removed: 1 })
+    expect(await store.list()).toHaveLength(2)
+
+    expect(await collectGarbage(root, { store })).toMatchObject({ blobs: 2, referenced: 1, repaired: 0, removed: 1 })
+    expect(existsSync(join(root, 'a.json'))).toBe(true)
+    expect((await store.list()).map(blob => blob.hash)).toEqual([store.hash('kept')])
+  })
+})
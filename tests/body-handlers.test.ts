@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import { DiffEngine } from '../src/diff-engine.js'
+import { decodeResponseBody, parseCsv, parseXml } from '../src/utils/bodyHandlers.js'
+import type { ApiSnapshot } from '../src/types.js'
+
+const snapshotWith = (body: string | Buffer, contentType: string): ApiSnapshot => {
+  const { data, bodyHandler } = decodeResponseBody(Buffer.from(body), contentType)
+  return {
+    endpoint: { name: 'Report', url: 'https://api.example.com/report', method: 'GET' },
+    timestamp: '2024-01-01T00:00:00.000Z',
+    response: { status: 200, headers: { 'content-type': contentType }, data, duration: 10, bodyHandler },
+    metadata: { version: '1.0.0' }
+  }
+}
+
+const diff = (baseline: ApiSnapshot, current: ApiSnapshot) =>
+  new DiffEngine().compareSnapshots(baseline, current).differences.map(d => [d.path, d.type, d.severity])
+
+describe('decodeResponseBody', () => {
+  it('picks the handler from the content-type', () => {
+    expect(decodeResponseBody(Buffer.from('{"a":1}'), 'application/problem+json')).toEqual({ data: { a: 1 }, bodyHandler: 'json' })
+    expect(decodeResponseBody(Buffer.from('<a/>'), 'application/soap+xml; charset=utf-8').bodyHandler).toBe('xml')
+    expect(decodeResponseBody(Buffer.from('a,b'), 'text/csv').bodyHandler).toBe('csv')
+    expect(decodeResponseBody(Buffer.from('hello'), 'text/plain').bodyHandler).toBe('text')
+    expect(decodeResponseBody(Buffer.from([0x89, 0x50, 0x4e, 0x47]), 'image/png')).toEqual({
+      data: { sha256: '0f4636c78f65d3639ece5a064b5ae753e3408614a14fb18ab4d7540d2c248543', size: 4 },
+      bodyHandler: 'binary'
+    })
+  })
+
+  it('keeps invalid JSON as text', () => {
+    expect(decodeResponseBody(Buffer.from('<html>Bad gateway</html>'), 'application/json')).toEqual({ data: '<html>Bad gateway</html>', bodyHandler: 'text' })
+  })
+})
+
+describe('body handler diffing', () => {
+  it('diffs XML structurally', () => {
+    const baseline = snapshotWith('<?xml version="1.0"?><users><user id="1"><name>Ada</name></user><user id="2"><name>Alan</name></user></users>', 'application/xml')
+    const current = snapshotWith('<users>\n  <user id="1"><name>Ada</name><role>admin</role></user>\n  <user id="3"><name>Alan</name></user>\n</users>', 'application/xml')
+
+    expect(diff(baseline, current)).toEqual([
+      ['response.data.users.user[0].role', 'added', 'non-breaking'],
+      ['response.data.users.user[1].@id', 'changed', 'breaking']
+    ])
+  })
+
+  it('diffs CSV by column and row', () => {
+    const baseline = snapshotWith('id,name,email\r\n1,Ada,ada@example.com\r\n2,Alan,alan@example.com\r\n', 'text/csv')
+    const current = snapshotWith('id,name,team\n2,Alan,core\n1,"Ada, Countess",core\n', 'text/csv')
+
+    expect(diff(baseline, current)).toEqual([
+      ['response.data.columns.email', 'removed', 'breaking'],
+      ['response.data.columns.team', 'added', 'non-breaking'],
+      ['response.data.rows[0]', 'moved', 'informational'],
+      ['response.data.rows[1].name', 'changed', 'non-breaking']
+    ])
+  })
+
+  it('diffs text line by line', () => {
+    const baseline = snapshotWith('status: ok\nversion: 1\nregion: eu\n', 'text/plain')
+    const current = snapshotWith('status: ok\nversion: 2\nregion: eu\nuptime: 5d\n', 'text/plain')
+
+    expect(new DiffEngine().compareSnapshots(baseline, current).differences).toEqual([
+      { path: 'response.data.lines[1]', type: 'changed', oldValue: 'version: 1', newValue: 'version: 2', severity: 'non-breaking' },
+      { path: 'response.data.lines[3]', type: 'added', newValue: 'uptime: 5d', severity: 'non-breaking' }
+    ])
+  })
+
+  it('compares binary bodies by hash and size', () => {
+    const baseline = snapshotWith(Buffer.from([1, 2, 3]), 'application/octet-stream')
+    const current = snapshotWith(Buffer.from([1, 2, 4]), 'application/octet-stream')
+
+    expect(diff(baseline, current)).toEqual([['response.data.sha256', 'changed', 'non-breaking']])
+    expect(diff(baseline, snapshotWith(Buffer.from([1, 2, 3]), 'application/octet-stream'))).toEqual([])
+  })
+})
+
+describe('parsers', () => {
+  it('parses XML entities, CDATA and mixed content', () => {
+    expect(parseXml('<!-- feed --><note lang="en">Tom &amp; Jerry<![CDATA[ <b>]]><to>Ann</to></note>')).toEqual({
+      note: { '@lang': 'en', '#text': 'Tom & Jerry <b>', to: 'Ann' }
+    })
+    expect(() => parseXml('<a><b></a>')).toThrow('Expected </b>')
+  })
+
+  it('detects semicolon separated CSV', () => {
+    expect(parseCsv('a;b\n1;"x;y"')).toEqual({ columns: ['a', 'b'], rows: [{ a: '1', b: 'x;y' }] })
+  })
+})
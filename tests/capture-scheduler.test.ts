@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach, afterEach, type SpyInstance } from 'vitest'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { Application } from '../src/core/application.js'
+import { DIContainer, ServiceKeys } from '../src/core/container.js'
+import type { HttpClient, Logger } from '../src/core/interfaces.js'
+import { LogLevel } from '../src/core/logger.js'
+import { DatabaseConfigManager } from '../src/database/database-config-manager.js'
+import { DatabaseService } from '../src/database/database-service.js'
+import { CaptureRunService, type StartedCaptureRun } from '../src/services/capture-run-service.js'
+import { CaptureScheduler } from '../src/services/capture-scheduler.js'
+
+const originalCwd = process.cwd()
+let dir: string
+let coreApp: Application
+let scheduler: CaptureScheduler
+let scheduleId: number
+let start: SpyInstance
+
+const logger: Logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+const emit = vi.fn()
+
+beforeEach(async () => {
+  dir = mkdtempSync(join(tmpdir(), 'capture-scheduler-'))
+  process.chdir(dir)
+
+  const configManager = new DatabaseConfigManager()
+  try {
+    configManager.createSpace('shop', {
+      config: { endpoints: [{ name: 'users', url: 'https://api.example.com/users', method: 'GET' }], snapshotDir: './snapshots' }
+    })
+    const space = configManager.database.getSpaceByName('shop')!
+    scheduleId = configManager.database.createCaptureSchedule(space.id, { name: 'every-5-minutes', cron: '*/5 * * * *' }).id
+  } finally {
+    configManager.close()
+  }
+
+  coreApp = new Application({ config: { endpoints: [], snapshotDir: './snapshots' }, logLevel: LogLevel.ERROR, container: new DIContainer() })
+  await coreApp.initialize()
+  const captureRuns = new CaptureRunService(coreApp, logger, emit)
+  start = vi.spyOn(captureRuns, 'start')
+  scheduler = new CaptureScheduler(captureRuns, logger)
+
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] })
+  vi.setSystemTime(new Date('2024-05-01T09:59:30.000Z'))
+})
+
+afterEach(async () => {
+  scheduler.stop()
+  vi.useRealTimers()
+  vi.clearAllMocks()
+  await coreApp.shutdown()
+  process.chdir(originalCwd)
+  rmSync(dir, { recursive: true, force: true })
+})
+
+function useHttpClient(factory: () => HttpClient) {
+  coreApp.getContainer().registerSingleton(ServiceKeys.HTTP_CLIENT, factory)
+}
+
+// Starts the scheduler and lets the clock run to the 10:00 tick, returning the runs it started
+async function runUntilFirstTick(): Promise<StartedCaptureRun[]> {
+  scheduler.start()
+
+  await vi.advanceTimersByTimeAsync(29_000)
+  expect(start).not.toHaveBeenCalled()
+
+  await vi.advanceTimersByTimeAsync(1_000)
+  return Promise.all(start.mock.results.map(result => result.value))
+}
+
+function loadRun(runId: string) {
+  const db = new DatabaseService()
+  try {
+    return { run: db.getCaptureRun(runId)!, schedule: db.getCaptureScheduleById(scheduleId)!, snapshots: db.getSnapshotsByRunId(runId) }
+  } finally {
+    db.close()
+  }
+}
+
+describe('capture scheduler', () => {
+  it('starts a capture run when a schedule is due and records it', async () => {
+    const request = vi.fn(async () => ({ status: 200, headers: { 'content-type': 'application/json' }, data: [{ id: 1 }], duration: 5 }))
+    useHttpClient(() => ({ request }))
+
+    const runs = await runUntilFirstTick()
+    expect(runs).toHaveLength(1)
+    expect(runs[0].endpoints).toEqual(['users'])
+
+    const result = await runs[0].completion
+    expect(result).toMatchObject({ status: 'completed', successful: 1, failed: 0 })
+    expect(request).toHaveBeenCalledWith(expect.objectContaining({ method: 'GET', url: 'https://api.example.com/users' }))
+
+    const { run, schedule, snapshots } = loadRun(runs[0].runId)
+    expect(run).toMatchObject({ status: 'completed', trigger: 'schedule', schedule_id: scheduleId, successful: 1, failed: 0 })
+    expect(run.completed_at).toBeTruthy()
+    expect(schedule.last_run_id).toBe(runs[0].runId)
+    expect(snapshots.map(s => s.status)).toEqual(['success'])
+  })
+
+  it('keeps a capture whose comparison with the baseline fails', async () => {
+    const request = vi.fn(async () => ({ status: 200, headers: { 'content-type': 'application/json' }, data: [{ id: 1 }], duration: 5 }))
+    useHttpClient(() => ({ request }))
+    mkdirSync(join('snapshots', 'shop', 'baseline'), { recursive: true })
+    writeFileSync(join('snapshots', 'shop', 'baseline', 'users-2024-04-01T00-00-00-000Z.json'), '{ not json')
+
+    const [started] = await runUntilFirstTick()
+    const result = await started.completion
+    expect(result).toMatchObject({ status: 'completed', successful: 1, failed: 0 })
+    expect(result.results[0]).toMatchObject({ endpoint: 'users', success: true, comparison: { result: 'comparison-failed', error: expect.any(String) } })
+    expect(loadRun(started.runId).snapshots.map(s => s.status)).toEqual(['success'])
+  })
+
+  it('marks a run that fails as failed and reports it', async () => {
+    useHttpClient(() => {
+      throw new Error('HTTP client unavailable')
+    })
+
+    const runs = await runUntilFirstTick()
+    expect(runs).toHaveLength(1)
+    await expect(runs[0].completion).rejects.toThrow('HTTP client unavailable')
+
+    const { run } = loadRun(runs[0].runId)
+    expect(run).toMatchObject({ status: 'failed', trigger: 'schedule', successful: 0, failed: 1 })
+    expect(emit).toHaveBeenCalledWith('snapshots', 'capture:error', expect.objectContaining({ runId: runs[0].runId, error: 'HTTP client unavailable' }))
+    expect(logger.error).toHaveBeenCalledWith(`Scheduled capture run ${runs[0].runId} failed:`, expect.any(Error))
+
+    // The failed run no longer holds the schedule, so the next tick starts it again
+    const started = await scheduler.tick(new Date('2024-05-01T10:05:00.000Z'))
+    expect(started).toHaveLength(1)
+    expect(started[0]).not.toBe(runs[0].runId)
+    await expect((await start.mock.results[1].value).completion).rejects.toThrow('HTTP client unavailable')
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { backoffDelay, nextRetryDelay, parseRetryAfter, resolveRetryPolicy } from '../src/utils/retryPolicy.js'
+import { HostRateLimiter, mapWithConcurrency } from '../src/utils/rateLimiter.js'
+
+describe('retry policy', () => {
+  const policy = resolveRetryPolicy({ maxRetries: 3, baseDelayMs: 100, maxDelayMs: 1000 })
+
+  it('backs off exponentially with jitter up to the cap', () => {
+    expect(backoffDelay(1, policy, () => 0)).toBe(50)
+    expect(backoffDelay(1, policy, () => 1)).toBe(100)
+    expect(backoffDelay(3, policy, () => 1)).toBe(400)
+    expect(backoffDelay(10, policy, () => 1)).toBe(1000)
+  })
+
+  it('parses Retry-After seconds and HTTP dates', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z')
+    expect(parseRetryAfter('2', now)).toBe(2000)
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', now)).toBe(5000)
+    expect(parseRetryAfter('soon', now)).toBeUndefined()
+  })
+
+  it('honours Retry-After and gives up when retries run out or the wait is too long', () => {
+    expect(nextRetryDelay(1, policy, '0', () => 1)).toBe(0)
+    expect(nextRetryDelay(1, policy, '1', () => 1)).toBe(1000)
+    expect(nextRetryDelay(1, policy, '60', () => 1)).toBeUndefined()
+    expect(nextRetryDelay(4, policy, undefined, () => 1)).toBeUndefined()
+  })
+})
+
+describe('capture throttling', () => {
+  it('runs at most `limit` tasks at once and keeps the input order', async () => {
+    let running = 0
+    let peak = 0
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (ms, index) => {
+      running++
+      peak = Math.max(peak, running)
+      await new Promise(resolve => setTimeout(resolve, ms))
+      running--
+      return index
+    })
+
+    expect(results).toEqual([0, 1, 2, 3, 4])
+    expect(peak).toBe(2)
+  })
+
+  it('spaces requests per host and respects pauses', () => {
+    let now = 0
+    const limiter = new HostRateLimiter({ 'api.example.com': 4, '*': 1 }, () => now)
+
+    expect(limiter.reserve('https://api.example.com/a')).toBe(0)
+    expect(limiter.reserve('https://api.example.com/b')).toBe(250)
+    expect(limiter.reserve('https://other.example.com/a')).toBe(0)
+    expect(limiter.reserve('https://other.example.com/b')).toBe(1000)
+
+    limiter.pause('https://api.example.com/', 2000)
+    expect(limiter.reserve('https://api.example.com/c')).toBe(2000)
+
+    now = 5000
+    expect(limiter.reserve('https://api.example.com/d')).toBe(0)
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { DatabaseService } from '../src/database/database-service.js'
+import { readChangeLog, recordApproval } from '../src/services/change-log.js'
+import type { SnapshotComparison } from '../src/types.js'
+
+function comparison(endpoint: string): SnapshotComparison {
+  const snapshot = {
+    endpoint: { name: endpoint, url: `https://api.example.com/${endpoint}`, method: 'GET' as const },
+    timestamp: '2024-05-01T10:00:00.000Z',
+    response: { status: 200, headers: {}, data: {}, duration: 12 }
+  }
+  return {
+    endpoint,
+    baseline: snapshot,
+    current: snapshot,
+    differences: [
+      { path: 'email', type: 'removed', oldValue: 'ada@example.com', severity: 'breaking' },
+      { path: 'age', type: 'added', newValue: 36, severity: 'non-breaking' }
+    ],
+    hasChanges: true
+  }
+}
+
+let dir: string
+let db: DatabaseService
+let changeLogPath: string
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'change-log-'))
+  db = new DatabaseService(join(dir, 'snapshots.db'))
+  changeLogPath = join(dir, 'api-snapshot-changes.log.json')
+})
+
+afterEach(() => {
+  db.close()
+  rmSync(dir, { recursive: true, force: true })
+})
+
+describe('change log', () => {
+  it('keeps decisions on config file endpoints in the change log file', async () => {
+    // Entries written by earlier versions of the CLI stay in the log
+    const earlier = { timestamp: '2024-04-01T08:00:00.000Z', endpoint: 'users', status: 'approved', reason: 'manually approved by user', changesCount: 0, breakingChanges: 0, nonBreakingChanges: 0, differences: [] }
+    writeFileSync(changeLogPath, JSON.stringify([earlier]))
+
+    const where = await recordApproval(db, comparison('users'), 'rejected', { space: 'default', approvedBy: 'dave', reason: 'manually rejected by user', changeLogPath })
+    expect(where).toBe('change-log')
+
+    const changeLog = await readChangeLog(changeLogPath)
+    expect(changeLog).toHaveLength(2)
+    expect(changeLog[0]).toEqual(earlier)
+    expect(changeLog[1]).toMatchObject({
+      endpoint: 'users',
+      status: 'rejected',
+      reason: 'manually rejected by user',
+      approvedBy: 'dave',
+      changesCount: 2,
+      breakingChanges: 1,
+      nonBreakingChanges: 1,
+      differences: [
+        { path: 'email', type: 'removed', severity: 'breaking' },
+        { path: 'age', type: 'added', severity: 'non-breaking' }
+      ]
+    })
+  })
+
+  it('records decisions on endpoints of a space in its baseline history', async () => {
+    const space = db.createSpace({ name: 'shop' })
+    db.createEndpoint(space.id, { name: 'users', url: 'https://api.example.com/users', method: 'GET' })
+
+    expect(await recordApproval(db, comparison('users'), 'pending', { space: 'shop', approvedBy: 'dave', reason: 'skipped during review', changeLogPath })).toBe('database')
+    // An endpoint the space does not know is a config file endpoint
+    expect(await recordApproval(db, comparison('orders'), 'approved', { space: 'shop', approvedBy: 'dave', reason: 'manually approved by user', changeLogPath })).toBe('change-log')
+
+    expect(db.getBaselineApprovals(space.id, {}).map(a => [a.endpoint_name, a.decision, a.source])).toEqual([['users', 'pending', 'cli']])
+    expect((await readChangeLog(changeLogPath)).map(c => [c.endpoint, c.status])).toEqual([['orders', 'approved']])
+  })
+
+  it('reads a missing or corrupted change log as empty', async () => {
+    expect(await readChangeLog(changeLogPath)).toEqual([])
+    writeFileSync(changeLogPath, '{ not json')
+    expect(await readChangeLog(changeLogPath)).toEqual([])
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { JUnitFormatter } from '../src/plugins/formatters/junit-formatter.js'
+import { SarifFormatter } from '../src/plugins/formatters/sarif-formatter.js'
+import type { ApiSnapshot, SnapshotComparison, SnapshotDiff } from '../src/types.js'
+
+function comparison(endpoint: string, differences: SnapshotDiff[]): SnapshotComparison {
+  const snapshot: ApiSnapshot = {
+    endpoint: { name: endpoint, url: `https://api.example.com/${endpoint}`, method: 'GET' },
+    timestamp: '2024-05-01T10:00:00.000Z',
+    response: { status: 200, headers: {}, data: {}, duration: 250 },
+    metadata: { version: '1.0.0' }
+  }
+  return { endpoint, baseline: snapshot, current: snapshot, differences, hasChanges: differences.length > 0 }
+}
+
+const comparisons = [
+  comparison('get-user', [
+    { path: 'response.data.email', type: 'removed', oldValue: 'a@example.com', severity: 'breaking' },
+    { path: 'response.data.nickname', type: 'added', newValue: 'al', severity: 'non-breaking' }
+  ]),
+  comparison('list-<orders>', [])
+]
+
+describe('JUnitFormatter', () => {
+  it('fails test cases with breaking changes and lists other changes as output', () => {
+    const xml = new JUnitFormatter().format(comparisons, { details: true })
+
+    expect(xml).toContain('<testsuites name="API Snapshot Comparison" tests="2" failures="1" errors="0" skipped="0" time="0.500">')
+    expect(xml).toContain('<failure message="1 breaking change(s): response.data.email" type="BreakingChange">')
+    expect(xml).toContain('response.data.email: removed (breaking)\n  - Old: &quot;a@example.com&quot;')
+    expect(xml).toContain('<system-out>\nresponse.data.nickname: added (non-breaking)')
+    expect(xml).toContain('<testcase name="list-&lt;orders&gt;" classname="api-snapshot" time="0.250"/>')
+  })
+
+  it('leaves out non-breaking changes with onlyBreaking', () => {
+    expect(new JUnitFormatter().format(comparisons, { onlyBreaking: true })).not.toContain('<system-out>')
+  })
+})
+
+describe('SarifFormatter', () => {
+  it('reports each breaking change as an error result', () => {
+    const sarif = JSON.parse(new SarifFormatter().format(comparisons, { artifactUri: 'config/api.json' }))
+    const [run] = sarif.runs
+
+    expect(sarif.version).toBe('2.1.0')
+    expect(run.results).toHaveLength(1)
+    expect(run.results[0]).toMatchObject({
+      ruleId: 'api-snapshot/breaking-removed',
+      level: 'error',
+      message: { text: "Breaking change in endpoint 'get-user': response.data.email removed" },
+      locations: [{
+        physicalLocation: { artifactLocation: { uri: 'config/api.json' } },
+        logicalLocations: [{ fullyQualifiedName: 'get-user/response.data.email' }]
+      }]
+    })
+    expect(run.tool.driver.rules[run.results[0].ruleIndex].id).toBe('api-snapshot/breaking-removed')
+  })
+})
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest'
+import { parseCronExpression, cronMatches, nextCronDate } from '../src/utils/cron.js'
+
+describe('cron expressions', () => {
+  it('parses steps, ranges, lists, names and aliases', () => {
+    const schedule = parseCronExpression('*/15 9-17 * JAN,jul MON-FRI')
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45])
+    expect([...schedule.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17])
+    expect([...schedule.months]).toEqual([1, 7])
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5])
+    expect(parseCronExpression('@daily').expression).toBe('@daily')
+    expect(() => parseCronExpression('61 * * * *')).toThrow(/out of range/)
+    expect(() => parseCronExpression('* * *')).toThrow(/expected 5 fields/)
+  })
+
+  it('matches either day field when both are restricted', () => {
+    // 2024-03-01 is a Friday, 2024-03-04 a Monday
+    expect(cronMatches('0 12 1 * MON', new Date(2024, 2, 1, 12, 0))).toBe(true)
+    expect(cronMatches('0 12 1 * MON', new Date(2024, 2, 4, 12, 0))).toBe(true)
+    expect(cronMatches('0 12 1 * MON', new Date(2024, 2, 5, 12, 0))).toBe(false)
+    expect(cronMatches('0 12 * * 7', new Date(2024, 2, 3, 12, 0))).toBe(true)
+  })
+
+  it('finds the next matching minute', () => {
+    expect(nextCronDate('*/10 * * * *', new Date(2024, 0, 1, 10, 7, 30))).toEqual(new Date(2024, 0, 1, 10, 10))
+    expect(nextCronDate('0 6 * * 1-5', new Date(2024, 2, 1, 6, 0))).toEqual(new Date(2024, 2, 4, 6, 0))
+    expect(nextCronDate('0 0 29 2 *', new Date(2024, 2, 1))).toEqual(new Date(2028, 1, 29, 0, 0))
+    expect(() => nextCronDate('0 0 30 2 *', new Date(2024, 0, 1))).toThrow(/never matches/)
+  })
+})
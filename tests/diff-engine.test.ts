@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { DiffEngine } from '../src/diff-engine.js'
+import type { ApiSnapshot } from '../src/types.js'
+
+const snapshotWith = (data: any): ApiSnapshot => ({
+  endpoint: { name: 'Users', url: 'https://api.example.com/users', method: 'GET' },
+  timestamp: '2024-01-01T00:00:00.000Z',
+  response: { status: 200, headers: {}, data, duration: 10 },
+  metadata: { version: '1.0.0' }
+})
+
+describe('DiffEngine array diffing', () => {
+  it('reports a head insert as a single added element when items carry an id', () => {
+    const baseline = snapshotWith([{ id: 1, name: 'a' }, { id: 2, name: 'b' }])
+    const current = snapshotWith([{ id: 3, name: 'c' }, { id: 1, name: 'a' }, { id: 2, name: 'b' }])
+
+    const { differences } = new DiffEngine().compareSnapshots(baseline, current)
+
+    expect(differences.map(d => [d.path, d.type])).toEqual([
+      ['response.data.length', 'changed'],
+      ['response.data[0]', 'added']
+    ])
+  })
+
+  it('reports reordering as moved instead of value changes', () => {
+    const baseline = snapshotWith([{ id: 1 }, { id: 2 }, { id: 3 }])
+    const current = snapshotWith([{ id: 3 }, { id: 1 }, { id: 2 }])
+
+    const { differences } = new DiffEngine().compareSnapshots(baseline, current)
+
+    expect(differences).toEqual([
+      { path: 'response.data[0]', type: 'moved', oldValue: 2, newValue: 0, severity: 'informational' }
+    ])
+  })
+
+  it('uses the per-path key declared in a rule', () => {
+    const baseline = snapshotWith({ items: [{ sku: 'x', qty: 1 }, { sku: 'y', qty: 1 }] })
+    const current = snapshotWith({ items: [{ sku: 'y', qty: 2 }, { sku: 'x', qty: 1 }] })
+
+    const engine = new DiffEngine([{ path: 'response.data.items', arrayKey: 'sku' }])
+    const { differences } = engine.compareSnapshots(baseline, current)
+
+    expect(differences.map(d => [d.path, d.type])).toEqual([
+      ['response.data.items[0]', 'moved'],
+      ['response.data.items[0].qty', 'changed']
+    ])
+  })
+
+  it('falls back to index comparison when elements have no identity', () => {
+    const baseline = snapshotWith(['a', 'b'])
+    const current = snapshotWith(['b', 'a'])
+
+    const { differences } = new DiffEngine().compareSnapshots(baseline, current)
+
+    expect(differences.map(d => [d.path, d.type])).toEqual([
+      ['response.data[0]', 'changed'],
+      ['response.data[1]', 'changed']
+    ])
+  })
+})
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { environmentLabel, parseEnvironmentTarget, retargetEndpoint, validateEnvironmentPair } from '../src/utils/environmentComparison.js'
+import type { ApiEndpoint } from '../src/types.js'
+
+const endpoint = (url: string, parameters?: Record<string, string>): ApiEndpoint => ({ name: 'get-user', url, method: 'GET', parameters })
+
+describe('retargetEndpoint', () => {
+  it('replaces the origin of absolute URLs and keeps path and query', () => {
+    expect(retargetEndpoint(endpoint('https://api.example.com/v1/users/{id}?expand=roles'), 'https://staging.example.com/').url)
+      .toBe('https://staging.example.com/v1/users/{id}?expand=roles')
+  })
+
+  it('sets the parameter a templated URL starts with', () => {
+    const retargeted = retargetEndpoint(endpoint('{baseUrl}/users/{id}', { id: '42' }), 'https://staging.example.com/v2')
+
+    expect(retargeted.url).toBe('{baseUrl}/users/{id}')
+    expect(retargeted.parameters).toEqual({ id: '42', baseUrl: 'https://staging.example.com/v2' })
+  })
+
+  it('prefixes relative URLs', () => {
+    expect(retargetEndpoint(endpoint('users'), 'http://localhost:8080').url).toBe('http://localhost:8080/users')
+  })
+})
+
+describe('environment targets', () => {
+  it('parses CLI shorthand and labels sides', () => {
+    expect(parseEnvironmentTarget('production')).toEqual({ space: 'production' })
+    expect(parseEnvironmentTarget('https://staging.example.com')).toEqual({ baseUrl: 'https://staging.example.com' })
+
+    expect(environmentLabel({ baseUrl: 'https://staging.example.com' }, 'shop')).toBe('shop@https://staging.example.com')
+    expect(environmentLabel({ space: 'production', label: 'prod' }, 'shop')).toBe('prod')
+  })
+
+  it('validates pairs', () => {
+    const left = { space: 'production' }
+    const right = { baseUrl: 'https://staging.example.com' }
+
+    expect(validateEnvironmentPair({ name: 'staging-vs-prod', left, right, rules: [{ path: 'response.data.region', ignore: true }] })).toBeNull()
+    expect(validateEnvironmentPair({ name: 'staging-vs-prod', left, right: {} })).toBe('right needs a space or a baseUrl')
+    expect(validateEnvironmentPair({ name: 'x', left, right: { baseUrl: 'staging' } })).toBe('right.baseUrl must be an http(s) URL')
+    expect(validateEnvironmentPair({ rules: [] }, true)).toBeNull()
+  })
+})
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest'
+import { DiffEngine } from '../src/diff-engine.js'
+import { diffGraphQLSchemas, parseIntrospection, toGraphQLRequest, type GraphQLTypeRef } from '../src/utils/graphql.js'
+import { hasUnresolvedParameters, resolveEndpointParameters } from '../src/utils/parameterResolver.js'
+import type { ApiEndpoint, ApiSnapshot } from '../src/types.js'
+
+const endpoint: ApiEndpoint = {
+  name: 'get-user',
+  url: 'https://api.example.com/graphql',
+  method: 'POST',
+  graphql: { query: 'query GetUser($id: ID!) { user(id: $id) { id name } }', variables: { id: '{userId}' }, operationName: 'GetUser' }
+}
+
+const snapshotWith = (data: any): ApiSnapshot => ({
+  endpoint,
+  timestamp: '2024-01-01T00:00:00.000Z',
+  response: { status: 200, headers: {}, data, duration: 10 },
+  metadata: { version: '1.0.0' }
+})
+
+const named = (name: string): GraphQLTypeRef => ({ kind: 'SCALAR', name })
+const nonNull = (ofType: GraphQLTypeRef): GraphQLTypeRef => ({ kind: 'NON_NULL', ofType })
+const field = (name: string, type: GraphQLTypeRef, args: any[] = []) => ({ name, type, args })
+
+const schema = (userFields: any[], roles: string[], extraTypes: any[] = []) => parseIntrospection({
+  data: {
+    __schema: {
+      queryType: { name: 'Query' },
+      types: [
+        { kind: 'OBJECT', name: 'Query', fields: [field('user', { kind: 'OBJECT', name: 'User' }, [{ name: 'id', type: nonNull(named('ID')) }])] },
+        { kind: 'OBJECT', name: 'User', fields: userFields },
+        { kind: 'ENUM', name: 'Role', enumValues: roles.map(name => ({ name })) },
+        { kind: 'OBJECT', name: '__Schema', fields: [] },
+        ...extraTypes
+      ]
+    }
+  }
+})
+
+const summarize = (diffs: ReturnType<typeof diffGraphQLSchemas>) =>
+  diffs.flatMap(type => type.differences.map(d => `${type.name} ${d.path} ${d.type} ${d.severity}`))
+
+describe('GraphQL capture', () => {
+  it('sends the operation as a JSON POST body with variables resolved', () => {
+    const request = toGraphQLRequest(resolveEndpointParameters({ ...endpoint, method: 'GET', parameters: { userId: '42' } }))
+
+    expect(request.method).toBe('POST')
+    expect(request.headers).toEqual({ 'Content-Type': 'application/json' })
+    expect(request.body).toEqual({ query: endpoint.graphql!.query, variables: { id: '42' }, operationName: 'GetUser' })
+  })
+
+  it('reports unresolved variables but not the selections of the query', () => {
+    expect(hasUnresolvedParameters(resolveEndpointParameters({ ...endpoint, parameters: { userId: '42' } }))).toBe(false)
+    expect(hasUnresolvedParameters(resolveEndpointParameters(endpoint))).toBe(true)
+  })
+})
+
+describe('GraphQL response diffing', () => {
+  it('diffs data and errors separately', () => {
+    const baseline = snapshotWith({ data: { user: { id: '1', name: 'Ada' } }, errors: [{ message: 'Rate limited', path: ['user'] }] })
+    const current = snapshotWith({
+      data: { user: { id: '1', name: 'Ada Lovelace' } },
+      errors: [{ message: 'Field "name" is deprecated', path: ['user', 'name'], locations: [{ line: 1, column: 40 }] }]
+    })
+
+    const { differences } = new DiffEngine().compareSnapshots(baseline, current)
+
+    expect(differences.map(d => [d.path, d.type, d.severity])).toEqual([
+      ['response.data.data.user.name', 'changed', 'non-breaking'],
+      ['response.data.errors[0]', 'added', 'breaking'],
+      ['response.data.errors[0]', 'removed', 'non-breaking']
+    ])
+  })
+
+  it('ignores error locations', () => {
+    const baseline = snapshotWith({ data: null, errors: [{ message: 'Not found', path: ['user'], locations: [{ line: 1, column: 3 }] }] })
+    const current = snapshotWith({ data: null, errors: [{ message: 'Not found', path: ['user'], locations: [{ line: 2, column: 5 }] }] })
+
+    expect(new DiffEngine().compareSnapshots(baseline, current).differences).toEqual([])
+  })
+})
+
+describe('diffGraphQLSchemas', () => {
+  it('classifies changes from the client point of view', () => {
+    const oldSchema = schema([field('id', nonNull(named('ID'))), field('name', named('String')), field('email', named('String'))], ['ADMIN', 'MEMBER'])
+    const newSchema = schema(
+      [
+        field('id', nonNull(named('ID'))),
+        field('name', nonNull(named('String'))),
+        field('avatar', named('String'), [{ name: 'size', type: nonNull(named('Int')) }])
+      ],
+      ['ADMIN', 'GUEST'],
+      [{ kind: 'INPUT_OBJECT', name: 'UserFilter', inputFields: [] }]
+    )
+
+    expect(summarize(diffGraphQLSchemas(oldSchema, newSchema))).toEqual([
+      'type User fields.name.type changed non-breaking',
+      'type User fields.email removed breaking',
+      'type User fields.avatar added non-breaking',
+      'enum Role enumValues.MEMBER removed breaking',
+      'enum Role enumValues.GUEST added non-breaking',
+      'input UserFilter type added non-breaking'
+    ])
+  })
+
+  it('reports new required arguments and nullable outputs as breaking', () => {
+    const oldSchema = schema([field('posts', named('Int')), field('name', nonNull(named('String')))], [])
+    const newSchema = schema([field('posts', named('Int'), [{ name: 'first', type: nonNull(named('Int')) }]), field('name', named('String'))], [])
+
+    expect(summarize(diffGraphQLSchemas(oldSchema, newSchema))).toEqual([
+      'type User fields.posts.args.first added breaking',
+      'type User fields.name.type changed breaking'
+    ])
+  })
+
+  it('rejects documents that are not introspection results', () => {
+    expect(() => parseIntrospection({ errors: [{ message: 'Introspection is disabled' }] })).toThrow('Introspection is disabled')
+  })
+})
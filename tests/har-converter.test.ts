@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import { convertHarToEndpoints, harResponseToSnapshot, templatePath, validateHar } from '../src/utils/har-converter.js'
+
+function entry(method: string, url: string, extra: Record<string, any> = {}) {
+  return {
+    startedDateTime: '2024-05-01T10:00:00.000Z',
+    time: 42.4,
+    _resourceType: 'fetch',
+    request: {
+      method,
+      url,
+      headers: [
+        { name: 'Authorization', value: 'Bearer abc123' },
+        { name: 'Accept', value: 'application/json' },
+        { name: 'User-Agent', value: 'Mozilla/5.0' }
+      ],
+      ...extra
+    },
+    response: {
+      status: 200,
+      headers: [{ name: 'Content-Type', value: 'application/json' }],
+      content: { mimeType: 'application/json', text: '{"id":1}' }
+    }
+  }
+}
+
+describe('HAR import', () => {
+  it('templates identifier path segments', () => {
+    expect(templatePath('/api/users/42/orders/3f2b8c1e-9d4a-4b7e-8f1a-2c3d4e5f6a7b')).toEqual({
+      path: '/api/users/{userId}/orders/{orderId}',
+      values: { userId: '42', orderId: '3f2b8c1e-9d4a-4b7e-8f1a-2c3d4e5f6a7b' }
+    })
+    expect(templatePath('/api/categories/7').path).toBe('/api/categories/{categoryId}')
+  })
+
+  it('dedupes requests by method and templated path and extracts shared values', () => {
+    const result = convertHarToEndpoints({
+      log: {
+        entries: [
+          entry('GET', 'https://api.example.com/users/1?tenant=acme'),
+          entry('GET', 'https://api.example.com/users/2?tenant=acme'),
+          entry('GET', 'https://api.example.com/orders?tenant=acme&page=2'),
+          entry('POST', 'https://api.example.com/orders', { postData: { mimeType: 'application/json', text: '{"qty":1}' } }),
+          { ...entry('GET', 'https://cdn.example.com/app.js'), _resourceType: 'script' }
+        ]
+      }
+    })
+
+    expect(result.duplicates).toBe(1)
+    expect(result.skipped).toBe(1)
+    expect(result.endpoints.map(e => `${e.method} ${e.url}`)).toEqual([
+      'GET {baseUrl}/users/{userId}?tenant={tenant}',
+      'GET {baseUrl}/orders?tenant={tenant}&page=2',
+      'POST {baseUrl}/orders'
+    ])
+    expect(result.endpoints[0].name).toBe('get-users-userid')
+    expect(result.endpoints[0].headers).toEqual({ Authorization: '{authorization}', Accept: 'application/json' })
+    expect(result.endpoints[2].body).toEqual({ qty: 1 })
+    expect(result.parameters).toEqual({
+      baseUrl: 'https://api.example.com',
+      userId: '1',
+      tenant: 'acme',
+      authorization: 'Bearer abc123'
+    })
+  })
+
+  it('turns recorded responses into snapshots', () => {
+    const result = convertHarToEndpoints({ log: { entries: [entry('GET', 'https://api.example.com/status')] } })
+    const snapshot = harResponseToSnapshot(result.endpoints[0], result.responses['get-status'])
+
+    expect(result.endpoints[0].url).toBe('https://api.example.com/status')
+    expect(snapshot.response).toMatchObject({ status: 200, data: { id: 1 }, duration: 42 })
+    expect(snapshot.timestamp).toBe('2024-05-01T10:00:00.000Z')
+  })
+
+  it('rejects files that are not HAR recordings', () => {
+    expect(validateHar({ info: {} }).isValid).toBe(false)
+    expect(validateHar({ log: { entries: [] } }).isValid).toBe(true)
+  })
+})
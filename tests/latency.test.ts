@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import { detectLatencyRegression, latencyStats, percentile, rollingLatency, validateLatencySettings } from '../src/utils/latency.js'
+
+describe('latency statistics', () => {
+  it('interpolates percentiles between ranks', () => {
+    const durations = [100, 120, 110, 400, 130, 105, 115, 125, 135, 140]
+
+    expect(percentile(durations, 50)).toBe(123)
+    expect(latencyStats(durations)).toEqual({ count: 10, min: 100, max: 400, mean: 148, p50: 123, p95: 283, p99: 377 })
+    expect(latencyStats([])).toBeNull()
+  })
+
+  it('computes percentiles over a rolling window', () => {
+    const points = [100, 200, 300, 400].map((duration, index) => ({ timestamp: `2024-01-0${index + 1}T00:00:00.000Z`, duration }))
+
+    expect(rollingLatency(points, 2).map(point => [point.duration, point.p50])).toEqual([[100, 100], [200, 150], [300, 250], [400, 350]])
+  })
+})
+
+describe('detectLatencyRegression', () => {
+  const history = [100, 110, 120, 105, 115]
+
+  it('reports captures slower than the reference by percent and milliseconds', () => {
+    expect(detectLatencyRegression(history, 400)).toEqual({
+      path: 'response.duration',
+      type: 'changed',
+      oldValue: 119,
+      newValue: 400,
+      severity: 'non-breaking'
+    })
+    expect(detectLatencyRegression(history, 400, { percentile: 'p50', severity: 'breaking' })).toMatchObject({ oldValue: 110, severity: 'breaking' })
+  })
+
+  it('ignores small absolute changes, empty history and disabled settings', () => {
+    expect(detectLatencyRegression([10, 12, 11], 60)).toBeNull()
+    expect(detectLatencyRegression(history, 170)).toBeNull()
+    expect(detectLatencyRegression([], 5000)).toBeNull()
+    expect(detectLatencyRegression(history, 5000, { enabled: false })).toBeNull()
+  })
+
+  it('only looks at the newest captures of the window', () => {
+    expect(detectLatencyRegression([100, 100, 900, 900], 400, { window: 2 })).not.toBeNull()
+    expect(detectLatencyRegression([100, 100, 900, 900], 400, { window: 4 })).toBeNull()
+  })
+
+  it('validates settings', () => {
+    expect(validateLatencySettings({ window: 50, percentile: 'p99', thresholdPercent: 25 })).toBeNull()
+    expect(validateLatencySettings({ percentile: 'p90' as any })).toBe('percentile must be one of p50, p95, p99')
+    expect(validateLatencySettings({ window: 0 })).toBe('window must be an integer between 1 and 1000')
+  })
+})
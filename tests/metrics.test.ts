@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { MetricsRegistry } from '../src/services/metrics.js'
+
+describe('MetricsRegistry', () => {
+  it('renders counters and gauges in the Prometheus text format', () => {
+    const registry = new MetricsRegistry()
+    const captures = registry.counter('captures_total', 'Endpoint captures by outcome', ['space', 'outcome'])
+    registry.gauge('database_size_bytes', 'Size of the database', [], () => 4096)
+
+    captures.inc({ space: 'shop', outcome: 'success' })
+    captures.inc({ space: 'shop', outcome: 'success' })
+    captures.inc({ space: 'say "hi"', outcome: 'failed' })
+
+    expect(captures.get({ outcome: 'success' })).toBe(2)
+    expect(registry.renderPrometheus()).toBe([
+      '# HELP api_snapshot_captures_total Endpoint captures by outcome',
+      '# TYPE api_snapshot_captures_total counter',
+      'api_snapshot_captures_total{space="shop",outcome="success"} 2',
+      'api_snapshot_captures_total{space="say \\"hi\\"",outcome="failed"} 1',
+      '# HELP api_snapshot_database_size_bytes Size of the database',
+      '# TYPE api_snapshot_database_size_bytes gauge',
+      'api_snapshot_database_size_bytes 4096',
+      ''
+    ].join('\n'))
+  })
+
+  it('renders histograms with cumulative buckets and estimates quantiles', () => {
+    const registry = new MetricsRegistry()
+    const duration = registry.histogram('upstream_request_duration_seconds', 'Upstream latency', ['endpoint'], [0.1, 0.5, 1])
+
+    for (const value of [0.05, 0.2, 0.3, 0.4, 2]) {
+      duration.observe(value, { endpoint: 'users' })
+    }
+    duration.observe(0.05, { endpoint: 'orders' })
+
+    const text = registry.renderPrometheus()
+    expect(text).toContain('api_snapshot_upstream_request_duration_seconds_bucket{endpoint="users",le="0.1"} 1')
+    expect(text).toContain('api_snapshot_upstream_request_duration_seconds_bucket{endpoint="users",le="0.5"} 4')
+    expect(text).toContain('api_snapshot_upstream_request_duration_seconds_bucket{endpoint="users",le="+Inf"} 5')
+    expect(text).toContain('api_snapshot_upstream_request_duration_seconds_count{endpoint="users"} 5')
+
+    const users = duration.summary({ endpoint: 'users' })
+    expect(users.count).toBe(5)
+    expect(users.p50).toBeCloseTo(0.3) // rank 2.5 falls 1.5/3 into the 0.1-0.5 bucket
+    expect(users.p99).toBe(1) // above the last bound
+    expect(duration.summary().count).toBe(6)
+  })
+
+  it('rejects duplicate metric names', () => {
+    const registry = new MetricsRegistry()
+    registry.counter('captures_total', 'Captures')
+
+    expect(() => registry.counter('captures_total', 'Captures')).toThrow(/already registered/)
+  })
+})
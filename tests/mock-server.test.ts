@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { buildMockRoute, createMockServer, matchMockRoute } from '../src/services/mock-server.js'
+import type { ApiEndpoint, ApiSnapshot } from '../src/types.js'
+
+function snapshot(endpoint: ApiEndpoint, status: number, data: any, headers: Record<string, string> = {}): ApiSnapshot {
+  return {
+    endpoint,
+    timestamp: '2024-05-01T10:00:00.000Z',
+    response: { status, headers: { 'content-type': 'application/json', 'content-length': '999', ...headers }, data, duration: 12 },
+    metadata: { version: '1.0.0' }
+  }
+}
+
+const routes = [
+  buildMockRoute(snapshot({ name: 'get-user', url: '{baseUrl}/users/{userId}', method: 'GET' }, 200, { id: 1 }), 'baseline', { baseUrl: 'https://api.example.com/v1' }),
+  buildMockRoute(snapshot({ name: 'get-me', url: '{baseUrl}/users/me', method: 'GET' }, 200, { id: 'me' }), 'baseline', { baseUrl: 'https://api.example.com/v1' }),
+  buildMockRoute(snapshot({ name: 'orders-open', url: 'https://api.example.com/orders?status=open&page={page}', method: 'GET' }, 200, []), 'latest'),
+  buildMockRoute(snapshot({ name: 'orders-closed', url: 'https://api.example.com/orders?status=closed', method: 'GET' }, 200, [{ id: 9 }]), 'latest'),
+  buildMockRoute(snapshot({ name: 'create-order', url: 'https://api.example.com/orders', method: 'POST' }, 201, 'created', { 'content-type': 'text/plain', 'x-request-id': 'abc' }), 'run')
+]
+
+describe('snapshot mock server', () => {
+  it('matches by method and templated path, preferring literal segments and query values', () => {
+    expect(matchMockRoute(routes, 'GET', '/v1/users/42')).toMatchObject({ route: { endpoint: 'get-user' }, params: { userId: '42' } })
+    expect(matchMockRoute(routes, 'GET', '/users/42')?.route.endpoint).toBe('get-user')
+    expect(matchMockRoute(routes, 'GET', '/users/me')?.route.endpoint).toBe('get-me')
+    expect(matchMockRoute(routes, 'GET', '/orders?status=closed')?.route.endpoint).toBe('orders-closed')
+    expect(matchMockRoute(routes, 'GET', '/orders?status=open&page=3')?.route.endpoint).toBe('orders-open')
+    expect(matchMockRoute(routes, 'DELETE', '/orders')).toBeNull()
+  })
+
+  it('serves recorded status, headers and body', async () => {
+    const server = createMockServer(async () => routes)
+    try {
+      const created = await server.inject({ method: 'POST', url: '/orders', payload: 'anything', headers: { 'content-type': 'application/xml' } })
+      expect(created.statusCode).toBe(201)
+      expect(created.body).toBe('created')
+      expect(created.headers['x-request-id']).toBe('abc')
+      expect(created.headers['x-snapshot-source']).toBe('run')
+      expect(created.headers['access-control-allow-origin']).toBe('*')
+
+      const user = await server.inject({ method: 'GET', url: '/v1/users/7' })
+      expect(user.json()).toEqual({ id: 1 })
+      expect(user.headers['content-length']).toBe(String(user.body.length))
+
+      const missing = await server.inject({ method: 'GET', url: '/unknown' })
+      expect(missing.statusCode).toBe(404)
+      expect(missing.json().available).toContain('GET /v1/users/{userId}')
+    } finally {
+      await server.close()
+    }
+  })
+})
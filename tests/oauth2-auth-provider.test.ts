@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { OAuth2AuthProvider } from '../src/plugins/auth/oauth2-auth-provider.js'
+import { AxiosHttpClient } from '../src/services/http-client.js'
+
+// Stub token server: issues numbered tokens and records the form parameters of every request
+const requests: { params: URLSearchParams; authorization?: string }[] = []
+let server: http.Server
+let tokenUrl: string
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = ''
+    req.on('data', chunk => { body += chunk })
+    req.on('end', () => {
+      const params = new URLSearchParams(body)
+      requests.push({ params, authorization: req.headers.authorization })
+      res.setHeader('Content-Type', 'application/json')
+
+      if (params.get('grant_type') === 'password' && params.get('password') !== 'hunter2') {
+        res.statusCode = 400
+        res.end(JSON.stringify({ error: 'invalid_grant', error_description: 'Bad credentials' }))
+        return
+      }
+      res.end(JSON.stringify({
+        access_token: `token-${requests.length}`,
+        token_type: 'bearer',
+        expires_in: 60,
+        refresh_token: `refresh-${requests.length}`
+      }))
+    })
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  tokenUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/token`
+})
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())))
+
+const request = { method: 'GET', url: 'https://api.example.com/me' }
+
+describe('OAuth2 auth provider', () => {
+  it('caches client credentials tokens until they are about to expire, then refreshes', async () => {
+    requests.length = 0
+    let now = 0
+    const provider = new OAuth2AuthProvider(new AxiosHttpClient(), async () => ({}), () => now)
+    await provider.configure({ tokenUrl, clientId: 'app', clientSecret: 's3cret', scope: 'read' })
+
+    const [first, second] = await Promise.all([provider.authenticate(request), provider.authenticate(request)])
+    expect(first.headers?.Authorization).toBe('Bearer token-1')
+    expect(second.headers?.Authorization).toBe('Bearer token-1')
+    expect(requests).toHaveLength(1)
+    expect(requests[0].params.get('grant_type')).toBe('client_credentials')
+    expect(requests[0].params.get('scope')).toBe('read')
+    expect(requests[0].authorization).toBe(`Basic ${Buffer.from('app:s3cret').toString('base64')}`)
+
+    now = 31_000
+    const renewed = await provider.authenticate(request)
+    expect(renewed.headers?.Authorization).toBe('Bearer token-2')
+    expect(requests[1].params.get('grant_type')).toBe('refresh_token')
+    expect(requests[1].params.get('refresh_token')).toBe('refresh-1')
+  })
+
+  it('takes secrets from space parameters and env vars and drops the token on 401', async () => {
+    requests.length = 0
+    process.env.TEST_OAUTH_PASSWORD = 'hunter2'
+    const provider = new OAuth2AuthProvider(new AxiosHttpClient(), async space => (space === 'staging' ? { oauthUser: 'alice' } : {}))
+    await provider.configure({
+      tokenUrl,
+      grantType: 'password',
+      clientId: 'app',
+      clientAuthentication: 'body',
+      usernameParam: 'oauthUser',
+      passwordEnvVar: 'TEST_OAUTH_PASSWORD',
+      space: 'staging'
+    })
+
+    const authenticated = await provider.authenticate(request)
+    expect(requests[0].params.get('username')).toBe('alice')
+    expect(requests[0].params.get('client_id')).toBe('app')
+    expect(requests[0].authorization).toBeUndefined()
+
+    const unauthorized = { status: 401, headers: {}, data: {}, duration: 1 }
+    expect(await provider.handleUnauthorized(authenticated, unauthorized)).toBe(true)
+    expect((await provider.authenticate(request)).headers?.Authorization).toBe('Bearer token-2')
+    // A 401 for a token that was already replaced does not discard the new one
+    expect(await provider.handleUnauthorized(authenticated, unauthorized)).toBe(false)
+    delete process.env.TEST_OAUTH_PASSWORD
+  })
+
+  it('reports token endpoint errors and missing secrets', async () => {
+    const provider = new OAuth2AuthProvider(new AxiosHttpClient(), async () => ({}))
+    await provider.configure({ tokenUrl, grantType: 'password', clientId: 'app', username: 'bob', password: 'wrong' })
+    await expect(provider.authenticate(request)).rejects.toThrow('failed with HTTP 400: Bad credentials')
+
+    await provider.configure({ tokenUrl, clientId: 'app', clientSecretEnvVar: 'UNSET_OAUTH_SECRET' })
+    await expect(provider.authenticate(request)).rejects.toThrow(/No OAuth2 clientSecret available.*UNSET_OAUTH_SECRET/)
+  })
+})
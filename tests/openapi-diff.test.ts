@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import { diffOpenApiDocuments } from '../src/utils/openApiDiff.js'
+
+const spec = (paths: Record<string, any>, schemas: Record<string, any> = {}) => ({
+  openapi: '3.0.3',
+  info: { title: 'Users', version: '1.0.0' },
+  paths,
+  components: { schemas }
+})
+
+const userSchema = {
+  type: 'object',
+  required: ['id', 'role'],
+  properties: {
+    id: { type: 'integer' },
+    email: { type: 'string' },
+    role: { type: 'string', enum: ['admin', 'member'] }
+  }
+}
+
+const createUser = (body: any) => ({
+  post: {
+    operationId: 'createUser',
+    requestBody: { content: { 'application/json': { schema: body } } },
+    responses: { '201': { description: 'Created' } }
+  }
+})
+
+const getUser = (responses: Record<string, any>) => ({
+  get: { operationId: 'getUser', responses }
+})
+
+const jsonResponse = (schema: any) => ({ description: 'OK', content: { 'application/json': { schema } } })
+
+const summarize = (diffs: ReturnType<typeof diffOpenApiDocuments>) =>
+  diffs.flatMap(op => op.differences.map(d => `${op.method} ${op.path} ${d.path} ${d.type} ${d.severity}`))
+
+describe('diffOpenApiDocuments', () => {
+  it('reports removed operations and status codes as breaking', () => {
+    const oldDoc = spec({
+      '/users': { ...getUser({ '200': jsonResponse({ type: 'array' }), '404': { description: 'Missing' } }), delete: { responses: {} } }
+    })
+    const newDoc = spec({
+      '/users': getUser({ '200': jsonResponse({ type: 'array' }) })
+    })
+
+    expect(summarize(diffOpenApiDocuments(oldDoc, newDoc))).toEqual([
+      'GET /users responses.404 removed breaking',
+      'DELETE /users operation removed breaking'
+    ])
+  })
+
+  it('follows component refs when comparing response schemas', () => {
+    const oldDoc = spec({ '/users/{id}': getUser({ '200': jsonResponse({ $ref: '#/components/schemas/User' }) }) }, { User: userSchema })
+    const newDoc = spec({ '/users/{id}': getUser({ '200': jsonResponse({ $ref: '#/components/schemas/User' }) }) }, {
+      User: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' },
+          role: { type: 'string', enum: ['admin'] },
+          createdAt: { type: 'string' }
+        }
+      }
+    })
+
+    expect(summarize(diffOpenApiDocuments(oldDoc, newDoc))).toEqual([
+      'GET /users/{id} responses.200.content.application/json.schema.id.type changed breaking',
+      'GET /users/{id} responses.200.content.application/json.schema.email removed breaking',
+      'GET /users/{id} responses.200.content.application/json.schema.role.required changed breaking',
+      'GET /users/{id} responses.200.content.application/json.schema.role.enum removed non-breaking',
+      'GET /users/{id} responses.200.content.application/json.schema.createdAt added non-breaking'
+    ])
+  })
+
+  it('flags newly required request fields and narrowed request enums', () => {
+    const oldDoc = spec({ '/users': createUser(userSchema) })
+    const newDoc = spec({
+      '/users': createUser({
+        ...userSchema,
+        required: ['id', 'role', 'email'],
+        properties: { ...userSchema.properties, role: { type: 'string', enum: ['member'] }, nickname: { type: 'string' } }
+      })
+    })
+
+    expect(summarize(diffOpenApiDocuments(oldDoc, newDoc))).toEqual([
+      'POST /users requestBody.content.application/json.schema.email.required changed breaking',
+      'POST /users requestBody.content.application/json.schema.role.enum removed breaking',
+      'POST /users requestBody.content.application/json.schema.nickname added non-breaking'
+    ])
+  })
+
+  it('terminates on recursive schemas', () => {
+    const node = { type: 'object', properties: { children: { type: 'array', items: { $ref: '#/components/schemas/Node' } } } }
+    const oldDoc = spec({ '/tree': getUser({ '200': jsonResponse({ $ref: '#/components/schemas/Node' }) }) }, { Node: node })
+    const newDoc = spec({ '/tree': getUser({ '200': jsonResponse({ $ref: '#/components/schemas/Node' }) }) }, { Node: node })
+
+    expect(diffOpenApiDocuments(oldDoc, newDoc)[0].differences).toEqual([])
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { matchesPath, findMatchingRule } from '../src/utils/pathMatcher.js'
+import { DiffEngine } from '../src/diff-engine.js'
+import type { ApiSnapshot, DiffRule } from '../src/types.js'
+
+const snapshotWith = (data: any): ApiSnapshot => ({
+  endpoint: { name: 'Items', url: 'https://api.example.com/items', method: 'GET' },
+  timestamp: '2024-01-01T00:00:00.000Z',
+  response: { status: 200, headers: {}, data, duration: 10 },
+  metadata: { version: '1.0.0' }
+})
+
+describe('matchesPath', () => {
+  it('supports element wildcards, key wildcards and any-depth segments', () => {
+    expect(matchesPath('response.data.items[*].updatedAt', 'response.data.items[3].updatedAt')).toBe(true)
+    expect(matchesPath('response.data.items[*].updatedAt', 'response.data.items[3].createdAt')).toBe(false)
+    expect(matchesPath('response.data.*.id', 'response.data.owner.id')).toBe(true)
+    expect(matchesPath('**.etag', 'response.data.items[0].meta.etag')).toBe(true)
+    expect(matchesPath('$..etag', 'response.headers.etag')).toBe(true)
+    expect(matchesPath('response.data', 'response.data.items[0]')).toBe(true)
+    expect(matchesPath('response.data', 'response.data.items[0]', { exact: true })).toBe(false)
+  })
+
+  it('prefers the most specific matching rule', () => {
+    const rules: DiffRule[] = [
+      { path: '**.price', severity: 'informational' },
+      { path: 'response.data', severity: 'non-breaking' },
+      { path: 'response.data.items[*].price', severity: 'breaking' }
+    ]
+
+    expect(findMatchingRule(rules, 'response.data.items[0].price')).toBe(rules[2])
+    expect(findMatchingRule(rules, 'response.data.total.price')).toBe(rules[1])
+    expect(findMatchingRule(rules, 'response.headers.price')).toBe(rules[0])
+  })
+})
+
+describe('DiffEngine rule paths', () => {
+  it('ignores a field in every array element and records the rule that re-graded a diff', () => {
+    const engine = new DiffEngine([
+      { path: 'response.data.items[*].updatedAt', ignore: true },
+      { path: 'response.data', severity: 'informational' },
+      { path: 'response.data.items[*].price', severity: 'breaking' }
+    ])
+    const baseline = snapshotWith({ items: [{ id: 1, price: 5, updatedAt: 'a' }, { id: 2, price: 7, updatedAt: 'b' }], note: 'x' })
+    const current = snapshotWith({ items: [{ id: 1, price: 6, updatedAt: 'c' }, { id: 2, price: 7, updatedAt: 'd' }], note: 'y' })
+
+    const { differences } = engine.compareSnapshots(baseline, current)
+
+    expect(differences.map(d => [d.path, d.severity, d.rule])).toEqual([
+      ['response.data.items[0].price', 'breaking', 'response.data.items[*].price'],
+      ['response.data.note', 'informational', 'response.data']
+    ])
+  })
+})
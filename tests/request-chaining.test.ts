@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildDependencyGraph,
+  extractParameters,
+  findDependencyCycle,
+  runInDependencyOrder,
+  validateChaining
+} from '../src/utils/requestChaining.js'
+import type { ApiEndpoint } from '../src/types.js'
+
+describe('parameter extraction', () => {
+  it('reads values by JSONPath and header', () => {
+    const result = extractParameters(
+      [
+        { name: 'token', jsonPath: '$.auth.token' },
+        { name: 'firstId', jsonPath: '$.items[*].id' },
+        { name: 'requestId', header: 'X-Request-Id' },
+        { name: 'cursor', jsonPath: '$.next', optional: true },
+        { name: 'session', jsonPath: '$.session' }
+      ],
+      { headers: { 'x-request-id': 'abc' }, data: JSON.stringify({ auth: { token: 't1' }, items: [{ id: 7 }, { id: 8 }] }) }
+    )
+
+    expect(result.values).toEqual({ token: 't1', firstId: '7', requestId: 'abc' })
+    expect(result.missing).toEqual(['session'])
+  })
+
+  it('rejects incomplete definitions', () => {
+    expect(validateChaining({ extract: [{ name: 'token' }] })).toMatch(/exactly one of jsonPath or header/)
+    expect(validateChaining({ name: 'a', dependsOn: ['a'] })).toMatch(/itself/)
+    expect(validateChaining({ name: 'a', extract: [{ name: 'id', jsonPath: '$.id' }], dependsOn: ['b'] })).toBeNull()
+  })
+})
+
+describe('dependency ordering', () => {
+  const endpoints: ApiEndpoint[] = [
+    { name: 'profile', url: 'https://api.example.com/users/{userId}', headers: { Authorization: 'Bearer {token}' } },
+    { name: 'login', url: 'https://api.example.com/login', method: 'POST', extract: [{ name: 'token', jsonPath: '$.token' }, { name: 'userId', jsonPath: '$.id' }] },
+    { name: 'audit', url: 'https://api.example.com/audit', dependsOn: ['profile', 'unknown'] },
+    { name: 'health', url: 'https://api.example.com/health' }
+  ]
+
+  it('infers producers from parameter usage and ignores endpoints outside the set', () => {
+    const graph = buildDependencyGraph(endpoints)
+    expect(graph.get('profile')).toEqual(['login'])
+    expect(graph.get('audit')).toEqual(['profile'])
+    expect(graph.get('health')).toEqual([])
+    expect(findDependencyCycle(graph)).toBeNull()
+  })
+
+  it('detects cycles', () => {
+    const graph = new Map([['a', ['b']], ['b', ['a']], ['c', []]])
+    expect(findDependencyCycle(graph)).toEqual(['a', 'b', 'a'])
+    return expect(runInDependencyOrder(['a', 'b'], name => name, graph, 2, {
+      run: async name => name,
+      succeeded: () => true,
+      skip: name => name
+    })).rejects.toThrow('Circular endpoint dependency: a -> b -> a')
+  })
+
+  it('runs dependents after their dependencies and skips them when one fails', async () => {
+    const graph = buildDependencyGraph(endpoints)
+    const order: string[] = []
+
+    const run = (failing: string[]) => runInDependencyOrder(endpoints, endpoint => endpoint.name, graph, 4, {
+      run: async endpoint => {
+        order.push(endpoint.name)
+        await new Promise(resolve => setTimeout(resolve, 5))
+        return { name: endpoint.name, success: !failing.includes(endpoint.name) }
+      },
+      succeeded: result => result.success,
+      skip: (endpoint, dependency) => ({ name: endpoint.name, success: false, skippedFor: dependency })
+    })
+
+    const results = await run([])
+    expect(results.map(result => result.name)).toEqual(['profile', 'login', 'audit', 'health'])
+    expect(order.indexOf('login')).toBeLessThan(order.indexOf('profile'))
+    expect(order.indexOf('profile')).toBeLessThan(order.indexOf('audit'))
+
+    order.length = 0
+    const failed = await run(['login'])
+    expect(order).toEqual(['login', 'health'])
+    expect(failed[0]).toEqual({ name: 'profile', success: false, skippedFor: 'login' })
+    expect(failed[2]).toEqual({ name: 'audit', success: false, skippedFor: 'profile' })
+  })
+})
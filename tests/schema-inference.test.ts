@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { inferSchema } from '../src/utils/schemaInference.js'
+import { DiffEngine } from '../src/diff-engine.js'
+import type { ApiSnapshot } from '../src/types.js'
+
+const snapshotWith = (data: any): ApiSnapshot => ({
+  endpoint: { name: 'Users', url: 'https://api.example.com/users', method: 'GET' },
+  timestamp: '2024-01-01T00:00:00.000Z',
+  response: { status: 200, headers: {}, data, duration: 10 },
+  metadata: { version: '1.0.0' }
+})
+
+describe('inferSchema', () => {
+  it('marks keys missing from some array items as optional and unions their types', () => {
+    expect(inferSchema({ users: [{ id: 1, name: 'a', nickname: 'x' }, { id: 2.5, name: null }] })).toEqual({
+      type: 'object',
+      required: ['users'],
+      properties: {
+        users: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['id', 'name'],
+            properties: {
+              id: { type: 'number' },
+              name: { type: ['string', 'null'] },
+              nickname: { type: 'string' }
+            }
+          }
+        }
+      }
+    })
+  })
+})
+
+describe('DiffEngine shape-only mode', () => {
+  it('ignores value changes and reports structural ones', () => {
+    const baseline = snapshotWith({ id: 1, updatedAt: '2024-01-01', tags: ['a'], owner: { name: 'x' } })
+    const current = snapshotWith({ id: 7, updatedAt: '2024-06-30', tags: [], owner: { name: 1 }, extra: true })
+
+    const { differences } = new DiffEngine().compareSnapshots(baseline, current, { shapeOnly: true })
+
+    expect(differences.map(d => [d.path, d.type, d.severity])).toEqual([
+      ['response.data.owner.name.type', 'changed', 'breaking'],
+      ['response.data.extra', 'added', 'non-breaking']
+    ])
+  })
+})
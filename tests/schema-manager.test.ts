@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtempSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { SchemaManager } from '../src/schema-manager.js'
+import type { ApiSchema } from '../src/types.js'
+
+const openApiDocument = {
+  openapi: '3.0.3',
+  info: { title: 'Users', version: '1.0.0' },
+  paths: {
+    '/users/{id}': {
+      get: {
+        operationId: 'getUser',
+        responses: {
+          '200': {
+            description: 'A user',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } }
+          },
+          '404': { $ref: '#/components/responses/NotFound' }
+        }
+      }
+    }
+  },
+  components: {
+    schemas: {
+      User: {
+        type: 'object',
+        required: ['id', 'email', 'role'],
+        additionalProperties: false,
+        properties: {
+          id: { type: 'integer', format: 'int32', minimum: 0, exclusiveMinimum: true },
+          email: { type: 'string', format: 'email' },
+          role: { type: 'string', enum: ['admin', 'member'] },
+          manager: { nullable: true, allOf: [{ $ref: '#/components/schemas/UserRef' }] },
+          tags: { type: 'array', items: { type: 'string', pattern: '^[a-z]+$' }, maxItems: 2 }
+        }
+      },
+      UserRef: {
+        type: 'object',
+        required: ['id'],
+        properties: { id: { type: 'integer' } }
+      },
+      Error: {
+        type: 'object',
+        required: ['message'],
+        properties: { message: { type: 'string' } }
+      }
+    },
+    responses: {
+      NotFound: {
+        description: 'Not found',
+        content: { 'application/problem+json': { schema: { $ref: '#/components/schemas/Error' } } }
+      }
+    }
+  }
+}
+
+describe('SchemaManager response validation', () => {
+  let dir: string
+  let schema: ApiSchema
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'schema-manager-'))
+    const source = join(dir, 'openapi.json')
+    writeFileSync(source, JSON.stringify(openApiDocument))
+    schema = { type: 'openapi', source, operationId: 'getUser', responseValidation: true }
+  })
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('accepts a response matching the referenced component schema', async () => {
+    const result = await new SchemaManager().validateResponse(
+      { id: 1, email: 'ada@example.com', role: 'admin', manager: null, tags: ['ops'] },
+      200,
+      schema
+    )
+
+    expect(result.errors).toEqual([])
+    expect(result.isValid).toBe(true)
+  })
+
+  it('reports contract violations across keywords with data paths', async () => {
+    const result = await new SchemaManager().validateResponse(
+      { id: 0, email: 'not-an-email', role: 'owner', manager: { name: 'x' }, tags: ['ok', 'NOT'], extra: true },
+      200,
+      schema
+    )
+
+    expect(result.isValid).toBe(false)
+    expect(result.errors.map(e => e.path).sort()).toEqual([
+      'email',
+      'extra',
+      'id',
+      'manager',
+      'manager',
+      'manager.id',
+      'role',
+      'tags[1]'
+    ])
+    expect(result.errors.find(e => e.path === 'role')?.message).toBe('Value must be one of: "admin", "member"')
+    expect(result.errors.find(e => e.path === 'extra')?.message).toBe("Additional property 'extra' is not allowed")
+  })
+
+  it('follows response $refs and matches JSON media types', async () => {
+    const result = await new SchemaManager().validateResponse({ error: 'missing' }, 404, schema)
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({ path: 'message', message: "Required property 'message' is missing" })
+    ])
+  })
+
+  it('warns about undocumented status codes', async () => {
+    const result = await new SchemaManager().validateResponse({}, 500, schema)
+
+    expect(result.isValid).toBe(true)
+    expect(result.warnings[0].message).toBe('Status code 500 is not documented for operation getUser')
+  })
+})
+
+describe('SchemaManager JSON Schema validation', () => {
+  let dir: string
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'schema-manager-json-'))
+  })
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('validates with schemas that share an $id', async () => {
+    const userSchema = { $id: 'https://example.com/schemas/user.json', type: 'object', required: ['id'], properties: { id: { type: 'integer' } } }
+    const schemas: ApiSchema[] = ['user.json', 'user-copy.json'].map(file => {
+      writeFileSync(join(dir, file), JSON.stringify(userSchema))
+      return { type: 'json-schema', source: join(dir, file), responseValidation: true }
+    })
+
+    const manager = new SchemaManager()
+    expect((await manager.validateResponse({ id: 1 }, 200, schemas[0])).isValid).toBe(true)
+
+    const result = await manager.validateResponse({ id: 'x' }, 200, schemas[1])
+    expect(result.errors).toEqual([expect.objectContaining({ path: 'id' })])
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest'
+import {
+  SECRET_MASK,
+  decryptSecret,
+  encryptSecret,
+  isEncryptedSecret,
+  maskEndpointSecrets,
+  maskSensitiveFields,
+  redactForLog,
+  resetSecretKey,
+  restoreMaskedFields
+} from '../src/utils/secrets.js'
+
+const originalKey = process.env.SNAPSHOT_SECRET_KEY
+
+describe('secret storage', () => {
+  beforeEach(() => {
+    process.env.SNAPSHOT_SECRET_KEY = 'test-secret-key'
+    resetSecretKey()
+  })
+
+  afterAll(() => {
+    if (originalKey === undefined) {
+      delete process.env.SNAPSHOT_SECRET_KEY
+    } else {
+      process.env.SNAPSHOT_SECRET_KEY = originalKey
+    }
+    resetSecretKey()
+  })
+
+  it('encrypts and decrypts values', () => {
+    const encrypted = encryptSecret('client-secret-value')
+    expect(isEncryptedSecret(encrypted)).toBe(true)
+    expect(encrypted).not.toContain('client-secret-value')
+    expect(decryptSecret(encrypted)).toBe('client-secret-value')
+  })
+
+  it('passes plaintext values through', () => {
+    expect(decryptSecret('plain-value')).toBe('plain-value')
+  })
+
+  it('fails to decrypt with a different key', () => {
+    const encrypted = encryptSecret('another-secret')
+    process.env.SNAPSHOT_SECRET_KEY = 'other-key'
+    resetSecretKey()
+    expect(() => decryptSecret(encrypted)).toThrow('secret key does not match')
+  })
+
+  it('redacts sensitive headers, form fields and known secrets in logs', () => {
+    encryptSecret('known-secret-1234')
+    expect(redactForLog({ Authorization: 'Bearer abc', Accept: 'application/json' }))
+      .toEqual({ Authorization: SECRET_MASK, Accept: 'application/json' })
+    expect(redactForLog('grant_type=password&password=hunter22')).toBe(`grant_type=password&password=${encodeURIComponent(SECRET_MASK)}`)
+    expect(redactForLog('token is known-secret-1234')).toBe(`token is ${SECRET_MASK}`)
+  })
+
+  it('masks secret parameters and auth settings of endpoints', () => {
+    const masked = maskEndpointSecrets({
+      name: 'me',
+      url: 'https://api.example.com/me',
+      parameters: { apiKey: 'abcd-1234', region: 'eu' },
+      auth: { type: 'oauth2', token: 'raw-token', config: { clientSecret: 'xyz', clientSecretParam: 'clientSecret', password: '{password}' } }
+    }, ['apiKey'])
+
+    expect(masked.parameters).toEqual({ apiKey: SECRET_MASK, region: 'eu' })
+    expect(masked.auth?.token).toBe(SECRET_MASK)
+    expect(masked.auth?.config).toEqual({ clientSecret: SECRET_MASK, clientSecretParam: 'clientSecret', password: '{password}' })
+  })
+
+  it('keeps stored values for masked fields sent back', () => {
+    const stored = { clientId: 'bot', clientSecret: 'xyz' }
+    const sent = { ...maskSensitiveFields(stored), clientId: 'bot-2' }
+    expect(restoreMaskedFields(sent, stored)).toEqual({ clientId: 'bot-2', clientSecret: 'xyz' })
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest'
+import Fastify from 'fastify'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { DatabaseService } from '../src/database/database-service.js'
+import { SECRET_MASK, resetSecretKey } from '../src/utils/secrets.js'
+
+const originalKey = process.env.SNAPSHOT_SECRET_KEY
+let dir: string
+
+beforeAll(() => {
+  // The routes open ./snapshots.db, so the database of the test lives in a temp dir
+  dir = mkdtempSync(join(tmpdir(), 'servers-routes-'))
+  vi.spyOn(process, 'cwd').mockReturnValue(dir)
+  process.env.SNAPSHOT_SECRET_KEY = 'test-secret-key'
+  resetSecretKey()
+})
+
+afterAll(() => {
+  vi.restoreAllMocks()
+  rmSync(dir, { recursive: true, force: true })
+  if (originalKey === undefined) {
+    delete process.env.SNAPSHOT_SECRET_KEY
+  } else {
+    process.env.SNAPSHOT_SECRET_KEY = originalKey
+  }
+  resetSecretKey()
+})
+
+async function buildServer() {
+  const { serversRoutes } = await import('../src/web/routes/servers.js')
+  const app = Fastify()
+  await app.register(serversRoutes, { prefix: '/api/servers' })
+  return app
+}
+
+function storedAuthConfig(id: number) {
+  const db = new DatabaseService(join(dir, 'snapshots.db'))
+  try {
+    return JSON.parse(db.getSavedServerById(id).auth_config)
+  } finally {
+    db.close()
+  }
+}
+
+describe('servers routes', () => {
+  it('keeps masked auth secrets when a fetched server is saved back', async () => {
+    const app = await buildServer()
+    try {
+      const created = await app.inject({
+        method: 'POST',
+        url: '/api/servers',
+        payload: { url: 'http://staging.example.com', name: 'Staging', auth_config: { type: 'bearer', token: 'abc123', header: 'Authorization' } }
+      })
+      expect(created.statusCode).toBe(200)
+      const { id } = created.json().data
+      expect(created.json().data.auth_config.token).toBe(SECRET_MASK)
+
+      const listed = (await app.inject({ method: 'GET', url: '/api/servers' })).json().data
+      const server = listed.find((s: any) => s.id === id)
+      expect(server.auth_config).toEqual({ type: 'bearer', token: SECRET_MASK, header: 'Authorization' })
+
+      const updated = await app.inject({
+        method: 'PUT',
+        url: `/api/servers/${id}`,
+        payload: { name: 'Staging EU', auth_config: { ...server.auth_config, header: 'X-Token' } }
+      })
+      expect(updated.statusCode).toBe(200)
+      expect(storedAuthConfig(id)).toEqual({ type: 'bearer', token: 'abc123', header: 'X-Token' })
+
+      await app.inject({ method: 'PUT', url: `/api/servers/${id}`, payload: { auth_config: { type: 'bearer', token: 'def456' } } })
+      expect(storedAuthConfig(id)).toEqual({ type: 'bearer', token: 'def456' })
+
+      const missing = await app.inject({ method: 'PUT', url: '/api/servers/9999', payload: { auth_config: { token: SECRET_MASK } } })
+      expect(missing.statusCode).toBe(404)
+    } finally {
+      await app.close()
+    }
+  })
+})
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import Fastify, { type FastifyInstance } from 'fastify'
+import { mkdtempSync, rmSync, unlinkSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { Application } from '../src/core/application.js'
+import { DIContainer } from '../src/core/container.js'
+import { LogLevel } from '../src/core/logger.js'
+import { DatabaseConfigManager } from '../src/database/database-config-manager.js'
+import { writeSnapshotFile } from '../src/services/blob-store.js'
+import { snapshotRoutes } from '../src/web/routes/snapshots-simple.js'
+import type { ApiSnapshot } from '../src/types.js'
+
+const endpoint = { name: 'get-user', url: 'https://api.example.com/users/1', method: 'GET' as const }
+
+function snapshot(data: any, headers: Record<string, string>): ApiSnapshot {
+  return {
+    endpoint,
+    timestamp: '2024-05-01T10:00:00.000Z',
+    response: { status: 200, headers: { 'content-type': 'application/json', ...headers }, data, duration: 12 },
+    metadata: { version: '1.0.0' }
+  }
+}
+
+const originalCwd = process.cwd()
+let dir: string
+let app: FastifyInstance
+let coreApp: Application
+const ids: Record<string, number> = {}
+
+beforeAll(async () => {
+  dir = mkdtempSync(join(tmpdir(), 'compare-routes-'))
+  process.chdir(dir)
+
+  const configManager = new DatabaseConfigManager()
+  try {
+    configManager.createSpace('shop', { config: { endpoints: [endpoint], snapshotDir: './snapshots' } })
+    configManager.setNormalizationPresets('shop', ['timestamps', 'identifiers'])
+
+    const db = configManager.database
+    const space = db.getSpaceByName('shop')!
+    const endpointId = db.getEndpointsBySpaceId(space.id)[0].id
+    const recorded = {
+      baseline: snapshot(
+        { id: '0b6f4c2e-3a1d-4f8e-9c7b-2d5e6f7a8b9c', name: 'Ada', email: 'ada@example.com', updatedAt: '2024-05-01T10:00:00Z' },
+        { 'content-length': '120', 'x-request-id': 'req-1' }
+      ),
+      current: snapshot(
+        { id: '7c1d2e3f-4a5b-4c6d-8e7f-9a0b1c2d3e4f', name: 'Ada Lovelace', age: 36, updatedAt: '2024-06-02T08:30:00Z' },
+        { 'content-length': '131', 'x-request-id': 'req-2' }
+      ),
+      deleted: snapshot({}, {})
+    }
+    for (const [name, recordedSnapshot] of Object.entries(recorded)) {
+      const filename = `get-user-${name}.json`
+      await writeSnapshotFile(join('snapshots', 'shop', filename), recordedSnapshot)
+      ids[name] = db.createSnapshot(space.id, endpointId, filename, 'success', { response_status: 200 }).id
+    }
+    unlinkSync(join('snapshots', 'shop', 'get-user-deleted.json'))
+  } finally {
+    configManager.close()
+  }
+
+  coreApp = new Application({ config: { endpoints: [], snapshotDir: './snapshots' }, logLevel: LogLevel.ERROR, container: new DIContainer() })
+  await coreApp.initialize()
+
+  app = Fastify()
+  app.decorateRequest('coreApp', null)
+  app.addHook('preHandler', async (request) => {
+    (request as any).coreApp = coreApp
+  })
+  await app.register(snapshotRoutes, { prefix: '/api/snapshots' })
+})
+
+afterAll(async () => {
+  await app.close()
+  await coreApp.shutdown()
+  process.chdir(originalCwd)
+  rmSync(dir, { recursive: true, force: true })
+})
+
+function compare(baselineId: number | string, snapshotId: number | string) {
+  return app.inject({ method: 'POST', url: '/api/snapshots/compare', payload: { baselineId, snapshotId } })
+}
+
+describe('POST /api/snapshots/compare', () => {
+  it('compares two recorded snapshots with the rules of their space', async () => {
+    const response = await compare(ids.baseline, ids.current)
+    expect(response.statusCode).toBe(200)
+
+    const { data } = response.json()
+    expect(data).toMatchObject({ baselineId: ids.baseline, snapshotId: ids.current, space: 'shop', endpoint: 'get-user', result: 'changes-detected' })
+
+    // The space's timestamps and identifiers presets hide the new id, updatedAt and x-request-id
+    expect(data.comparison.differences.map((d: any) => [d.path, d.type, d.severity])).toEqual([
+      ['response.data.name', 'changed', 'non-breaking'],
+      ['response.data.email', 'removed', 'breaking'],
+      ['response.data.age', 'added', 'non-breaking'],
+      ['response.headers.content-length', 'changed', 'informational']
+    ])
+    expect(data.summary).toEqual({ total: 4, breaking: 1, nonBreaking: 2, informational: 1 })
+  })
+
+  it('picks up changes to the rules of the space', async () => {
+    const configManager = new DatabaseConfigManager()
+    try {
+      configManager.setNormalizationPresets('shop', [])
+      const { data } = (await compare(ids.baseline, ids.current)).json()
+      expect(data.comparison.differences.map((d: any) => d.path)).toEqual(expect.arrayContaining(['response.data.id', 'response.data.updatedAt']))
+      expect(data.summary.total).toBe(6)
+    } finally {
+      configManager.setNormalizationPresets('shop', ['timestamps', 'identifiers'])
+      configManager.close()
+    }
+  })
+
+  it('finds snapshots by filename and reports no changes for identical ones', async () => {
+    const response = await compare('get-user-baseline', ids.baseline)
+    expect(response.statusCode).toBe(200)
+    expect(response.json().data).toMatchObject({ result: 'no-changes', summary: { total: 0, breaking: 0, nonBreaking: 0, informational: 0 } })
+  })
+
+  it('answers 404 for unknown snapshot ids and missing snapshot files', async () => {
+    const unknown = await compare(ids.baseline, 9999)
+    expect(unknown.statusCode).toBe(404)
+    expect(unknown.json()).toMatchObject({ error: 'Snapshot not found', message: 'No snapshot found with ID 9999' })
+
+    const missingFile = await compare(ids.deleted, ids.current)
+    expect(missingFile.statusCode).toBe(404)
+    expect(missingFile.json()).toMatchObject({ error: 'Snapshot file not found', message: 'File get-user-deleted.json not found in any expected location' })
+
+    expect((await compare(ids.baseline, '')).statusCode).toBe(400)
+  })
+})
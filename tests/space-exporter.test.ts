@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { convertPostmanToEndpoints } from '../src/utils/postman-converter.js'
+import { exportSpace, exportToCurl, exportToOpenApi, type SpaceExportInput } from '../src/utils/space-exporter.js'
+
+const input: SpaceExportInput = {
+  space: 'staging',
+  endpoints: [
+    {
+      name: 'users/get-user',
+      url: '{baseUrl}/users/{userId}?expand=orders',
+      method: 'GET',
+      headers: { Accept: 'application/json', 'X-Tenant': '{tenant}' },
+      auth: { type: 'bearer', token: '{apiToken}' }
+    },
+    {
+      name: 'create-order',
+      url: '{baseUrl}/orders',
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: { sku: 'A-1', note: 'say "hi"' },
+      parameters: { tenant: 'beta' }
+    }
+  ],
+  parameters: { baseUrl: 'https://api.example.com', userId: '42', tenant: 'acme', apiToken: 'secret-token' },
+  secretParameters: ['apiToken'],
+  responses: {
+    'users/get-user': {
+      status: 200,
+      headers: { 'content-type': 'application/json; charset=utf-8' },
+      shape: { type: 'object', properties: { id: { type: 'number' } }, required: ['id'] }
+    }
+  }
+}
+
+describe('space export', () => {
+  it('writes a Postman collection that imports back into the same endpoints', () => {
+    const file = exportSpace('postman', input)
+    const collection = JSON.parse(file.content)
+
+    expect(file.filename).toBe('staging.postman_collection.json')
+    expect(collection.item[0].name).toBe('users')
+    expect(collection.variable).toContainEqual({ key: 'apiToken', value: '', description: 'Secret, set the value in your environment' })
+
+    // Without collection variables the importer keeps the templates
+    const endpoints = convertPostmanToEndpoints({ ...collection, variable: [] })
+    expect(endpoints[0]).toMatchObject({
+      name: 'users/get-user',
+      url: '{baseUrl}/users/{userId}?expand=orders',
+      headers: { 'X-Tenant': '{tenant}' },
+      auth: { type: 'bearer', token: '{apiToken}' }
+    })
+  })
+
+  it('writes an OpenAPI 3.1 document with server variables and recorded response schemas', () => {
+    const document = exportToOpenApi(input)
+
+    expect(document.openapi).toBe('3.1.0')
+    expect(document.servers).toEqual([{ url: '{baseUrl}', variables: { baseUrl: { default: 'https://api.example.com' } } }])
+
+    const getUser = document.paths['/users/{userId}'].get
+    expect(getUser.parameters).toEqual([
+      { name: 'userId', in: 'path', required: true, schema: { type: 'string' }, example: '42' },
+      { name: 'expand', in: 'query', schema: { type: 'string' }, example: 'orders' },
+      { name: 'X-Tenant', in: 'header', schema: { type: 'string' }, example: 'acme' }
+    ])
+    expect(getUser.responses['200'].content['application/json'].schema.properties.id).toEqual({ type: 'number' })
+    expect(getUser.security).toEqual([{ bearerAuth: [] }])
+    expect(document.components.securitySchemes.bearerAuth).toEqual({ type: 'http', scheme: 'bearer' })
+
+    const createOrder = document.paths['/orders'].post
+    expect(createOrder.requestBody.content['application/json'].example).toEqual({ sku: 'A-1', note: 'say "hi"' })
+    expect(createOrder.responses).toEqual({ default: { description: 'No snapshot captured yet' } })
+  })
+
+  it('writes a curl script reading parameters from shell variables', () => {
+    const script = exportToCurl(input)
+
+    expect(script).toContain('API_TOKEN="${API_TOKEN:?Set API_TOKEN (secret)}"')
+    expect(script).toContain('BASE_URL="${BASE_URL:-https://api.example.com}"')
+    expect(script).toContain('curl -sS -X GET "${BASE_URL}/users/${USER_ID}?expand=orders"')
+    expect(script).toContain('-H "Authorization: Bearer ${API_TOKEN}"')
+    expect(script).toContain('--data-raw "{\\"sku\\":\\"A-1\\",\\"note\\":\\"say \\\\\\"hi\\\\\\"\\"}"')
+    expect(script).not.toContain('secret-token')
+  })
+})
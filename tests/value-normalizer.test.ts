@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { selectJsonPath, normalizeSnapshot, getNormalizationRules } from '../src/utils/valueNormalizer.js'
+import { DiffEngine } from '../src/diff-engine.js'
+import type { ApiSnapshot } from '../src/types.js'
+
+const snapshotWith = (data: any, headers: Record<string, string> = {}): ApiSnapshot => ({
+  endpoint: { name: 'Orders', url: 'https://api.example.com/orders', method: 'GET' },
+  timestamp: '2024-01-01T00:00:00.000Z',
+  response: { status: 200, headers, data, duration: 10 },
+  metadata: { version: '1.0.0' }
+})
+
+describe('selectJsonPath', () => {
+  it('returns diff paths for recursive, wildcard and union selectors', () => {
+    const root = { response: { data: { items: [{ etag: 'a', meta: { etag: 'b' } }, { id: 2 }], next: { cursor: 'x', page: 1 } } } }
+
+    expect(selectJsonPath(root, '$.response.data..etag')).toEqual([
+      'response.data.items[0].etag',
+      'response.data.items[0].meta.etag'
+    ])
+    expect(selectJsonPath(root, '$.response.data.items[*].id')).toEqual(['response.data.items[1].id'])
+    expect(selectJsonPath(root, "$.response.data.next['cursor','page']")).toEqual([
+      'response.data.next.cursor',
+      'response.data.next.page'
+    ])
+    expect(selectJsonPath(root, '$.response.data.items[-1]')).toEqual(['response.data.items[1]'])
+  })
+})
+
+describe('value normalization', () => {
+  it('masks preset values so only real changes are reported', () => {
+    const rules = getNormalizationRules(['timestamps', 'identifiers'])
+    const baseline = snapshotWith(
+      { id: '0b6f1b1e-5d3a-4c1f-9a55-1f0e8c4e2a10', createdAt: '2024-01-01T10:00:00Z', total: 10 },
+      { date: 'Mon, 01 Jan 2024 10:00:00 GMT', 'x-request-id': 'abc' }
+    )
+    const current = snapshotWith(
+      { id: '7d0e2c58-2f0b-4f7e-8b4a-3c6f1d9e0b22', createdAt: '2024-02-03T11:30:00Z', total: 12 },
+      { date: 'Sat, 03 Feb 2024 11:30:00 GMT', 'x-request-id': 'def' }
+    )
+
+    expect(normalizeSnapshot(current, rules).response.data).toEqual({ id: '<uuid>', createdAt: '<iso-date>', total: 12 })
+
+    const { differences } = new DiffEngine(rules).compareSnapshots(baseline, current)
+    expect(differences.map(d => d.path)).toEqual(['response.data.total'])
+  })
+
+  it('applies custom regex rules only below their path', () => {
+    const rules = [{ path: 'response.data.session', normalize: { regex: '^sess_[a-z0-9]+$', placeholder: '<session>' } }]
+    const snapshot = snapshotWith({ session: { id: 'sess_9f2k' }, other: 'sess_1abc' })
+
+    expect(normalizeSnapshot(snapshot, rules).response.data).toEqual({ session: { id: '<session>' }, other: 'sess_1abc' })
+    expect(() => getNormalizationRules(['timestamp'])).toThrow(/Unknown normalization preset/)
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import http from 'http'
+import type { AddressInfo } from 'net'
+import { buildWebhookPayload, deliverWebhook, maskWebhookUrl, meetsMinSeverity, testNotification, validateWebhookTarget } from '../src/utils/webhooks.js'
+
+// Local receiver answering with the given statuses in turn, recording every request
+async function startSink(statuses: number[]) {
+  const received: Array<{ headers: http.IncomingHttpHeaders; body: any }> = []
+  const server = http.createServer((request, response) => {
+    let body = ''
+    request.on('data', chunk => { body += chunk })
+    request.on('end', () => {
+      received.push({ headers: request.headers, body: JSON.parse(body) })
+      response.statusCode = statuses[Math.min(received.length - 1, statuses.length - 1)]
+      response.end()
+    })
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks/T000/secret`
+  return { url, received, close: () => new Promise(resolve => server.close(resolve)) }
+}
+
+const noWait = async () => {}
+
+describe('webhook payloads', () => {
+  const notification = { ...testNotification('shop'), event: 'comparison.changes' as const, runId: 'run-1', trigger: 'schedule' }
+
+  it('builds a generic JSON document with a summary per endpoint', () => {
+    const payload = buildWebhookPayload('generic', notification)
+
+    expect(payload).toMatchObject({
+      event: 'comparison.changes',
+      space: 'shop',
+      runId: 'run-1',
+      trigger: 'schedule',
+      summary: { changedEndpoints: 1, total: 2, breaking: 2 },
+      endpoints: [{ endpoint: 'example-endpoint', differences: [{ path: 'response.data.email', type: 'removed', severity: 'breaking' }, { path: 'response.data.id' }] }]
+    })
+  })
+
+  it('builds Slack blocks and a Teams adaptive card', () => {
+    const slack = buildWebhookPayload('slack', notification)
+    expect(slack.text).toBe("2 breaking change(s) in space 'shop'")
+    expect(slack.blocks[2].text.text).toContain('*example-endpoint*: 2 breaking\n• `response.data.email` removed (breaking)')
+
+    const teams = buildWebhookPayload('teams', notification)
+    const card = teams.attachments[0].content
+    expect(card.type).toBe('AdaptiveCard')
+    expect(card.body[0]).toMatchObject({ text: "2 breaking change(s) in space 'shop'", color: 'Attention' })
+    expect(card.body[1].facts).toContainEqual({ title: 'Trigger', value: 'schedule' })
+  })
+
+  it('filters comparisons by minimum severity and validates targets', () => {
+    const [comparison] = notification.comparisons
+    const informational = { ...comparison, differences: [{ path: 'response.headers.date', type: 'changed' as const, severity: 'informational' as const }] }
+
+    expect(meetsMinSeverity(comparison)).toBe(true)
+    expect(meetsMinSeverity(informational)).toBe(false)
+    expect(meetsMinSeverity(informational, 'informational')).toBe(true)
+
+    expect(validateWebhookTarget({ name: 'team', url: 'https://hooks.slack.com/services/x', format: 'slack' })).toBeNull()
+    expect(validateWebhookTarget({ name: 'team', url: 'ftp://example.com' })).toMatch(/url/)
+    expect(validateWebhookTarget({ format: 'discord' as any }, true)).toMatch(/format/)
+    expect(maskWebhookUrl('https://hooks.slack.com/services/T000/B000/XXXX')).toBe('https://hooks.slack.com/********')
+  })
+})
+
+describe('deliverWebhook', () => {
+  it('retries server errors until the receiver accepts the payload', async () => {
+    const sink = await startSink([503, 200])
+    try {
+      const delivery = await deliverWebhook({ url: sink.url, headers: { Authorization: 'Bearer abc' } }, { hello: 'world' }, noWait)
+
+      expect(delivery).toMatchObject({ status: 'delivered', attempts: 2, responseStatus: 200 })
+      expect(sink.received).toHaveLength(2)
+      expect(sink.received[1].body).toEqual({ hello: 'world' })
+      expect(sink.received[1].headers.authorization).toBe('Bearer abc')
+      expect(sink.received[1].headers['content-type']).toBe('application/json')
+    } finally {
+      await sink.close()
+    }
+  })
+
+  it('gives up on client errors and after the last retry', async () => {
+    const sink = await startSink([404])
+    try {
+      expect(await deliverWebhook({ url: sink.url }, {}, noWait)).toMatchObject({ status: 'failed', attempts: 1, responseStatus: 404, error: 'HTTP 404' })
+    } finally {
+      await sink.close()
+    }
+
+    const failing = await startSink([500])
+    try {
+      expect(await deliverWebhook({ url: failing.url, retry: { maxRetries: 2 } }, {}, noWait)).toMatchObject({ status: 'failed', attempts: 3, responseStatus: 500 })
+    } finally {
+      await failing.close()
+    }
+  })
+})
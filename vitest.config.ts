@@ -3,6 +3,12 @@ import { defineConfig } from 'vitest/config'
 export default defineConfig({
   test: {
     globals: true,
-    environment: 'node'
+    environment: 'node',
+    // Route and scheduler tests work in a temp directory with their own snapshots.db, which needs
+    // process.chdir and that is not available in worker threads
+    poolMatchGlobs: [
+      ['**/tests/*-routes.test.ts', 'child_process'],
+      ['**/tests/capture-scheduler.test.ts', 'child_process']
+    ]
   }
 })